@@ -28,14 +28,17 @@ const nextConfig = {
       bodySizeLimit: '10mb',
     },
   },
-  // Add static file handling for uploaded images
+  // Serve uploaded images through the storage-aware route. beforeFiles so files
+  // under public/uploads also get ?w=&h= transforms instead of the static copy.
   async rewrites() {
-    return [
-      {
-        source: '/uploads/:path*',
-        destination: '/api/uploads/:path*',
-      },
-    ];
+    return {
+      beforeFiles: [
+        {
+          source: '/uploads/:path*',
+          destination: '/api/uploads/:path*',
+        },
+      ],
+    };
   },
 };
 
@@ -0,0 +1,36 @@
+const { PrismaClient } = require('@prisma/client');
+
+const prisma = new PrismaClient();
+
+// One-off: articles created before the editorial workflow only have isPublished.
+// Give published ones the PUBLISHED status so they stay visible after `db push`.
+async function main() {
+  console.log('📝 Backfilling article statuses...\n');
+
+  try {
+    const result = await prisma.article.updateMany({
+      where: {
+        isPublished: true,
+        status: 'DRAFT',
+      },
+      data: {
+        status: 'PUBLISHED',
+      },
+    });
+
+    console.log(`✅ Marked ${result.count} article(s) as PUBLISHED`);
+    console.log('\n🎉 Backfill completed!\n');
+  } catch (error) {
+    console.error('\n❌ Error backfilling article statuses:', error);
+    throw error;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,30 @@
+import { prisma } from '../src/lib/prisma';
+import { refreshProductPriceRange } from '../src/lib/product-catalog';
+
+// One-off: products saved before priceMin/priceMax existed have no price range,
+// so price filters and sorting skip them until it is computed.
+//
+//   npm run backfill:price-range
+async function main() {
+  console.log('📝 Backfilling product price ranges...\n');
+
+  try {
+    await refreshProductPriceRange();
+
+    const missing = await prisma.product.count({ where: { priceMin: null } });
+    console.log(`✅ Price ranges refreshed; ${missing} product(s) have no price or exchange rate`);
+    console.log('\n🎉 Backfill completed!\n');
+  } catch (error) {
+    console.error('\n❌ Error backfilling price ranges:', error);
+    throw error;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
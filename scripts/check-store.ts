@@ -0,0 +1,88 @@
+import { Store, isStoreDriver } from '../src/lib/store';
+import { createMemoryStore } from '../src/lib/store-memory';
+import { createRedisStore } from '../src/lib/store-redis';
+
+// Exercises a cache/rate-limit store end to end, e.g. against a local redis-server
+// before switching STORE_DRIVER in production.
+//
+//   npm run store:check -- --driver redis [--url redis://localhost:6379]
+//
+// Keys are written under a throwaway prefix and expire within a minute.
+
+interface Options {
+  driver: 'memory' | 'redis';
+  url: string;
+}
+
+function parseArgs(argv: string[]): Options {
+  const valueOf = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index === -1 ? undefined : argv[index + 1];
+  };
+
+  const driver = valueOf('--driver') || 'memory';
+  if (!isStoreDriver(driver)) {
+    throw new Error('Usage: check-store --driver <memory|redis> [--url redis://host:port]');
+  }
+
+  return { driver, url: valueOf('--url') || process.env.REDIS_URL || 'redis://localhost:6379' };
+}
+
+function check(label: string, passed: boolean) {
+  console.log(`${passed ? 'ok  ' : 'FAIL'} ${label}`);
+  if (!passed) process.exitCode = 1;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const prefix = `namngam-check:${Date.now()}:`;
+  // Two stores stand in for two app instances; the memory store can only talk to itself
+  const create = (): Store =>
+    options.driver === 'redis' ? createRedisStore({ url: options.url, prefix }) : createMemoryStore();
+  const first = create();
+  const second = options.driver === 'redis' ? create() : first;
+
+  await first.set('value', { answer: 42 }, 60);
+  check('set and get', (await second.get<{ answer: number }>('value'))?.answer === 42);
+
+  await first.delete('value');
+  check('delete', (await second.get('value')) === null);
+
+  await first.set('short', 1, 1);
+  await new Promise((resolve) => setTimeout(resolve, 1200));
+  check('expiry', (await first.get('short')) === null);
+
+  await first.set('tagged-a', 'a', 60, ['group']);
+  await first.set('tagged-b', 'b', 60, ['group', 'other']);
+  await first.set('untagged', 'c', 60);
+  await second.invalidateTag('group');
+  check(
+    'tag invalidation',
+    (await first.get('tagged-a')) === null && (await first.get('tagged-b')) === null && (await first.get('untagged')) === 'c'
+  );
+
+  const claims = await Promise.all([first.claim('once', 60), second.claim('once', 60)]);
+  check('claim succeeds exactly once', claims.filter(Boolean).length === 1);
+
+  const results = await Promise.all(Array.from({ length: 8 }, (_, i) => (i % 2 ? first : second).rateLimit('limit', 5, 1000)));
+  check('rate limit allows exactly the limit under concurrency', results.filter((result) => result.success).length === 5);
+  await new Promise((resolve) => setTimeout(resolve, 1100));
+  check('rate limit window slides', (await first.rateLimit('limit', 5, 1000)).success);
+
+  const received = new Promise<string>((resolve) => second.subscribe('bust', resolve));
+  // Give the subscriber connection a moment to register
+  await new Promise((resolve) => setTimeout(resolve, 200));
+  await first.publish('bust', 'hello');
+  const message = await Promise.race([received, new Promise((resolve) => setTimeout(() => resolve(null), 2000))]);
+  check('publish reaches subscribers', message === 'hello');
+
+  await first.delete('untagged', 'limit', 'once');
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  // Redis connections would keep the process alive
+  .finally(() => process.exit());
@@ -0,0 +1,121 @@
+import { PrismaClient } from '@prisma/client';
+import { StorageBackend, getStorageFor, isStorageBackend, mediaKey } from '../src/lib/storage';
+import { parseImageDerivatives } from '../src/lib/performance';
+
+const prisma = new PrismaClient();
+
+// Copies Media files between storage backends and points the rows at the new one.
+// Media URLs do not change, so content referencing them keeps working.
+//
+//   npm run storage:migrate -- --from local --to s3 [--dry-run] [--delete-source]
+//
+// The S3_* / STORAGE_LOCAL_DIR variables from .env must be set for both backends.
+
+interface Options {
+  from: StorageBackend;
+  to: StorageBackend;
+  dryRun: boolean;
+  deleteSource: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const valueOf = (flag: string) => {
+    const index = argv.indexOf(flag);
+    return index === -1 ? undefined : argv[index + 1];
+  };
+
+  const from = valueOf('--from');
+  const to = valueOf('--to');
+
+  if (!isStorageBackend(from) || !isStorageBackend(to)) {
+    throw new Error('Usage: migrate-media-storage --from <local|s3> --to <local|s3> [--dry-run] [--delete-source]');
+  }
+  if (from === to) {
+    throw new Error('--from and --to must be different backends');
+  }
+
+  return {
+    from,
+    to,
+    dryRun: argv.includes('--dry-run'),
+    deleteSource: argv.includes('--delete-source'),
+  };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const source = getStorageFor(options.from);
+  const target = getStorageFor(options.to);
+
+  console.log(`📦 Migrating media from ${options.from} to ${options.to}${options.dryRun ? ' (dry run)' : ''}...\n`);
+
+  const media = await prisma.media.findMany({
+    where: { storage: options.from },
+    select: { id: true, url: true, originalName: true, derivatives: true },
+    orderBy: { uploadedAt: 'asc' },
+  });
+
+  let migrated = 0;
+  const missing: string[] = [];
+  const failed: string[] = [];
+
+  for (const item of media) {
+    const key = mediaKey(item);
+
+    try {
+      const file = await source.get(key);
+      if (!file) {
+        missing.push(key);
+        console.warn(`⚠️  Missing in ${options.from}: ${key}`);
+        continue;
+      }
+
+      // Responsive copies travel with the original; any already missing are skipped
+      const derivativeKeys = parseImageDerivatives(item.derivatives).map(mediaKey);
+
+      if (!options.dryRun) {
+        await target.put(key, file.body, file.contentType);
+        for (const derivativeKey of derivativeKeys) {
+          const derivative = await source.get(derivativeKey);
+          if (derivative) {
+            await target.put(derivativeKey, derivative.body, derivative.contentType);
+          }
+        }
+        await prisma.media.update({
+          where: { id: item.id },
+          data: { storage: options.to, path: key },
+        });
+        if (options.deleteSource) {
+          await source.delete(key);
+          for (const derivativeKey of derivativeKeys) {
+            await source.delete(derivativeKey);
+          }
+        }
+      }
+
+      migrated++;
+      console.log(`✅ ${key}`);
+    } catch (error) {
+      failed.push(key);
+      console.error(`❌ ${key}:`, error);
+    }
+  }
+
+  console.log(`\n${options.dryRun ? 'Would migrate' : 'Migrated'} ${migrated} of ${media.length} file(s)`);
+  if (missing.length > 0) {
+    console.log(`Skipped ${missing.length} file(s) missing from ${options.from}`);
+  }
+  if (failed.length > 0) {
+    console.log(`Failed ${failed.length} file(s); re-run to retry them`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
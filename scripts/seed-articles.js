@@ -141,6 +141,7 @@ async function main() {
           data: {
             ...article,
             createdById: admin.id,
+            status: article.isPublished ? 'PUBLISHED' : 'DRAFT',
             publishedAt: new Date(),
           },
         });
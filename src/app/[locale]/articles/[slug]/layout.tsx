@@ -0,0 +1,56 @@
+import type { Metadata } from 'next';
+import { prisma } from '@/lib/prisma';
+import { publishDueArticles } from '@/lib/article-publishing';
+import { getTranslatedLocales } from '@/lib/translation-coverage';
+import { Locale } from '@/i18n';
+
+const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://localhost:3000';
+
+interface ArticleLayoutProps {
+  children: React.ReactNode;
+  params: {
+    locale: string;
+    slug: string;
+  };
+}
+
+// The article page renders on the client, so its indexing hints are set here
+export async function generateMetadata({ params }: ArticleLayoutProps): Promise<Metadata> {
+  const locale = params.locale as Locale;
+  await publishDueArticles();
+  const article = await prisma.article.findFirst({
+    where: { slug: params.slug, status: 'PUBLISHED' },
+    select: {
+      slug: true,
+      title_lo: true,
+      title_th: true,
+      title_zh: true,
+      title_en: true,
+      content_lo: true,
+      content_th: true,
+      content_zh: true,
+      content_en: true,
+    },
+  });
+
+  if (!article) {
+    return {};
+  }
+
+  // A locale without its own title and body is showing the Lao article
+  const translated = getTranslatedLocales(article, ['title', 'content']);
+
+  return {
+    ...(!translated.includes(locale) && { robots: { index: false, follow: true } }),
+    alternates: {
+      canonical: `${baseUrl}/${locale}/articles/${article.slug}`,
+      languages: Object.fromEntries(
+        translated.map((l) => [l, `${baseUrl}/${l}/articles/${article.slug}`])
+      ),
+    },
+  };
+}
+
+export default function ArticleLayout({ children }: ArticleLayoutProps) {
+  return children;
+}
@@ -1,9 +1,11 @@
 'use client';
 
+import { Suspense } from 'react';
 import { useTranslations, useLocale } from 'next-intl';
 import { MessageCircle, Facebook, Phone, Mail, MapPin } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { useSettings } from '@/hooks/useSettings';
+import ContactForm from '@/components/contact/ContactForm';
 
 export const dynamic = 'force-dynamic';
 
@@ -127,6 +129,12 @@ export default function ContactPage() {
                 </div>
               </div>
             )}
+
+            <div className="mt-12">
+              <Suspense>
+                <ContactForm />
+              </Suspense>
+            </div>
           </div>
         </div>
       </section>
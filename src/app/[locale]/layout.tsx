@@ -3,8 +3,11 @@ import { getLocalizedContent } from '@/lib/i18n-helpers';
 import { notFound } from 'next/navigation';
 import { locales } from '@/i18n';
 import '../../styles/globals.css';
-import GoogleAnalytics from '@/components/analytics/GoogleAnalytics';
+import AnalyticsLoader from '@/components/analytics/AnalyticsLoader';
+import PageViewTracker from '@/components/analytics/PageViewTracker';
+import WebVitalsTracker from '@/components/analytics/WebVitalsTracker';
 import StructuredData, { OrganizationStructuredData } from '@/components/seo/StructuredData';
+import MaintenanceBanner from '@/components/layout/MaintenanceBanner';
 
 export default function LocaleLayout({
   children,
@@ -26,7 +29,6 @@ export default function LocaleLayout({
   return (
     <html lang={locale}>
       <head>
-        <GoogleAnalytics />
         <OrganizationStructuredData 
           data={{
             name: 'NAMNGAM',
@@ -40,8 +42,12 @@ export default function LocaleLayout({
         />
       </head>
       <body className="min-h-screen">
+        <MaintenanceBanner />
+        <PageViewTracker locale={locale} />
+        <WebVitalsTracker />
         <NextIntlClientProvider messages={messages}>
           {children}
+          <AnalyticsLoader />
         </NextIntlClientProvider>
       </body>
     </html>
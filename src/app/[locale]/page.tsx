@@ -1,30 +1,17 @@
-'use client';
+import { getHomeSections } from '@/lib/home-sections';
+import { Locale } from '@/i18n';
+import HomeSectionRenderer from '@/components/home/HomeSectionRenderer';
 
-import { useState, useEffect } from 'react';
-import { usePathname } from 'next/navigation';
-import HeroSection from '@/components/home/HeroSection';
-import HeroAboutTransition from '@/components/home/HeroAboutTransition';
-import AboutContent from '@/components/AboutContent';
-import FeaturedProducts from '@/components/home/FeaturedProducts';
-import LatestArticles from '@/components/home/LatestArticles';
-import FAQSection from '@/components/home/FAQSection';
+export const dynamic = 'force-dynamic';
 
-export default function HomePage({ params }: { params: { locale: string } }) {
-  const pathname = usePathname();
-  const [isAdminPage, setIsAdminPage] = useState(false);
+export default async function HomePage({ params }: { params: { locale: string } }) {
+  const sections = await getHomeSections();
 
-  useEffect(() => {
-    setIsAdminPage(pathname.includes('/admin'));
-  }, [pathname]);
-  
   return (
     <div>
-      <HeroSection />
-      <HeroAboutTransition />
-      <AboutContent locale={params.locale} />
-      <FeaturedProducts />
-      <LatestArticles />
-      <FAQSection locale={params.locale} />
+      {sections.map((section) => (
+        <HomeSectionRenderer key={section.id} section={section} locale={params.locale as Locale} />
+      ))}
     </div>
   );
 }
@@ -0,0 +1,225 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getTranslations } from 'next-intl/server';
+import { prisma } from '@/lib/prisma';
+import { getLocalizedField } from '@/lib/i18n-helpers';
+import { truncate, getPriceRange } from '@/lib/utils';
+import { productVariantInclude } from '@/lib/product-variants';
+import { getTranslatedLocales } from '@/lib/translation-coverage';
+import { Locale } from '@/i18n';
+import ProductDetail from '@/components/products/ProductDetail';
+import { ProductStructuredData, BreadcrumbStructuredData } from '@/components/seo/StructuredData';
+
+export const dynamic = 'force-dynamic';
+
+const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://localhost:3000';
+
+interface ProductPageProps {
+  params: {
+    locale: string;
+    slug: string;
+  };
+}
+
+async function getProduct(slug: string) {
+  return prisma.product.findFirst({
+    where: { slug, isPublished: true },
+    include: {
+      category: true,
+      images: {
+        orderBy: { order: 'asc' },
+      },
+      ...productVariantInclude,
+    },
+  });
+}
+
+async function getContactSettings() {
+  try {
+    return await prisma.siteSettings.findUnique({
+      where: { id: 'site_settings' },
+      select: {
+        whatsapp: true,
+        whatsappMessage_lo: true,
+        whatsappMessage_th: true,
+        whatsappMessage_zh: true,
+        whatsappMessage_en: true,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching contact settings:', error);
+    return null;
+  }
+}
+
+export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
+  const locale = params.locale as Locale;
+  const product = await getProduct(params.slug);
+
+  if (!product) {
+    return {};
+  }
+
+  const name = getLocalizedField(product, 'name', locale);
+  const title = getLocalizedField(product, 'metaTitle', locale) || name;
+  const description =
+    getLocalizedField(product, 'metaDesc', locale) ||
+    truncate(getLocalizedField(product, 'description', locale), 160);
+  const url = `${baseUrl}/${locale}/products/${product.slug}`;
+  // Untranslated locales render the Lao fallback: keep them out of the index and hreflang
+  const translated = getTranslatedLocales(product, ['name', 'description']);
+
+  return {
+    title,
+    description,
+    ...(!translated.includes(locale) && { robots: { index: false, follow: true } }),
+    alternates: {
+      canonical: url,
+      languages: Object.fromEntries(
+        translated.map((l) => [l, `${baseUrl}/${l}/products/${product.slug}`])
+      ),
+    },
+    openGraph: {
+      title,
+      description,
+      url,
+      type: 'website',
+      images: product.featuredImage ? [{ url: product.featuredImage, alt: name }] : undefined,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: product.featuredImage ? [product.featuredImage] : undefined,
+    },
+  };
+}
+
+export default async function ProductPage({ params }: ProductPageProps) {
+  const locale = params.locale as Locale;
+  const [product, settings] = await Promise.all([
+    getProduct(params.slug),
+    getContactSettings(),
+  ]);
+
+  if (!product) {
+    notFound();
+  }
+
+  const t = await getTranslations({ locale });
+  const name = getLocalizedField(product, 'name', locale);
+  const description = getLocalizedField(product, 'description', locale);
+  const categoryName = getLocalizedField(product.category, 'name', locale);
+  const url = `${baseUrl}/${locale}/products/${product.slug}`;
+  const price = product.price ? Number(product.price) : null;
+  const priceRange = getPriceRange(product.price, product.variants);
+
+  const options = product.options.map((option) => ({
+    id: option.id,
+    name: getLocalizedField(option, 'name', locale),
+    values: option.values.map((value) => ({
+      id: value.id,
+      label: getLocalizedField(value, 'value', locale),
+    })),
+  }));
+
+  const variants = product.variants.map((variant) => ({
+    id: variant.id,
+    sku: variant.sku,
+    price: variant.price !== null ? Number(variant.price) : price,
+    image: variant.image,
+    isAvailable: variant.isAvailable,
+    valueIds: variant.optionValues.map((value) => value.id),
+  }));
+
+  const availability = (isAvailable: boolean) =>
+    isAvailable ? 'https://schema.org/InStock' : 'https://schema.org/OutOfStock';
+
+  // One Offer per priced variant, summarized by an AggregateOffer over the same list
+  const pricedVariants = variants.filter((variant) => variant.price !== null);
+  const variantPrices = pricedVariants.map((variant) => variant.price!);
+  const offers = variants.length > 0
+    ? pricedVariants.length > 0 && {
+        '@type': 'AggregateOffer',
+        lowPrice: Math.min(...variantPrices).toFixed(2),
+        highPrice: Math.max(...variantPrices).toFixed(2),
+        priceCurrency: product.currency,
+        offerCount: pricedVariants.length,
+        availability: availability(pricedVariants.some((variant) => variant.isAvailable)),
+        offers: pricedVariants.map((variant) => ({
+          '@type': 'Offer',
+          sku: variant.sku || undefined,
+          price: variant.price!.toFixed(2),
+          priceCurrency: product.currency,
+          availability: availability(variant.isAvailable),
+          url,
+        })),
+      }
+    : price !== null
+      ? {
+          '@type': 'Offer',
+          price: price.toFixed(2),
+          priceCurrency: product.currency,
+          availability: availability(true),
+          url,
+        }
+      : null;
+
+  const images = product.images.length > 0
+    ? product.images.map((image) => ({
+        id: image.id,
+        url: image.url,
+        alt: getLocalizedField(image, 'alt', locale) || name,
+      }))
+    : product.featuredImage
+      ? [{ id: product.id, url: product.featuredImage, alt: name }]
+      : [];
+
+  const breadcrumbs = [
+    { name: t('nav.home'), url: `/${locale}` },
+    { name: t('product.allProducts'), url: `/${locale}/products` },
+    { name: categoryName, url: `/${locale}/products/category/${product.category.slug}` },
+    { name, url: `/${locale}/products/${product.slug}` },
+  ];
+
+  return (
+    <>
+      <ProductStructuredData
+        name={name}
+        description={description}
+        image={images.map((image) => image.url)}
+        sku={product.sku || undefined}
+        category={categoryName}
+        brand={{ '@type': 'Brand', name: 'NAMNGAM' }}
+        url={url}
+        offers={offers || undefined}
+      />
+      <BreadcrumbStructuredData
+        itemListElement={breadcrumbs.map((crumb, index) => ({
+          '@type': 'ListItem',
+          position: index + 1,
+          name: crumb.name,
+          item: `${baseUrl}${crumb.url}`,
+        }))}
+      />
+      <ProductDetail
+        id={product.id}
+        locale={locale}
+        name={name}
+        description={description}
+        categoryName={categoryName}
+        breadcrumbs={breadcrumbs}
+        images={images}
+        priceRange={priceRange}
+        options={options}
+        variants={variants}
+        currency={product.currency}
+        sku={product.sku}
+        productUrl={url}
+        inquiryUrl={`/${locale}/contact?product=${product.slug}`}
+        whatsapp={settings?.whatsapp || null}
+        whatsappMessage={settings ? getLocalizedField(settings, 'whatsappMessage', locale) : ''}
+      />
+    </>
+  );
+}
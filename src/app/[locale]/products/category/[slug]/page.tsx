@@ -0,0 +1,160 @@
+import type { Metadata } from 'next';
+import { Suspense } from 'react';
+import Image from 'next/image';
+import { notFound } from 'next/navigation';
+import { getTranslations } from 'next-intl/server';
+import { prisma } from '@/lib/prisma';
+import { getLocalizedField } from '@/lib/i18n-helpers';
+import { truncate } from '@/lib/utils';
+import { getPublicCatalog, toURLSearchParams } from '@/lib/product-catalog';
+import { getTranslatedLocales } from '@/lib/translation-coverage';
+import { Locale } from '@/i18n';
+import ProductCatalog from '@/components/products/ProductCatalog';
+import ProductFilters from '@/components/products/ProductFilters';
+import { BreadcrumbStructuredData } from '@/components/seo/StructuredData';
+
+export const dynamic = 'force-dynamic';
+
+const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://localhost:3000';
+
+interface CategoryPageProps {
+  params: {
+    locale: string;
+    slug: string;
+  };
+  searchParams: Record<string, string | string[] | undefined>;
+}
+
+async function getCategory(slug: string) {
+  return prisma.category.findFirst({
+    where: { slug, isActive: true },
+  });
+}
+
+export async function generateMetadata({ params }: CategoryPageProps): Promise<Metadata> {
+  const locale = params.locale as Locale;
+  const category = await getCategory(params.slug);
+
+  if (!category) {
+    return {};
+  }
+
+  const t = await getTranslations({ locale, namespace: 'product' });
+  const name = getLocalizedField(category, 'name', locale);
+  const title = t('categoryProducts', { category: name });
+  const description =
+    truncate(getLocalizedField(category, 'description', locale), 160) || t('description');
+  const url = `${baseUrl}/${locale}/products/category/${category.slug}`;
+  // Only advertise the languages the category is written in
+  const translated = getTranslatedLocales(category, ['name', 'description']);
+
+  return {
+    title,
+    description,
+    ...(!translated.includes(locale) && { robots: { index: false, follow: true } }),
+    alternates: {
+      canonical: url,
+      languages: Object.fromEntries(
+        translated.map((l) => [l, `${baseUrl}/${l}/products/category/${category.slug}`])
+      ),
+    },
+    openGraph: {
+      title,
+      description,
+      url,
+      type: 'website',
+      images: category.image ? [{ url: category.image, alt: name }] : undefined,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: category.image ? [category.image] : undefined,
+    },
+  };
+}
+
+export default async function CategoryPage({ params, searchParams }: CategoryPageProps) {
+  const locale = params.locale as Locale;
+  const category = await getCategory(params.slug);
+
+  if (!category) {
+    notFound();
+  }
+
+  const filterParams = toURLSearchParams(searchParams);
+  filterParams.set('category', category.slug);
+
+  const [t, catalog] = await Promise.all([
+    getTranslations({ locale }),
+    getPublicCatalog(filterParams),
+  ]);
+
+  const name = getLocalizedField(category, 'name', locale);
+  const description = getLocalizedField(category, 'description', locale);
+  const basePath = `/${locale}/products/category/${category.slug}`;
+
+  const breadcrumbs = [
+    { name: t('nav.home'), url: `/${locale}` },
+    { name: t('product.allProducts'), url: `/${locale}/products` },
+    { name, url: basePath },
+  ];
+
+  return (
+    <>
+      <BreadcrumbStructuredData
+        itemListElement={breadcrumbs.map((crumb, index) => ({
+          '@type': 'ListItem',
+          position: index + 1,
+          name: crumb.name,
+          item: `${baseUrl}${crumb.url}`,
+        }))}
+      />
+      <div className="min-h-screen bg-gradient-to-br from-pink-50 via-white to-pink-50">
+        <section className="py-16">
+          <div className="container-custom">
+            <div className="flex flex-col md:flex-row items-center gap-8 mb-12">
+              {category.image && (
+                <div className="relative w-full md:w-80 aspect-[4/3] rounded-2xl overflow-hidden bg-gray-100 flex-shrink-0">
+                  <Image
+                    src={category.image}
+                    alt={name}
+                    fill
+                    priority
+                    sizes="(max-width: 768px) 100vw, 320px"
+                    className="object-cover"
+                  />
+                </div>
+              )}
+              <div className={category.image ? '' : 'w-full text-center'}>
+                <h1 className="text-5xl font-heading font-bold mb-4 bg-gradient-to-r from-pink-500 to-pink-600 bg-clip-text text-transparent">
+                  {name}
+                </h1>
+                {description && (
+                  <p className="text-gray-600 whitespace-pre-line">{description}</p>
+                )}
+              </div>
+            </div>
+
+            <Suspense>
+              <ProductFilters
+                locale={locale}
+                basePath={basePath}
+                facets={catalog.facets}
+                activeCategory={category.slug}
+              />
+            </Suspense>
+            <ProductCatalog
+              key={catalog.query}
+              locale={locale}
+              initialProducts={catalog.products}
+              initialCursor={catalog.nextCursor}
+              total={catalog.total}
+              query={catalog.query}
+            />
+          </div>
+        </section>
+      </div>
+    </>
+  );
+}
@@ -1,27 +1,20 @@
+import { Suspense } from 'react';
 import { getTranslations } from 'next-intl/server';
-import ProductsList from '@/components/products/ProductsList';
-import { Loading } from '@/components/shared/Loading';
+import ProductCatalog from '@/components/products/ProductCatalog';
+import ProductFilters from '@/components/products/ProductFilters';
+import { getPublicCatalog, toURLSearchParams } from '@/lib/product-catalog';
 import DynamicBackground from '@/components/shared/DynamicBackground';
 import { PageStructuredData } from '@/components/seo/StructuredData';
 import Head from 'next/head';
 
 export const dynamic = 'force-dynamic';
 
-async function getProducts() {
-  try {
-    const res = await fetch(`${process.env.NEXTAUTH_URL}/api/products?published=true`, {
-      cache: 'no-store',
-    });
-    if (!res.ok) throw new Error('Failed to fetch');
-    const data = await res.json();
-    return data.data || [];
-  } catch (error) {
-    console.error('Error fetching products:', error);
-    return [];
-  }
+interface ProductsPageProps {
+  params: { locale: string };
+  searchParams: Record<string, string | string[] | undefined>;
 }
 
-export default async function ProductsPage({ params }: { params: { locale: string } }) {
+export default async function ProductsPage({ params, searchParams }: ProductsPageProps) {
   const t = await getTranslations({ locale: params.locale, namespace: 'product' });
 
   const breadcrumbs = [
@@ -61,7 +54,7 @@ export default async function ProductsPage({ params }: { params: { locale: strin
               {t('description')}
             </p>
 
-            <ProductsListWrapper locale={params.locale} />
+            <ProductsListWrapper locale={params.locale} searchParams={toURLSearchParams(searchParams)} />
           </div>
         </section>
       </DynamicBackground>
@@ -70,12 +63,28 @@ export default async function ProductsPage({ params }: { params: { locale: strin
   );
 }
 
-async function ProductsListWrapper({ locale }: { locale: string }) {
-  const products = await getProducts();
-  
-  if (products.length === 0) {
-    return <Loading message="กำลังโหลดสินค้า..." />;
-  }
-  
-  return <ProductsList products={products} locale={locale} />;
+async function ProductsListWrapper({
+  locale,
+  searchParams,
+}: {
+  locale: string;
+  searchParams: URLSearchParams;
+}) {
+  const catalog = await getPublicCatalog(searchParams);
+
+  return (
+    <>
+      <Suspense>
+        <ProductFilters locale={locale} basePath={`/${locale}/products`} facets={catalog.facets} />
+      </Suspense>
+      <ProductCatalog
+        key={catalog.query}
+        locale={locale}
+        initialProducts={catalog.products}
+        initialCursor={catalog.nextCursor}
+        total={catalog.total}
+        query={catalog.query}
+      />
+    </>
+  );
 }
@@ -0,0 +1,37 @@
+import { Suspense } from 'react';
+import { Metadata } from 'next';
+import { getTranslations } from 'next-intl/server';
+import SearchResults from '@/components/search/SearchResults';
+import { Loading } from '@/components/shared/Loading';
+
+export const dynamic = 'force-dynamic';
+
+export async function generateMetadata({ params }: { params: { locale: string } }): Promise<Metadata> {
+  const t = await getTranslations({ locale: params.locale, namespace: 'search' });
+
+  return {
+    title: `${t('title')} | NAMNGAM`,
+    // Result pages are thin, query-dependent content
+    robots: { index: false, follow: true },
+  };
+}
+
+export default async function SearchPage({ params }: { params: { locale: string } }) {
+  const t = await getTranslations({ locale: params.locale, namespace: 'search' });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 via-white to-pink-50">
+      <section className="py-16">
+        <div className="container-custom max-w-4xl">
+          <h1 className="text-5xl font-heading font-bold mb-8 text-center bg-gradient-to-r from-pink-500 to-pink-600 bg-clip-text text-transparent">
+            {t('title')}
+          </h1>
+
+          <Suspense fallback={<Loading />}>
+            <SearchResults />
+          </Suspense>
+        </div>
+      </section>
+    </div>
+  );
+}
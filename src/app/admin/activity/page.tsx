@@ -0,0 +1,346 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import toast from 'react-hot-toast';
+import { CheckCircle, Clock, AlertCircle, Users, ShieldAlert, ChevronDown, ChevronUp } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { LoadingPage } from '@/components/shared/Loading';
+
+interface ActivityItem {
+  id: string;
+  type: 'create' | 'update' | 'delete' | 'login' | 'login_failed';
+  resource: string;
+  resourceId: string | null;
+  description: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  } | null;
+  timestamp: string;
+  metadata: {
+    before: Record<string, any> | null;
+    after: Record<string, any> | null;
+    ipAddress: string | null;
+  };
+}
+
+const RESOURCES = ['Article', 'Product', 'Category', 'FAQ', 'FAQCategory', 'Settings', 'User', 'Media', 'AboutPage', 'Inquiry', 'QuickLink', 'HomeSection', 'Tag', 'Auth'];
+const TYPES = ['create', 'update', 'delete', 'login', 'login_failed'];
+
+const typeStyles: Record<ActivityItem['type'], { bg: string; icon: JSX.Element }> = {
+  create: { bg: 'bg-green-100', icon: <CheckCircle size={16} className="text-green-600" /> },
+  update: { bg: 'bg-blue-100', icon: <Clock size={16} className="text-blue-600" /> },
+  delete: { bg: 'bg-red-100', icon: <AlertCircle size={16} className="text-red-600" /> },
+  login: { bg: 'bg-gray-100', icon: <Users size={16} className="text-gray-600" /> },
+  login_failed: { bg: 'bg-orange-100', icon: <ShieldAlert size={16} className="text-orange-600" /> },
+};
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+export default function AdminActivityPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [activity, setActivity] = useState<ActivityItem[]>([]);
+  const [users, setUsers] = useState<any[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [filters, setFilters] = useState({
+    userId: '',
+    resource: '',
+    type: '',
+    from: '',
+    to: '',
+  });
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/admin/login');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchUsers();
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchActivity();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, page, filters]);
+
+  const fetchUsers = async () => {
+    try {
+      const res = await fetch('/api/users');
+      const data = await res.json();
+
+      if (data.success) {
+        setUsers(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
+  const fetchActivity = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: page.toString(), limit: '30' });
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+
+      const res = await fetch(`/api/admin/activity?${params.toString()}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setActivity(data.data);
+        setTotalPages(Math.max(1, data.pagination?.totalPages || 1));
+      } else {
+        toast.error(data.error || 'Failed to load activity');
+      }
+    } catch (error) {
+      console.error('Error fetching activity:', error);
+      toast.error('Failed to load activity');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setPage(1);
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const resetFilters = () => {
+    setPage(1);
+    setFilters({ userId: '', resource: '', type: '', from: '', to: '' });
+  };
+
+  if (status === 'loading') {
+    return <LoadingPage />;
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  // Group entries by calendar day for the timeline
+  const groups = activity.reduce<Record<string, ActivityItem[]>>((acc, item) => {
+    const day = new Date(item.timestamp).toLocaleDateString(undefined, {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+    (acc[day] = acc[day] || []).push(item);
+    return acc;
+  }, {});
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-heading font-bold mb-2">Activity Log</h1>
+          <p className="text-gray-600">Audit trail of changes and sign-ins</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium mb-1">User</label>
+              <select
+                value={filters.userId}
+                onChange={(e) => updateFilter('userId', e.target.value)}
+                className="input"
+              >
+                <option value="">All Users</option>
+                {users.map((user) => (
+                  <option key={user.id} value={user.id}>
+                    {user.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Resource</label>
+              <select
+                value={filters.resource}
+                onChange={(e) => updateFilter('resource', e.target.value)}
+                className="input"
+              >
+                <option value="">All Resources</option>
+                {RESOURCES.map((resource) => (
+                  <option key={resource} value={resource}>
+                    {resource}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Type</label>
+              <select
+                value={filters.type}
+                onChange={(e) => updateFilter('type', e.target.value)}
+                className="input"
+              >
+                <option value="">All Types</option>
+                {TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type.replace('_', ' ')}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">From</label>
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter('from', e.target.value)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">To</label>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter('to', e.target.value)}
+                className="input"
+              />
+            </div>
+            <Button variant="outline" size="sm" onClick={resetFilters}>
+              Reset
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Timeline */}
+      <Card>
+        <CardContent className="pt-6">
+          {loading ? (
+            <p className="text-gray-500 text-center py-12">Loading activity...</p>
+          ) : activity.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-6xl mb-4">🕒</div>
+              <p className="text-gray-600">No activity matches these filters</p>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {Object.entries(groups).map(([day, items]) => (
+                <div key={day}>
+                  <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-4">{day}</h2>
+                  <ol className="relative border-l border-gray-200 ml-4 space-y-6">
+                    {items.map((item) => {
+                      const style = typeStyles[item.type] || typeStyles.update;
+                      const changedFields = Object.keys({
+                        ...(item.metadata.before || {}),
+                        ...(item.metadata.after || {}),
+                      });
+                      const isExpanded = expanded === item.id;
+
+                      return (
+                        <li key={item.id} className="ml-6">
+                          <span className={`absolute -left-4 flex items-center justify-center w-8 h-8 rounded-full ${style.bg}`}>
+                            {style.icon}
+                          </span>
+                          <div className="flex items-start justify-between gap-4">
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium text-gray-900">{item.description}</p>
+                              <p className="text-xs text-gray-500">
+                                {item.user ? (item.user.name || item.user.email) : 'Unknown user'}
+                                {' • '}{item.resource}
+                                {' • '}{new Date(item.timestamp).toLocaleTimeString()}
+                                {item.metadata.ipAddress && ` • ${item.metadata.ipAddress}`}
+                              </p>
+                            </div>
+                            {changedFields.length > 0 && (
+                              <button
+                                onClick={() => setExpanded(isExpanded ? null : item.id)}
+                                className="flex items-center gap-1 text-xs text-pink-500 hover:text-pink-600 flex-shrink-0"
+                              >
+                                {changedFields.length} field{changedFields.length !== 1 ? 's' : ''}
+                                {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                              </button>
+                            )}
+                          </div>
+
+                          {isExpanded && (
+                            <div className="mt-3 overflow-x-auto">
+                              <table className="w-full text-xs">
+                                <thead>
+                                  <tr className="border-b border-gray-200">
+                                    <th className="text-left py-2 px-3 font-medium text-gray-700">Field</th>
+                                    <th className="text-left py-2 px-3 font-medium text-gray-700">Before</th>
+                                    <th className="text-left py-2 px-3 font-medium text-gray-700">After</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {changedFields.map((field) => (
+                                    <tr key={field} className="border-b border-gray-100 align-top">
+                                      <td className="py-2 px-3 font-mono text-gray-700">{field}</td>
+                                      <td className="py-2 px-3 text-red-700 bg-red-50 break-all max-w-xs">
+                                        {formatValue(item.metadata.before?.[field])}
+                                      </td>
+                                      <td className="py-2 px-3 text-green-700 bg-green-50 break-all max-w-xs">
+                                        {formatValue(item.metadata.after?.[field])}
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between mt-8 pt-6 border-t border-gray-100">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page <= 1}
+                onClick={() => setPage(page - 1)}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-gray-600">
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= totalPages}
+                onClick={() => setPage(page + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
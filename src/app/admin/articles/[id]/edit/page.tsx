@@ -34,18 +34,21 @@ export default function EditArticlePage() {
             excerpt_zh: data.data.excerpt_zh || '',
             excerpt_en: data.data.excerpt_en || '',
             featuredImage: data.data.featuredImage || '',
-            isPublished: data.data.isPublished,
             isFeatured: data.data.isFeatured,
             metaTitle_lo: data.data.metaTitle_lo || '',
             metaTitle_th: data.data.metaTitle_th || '',
             metaTitle_zh: data.data.metaTitle_zh || '',
             metaTitle_en: data.data.metaTitle_en || '',
-            metaDescription_lo: data.data.metaDescription_lo || '',
-            metaDescription_th: data.data.metaDescription_th || '',
-            metaDescription_zh: data.data.metaDescription_zh || '',
-            metaDescription_en: data.data.metaDescription_en || '',
+            metaDesc_lo: data.data.metaDesc_lo || '',
+            metaDesc_th: data.data.metaDesc_th || '',
+            metaDesc_zh: data.data.metaDesc_zh || '',
+            metaDesc_en: data.data.metaDesc_en || '',
           };
-          setArticle(formData);
+          setArticle({
+            formData,
+            machineTranslated: data.data.machineTranslated || [],
+            tags: (data.data.tags || []).map((item: any) => item.tag),
+          });
         } else {
           setError(data.error || 'Article not found');
         }
@@ -89,7 +92,9 @@ export default function EditArticlePage() {
   return (
     <ArticleForm 
       articleId={params.id as string} 
-      initialData={article}
+      initialData={article.formData}
+      initialMachineTranslated={article.machineTranslated}
+      initialTags={article.tags}
     />
   );
 }
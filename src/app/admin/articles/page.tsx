@@ -5,16 +5,23 @@ import { useRouter } from 'next/navigation';
 import { useSession } from 'next-auth/react';
 import Link from 'next/link';
 import Image from 'next/image';
-import { Plus, Pencil, Trash2, Eye, EyeOff } from 'lucide-react';
-import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { LoadingPage } from '@/components/shared/Loading';
+import { ArticleStatusBadge } from '@/components/admin/forms/ArticleWorkflowPanel';
+import { ARTICLE_STATUSES, ARTICLE_STATUS_LABELS, ArticleStatus } from '@/lib/article-workflow';
+import { LOCALE_LABELS } from '@/lib/i18n-helpers';
+import type { Locale } from '@/i18n';
 import toast from 'react-hot-toast';
 
 export default function AdminArticlesPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const [articles, setArticles] = useState<any[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ArticleStatus | ''>('');
+  const [missingLocale, setMissingLocale] = useState<Locale | ''>('');
+  const [statusCounts, setStatusCounts] = useState<Partial<Record<ArticleStatus, number>>>({});
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -28,16 +35,21 @@ export default function AdminArticlesPage() {
       fetchArticles();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [status]);
+  }, [status, statusFilter, missingLocale]);
 
   const fetchArticles = async () => {
     setLoading(true);
     try {
-      const res = await fetch('/api/articles?published=false');
+      const params = new URLSearchParams({ published: 'false' });
+      if (statusFilter) params.set('status', statusFilter);
+      if (missingLocale) params.set('missing', missingLocale);
+
+      const res = await fetch(`/api/articles?${params.toString()}`);
       const data = await res.json();
 
       if (data.success) {
         setArticles(data.data);
+        setStatusCounts(data.statusCounts || {});
       }
     } catch (error) {
       console.error('Error fetching articles:', error);
@@ -94,9 +106,57 @@ export default function AdminArticlesPage() {
         </Link>
       </div>
 
+      {/* Status and translation filters */}
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {(['', ...ARTICLE_STATUSES] as const).map((option) => {
+          const count = option
+            ? statusCounts[option] || 0
+            : Object.values(statusCounts).reduce((sum, value) => sum + (value || 0), 0);
+
+          return (
+            <button
+              key={option || 'all'}
+              onClick={() => setStatusFilter(option)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                statusFilter === option
+                  ? 'bg-pink-500 text-white'
+                  : 'bg-white text-gray-700 border border-gray-200 hover:border-pink-300'
+              }`}
+            >
+              {option ? ARTICLE_STATUS_LABELS[option] : 'All'} ({count})
+            </button>
+          );
+        })}
+        <select
+          value={missingLocale}
+          onChange={(e) => setMissingLocale(e.target.value as Locale | '')}
+          className="input max-w-xs ml-auto"
+        >
+          <option value="">All translations</option>
+          {Object.entries(LOCALE_LABELS).map(([code, label]) => (
+            <option key={code} value={code}>
+              Missing {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
       <Card>
         <CardContent className="pt-6">
-          {articles.length === 0 ? (
+          {articles.length === 0 && missingLocale ? (
+            <div className="text-center py-12">
+              <div className="text-6xl mb-4">📝</div>
+              <p className="text-gray-600">
+                No {statusFilter ? `${ARTICLE_STATUS_LABELS[statusFilter].toLowerCase()} ` : ''}articles are missing{' '}
+                {LOCALE_LABELS[missingLocale]}
+              </p>
+            </div>
+          ) : articles.length === 0 && statusFilter ? (
+            <div className="text-center py-12">
+              <div className="text-6xl mb-4">📝</div>
+              <p className="text-gray-600">No {ARTICLE_STATUS_LABELS[statusFilter].toLowerCase()} articles</p>
+            </div>
+          ) : articles.length === 0 ? (
             <div className="text-center py-12">
               <div className="text-6xl mb-4">📝</div>
               <p className="text-gray-600 mb-4">No articles yet</p>
@@ -148,6 +208,11 @@ export default function AdminArticlesPage() {
                         <span className="text-sm text-gray-600">
                           {article.createdBy?.name || 'Unknown'}
                         </span>
+                        {article.reviewer && (
+                          <div className="text-xs text-gray-500">
+                            Reviewer: {article.reviewer.name}
+                          </div>
+                        )}
                       </td>
                       <td className="py-3 px-4">
                         <span className="text-sm text-gray-600">
@@ -158,17 +223,7 @@ export default function AdminArticlesPage() {
                       </td>
                       <td className="py-3 px-4">
                         <div className="flex items-center gap-2">
-                          {article.isPublished ? (
-                            <span className="inline-flex items-center gap-1 px-2 py-1 bg-green-100 text-green-700 rounded text-xs font-medium">
-                              <Eye size={12} />
-                              Published
-                            </span>
-                          ) : (
-                            <span className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs font-medium">
-                              <EyeOff size={12} />
-                              Draft
-                            </span>
-                          )}
+                          <ArticleStatusBadge status={article.status} />
                           {article.isFeatured && (
                             <span className="px-2 py-1 bg-pink-100 text-pink-700 rounded text-xs font-medium">
                               ⭐ Featured
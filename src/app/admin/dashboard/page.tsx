@@ -6,7 +6,8 @@ import { useEffect, useState } from 'react';
 import { Package, FileText, FolderOpen, Eye, Users, TrendingUp, Clock, AlertCircle, CheckCircle } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { LoadingPage } from '@/components/shared/Loading';
-import { createOptimizedQuery } from '@/lib/performance';
+import { can } from '@/lib/permissions';
+import PageViewCharts from '@/components/admin/dashboard/PageViewCharts';
 
 interface DashboardStats {
   totalProducts: number;
@@ -20,7 +21,7 @@ interface DashboardStats {
 
 interface ActivityItem {
   id: string;
-  type: 'create' | 'update' | 'delete';
+  type: 'create' | 'update' | 'delete' | 'login' | 'login_failed';
   resource: string;
   description: string;
   timestamp: string;
@@ -28,7 +29,7 @@ interface ActivityItem {
     id: string;
     name: string;
     email: string;
-  };
+  } | null;
 }
 
 interface SystemHealth {
@@ -72,12 +73,12 @@ export default function AdminDashboardPage() {
         activityResponse,
         healthResponse
       ] = await Promise.allSettled([
-        fetch('/api/products?limit=1'),
+        fetch('/api/products?limit=1&facets=false'),
         fetch('/api/articles?limit=1'),
         fetch('/api/categories?limit=1'),
         fetch('/api/users?limit=1'),
         fetch('/api/analytics/views'),
-        fetch('/api/admin/activity'),
+        fetch('/api/admin/activity?limit=5'),
         fetch('/api/admin/health')
       ]);
 
@@ -99,7 +100,7 @@ export default function AdminDashboardPage() {
         : 0;
       
       const totalViews = viewsResponse.status === 'fulfilled'
-        ? (await viewsResponse.value.json()).total || 0
+        ? (await viewsResponse.value.json()).data?.total || 0
         : 0;
       
       const recentActivity = activityResponse.status === 'fulfilled'
@@ -276,6 +277,9 @@ export default function AdminDashboardPage() {
         })}
       </div>
 
+      {/* Page views */}
+      {can(session.user?.role, 'analytics', 'read') && <PageViewCharts />}
+
       {/* Quick Actions & Recent Activity */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Quick Actions */}
@@ -332,12 +336,15 @@ export default function AdminDashboardPage() {
                     <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
                       activity.type === 'create' ? 'bg-green-100' :
                       activity.type === 'update' ? 'bg-blue-100' :
+                      activity.type === 'login' ? 'bg-gray-100' :
                       'bg-red-100'
                     }`}>
                       {activity.type === 'create' ? (
                         <CheckCircle size={16} className="text-green-600" />
                       ) : activity.type === 'update' ? (
                         <Clock size={16} className="text-blue-600" />
+                      ) : activity.type === 'login' ? (
+                        <Users size={16} className="text-gray-600" />
                       ) : (
                         <AlertCircle size={16} className="text-red-600" />
                       )}
@@ -347,23 +354,21 @@ export default function AdminDashboardPage() {
                         {activity.description}
                       </p>
                       <p className="text-xs text-gray-500">
-                        {typeof activity.user === 'object'
+                        {activity.user
                           ? (activity.user.name || activity.user.email)
-                          : activity.user} • {new Date(activity.timestamp).toLocaleString()}
+                          : 'Unknown user'} • {new Date(activity.timestamp).toLocaleString()}
                       </p>
                     </div>
                   </div>
                 ))
               )}
             </div>
-            {stats.recentActivity.length > 5 && (
-              <button 
-                onClick={() => router.push('/admin/activity')}
-                className="w-full mt-4 text-center text-pink-500 hover:text-pink-600 text-sm font-medium"
-              >
-                View All Activity
-              </button>
-            )}
+            <button 
+              onClick={() => router.push('/admin/activity')}
+              className="w-full mt-4 text-center text-pink-500 hover:text-pink-600 text-sm font-medium"
+            >
+              View All Activity
+            </button>
           </CardContent>
         </Card>
       </div>
@@ -0,0 +1,263 @@
+'use client';
+
+import { useState } from 'react';
+import * as Tabs from '@radix-ui/react-tabs';
+import toast from 'react-hot-toast';
+import type { SectionType } from '@prisma/client';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import ImagePicker from '@/components/admin/forms/ImagePicker';
+import RichTextEditor from '@/components/admin/forms/RichTextEditor';
+
+export interface HomeSection {
+  id: string;
+  type: SectionType;
+  title_lo: string | null;
+  title_th: string | null;
+  title_zh: string | null;
+  title_en: string | null;
+  subtitle_lo: string | null;
+  subtitle_th: string | null;
+  subtitle_zh: string | null;
+  subtitle_en: string | null;
+  content_lo: string | null;
+  content_th: string | null;
+  content_zh: string | null;
+  content_en: string | null;
+  backgroundImage: string | null;
+  settings: { limit?: number; featuredOnly?: boolean } | null;
+  order: number;
+  isActive: boolean;
+}
+
+export const SECTION_TYPES: Array<{
+  value: SectionType;
+  label: string;
+  description: string;
+  limit?: { default: number; max: number };
+  featuredFilter?: boolean;
+}> = [
+  { value: 'HERO', label: 'Hero', description: 'Welcome banner; text defaults to the hero fields in Settings' },
+  { value: 'ABOUT', label: 'About', description: 'Story and values from the About page' },
+  {
+    value: 'PRODUCTS',
+    label: 'Products',
+    description: 'Grid of published products',
+    limit: { default: 3, max: 12 },
+    featuredFilter: true,
+  },
+  {
+    value: 'ARTICLES',
+    label: 'Articles',
+    description: 'Latest published articles',
+    limit: { default: 2, max: 12 },
+    featuredFilter: true,
+  },
+  { value: 'FAQ', label: 'FAQ', description: 'Frequently asked questions', limit: { default: 4, max: 20 } },
+  { value: 'CONTACT', label: 'Contact', description: 'Inquiry form' },
+  { value: 'CUSTOM', label: 'Custom', description: 'Your own rich text content' },
+];
+
+const languages = [
+  { code: 'lo', label: 'ພາສາລາວ', flag: '🇱🇦' },
+  { code: 'th', label: 'ภาษาไทย', flag: '🇹🇭' },
+  { code: 'zh', label: '中文', flag: '🇨🇳' },
+  { code: 'en', label: 'English', flag: '🇬🇧' },
+];
+
+type FormState = Record<string, string | boolean> & {
+  type: SectionType;
+  limit: string;
+  featuredOnly: boolean;
+  isActive: boolean;
+};
+
+function toForm(section?: HomeSection): FormState {
+  const form: FormState = {
+    type: section?.type || 'PRODUCTS',
+    backgroundImage: section?.backgroundImage || '',
+    limit: section?.settings?.limit ? String(section.settings.limit) : '',
+    featuredOnly: section?.settings?.featuredOnly !== false,
+    isActive: section?.isActive ?? true,
+  };
+
+  for (const lang of languages) {
+    for (const field of ['title', 'subtitle', 'content']) {
+      const key = `${field}_${lang.code}` as keyof HomeSection;
+      form[`${field}_${lang.code}`] = (section?.[key] as string | null) || '';
+    }
+  }
+
+  return form;
+}
+
+interface HomeSectionFormProps {
+  section?: HomeSection;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+export default function HomeSectionForm({ section, onClose, onSave }: HomeSectionFormProps) {
+  const [form, setForm] = useState<FormState>(() => toForm(section));
+  const [activeTab, setActiveTab] = useState('lo');
+  const [saving, setSaving] = useState(false);
+
+  const typeConfig = SECTION_TYPES.find((type) => type.value === form.type);
+  const isCustom = form.type === 'CUSTOM';
+
+  const updateField = (field: string, value: string | boolean) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    const { limit, featuredOnly, ...fields } = form;
+
+    try {
+      const res = await fetch(section ? `/api/home-sections/${section.id}` : '/api/home-sections', {
+        method: section ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...fields,
+          settings: { limit: limit || undefined, featuredOnly },
+        }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success(section ? 'Section updated' : 'Section created');
+        onSave();
+      } else {
+        toast.error(data.error || 'Failed to save section');
+      }
+    } catch (error) {
+      console.error('Save error:', error);
+      toast.error('Failed to save section');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-neutral-700 mb-3">Section Type</label>
+          <select
+            value={form.type}
+            onChange={(e) => updateField('type', e.target.value)}
+            className="input"
+            disabled={!!section}
+          >
+            {SECTION_TYPES.map((type) => (
+              <option key={type.value} value={type.value}>
+                {type.label}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">{typeConfig?.description}</p>
+        </div>
+
+        {typeConfig?.limit && (
+          <Input
+            label="Items to show"
+            type="number"
+            min={1}
+            max={typeConfig.limit.max}
+            value={form.limit}
+            onChange={(e) => updateField('limit', e.target.value)}
+            placeholder={String(typeConfig.limit.default)}
+          />
+        )}
+      </div>
+
+      {typeConfig?.featuredFilter && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.featuredOnly}
+            onChange={(e) => updateField('featuredOnly', e.target.checked)}
+            className="rounded border-gray-300 text-pink-500 focus:ring-pink-500"
+          />
+          Featured items only
+        </label>
+      )}
+
+      <Tabs.Root value={activeTab} onValueChange={setActiveTab}>
+        <Tabs.List className="flex gap-2 border-b mb-6">
+          {languages.map((lang) => (
+            <Tabs.Trigger
+              key={lang.code}
+              value={lang.code}
+              className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900 data-[state=active]:text-pink-600 data-[state=active]:border-b-2 data-[state=active]:border-pink-600 transition-colors"
+            >
+              {lang.flag} {lang.label}
+            </Tabs.Trigger>
+          ))}
+        </Tabs.List>
+
+        {languages.map((lang) => (
+          <Tabs.Content key={lang.code} value={lang.code} className="space-y-4">
+            <Input
+              label={`Title (${lang.label})`}
+              value={form[`title_${lang.code}`] as string}
+              onChange={(e) => updateField(`title_${lang.code}`, e.target.value)}
+              placeholder={lang.code === 'lo' ? 'Leave empty to use the default heading' : 'Falls back to Lao'}
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Subtitle ({lang.label})</label>
+              <textarea
+                value={form[`subtitle_${lang.code}`] as string}
+                onChange={(e) => updateField(`subtitle_${lang.code}`, e.target.value)}
+                rows={2}
+                className="input"
+              />
+            </div>
+            {isCustom && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Content ({lang.label}){lang.code === 'lo' && <span className="text-pink-500 ml-1">*</span>}
+                </label>
+                <RichTextEditor
+                  value={form[`content_${lang.code}`] as string}
+                  onChange={(html) => updateField(`content_${lang.code}`, html)}
+                  placeholder={`Write section content in ${lang.label}...`}
+                />
+              </div>
+            )}
+          </Tabs.Content>
+        ))}
+      </Tabs.Root>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Background Image (Optional)</label>
+        <ImagePicker
+          value={form.backgroundImage as string}
+          onChange={(url) => updateField('backgroundImage', url)}
+          folder="home"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={form.isActive}
+          onChange={(e) => updateField('isActive', e.target.checked)}
+          className="rounded border-gray-300 text-pink-500 focus:ring-pink-500"
+        />
+        Show on homepage
+      </label>
+
+      <div className="flex justify-end gap-3">
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={saving}>
+          {saving ? 'Saving...' : section ? 'Save Changes' : 'Add Section'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,265 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { Reorder } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { Plus, Pencil, Trash2, GripVertical, Eye, EyeOff, X, ExternalLink } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { LoadingPage } from '@/components/shared/Loading';
+import HomeSectionForm, { HomeSection, SECTION_TYPES } from './HomeSectionForm';
+
+export default function AdminHomeSectionsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [sections, setSections] = useState<HomeSection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<HomeSection | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/admin/login');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchSections();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  const fetchSections = async () => {
+    try {
+      const res = await fetch('/api/home-sections');
+      const data = await res.json();
+
+      if (data.success) {
+        setSections(data.data);
+      } else {
+        toast.error(data.error || 'Failed to load sections');
+      }
+    } catch (error) {
+      console.error('Error fetching sections:', error);
+      toast.error('Failed to load sections');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (section: HomeSection) => {
+    setEditing(section);
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  const handleSaved = () => {
+    closeForm();
+    fetchSections();
+  };
+
+  const handleToggleActive = async (section: HomeSection) => {
+    try {
+      const res = await fetch(`/api/home-sections/${section.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...section, isActive: !section.isActive }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setSections((prev) => prev.map((item) => (item.id === section.id ? data.data : item)));
+      } else {
+        toast.error(data.error || 'Failed to update section');
+      }
+    } catch (error) {
+      console.error('Toggle error:', error);
+      toast.error('Failed to update section');
+    }
+  };
+
+  const handleDelete = async (section: HomeSection) => {
+    if (!confirm(`Are you sure you want to delete this ${sectionLabel(section)} section?`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/home-sections/${section.id}`, {
+        method: 'DELETE',
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success('Section deleted');
+        if (editing?.id === section.id) closeForm();
+        fetchSections();
+      } else {
+        toast.error(data.error || 'Failed to delete section');
+      }
+    } catch (error) {
+      console.error('Delete error:', error);
+      toast.error('Failed to delete section');
+    }
+  };
+
+  // Persist the order once a drag finishes rather than on every intermediate swap
+  const saveOrder = async () => {
+    const unchanged = sections.every((section, index) => index === 0 || sections[index - 1].order < section.order);
+    if (unchanged) return;
+
+    try {
+      const res = await fetch('/api/home-sections/reorder', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: sections.map((section) => section.id) }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setSections(data.data);
+      } else {
+        toast.error(data.error || 'Failed to save order');
+        fetchSections();
+      }
+    } catch (error) {
+      console.error('Reorder error:', error);
+      toast.error('Failed to save order');
+      fetchSections();
+    }
+  };
+
+  if (status === 'loading' || loading) {
+    return <LoadingPage />;
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-heading font-bold mb-2">Homepage</h1>
+          <p className="text-gray-600">Choose which sections appear on the homepage. Drag to reorder.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <a href="/" target="_blank" rel="noopener noreferrer">
+            <Button variant="outline">
+              <ExternalLink size={18} />
+              View Site
+            </Button>
+          </a>
+          <Button onClick={openCreate}>
+            <Plus size={20} />
+            Add Section
+          </Button>
+        </div>
+      </div>
+
+      {showForm && (
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>{editing ? `Edit ${sectionLabel(editing)} Section` : 'New Section'}</CardTitle>
+              <button onClick={closeForm} className="p-2 hover:bg-gray-100 rounded-lg" aria-label="Close">
+                <X size={18} />
+              </button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <HomeSectionForm
+              key={editing?.id || 'new'}
+              section={editing || undefined}
+              onClose={closeForm}
+              onSave={handleSaved}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {sections.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-6xl mb-4">🏠</div>
+              <p className="text-gray-600 mb-1">No sections yet</p>
+              <p className="text-sm text-gray-500 mb-4">
+                The homepage shows the default layout until the first section is added.
+              </p>
+              <Button onClick={openCreate}>
+                <Plus size={20} />
+                Add First Section
+              </Button>
+            </div>
+          ) : (
+            <Reorder.Group axis="y" values={sections} onReorder={setSections} className="space-y-2">
+              {sections.map((section) => (
+                <Reorder.Item
+                  key={section.id}
+                  value={section}
+                  onDragEnd={saveOrder}
+                  className="flex items-center gap-4 p-3 bg-white border border-gray-200 rounded-xl cursor-grab active:cursor-grabbing"
+                >
+                  <GripVertical size={18} className="text-gray-400 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900">
+                      {sectionLabel(section)}
+                      {section.settings?.limit && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          {section.settings.limit} items{section.settings.featuredOnly ? ', featured only' : ''}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500 truncate">
+                      {section.title_lo || section.title_en || 'Default heading'}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleToggleActive(section)}
+                    className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium ${
+                      section.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                    }`}
+                  >
+                    {section.isActive ? <Eye size={12} /> : <EyeOff size={12} />}
+                    {section.isActive ? 'Visible' : 'Hidden'}
+                  </button>
+                  <button
+                    onClick={() => openEdit(section)}
+                    className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                    aria-label="Edit"
+                  >
+                    <Pencil size={18} className="text-gray-600" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(section)}
+                    className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                    aria-label="Delete"
+                  >
+                    <Trash2 size={18} className="text-red-600" />
+                  </button>
+                </Reorder.Item>
+              ))}
+            </Reorder.Group>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function sectionLabel(section: HomeSection) {
+  return SECTION_TYPES.find((type) => type.value === section.type)?.label || section.type;
+}
@@ -0,0 +1,410 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import toast from 'react-hot-toast';
+import { Download, Mail, Phone, Package, ChevronDown, ChevronUp, Trash2, Save } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { LoadingPage } from '@/components/shared/Loading';
+
+type InquiryStatus = 'NEW' | 'IN_PROGRESS' | 'CLOSED';
+
+interface Inquiry {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  message: string;
+  locale: string;
+  status: InquiryStatus;
+  notes: string | null;
+  createdAt: string;
+  product: { id: string; slug: string; name_lo: string; name_en: string } | null;
+  assignee: { id: string; name: string; email: string } | null;
+}
+
+const STATUSES: InquiryStatus[] = ['NEW', 'IN_PROGRESS', 'CLOSED'];
+
+const STATUS_LABELS: Record<InquiryStatus, string> = {
+  NEW: 'New',
+  IN_PROGRESS: 'In Progress',
+  CLOSED: 'Closed',
+};
+
+const statusStyles: Record<InquiryStatus, string> = {
+  NEW: 'bg-pink-100 text-pink-700',
+  IN_PROGRESS: 'bg-blue-100 text-blue-700',
+  CLOSED: 'bg-gray-100 text-gray-600',
+};
+
+export default function AdminInquiriesPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [inquiries, setInquiries] = useState<Inquiry[]>([]);
+  const [users, setUsers] = useState<any[]>([]);
+  const [statusCounts, setStatusCounts] = useState<Partial<Record<InquiryStatus, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [filters, setFilters] = useState({
+    status: '' as InquiryStatus | '',
+    assigneeId: '',
+    search: '',
+  });
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/admin/login');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchUsers();
+    }
+  }, [status]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchInquiries();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, page, filters]);
+
+  const filterParams = () => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    return params;
+  };
+
+  const fetchUsers = async () => {
+    try {
+      const res = await fetch('/api/users');
+      const data = await res.json();
+
+      if (data.success) {
+        setUsers(data.data.filter((user: any) => user.isActive));
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    }
+  };
+
+  const fetchInquiries = async () => {
+    setLoading(true);
+    try {
+      const params = filterParams();
+      params.set('page', page.toString());
+
+      const res = await fetch(`/api/inquiries?${params.toString()}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setInquiries(data.data);
+        setStatusCounts(data.statusCounts || {});
+        setTotalPages(Math.max(1, data.pagination?.totalPages || 1));
+      } else {
+        toast.error(data.error || 'Failed to load inquiries');
+      }
+    } catch (error) {
+      console.error('Error fetching inquiries:', error);
+      toast.error('Failed to load inquiries');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setPage(1);
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const updateInquiry = async (id: string, changes: Partial<{ status: InquiryStatus; assigneeId: string; notes: string }>) => {
+    try {
+      const res = await fetch(`/api/inquiries/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success('Inquiry updated');
+        if (changes.status) {
+          // Counts and the filtered list depend on the status
+          fetchInquiries();
+        } else {
+          setInquiries((prev) => prev.map((inquiry) => (inquiry.id === id ? data.data : inquiry)));
+        }
+      } else {
+        toast.error(data.error || 'Failed to update inquiry');
+      }
+    } catch (error) {
+      console.error('Error updating inquiry:', error);
+      toast.error('Failed to update inquiry');
+    }
+  };
+
+  const deleteInquiry = async (id: string) => {
+    if (!confirm('Delete this inquiry?')) return;
+
+    try {
+      const res = await fetch(`/api/inquiries/${id}`, { method: 'DELETE' });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success('Inquiry deleted');
+        fetchInquiries();
+      } else {
+        toast.error(data.error || 'Failed to delete inquiry');
+      }
+    } catch (error) {
+      console.error('Error deleting inquiry:', error);
+      toast.error('Failed to delete inquiry');
+    }
+  };
+
+  const toggleExpanded = (inquiry: Inquiry) => {
+    if (expanded === inquiry.id) {
+      setExpanded(null);
+      return;
+    }
+    setExpanded(inquiry.id);
+    setNotes((prev) => ({ ...prev, [inquiry.id]: inquiry.notes || '' }));
+  };
+
+  if (status === 'loading') {
+    return <LoadingPage />;
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  const totalCount = Object.values(statusCounts).reduce((sum, value) => sum + (value || 0), 0);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-heading font-bold mb-2">Inquiries</h1>
+          <p className="text-gray-600">Messages sent through the contact form</p>
+        </div>
+        <a href={`/api/inquiries/export?${filterParams().toString()}`} download>
+          <Button variant="outline">
+            <Download size={20} />
+            Export CSV
+          </Button>
+        </a>
+      </div>
+
+      {/* Status filters */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {(['', ...STATUSES] as const).map((option) => (
+          <button
+            key={option || 'all'}
+            onClick={() => updateFilter('status', option)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+              filters.status === option
+                ? 'bg-pink-500 text-white'
+                : 'bg-white text-gray-700 border border-gray-200 hover:border-pink-300'
+            }`}
+          >
+            {option ? STATUS_LABELS[option] : 'All'} ({option ? statusCounts[option] || 0 : totalCount})
+          </button>
+        ))}
+      </div>
+
+      {/* Filters */}
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium mb-1">Assignee</label>
+              <select
+                value={filters.assigneeId}
+                onChange={(e) => updateFilter('assigneeId', e.target.value)}
+                className="input"
+              >
+                <option value="">Anyone</option>
+                <option value="unassigned">Unassigned</option>
+                {users.map((user) => (
+                  <option key={user.id} value={user.id}>
+                    {user.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium mb-1">Search</label>
+              <input
+                type="search"
+                value={filters.search}
+                onChange={(e) => updateFilter('search', e.target.value)}
+                placeholder="Name, email, phone or message"
+                className="input"
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {loading ? (
+            <p className="text-gray-500 text-center py-12">Loading inquiries...</p>
+          ) : inquiries.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-6xl mb-4">📭</div>
+              <p className="text-gray-600">No inquiries match these filters</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {inquiries.map((inquiry) => {
+                const isExpanded = expanded === inquiry.id;
+
+                return (
+                  <li key={inquiry.id} className="py-4">
+                    <button
+                      onClick={() => toggleExpanded(inquiry)}
+                      className="w-full flex items-start justify-between gap-4 text-left"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-medium text-gray-900">{inquiry.name}</span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[inquiry.status]}`}>
+                            {STATUS_LABELS[inquiry.status]}
+                          </span>
+                          <span className="text-xs text-gray-400 uppercase">{inquiry.locale}</span>
+                        </div>
+                        <p className="text-sm text-gray-600 line-clamp-1">{inquiry.message}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {new Date(inquiry.createdAt).toLocaleString()}
+                          {inquiry.assignee && ` • ${inquiry.assignee.name}`}
+                          {inquiry.product && ` • ${inquiry.product.name_en || inquiry.product.name_lo}`}
+                        </p>
+                      </div>
+                      {isExpanded ? <ChevronUp size={18} className="text-gray-400" /> : <ChevronDown size={18} className="text-gray-400" />}
+                    </button>
+
+                    {isExpanded && (
+                      <div className="mt-4 grid grid-cols-1 lg:grid-cols-3 gap-6">
+                        <div className="lg:col-span-2 space-y-3">
+                          <div className="flex flex-wrap gap-4 text-sm">
+                            {inquiry.email && (
+                              <a href={`mailto:${inquiry.email}`} className="flex items-center gap-1 text-pink-600 hover:underline">
+                                <Mail size={14} />
+                                {inquiry.email}
+                              </a>
+                            )}
+                            {inquiry.phone && (
+                              <a href={`tel:${inquiry.phone}`} className="flex items-center gap-1 text-pink-600 hover:underline">
+                                <Phone size={14} />
+                                {inquiry.phone}
+                              </a>
+                            )}
+                            {inquiry.product && (
+                              <a
+                                href={`/admin/products/${inquiry.product.id}/edit`}
+                                className="flex items-center gap-1 text-pink-600 hover:underline"
+                              >
+                                <Package size={14} />
+                                {inquiry.product.name_en || inquiry.product.name_lo}
+                              </a>
+                            )}
+                          </div>
+                          <p className="text-gray-800 whitespace-pre-line bg-gray-50 rounded-lg p-4">{inquiry.message}</p>
+                        </div>
+
+                        <div className="space-y-4">
+                          <div>
+                            <label className="block text-sm font-medium mb-1">Status</label>
+                            <select
+                              value={inquiry.status}
+                              onChange={(e) => updateInquiry(inquiry.id, { status: e.target.value as InquiryStatus })}
+                              className="input"
+                            >
+                              {STATUSES.map((option) => (
+                                <option key={option} value={option}>
+                                  {STATUS_LABELS[option]}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium mb-1">Assignee</label>
+                            <select
+                              value={inquiry.assignee?.id || ''}
+                              onChange={(e) => updateInquiry(inquiry.id, { assigneeId: e.target.value })}
+                              className="input"
+                            >
+                              <option value="">Unassigned</option>
+                              {users.map((user) => (
+                                <option key={user.id} value={user.id}>
+                                  {user.name}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium mb-1">Internal notes</label>
+                            <textarea
+                              value={notes[inquiry.id] ?? ''}
+                              onChange={(e) => setNotes((prev) => ({ ...prev, [inquiry.id]: e.target.value }))}
+                              rows={4}
+                              className="input"
+                              placeholder="Follow-up details, order references..."
+                            />
+                          </div>
+                          <div className="flex gap-2">
+                            <Button size="sm" onClick={() => updateInquiry(inquiry.id, { notes: notes[inquiry.id] ?? '' })}>
+                              <Save size={16} />
+                              Save Notes
+                            </Button>
+                            <Button size="sm" variant="danger" onClick={() => deleteInquiry(inquiry.id)}>
+                              <Trash2 size={16} />
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between mt-8 pt-6 border-t border-gray-100">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page <= 1}
+                onClick={() => setPage(page - 1)}
+              >
+                Previous
+              </Button>
+              <span className="text-sm text-gray-600">
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= totalPages}
+                onClick={() => setPage(page + 1)}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
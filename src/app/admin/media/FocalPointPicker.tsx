@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { X, Crosshair } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+
+export interface FocalPointMedia {
+  id: string;
+  url: string;
+  originalName: string;
+  width?: number;
+  height?: number;
+  focalX?: number | null;
+  focalY?: number | null;
+}
+
+interface FocalPointPickerProps {
+  media: FocalPointMedia;
+  onClose: () => void;
+  onSaved: (media: FocalPointMedia) => void;
+}
+
+// Crops rendered by /uploads to preview the saved focal point
+const PREVIEWS = [
+  { label: 'Square', width: 256, height: 256 },
+  { label: 'Landscape', width: 384, height: 256 },
+  { label: 'Portrait', width: 256, height: 384 },
+];
+
+export default function FocalPointPicker({ media, onClose, onSaved }: FocalPointPickerProps) {
+  const [point, setPoint] = useState(
+    media.focalX != null && media.focalY != null ? { x: media.focalX, y: media.focalY } : null
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped after saving so the previews are fetched again
+  const [version, setVersion] = useState(0);
+
+  const handlePick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setPoint({
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    });
+  };
+
+  const save = async (value: { x: number; y: number } | null) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/upload/${media.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ focalX: value?.x ?? null, focalY: value?.y ?? null }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to save focal point');
+      }
+
+      setPoint(value);
+      setVersion((v) => v + 1);
+      onSaved(data.data);
+    } catch (err) {
+      console.error('Focal point error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save focal point');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h2 className="text-xl font-semibold">Focal Point</h2>
+            <p className="text-sm text-gray-600">
+              Click the part of {media.originalName} that must stay visible when it is cropped.
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg">
+            <X size={20} />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">{error}</div>
+        )}
+
+        <div className="relative cursor-crosshair select-none mb-6" onClick={handlePick}>
+          <Image
+            src={media.url}
+            alt={media.originalName}
+            width={media.width || 800}
+            height={media.height || 600}
+            unoptimized
+            className="w-full h-auto rounded-lg"
+          />
+          {point && (
+            <div
+              className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-white bg-pink-500/70 shadow-lg pointer-events-none"
+              style={{ left: `${point.x * 100}%`, top: `${point.y * 100}%` }}
+            />
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4 mb-6">
+          {PREVIEWS.map((preview) => (
+            <div key={preview.label} className="text-center">
+              <Image
+                src={`${media.url}?w=${preview.width}&h=${preview.height}&fit=cover&v=${version}`}
+                alt={`${preview.label} crop`}
+                width={preview.width / 2}
+                height={preview.height / 2}
+                unoptimized
+                className="rounded border border-gray-200"
+              />
+              <span className="text-xs text-gray-500">{preview.label}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button variant="ghost" onClick={() => save(null)} disabled={saving || !point}>
+            Reset to Center
+          </Button>
+          <Button onClick={() => point && save(point)} disabled={saving || !point} className="flex items-center gap-2">
+            <Crosshair size={16} />
+            {saving ? 'Saving...' : 'Save Focal Point'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -18,11 +18,18 @@ import {
   FolderOpen,
   Image as ImageIcon,
   FileText,
-  Film
+  Film,
+  RefreshCw,
+  Crosshair,
+  FolderPlus,
+  Tag,
+  Link2
 } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { LoadingPage } from '@/components/shared/Loading';
+import FocalPointPicker from './FocalPointPicker';
+import type { MediaUsage } from '@/lib/media-usage';
 
 interface MediaItem {
   id: string;
@@ -33,7 +40,11 @@ interface MediaItem {
   url: string;
   width?: number;
   height?: number;
+  focalX?: number | null;
+  focalY?: number | null;
   folder?: string;
+  tags: string[];
+  usage: MediaUsage[];
   alt_lo?: string;
   alt_th?: string;
   alt_zh?: string;
@@ -67,6 +78,15 @@ export default function MediaLibraryPage() {
   const [uploadProgress, setUploadProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [pendingDerivatives, setPendingDerivatives] = useState(0);
+  const [generatingDerivatives, setGeneratingDerivatives] = useState(false);
+  const [focalItem, setFocalItem] = useState<MediaItem | null>(null);
+  const [folders, setFolders] = useState<{ name: string; count: number }[]>([]);
+  const [tagFilter, setTagFilter] = useState('');
+  const [usageFilter, setUsageFilter] = useState<'all' | 'used' | 'unused'>('all');
+  const [moveTarget, setMoveTarget] = useState('');
+  const [bulkTag, setBulkTag] = useState('');
+  const [unusedReport, setUnusedReport] = useState<{ ids: string[]; totalSize: number } | null>(null);
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -84,6 +104,8 @@ export default function MediaLibraryPage() {
         limit: '20',
         ...(searchQuery && { search: searchQuery }),
         ...(selectedFolder !== 'all' && { folder: selectedFolder }),
+        ...(tagFilter && { tag: tagFilter }),
+        ...(usageFilter !== 'all' && { usage: usageFilter }),
       });
 
       const response = await fetch(`/api/upload?${params}`);
@@ -100,7 +122,7 @@ export default function MediaLibraryPage() {
     } finally {
       setLoading(false);
     }
-  }, [currentPage, searchQuery, selectedFolder]);
+  }, [currentPage, searchQuery, selectedFolder, tagFilter, usageFilter]);
 
   useEffect(() => {
     if (session) {
@@ -108,6 +130,167 @@ export default function MediaLibraryPage() {
     }
   }, [session, fetchMedia]);
 
+  const fetchFolders = useCallback(async () => {
+    try {
+      const response = await fetch('/api/upload/folders');
+      const data = await response.json();
+
+      if (data.success) {
+        setFolders(data.data);
+      }
+    } catch (err) {
+      console.error('Folders fetch error:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session) {
+      fetchFolders();
+    }
+  }, [session, fetchFolders]);
+
+  const fetchUnusedReport = useCallback(async () => {
+    try {
+      const response = await fetch('/api/upload/unused');
+      const data = await response.json();
+
+      if (data.success) {
+        setUnusedReport({
+          ids: data.data.items.map((item: { id: string }) => item.id),
+          totalSize: data.data.totalSize,
+        });
+      }
+    } catch (err) {
+      console.error('Unused media fetch error:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (usageFilter === 'unused') {
+      fetchUnusedReport();
+    } else {
+      setUnusedReport(null);
+    }
+  }, [usageFilter, fetchUnusedReport]);
+
+  const handleCreateFolder = async () => {
+    const name = prompt('New folder name (letters, numbers, - and _):');
+    if (!name) return;
+
+    try {
+      const response = await fetch('/api/upload/folders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to create folder');
+      }
+
+      await fetchFolders();
+      setSelectedFolder(data.data.name);
+    } catch (err) {
+      console.error('Create folder error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create folder');
+    }
+  };
+
+  const runBulkAction = async (payload: Record<string, unknown>) => {
+    const response = await fetch('/api/upload/bulk', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || 'Bulk action failed');
+    }
+    return data.data;
+  };
+
+  const handleMove = async () => {
+    if (!moveTarget || selectedItems.length === 0) return;
+
+    try {
+      setError(null);
+      await runBulkAction({ action: 'move', ids: selectedItems, folder: moveTarget });
+      setSelectedItems([]);
+      setMoveTarget('');
+      fetchMedia();
+      fetchFolders();
+    } catch (err) {
+      console.error('Move error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to move items');
+    }
+  };
+
+  const handleTag = async (action: 'addTags' | 'removeTags') => {
+    const tags = bulkTag.split(',').map((tag) => tag.trim()).filter(Boolean);
+    if (tags.length === 0 || selectedItems.length === 0) return;
+
+    try {
+      setError(null);
+      await runBulkAction({ action, ids: selectedItems, tags });
+      setBulkTag('');
+      fetchMedia();
+    } catch (err) {
+      console.error('Tag error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update tags');
+    }
+  };
+
+  const fetchPendingDerivatives = useCallback(async () => {
+    try {
+      const response = await fetch('/api/upload/derivatives');
+      const data = await response.json();
+
+      if (data.success) {
+        setPendingDerivatives(data.data.remaining);
+      }
+    } catch (err) {
+      console.error('Derivatives count error:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session) {
+      fetchPendingDerivatives();
+    }
+  }, [session, fetchPendingDerivatives]);
+
+  // Works through older uploads in small batches so each request stays short
+  const handleGenerateDerivatives = async () => {
+    setGeneratingDerivatives(true);
+    setError(null);
+
+    try {
+      let remaining = pendingDerivatives;
+      while (remaining > 0) {
+        const response = await fetch('/api/upload/derivatives', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ batchSize: 5 }),
+        });
+        const data = await response.json();
+
+        if (!data.success) {
+          throw new Error(data.error || 'Failed to generate responsive versions');
+        }
+
+        remaining = data.data.remaining;
+        setPendingDerivatives(remaining);
+      }
+    } catch (err) {
+      console.error('Derivatives error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to generate responsive versions');
+    } finally {
+      setGeneratingDerivatives(false);
+    }
+  };
+
   const handleFileUpload = async (files: FileList) => {
     if (!files.length) return;
 
@@ -154,16 +337,55 @@ export default function MediaLibraryPage() {
     }
 
     try {
-      const deletePromises = ids.map(id => 
-        fetch(`/api/upload/${id}`, { method: 'DELETE' })
-      );
+      setError(null);
+      const result = await runBulkAction({ action: 'delete', ids });
+
+      // Files still referenced somewhere are skipped until the editor confirms
+      if (result.skipped.length > 0) {
+        const details = result.skipped
+          .map((item: { originalName: string; usage: MediaUsage[] }) =>
+            `• ${item.originalName}: ${item.usage.map((usage) => usage.label).join(', ')}`
+          )
+          .join('\n');
+
+        if (confirm(`${result.skipped.length} file(s) are still in use and were not deleted:\n\n${details}\n\nDelete them anyway? Those pages will show broken images.`)) {
+          await runBulkAction({
+            action: 'delete',
+            ids: result.skipped.map((item: { id: string }) => item.id),
+            force: true,
+          });
+        }
+      }
 
-      await Promise.all(deletePromises);
       setSelectedItems([]);
       fetchMedia(); // Refresh the media list
+      fetchFolders();
+      if (usageFilter === 'unused') fetchUnusedReport();
     } catch (err) {
       console.error('Delete error:', err);
-      setError('Failed to delete items');
+      setError(err instanceof Error ? err.message : 'Failed to delete items');
+    }
+  };
+
+  const handleDeleteUnused = async () => {
+    if (!unusedReport || unusedReport.ids.length === 0) return;
+    if (!confirm(`Delete all ${unusedReport.ids.length} unused file(s) (${formatFileSize(unusedReport.totalSize)})? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      // The bulk endpoint takes 200 ids per request and re-checks usage itself
+      for (let i = 0; i < unusedReport.ids.length; i += 200) {
+        await runBulkAction({ action: 'delete', ids: unusedReport.ids.slice(i, i + 200) });
+      }
+      setSelectedItems([]);
+      fetchMedia();
+      fetchFolders();
+      fetchUnusedReport();
+    } catch (err) {
+      console.error('Cleanup error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete unused media');
     }
   };
 
@@ -185,6 +407,10 @@ export default function MediaLibraryPage() {
     );
   };
 
+  // Only raster stills can be cropped by /uploads transforms
+  const supportsFocalPoint = (mimeType: string) =>
+    ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/avif'].includes(mimeType);
+
   const getFileIcon = (mimeType: string) => {
     if (mimeType.startsWith('image/')) return ImageIcon;
     if (mimeType.startsWith('video/')) return Film;
@@ -199,7 +425,7 @@ export default function MediaLibraryPage() {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const filteredFolders = ['all', 'general', 'products', 'articles', 'banners'];
+  const filteredFolders = ['all', ...folders.map((folder) => folder.name)];
 
   if (status === 'loading' || loading) {
     return <LoadingPage />;
@@ -214,13 +440,29 @@ export default function MediaLibraryPage() {
       {/* Header */}
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-heading font-bold">Media Library</h1>
-        <Button
-          onClick={() => setShowUploadModal(true)}
-          className="flex items-center gap-2"
-        >
-          <Upload size={20} />
-          Upload Files
-        </Button>
+        <div className="flex items-center gap-3">
+          {pendingDerivatives > 0 && (
+            <Button
+              onClick={handleGenerateDerivatives}
+              variant="outline"
+              disabled={generatingDerivatives}
+              className="flex items-center gap-2"
+              title="Create resized AVIF/WebP versions of older uploads"
+            >
+              <RefreshCw size={18} className={generatingDerivatives ? 'animate-spin' : ''} />
+              {generatingDerivatives
+                ? `Optimizing… ${pendingDerivatives} left`
+                : `Optimize ${pendingDerivatives} older image${pendingDerivatives !== 1 ? 's' : ''}`}
+            </Button>
+          )}
+          <Button
+            onClick={() => setShowUploadModal(true)}
+            className="flex items-center gap-2"
+          >
+            <Upload size={20} />
+            Upload Files
+          </Button>
+        </div>
       </div>
 
       {/* Error Alert */}
@@ -269,6 +511,44 @@ export default function MediaLibraryPage() {
               </div>
             </div>
 
+            <button
+              onClick={handleCreateFolder}
+              className="p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200"
+              title="New folder"
+            >
+              <FolderPlus size={20} />
+            </button>
+
+            {/* Tag Filter */}
+            <div className="lg:w-40">
+              <div className="relative">
+                <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+                <input
+                  type="text"
+                  placeholder="Tag"
+                  value={tagFilter}
+                  onChange={(e) => setTagFilter(e.target.value.trim().toLowerCase())}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+
+            {/* Usage Filter */}
+            <div className="lg:w-40">
+              <div className="relative">
+                <Link2 className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={18} />
+                <select
+                  value={usageFilter}
+                  onChange={(e) => setUsageFilter(e.target.value as 'all' | 'used' | 'unused')}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent appearance-none"
+                >
+                  <option value="all">Any usage</option>
+                  <option value="used">In use</option>
+                  <option value="unused">Unused</option>
+                </select>
+              </div>
+            </div>
+
             {/* View Mode Toggle */}
             <div className="flex gap-2">
               <button
@@ -288,6 +568,26 @@ export default function MediaLibraryPage() {
         </CardContent>
       </Card>
 
+      {/* Unused Media Report */}
+      {unusedReport && (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg flex items-center justify-between gap-4">
+          <div className="text-amber-900">
+            <p className="font-medium">
+              {unusedReport.ids.length} unused file{unusedReport.ids.length !== 1 ? 's' : ''} ({formatFileSize(unusedReport.totalSize)})
+            </p>
+            <p className="text-sm">
+              Not referenced by any product, category, article, homepage section or site setting.
+            </p>
+          </div>
+          {unusedReport.ids.length > 0 && (
+            <Button onClick={handleDeleteUnused} variant="danger" size="sm" className="flex items-center gap-2">
+              <Trash2 size={16} />
+              Delete All Unused
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Bulk Actions */}
       {selectedItems.length > 0 && (
         <Card>
@@ -305,7 +605,33 @@ export default function MediaLibraryPage() {
                   {selectedItems.length === (media?.data?.length || 0) ? 'Deselect All' : 'Select All'}
                 </Button>
               </div>
-              <div className="flex gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  value={moveTarget}
+                  onChange={(e) => setMoveTarget(e.target.value)}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg"
+                >
+                  <option value="">Move to folder…</option>
+                  {folders.map((folder) => (
+                    <option key={folder.name} value={folder.name}>{folder.name}</option>
+                  ))}
+                </select>
+                <Button onClick={handleMove} variant="outline" size="sm" disabled={!moveTarget}>
+                  Move
+                </Button>
+                <input
+                  type="text"
+                  placeholder="tag1, tag2"
+                  value={bulkTag}
+                  onChange={(e) => setBulkTag(e.target.value)}
+                  className="w-32 px-3 py-1.5 text-sm border border-gray-300 rounded-lg"
+                />
+                <Button onClick={() => handleTag('addTags')} variant="outline" size="sm" disabled={!bulkTag.trim()}>
+                  Add Tag
+                </Button>
+                <Button onClick={() => handleTag('removeTags')} variant="ghost" size="sm" disabled={!bulkTag.trim()}>
+                  Remove Tag
+                </Button>
                 <Button
                   onClick={() => handleDelete(selectedItems)}
                   variant="danger"
@@ -384,7 +710,23 @@ export default function MediaLibraryPage() {
                       <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-75 transition-all p-2 flex flex-col justify-end opacity-0 group-hover:opacity-100">
                         <p className="text-white text-sm truncate">{item.originalName}</p>
                         <p className="text-white text-xs">{formatFileSize(item.size)}</p>
+                        <p className="text-white text-xs">
+                          {item.usage.length > 0 ? `Used in ${item.usage.length} place${item.usage.length !== 1 ? 's' : ''}` : 'Unused'}
+                        </p>
                       </div>
+
+                      {supportsFocalPoint(item.mimeType) && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setFocalItem(item);
+                          }}
+                          className="absolute top-2 right-2 p-1 bg-white rounded shadow opacity-0 group-hover:opacity-100 transition-opacity"
+                          title="Set focal point"
+                        >
+                          <Crosshair size={16} className={item.focalX != null ? 'text-pink-600' : 'text-gray-600'} />
+                        </button>
+                      )}
                     </div>
                   ) : (
                     <div
@@ -408,8 +750,58 @@ export default function MediaLibraryPage() {
                         <p className="text-sm text-gray-600">
                           {formatFileSize(item.size)} • {item.folder || 'general'}
                         </p>
+                        {item.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {item.tags.map((tag) => (
+                              <button
+                                key={tag}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setTagFilter(tag);
+                                }}
+                                className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full hover:bg-pink-100"
+                              >
+                                #{tag}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+                        <p className="text-xs text-gray-500 mt-1">
+                          {item.usage.length === 0 ? (
+                            'Not used anywhere'
+                          ) : (
+                            <>
+                              Used in:{' '}
+                              {item.usage.map((usage, index) => (
+                                <span key={`${usage.type}-${usage.id}-${usage.field}`}>
+                                  {index > 0 && ', '}
+                                  <a
+                                    href={usage.href}
+                                    onClick={(e) => e.stopPropagation()}
+                                    className="text-pink-600 hover:underline"
+                                  >
+                                    {usage.label}
+                                  </a>
+                                </span>
+                              ))}
+                            </>
+                          )}
+                        </p>
                       </div>
                       <div className="flex gap-2">
+                        {supportsFocalPoint(item.mimeType) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Set focal point"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setFocalItem(item);
+                            }}
+                          >
+                            <Crosshair size={16} className={item.focalX != null ? 'text-pink-600' : undefined} />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -476,6 +868,19 @@ export default function MediaLibraryPage() {
       )}
 
       {/* Upload Modal */}
+      {focalItem && (
+        <FocalPointPicker
+          media={focalItem}
+          onClose={() => setFocalItem(null)}
+          onSaved={(updated) =>
+            setMedia((prev) => prev && {
+              ...prev,
+              data: prev.data.map((item) => (item.id === updated.id ? { ...item, ...updated } : item)),
+            })
+          }
+        />
+      )}
+
       {showUploadModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-lg p-6 w-full max-w-md">
@@ -0,0 +1,294 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import toast from 'react-hot-toast';
+import { RefreshCw, TrendingUp, TrendingDown } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { LoadingPage } from '@/components/shared/Loading';
+import { thresholds } from '@/lib/web-vitals';
+import type { CoreMetric, DeviceClass, WebVitalReport, WebVitalRow, WebVitalSummary } from '@/lib/web-vitals-report';
+
+const METRICS: Array<{ name: CoreMetric; label: string }> = [
+  { name: 'LCP', label: 'Largest Contentful Paint' },
+  { name: 'INP', label: 'Interaction to Next Paint' },
+  { name: 'CLS', label: 'Cumulative Layout Shift' },
+  { name: 'FCP', label: 'First Contentful Paint' },
+  { name: 'TTFB', label: 'Time to First Byte' },
+];
+
+const RANGES = [
+  { days: 1, label: 'Last 24 hours' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+];
+
+const DEVICES: DeviceClass[] = ['mobile', 'tablet', 'desktop'];
+
+const RATING_TEXT: Record<string, string> = {
+  good: 'text-green-600',
+  'needs-improvement': 'text-yellow-600',
+  poor: 'text-red-600',
+};
+
+const RATING_BAR: Record<string, string> = {
+  good: 'bg-green-500',
+  'needs-improvement': 'bg-yellow-500',
+  poor: 'bg-red-500',
+};
+
+function formatValue(name: CoreMetric, value: number): string {
+  if (name === 'CLS') return value.toFixed(3);
+  return value >= 1000 ? `${(value / 1000).toFixed(2)} s` : `${Math.round(value)} ms`;
+}
+
+function MetricCell({ row }: { row?: WebVitalRow }) {
+  if (!row) {
+    return <td className="py-3 px-4 text-right text-gray-300">—</td>;
+  }
+
+  return (
+    <td
+      className={`py-3 px-4 text-right ${row.regressed ? 'bg-red-50' : ''}`}
+      title={`${row.samples} samples${row.previousP75 !== null ? `, previously ${formatValue(row.name, row.previousP75)}` : ''}`}
+    >
+      <span className={`font-medium ${RATING_TEXT[row.rating]}`}>{formatValue(row.name, row.p75)}</span>
+      {row.change !== null && Math.abs(row.change) >= 0.01 && (
+        <span
+          className={`ml-2 inline-flex items-center gap-0.5 text-xs ${
+            row.regressed ? 'text-red-600 font-semibold' : row.change < 0 ? 'text-green-600' : 'text-gray-500'
+          }`}
+        >
+          {row.change > 0 ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+          {Math.round(Math.abs(row.change) * 100)}%
+        </span>
+      )}
+    </td>
+  );
+}
+
+export default function AdminPerformancePage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [report, setReport] = useState<WebVitalReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [days, setDays] = useState(7);
+  const [device, setDevice] = useState<DeviceClass | ''>('');
+  const [route, setRoute] = useState('');
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/admin/login');
+    }
+  }, [status, router]);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ days: days.toString() });
+      if (device) params.set('device', device);
+      if (route) params.set('route', route);
+
+      const res = await fetch(`/api/admin/performance?${params}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setReport(data.data);
+      } else {
+        toast.error(data.error || 'Failed to load performance report');
+      }
+    } catch (error) {
+      console.error('Error fetching performance report:', error);
+      toast.error('Failed to load performance report');
+    } finally {
+      setLoading(false);
+    }
+  }, [days, device, route]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchReport();
+    }
+  }, [status, fetchReport]);
+
+  if (status === 'loading' || (loading && !report)) {
+    return <LoadingPage />;
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  // One table row per route and device, one cell per metric
+  const tableRows = new Map<string, { route: string; device: DeviceClass; metrics: Partial<Record<CoreMetric, WebVitalRow>> }>();
+  for (const row of report?.rows || []) {
+    const key = `${row.route}|${row.device}`;
+    const entry = tableRows.get(key) || { route: row.route, device: row.device, metrics: {} };
+    entry.metrics[row.name] = row;
+    tableRows.set(key, entry);
+  }
+  const regressions = (report?.rows || []).filter((row) => row.regressed).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-heading font-bold mb-2">Performance</h1>
+          <p className="text-gray-600">
+            75th percentile of real visits; samples are kept for {report?.retentionDays} days
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchReport} disabled={loading}>
+          <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-3 mb-6">
+        <select value={days} onChange={(e) => setDays(parseInt(e.target.value))} className="input max-w-xs">
+          {RANGES.map((range) => (
+            <option key={range.days} value={range.days}>
+              {range.label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={device}
+          onChange={(e) => setDevice(e.target.value as DeviceClass | '')}
+          className="input max-w-xs"
+        >
+          <option value="">All devices</option>
+          {DEVICES.map((item) => (
+            <option key={item} value={item}>
+              {item.charAt(0).toUpperCase() + item.slice(1)}
+            </option>
+          ))}
+        </select>
+        <select value={route} onChange={(e) => setRoute(e.target.value)} className="input max-w-xs">
+          <option value="">All pages</option>
+          {report?.routes.map((item) => (
+            <option key={item} value={item}>
+              {item}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* p75 per metric */}
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4 mb-6">
+        {METRICS.map(({ name, label }) => {
+          const summary: WebVitalSummary | undefined = report?.summary[name];
+
+          return (
+            <div key={name} className="bg-white rounded-2xl p-5 border border-gray-200">
+              <p className="text-sm text-gray-600" title={label}>{name}</p>
+              <p className={`text-3xl font-bold ${summary ? RATING_TEXT[summary.rating] : 'text-gray-300'}`}>
+                {summary ? formatValue(name, summary.p75) : '—'}
+              </p>
+              <p className="text-xs text-gray-500 mt-2">
+                {summary ? `${summary.samples.toLocaleString()} samples` : 'No data'} · good ≤{' '}
+                {formatValue(name, thresholds[name].good)}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* p75 over time */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Over Time</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!report || report.daily.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No samples in this period</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-5 gap-6">
+              {METRICS.map(({ name }) => {
+                // Scale to the "poor" threshold so bars are comparable across days
+                const max = Math.max(
+                  thresholds[name].needsImprovement,
+                  ...report.daily.map((day) => day.metrics[name]?.p75 || 0)
+                );
+
+                return (
+                  <div key={name}>
+                    <p className="text-sm font-medium text-gray-700 mb-2">{name}</p>
+                    <div className="flex items-end gap-px h-24 border-b border-gray-200">
+                      {report.daily.map((day) => {
+                        const value = day.metrics[name];
+                        return (
+                          <div
+                            key={day.date}
+                            className="flex-1 h-full flex items-end"
+                            title={value ? `${day.date}: ${formatValue(name, value.p75)} (${value.samples})` : day.date}
+                          >
+                            {value && (
+                              <div
+                                className={`w-full rounded-t ${RATING_BAR[value.rating]}`}
+                                style={{ height: `${(value.p75 / max) * 100}%` }}
+                              />
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Per route and device */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle>By Page and Device</CardTitle>
+            {regressions > 0 && (
+              <span className="px-3 py-1 rounded-full bg-red-100 text-red-700 text-sm">
+                {regressions} regression{regressions !== 1 ? 's' : ''} vs. previous {days === 1 ? 'day' : `${days} days`}
+              </span>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {tableRows.size === 0 ? (
+            <p className="text-gray-500 text-center py-8">No samples in this period</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Page</th>
+                    <th className="text-left py-3 px-4 font-medium text-gray-700">Device</th>
+                    {METRICS.map(({ name }) => (
+                      <th key={name} className="text-right py-3 px-4 font-medium text-gray-700">
+                        {name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {Array.from(tableRows.values()).map((entry) => (
+                    <tr key={`${entry.route}|${entry.device}`} className="border-b border-gray-100">
+                      <td className="py-3 px-4 font-mono text-sm">{entry.route}</td>
+                      <td className="py-3 px-4 text-gray-600 capitalize">{entry.device}</td>
+                      {METRICS.map(({ name }) => (
+                        <MetricCell key={name} row={entry.metrics[name]} />
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import ProductForm from '@/components/admin/forms/ProductForm';
+import { toVariantDrafts } from '@/components/admin/forms/ProductVariantsEditor';
 import { LoadingPage } from '@/components/shared/Loading';
 import { Card, CardContent } from '@/components/ui/Card';
 
@@ -10,6 +11,7 @@ export default function EditProductPage() {
   const params = useParams();
   const router = useRouter();
   const [product, setProduct] = useState<any>(null);
+  const [variants, setVariants] = useState<ReturnType<typeof toVariantDrafts>>();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -47,7 +49,8 @@ export default function EditProductPage() {
             metaDescription_zh: data.data.metaDescription_zh || '',
             metaDescription_en: data.data.metaDescription_en || '',
           };
-          setProduct(formData);
+          setProduct({ formData, machineTranslated: data.data.machineTranslated || [] });
+          setVariants(toVariantDrafts(data.data));
         } else {
           setError(data.error || 'Product not found');
         }
@@ -91,7 +94,9 @@ export default function EditProductPage() {
   return (
     <ProductForm 
       productId={params.id as string} 
-      initialData={product}
+      initialData={product.formData}
+      initialMachineTranslated={product.machineTranslated}
+      initialVariants={variants}
     />
   );
 }
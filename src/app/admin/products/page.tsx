@@ -9,6 +9,8 @@ import { Plus, Pencil, Trash2, Eye, EyeOff } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { LoadingPage } from '@/components/shared/Loading';
+import { LOCALE_LABELS } from '@/lib/i18n-helpers';
+import type { Locale } from '@/i18n';
 import toast from 'react-hot-toast';
 
 export default function AdminProductsPage() {
@@ -18,6 +20,7 @@ export default function AdminProductsPage() {
   const [categories, setCategories] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedCategory, setSelectedCategory] = useState('all');
+  const [missingLocale, setMissingLocale] = useState<Locale | ''>('');
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -30,13 +33,17 @@ export default function AdminProductsPage() {
       fetchData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [status, selectedCategory]);
+  }, [status, selectedCategory, missingLocale]);
 
   const fetchData = async () => {
     setLoading(true);
     try {
+      const params = new URLSearchParams({ published: 'false', facets: 'false' });
+      if (selectedCategory !== 'all') params.set('categoryId', selectedCategory);
+      if (missingLocale) params.set('missing', missingLocale);
+
       const [productsRes, categoriesRes] = await Promise.all([
-        fetch(`/api/products?published=false${selectedCategory !== 'all' ? `&categoryId=${selectedCategory}` : ''}`),
+        fetch(`/api/products?${params.toString()}`),
         fetch('/api/categories'),
       ]);
 
@@ -121,6 +128,19 @@ export default function AdminProductsPage() {
                 </option>
               ))}
             </select>
+            <label className="text-sm font-medium">Translation:</label>
+            <select
+              value={missingLocale}
+              onChange={(e) => setMissingLocale(e.target.value as Locale | '')}
+              className="input max-w-xs"
+            >
+              <option value="">All Products</option>
+              {Object.entries(LOCALE_LABELS).map(([code, label]) => (
+                <option key={code} value={code}>
+                  Missing {label}
+                </option>
+              ))}
+            </select>
           </div>
         </CardContent>
       </Card>
@@ -128,7 +148,14 @@ export default function AdminProductsPage() {
       {/* Products Table */}
       <Card>
         <CardContent className="pt-6">
-          {products.length === 0 ? (
+          {products.length === 0 && missingLocale ? (
+            <div className="text-center py-12">
+              <div className="text-6xl mb-4">📦</div>
+              <p className="text-gray-600">
+                No products are missing {LOCALE_LABELS[missingLocale]}
+              </p>
+            </div>
+          ) : products.length === 0 ? (
             <div className="text-center py-12">
               <div className="text-6xl mb-4">📦</div>
               <p className="text-gray-600 mb-4">No products yet</p>
@@ -0,0 +1,429 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { Reorder } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { Plus, Pencil, Trash2, GripVertical, Eye, EyeOff, X } from 'lucide-react';
+import type { LinkType } from '@prisma/client';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { LoadingPage } from '@/components/shared/Loading';
+
+interface QuickLink {
+  id: string;
+  type: LinkType;
+  label_lo: string;
+  label_th: string | null;
+  label_zh: string | null;
+  label_en: string | null;
+  url: string;
+  icon: string | null;
+  color: string | null;
+  order: number;
+  isActive: boolean;
+}
+
+const LINK_TYPES: Array<{ value: LinkType; label: string; placeholder: string }> = [
+  { value: 'WHATSAPP', label: 'WhatsApp', placeholder: 'https://wa.me/8562012345678' },
+  { value: 'FACEBOOK', label: 'Facebook', placeholder: 'https://facebook.com/yourpage' },
+  { value: 'LINE', label: 'LINE', placeholder: 'https://line.me/ti/p/~yourid' },
+  { value: 'PHONE', label: 'Phone', placeholder: 'tel:+8562012345678' },
+  { value: 'EMAIL', label: 'Email', placeholder: 'mailto:hello@namngam.com' },
+  { value: 'TELEGRAM', label: 'Telegram', placeholder: 'https://t.me/yourname' },
+  { value: 'WECHAT', label: 'WeChat', placeholder: 'weixin://dl/chat?yourid' },
+  { value: 'CUSTOM', label: 'Custom', placeholder: 'https://... or /contact' },
+];
+
+const emptyForm = {
+  type: 'WHATSAPP' as LinkType,
+  label_lo: '',
+  label_th: '',
+  label_zh: '',
+  label_en: '',
+  url: '',
+  icon: '',
+  color: '',
+  isActive: true,
+};
+
+function toForm(link: QuickLink) {
+  return {
+    type: link.type,
+    label_lo: link.label_lo,
+    label_th: link.label_th || '',
+    label_zh: link.label_zh || '',
+    label_en: link.label_en || '',
+    url: link.url,
+    icon: link.icon || '',
+    color: link.color || '',
+    isActive: link.isActive,
+  };
+}
+
+export default function AdminQuickLinksPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [links, setLinks] = useState<QuickLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/admin/login');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchLinks();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  const fetchLinks = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/quick-links');
+      const data = await res.json();
+
+      if (data.success) {
+        setLinks(data.data);
+      } else {
+        toast.error(data.error || 'Failed to load quick links');
+      }
+    } catch (error) {
+      console.error('Error fetching quick links:', error);
+      toast.error('Failed to load quick links');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEdit = (link: QuickLink) => {
+    setEditingId(link.id);
+    setForm(toForm(link));
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+  };
+
+  const updateField = (field: keyof typeof emptyForm, value: string | boolean) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const res = await fetch(editingId ? `/api/quick-links/${editingId}` : '/api/quick-links', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success(editingId ? 'Quick link updated' : 'Quick link created');
+        closeForm();
+        fetchLinks();
+      } else {
+        toast.error(data.error || 'Failed to save quick link');
+      }
+    } catch (error) {
+      console.error('Save error:', error);
+      toast.error('Failed to save quick link');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (link: QuickLink) => {
+    try {
+      const res = await fetch(`/api/quick-links/${link.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...toForm(link), isActive: !link.isActive }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setLinks((prev) => prev.map((item) => (item.id === link.id ? data.data : item)));
+      } else {
+        toast.error(data.error || 'Failed to update quick link');
+      }
+    } catch (error) {
+      console.error('Toggle error:', error);
+      toast.error('Failed to update quick link');
+    }
+  };
+
+  const handleDelete = async (link: QuickLink) => {
+    if (!confirm(`Are you sure you want to delete "${link.label_lo}"?`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/quick-links/${link.id}`, {
+        method: 'DELETE',
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success('Quick link deleted');
+        if (editingId === link.id) closeForm();
+        fetchLinks();
+      } else {
+        toast.error(data.error || 'Failed to delete quick link');
+      }
+    } catch (error) {
+      console.error('Delete error:', error);
+      toast.error('Failed to delete quick link');
+    }
+  };
+
+  // Persist the order once a drag finishes rather than on every intermediate swap
+  const saveOrder = async () => {
+    const unchanged = links.every((link, index) => index === 0 || links[index - 1].order < link.order);
+    if (unchanged) return;
+
+    try {
+      const res = await fetch('/api/quick-links/reorder', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: links.map((link) => link.id) }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setLinks(data.data);
+      } else {
+        toast.error(data.error || 'Failed to save order');
+        fetchLinks();
+      }
+    } catch (error) {
+      console.error('Reorder error:', error);
+      toast.error('Failed to save order');
+      fetchLinks();
+    }
+  };
+
+  if (status === 'loading' || loading) {
+    return <LoadingPage />;
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  const selectedType = LINK_TYPES.find((type) => type.value === form.type);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-heading font-bold mb-2">Quick Links</h1>
+          <p className="text-gray-600">Floating contact buttons shown on every page. Drag to reorder.</p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus size={20} />
+          Add Link
+        </Button>
+      </div>
+
+      {showForm && (
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>{editingId ? 'Edit Quick Link' : 'New Quick Link'}</CardTitle>
+              <button onClick={closeForm} className="p-2 hover:bg-gray-100 rounded-lg" aria-label="Close">
+                <X size={18} />
+              </button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 mb-3">Type</label>
+                  <select
+                    value={form.type}
+                    onChange={(e) => updateField('type', e.target.value)}
+                    className="input"
+                  >
+                    {LINK_TYPES.map((type) => (
+                      <option key={type.value} value={type.value}>
+                        {type.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Input
+                  label="URL"
+                  value={form.url}
+                  onChange={(e) => updateField('url', e.target.value)}
+                  placeholder={selectedType?.placeholder}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Input
+                  label="Label (ລາວ)"
+                  value={form.label_lo}
+                  onChange={(e) => updateField('label_lo', e.target.value)}
+                  required
+                />
+                <Input
+                  label="Label (ไทย)"
+                  value={form.label_th}
+                  onChange={(e) => updateField('label_th', e.target.value)}
+                  placeholder="Falls back to Lao"
+                />
+                <Input
+                  label="Label (中文)"
+                  value={form.label_zh}
+                  onChange={(e) => updateField('label_zh', e.target.value)}
+                  placeholder="Falls back to Lao"
+                />
+                <Input
+                  label="Label (English)"
+                  value={form.label_en}
+                  onChange={(e) => updateField('label_en', e.target.value)}
+                  placeholder="Falls back to Lao"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-neutral-700 mb-3">Color</label>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="color"
+                      value={form.color || '#ec4899'}
+                      onChange={(e) => updateField('color', e.target.value)}
+                      className="w-12 h-12 rounded-lg border border-gray-200 cursor-pointer"
+                    />
+                    <input
+                      value={form.color}
+                      onChange={(e) => updateField('color', e.target.value)}
+                      placeholder="Default brand colour"
+                      className="input flex-1"
+                    />
+                  </div>
+                </div>
+                <Input
+                  label="Icon image URL"
+                  value={form.icon}
+                  onChange={(e) => updateField('icon', e.target.value)}
+                  placeholder="Optional, replaces the default icon"
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => updateField('isActive', e.target.checked)}
+                  className="rounded border-gray-300 text-pink-500 focus:ring-pink-500"
+                />
+                Active
+              </label>
+
+              <div className="flex justify-end gap-3">
+                <Button type="button" variant="outline" onClick={closeForm}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Link'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {links.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-6xl mb-4">🔗</div>
+              <p className="text-gray-600 mb-2">No quick links yet</p>
+              <p className="text-sm text-gray-500 mb-4">
+                Until you add one, visitors see links built from the contact details in Settings.
+              </p>
+              <Button onClick={openCreate}>
+                <Plus size={20} />
+                Add First Link
+              </Button>
+            </div>
+          ) : (
+            <Reorder.Group axis="y" values={links} onReorder={setLinks} className="space-y-2">
+              {links.map((link) => (
+                <Reorder.Item
+                  key={link.id}
+                  value={link}
+                  onDragEnd={saveOrder}
+                  className="flex items-center gap-4 p-3 bg-white border border-gray-200 rounded-xl cursor-grab active:cursor-grabbing"
+                >
+                  <GripVertical size={18} className="text-gray-400 flex-shrink-0" />
+                  <span
+                    className="w-3 h-3 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: link.color || '#d1d5db' }}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900">
+                      {link.label_lo}
+                      <span className="ml-2 text-xs text-gray-500">
+                        {LINK_TYPES.find((type) => type.value === link.type)?.label}
+                      </span>
+                    </div>
+                    <div className="text-sm text-gray-500 truncate">{link.url}</div>
+                  </div>
+                  <button
+                    onClick={() => handleToggleActive(link)}
+                    className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium ${
+                      link.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-700'
+                    }`}
+                  >
+                    {link.isActive ? <Eye size={12} /> : <EyeOff size={12} />}
+                    {link.isActive ? 'Active' : 'Inactive'}
+                  </button>
+                  <button
+                    onClick={() => openEdit(link)}
+                    className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                    aria-label="Edit"
+                  >
+                    <Pencil size={18} className="text-gray-600" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(link)}
+                    className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                    aria-label="Delete"
+                  >
+                    <Trash2 size={18} className="text-red-600" />
+                  </button>
+                </Reorder.Item>
+              ))}
+            </Reorder.Group>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -17,7 +17,10 @@ import {
   Shield,
   Database,
   AlertTriangle,
-  CheckCircle
+  CheckCircle,
+  Coins,
+  Plus,
+  Trash2
 } from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
@@ -25,6 +28,7 @@ import { Input } from '@/components/ui/Input';
 import { LoadingPage } from '@/components/shared/Loading';
 import ImagePicker from '@/components/admin/forms/ImagePicker';
 import RichTextEditor from '@/components/admin/forms/RichTextEditor';
+import { BASE_CURRENCY, CURRENCIES, CURRENCY_LABELS } from '@/lib/currency';
 
 interface SiteSettings {
   siteName_lo: string;
@@ -79,15 +83,64 @@ interface SiteSettings {
   maintenanceMessage_th?: string;
   maintenanceMessage_zh?: string;
   maintenanceMessage_en?: string;
+  maintenanceAllowedIPs?: string | null;
+  maintenanceStartsAt?: string | null;
+  maintenanceEndsAt?: string | null;
+  displayCurrency_lo: string;
+  displayCurrency_th: string;
+  displayCurrency_zh: string;
+  displayCurrency_en: string;
 }
 
+// datetime-local inputs work in the browser's time zone; the API stores ISO timestamps
+function toLocalInput(iso?: string | null) {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+function fromLocalInput(value: string) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+const MAINTENANCE_LANGUAGES = [
+  { code: 'lo', label: 'Lao' },
+  { code: 'th', label: 'Thai' },
+  { code: 'zh', label: 'Chinese' },
+  { code: 'en', label: 'English' },
+] as const;
+
+interface ExchangeRateRow {
+  currency: string;
+  rate: string;
+  updatedAt?: string;
+  updatedBy?: { id: string; name: string } | null;
+}
+
+const toRateRows = (data: any[]): ExchangeRateRow[] =>
+  data.map((rate) => ({
+    currency: rate.currency,
+    rate: String(Number(rate.rate)),
+    updatedAt: rate.updatedAt,
+    updatedBy: rate.updatedBy,
+  }));
+
+const displayCurrencyFields = [
+  { field: 'displayCurrency_lo', label: 'Lao' },
+  { field: 'displayCurrency_th', label: 'Thai' },
+  { field: 'displayCurrency_zh', label: 'Chinese' },
+  { field: 'displayCurrency_en', label: 'English' },
+] as const;
+
 export default function AdminSettingsPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
   const [settings, setSettings] = useState<SiteSettings | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [activeTab, setActiveTab] = useState<'general' | 'appearance' | 'contact' | 'seo' | 'maintenance'>('general');
+  const [activeTab, setActiveTab] = useState<'general' | 'appearance' | 'contact' | 'seo' | 'currency' | 'maintenance'>('general');
+  const [rates, setRates] = useState<ExchangeRateRow[]>([]);
+  const [savingRates, setSavingRates] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
@@ -103,6 +156,61 @@ export default function AdminSettingsPage() {
     }
   }, [session]);
 
+  useEffect(() => {
+    if (!session) return;
+
+    async function fetchRates() {
+      try {
+        const response = await fetch('/api/exchange-rates');
+        const data = await response.json();
+
+        if (data.success) {
+          setRates(toRateRows(data.data));
+        }
+      } catch (err) {
+        console.error('Exchange rates fetch error:', err);
+      }
+    }
+    fetchRates();
+  }, [session]);
+
+  const saveRates = async () => {
+    try {
+      setSavingRates(true);
+      setError(null);
+      setSuccess(null);
+
+      const response = await fetch('/api/exchange-rates', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          rates: rates.map((row) => ({ currency: row.currency, rate: parseFloat(row.rate) })),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setRates(toRateRows(data.data));
+        setSuccess('Exchange rates saved successfully!');
+        setTimeout(() => setSuccess(null), 3000);
+      } else {
+        setError(data.error || 'Failed to save exchange rates');
+      }
+    } catch (err) {
+      console.error('Exchange rates save error:', err);
+      setError('Failed to save exchange rates');
+    } finally {
+      setSavingRates(false);
+    }
+  };
+
+  const unusedCurrencies = CURRENCIES.filter(
+    (code) => code !== BASE_CURRENCY && !rates.some((row) => row.currency === code)
+  );
+
   const fetchSettings = async () => {
     try {
       setLoading(true);
@@ -158,6 +266,7 @@ export default function AdminSettingsPage() {
     { id: 'appearance', label: 'Appearance', icon: Palette },
     { id: 'contact', label: 'Contact', icon: Phone },
     { id: 'seo', label: 'SEO', icon: Globe },
+    { id: 'currency', label: 'Currency', icon: Coins },
     { id: 'maintenance', label: 'Maintenance', icon: Shield },
   ];
 
@@ -609,6 +718,96 @@ export default function AdminSettingsPage() {
             </div>
           )}
 
+          {activeTab === 'currency' && (
+            <div className="space-y-8">
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold">Default Display Currency</h3>
+                <p className="text-sm text-gray-600">
+                  Currency visitors see for each language until they pick their own. Prices are stored in {BASE_CURRENCY}.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  {displayCurrencyFields.map(({ field, label }) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+                      <select
+                        value={settings[field]}
+                        onChange={(e) => setSettings(prev => prev ? { ...prev, [field]: e.target.value } : null)}
+                        className="input"
+                      >
+                        {CURRENCIES.map((code) => (
+                          <option key={code} value={code}>
+                            {CURRENCY_LABELS[code]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold">Exchange Rates</h3>
+                  <Button onClick={saveRates} disabled={savingRates} size="sm" className="flex items-center gap-2">
+                    <Save size={16} />
+                    {savingRates ? 'Saving...' : 'Save Rates'}
+                  </Button>
+                </div>
+                <p className="text-sm text-gray-600">
+                  How many {BASE_CURRENCY} one unit of each currency is worth. Currencies without a rate are shown in {BASE_CURRENCY}.
+                </p>
+
+                <div className="space-y-3">
+                  {rates.map((row, index) => (
+                    <div key={row.currency} className="flex items-center gap-4">
+                      <span className="w-24 font-medium">1 {row.currency} =</span>
+                      <div className="w-48">
+                        <Input
+                          type="number"
+                          min={0}
+                          step="any"
+                          value={row.rate}
+                          onChange={(e) =>
+                            setRates(prev => prev.map((r, i) => (i === index ? { ...r, rate: e.target.value } : r)))
+                          }
+                        />
+                      </div>
+                      <span className="text-gray-600">{BASE_CURRENCY}</span>
+                      <span className="flex-1 text-xs text-gray-500">
+                        {row.updatedAt &&
+                          `Updated ${new Date(row.updatedAt).toLocaleString()}${row.updatedBy ? ` by ${row.updatedBy.name}` : ''}`}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => setRates(prev => prev.filter((_, i) => i !== index))}
+                        className="p-2 text-red-500 hover:bg-red-50 rounded-lg"
+                        aria-label={`Remove ${row.currency}`}
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+
+                {unusedCurrencies.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {unusedCurrencies.map((code) => (
+                      <button
+                        key={code}
+                        type="button"
+                        onClick={() => setRates(prev => [...prev, { currency: code, rate: '' }])}
+                        className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:border-pink-400 hover:text-pink-600"
+                      >
+                        <Plus size={14} />
+                        {code}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {activeTab === 'maintenance' && (
             <div className="space-y-6">
               <h3 className="text-lg font-semibold mb-4">Maintenance Mode</h3>
@@ -627,17 +826,65 @@ export default function AdminSettingsPage() {
                   </label>
                 </div>
                 
+                <p className="text-sm text-gray-500">
+                  Visitors get a maintenance page (HTTP 503). Signed-in admins and the IP addresses below still see the site.
+                </p>
+
                 {settings.isUnderMaintenance && (
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">Maintenance Message (Lao)</label>
-                    <textarea
-                      value={settings.maintenanceMessage_lo || ''}
-                      onChange={(e) => setSettings(prev => prev ? { ...prev, maintenanceMessage_lo: e.target.value } : null)}
-                      rows={3}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
-                      placeholder="We're currently undergoing maintenance. Please check back soon."
-                    />
-                  </div>
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {MAINTENANCE_LANGUAGES.map(({ code, label }) => (
+                        <div key={code}>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Maintenance Message ({label})</label>
+                          <textarea
+                            value={settings[`maintenanceMessage_${code}`] || ''}
+                            onChange={(e) => setSettings(prev => prev ? { ...prev, [`maintenanceMessage_${code}`]: e.target.value } : null)}
+                            rows={3}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                            placeholder={code === 'lo' ? "We're currently undergoing maintenance. Please check back soon." : 'Falls back to Lao'}
+                          />
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Starts At (optional)</label>
+                        <input
+                          type="datetime-local"
+                          value={toLocalInput(settings.maintenanceStartsAt)}
+                          onChange={(e) => setSettings(prev => prev ? { ...prev, maintenanceStartsAt: fromLocalInput(e.target.value) } : null)}
+                          className="input"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Ends At (optional)</label>
+                        <input
+                          type="datetime-local"
+                          value={toLocalInput(settings.maintenanceEndsAt)}
+                          onChange={(e) => setSettings(prev => prev ? { ...prev, maintenanceEndsAt: fromLocalInput(e.target.value) } : null)}
+                          className="input"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500 -mt-2">
+                      Leave both empty to start now and stay in maintenance until switched off. The end time is also sent to visitors as Retry-After.
+                    </p>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Allowed IP Addresses</label>
+                      <textarea
+                        value={settings.maintenanceAllowedIPs || ''}
+                        onChange={(e) => setSettings(prev => prev ? { ...prev, maintenanceAllowedIPs: e.target.value } : null)}
+                        rows={3}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                        placeholder="One IP address per line"
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Matched against the address recorded by the hosting platform or your reverse proxy (TRUSTED_PROXY_HOPS), not the X-Forwarded-For header sent by the browser.
+                      </p>
+                    </div>
+                  </>
                 )}
               </div>
             </div>
@@ -0,0 +1,317 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import toast from 'react-hot-toast';
+import { Pencil, Trash2, GitMerge, Save, X } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { LoadingPage } from '@/components/shared/Loading';
+import type { PickerTag } from '@/components/admin/forms/TagPicker';
+
+interface AdminTag extends PickerTag {
+  articleCount: number;
+}
+
+const NAME_FIELDS = ['name_lo', 'name_th', 'name_zh', 'name_en'] as const;
+
+const NAME_LABELS: Record<(typeof NAME_FIELDS)[number], string> = {
+  name_lo: 'Lao',
+  name_th: 'Thai',
+  name_zh: 'Chinese',
+  name_en: 'English',
+};
+
+export default function AdminTagsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [tags, setTags] = useState<AdminTag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unusedOnly, setUnusedOnly] = useState(false);
+  const [editing, setEditing] = useState<AdminTag | null>(null);
+  const [mergeSource, setMergeSource] = useState<AdminTag | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/admin/login');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchTags();
+    }
+  }, [status]);
+
+  const fetchTags = async () => {
+    try {
+      const res = await fetch('/api/admin/tags');
+      const data = await res.json();
+
+      if (data.success) {
+        setTags(data.data);
+      } else {
+        toast.error(data.error || 'Failed to load tags');
+      }
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      toast.error('Failed to load tags');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/admin/tags/${editing.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name_lo: editing.name_lo,
+          name_th: editing.name_th,
+          name_zh: editing.name_zh,
+          name_en: editing.name_en,
+        }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success('Tag renamed');
+        setEditing(null);
+        fetchTags();
+      } else {
+        toast.error(data.error || 'Failed to rename tag');
+      }
+    } catch (error) {
+      console.error('Error renaming tag:', error);
+      toast.error('Failed to rename tag');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeSource || !mergeTargetId) return;
+
+    const target = tags.find((tag) => tag.id === mergeTargetId);
+    if (
+      !confirm(
+        `Merge "${mergeSource.name_en}" into "${target?.name_en}"? Its ${mergeSource.articleCount} article(s) will be moved and "${mergeSource.name_en}" deleted.`
+      )
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch('/api/admin/tags/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceId: mergeSource.id, targetId: mergeTargetId }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success(`Merged ${data.data.moved} article(s) into "${data.data.target.name_en}"`);
+        setMergeSource(null);
+        setMergeTargetId('');
+        fetchTags();
+      } else {
+        toast.error(data.error || 'Failed to merge tags');
+      }
+    } catch (error) {
+      console.error('Error merging tags:', error);
+      toast.error('Failed to merge tags');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (tag: AdminTag) => {
+    if (!confirm(`Are you sure you want to delete "${tag.name_en}"?`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/admin/tags/${tag.id}`, { method: 'DELETE' });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success('Tag deleted');
+        fetchTags();
+      } else {
+        toast.error(data.error || 'Failed to delete tag');
+      }
+    } catch (error) {
+      console.error('Error deleting tag:', error);
+      toast.error('Failed to delete tag');
+    }
+  };
+
+  if (status === 'loading' || loading) {
+    return <LoadingPage />;
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  const shownTags = unusedOnly ? tags.filter((tag) => tag.articleCount === 0) : tags;
+  const unusedCount = tags.filter((tag) => tag.articleCount === 0).length;
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-3xl font-heading font-bold mb-2">Tags</h1>
+        <p className="text-gray-600">Rename, merge and clean up article tags</p>
+      </div>
+
+      {mergeSource && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Merge &quot;{mergeSource.name_en}&quot;</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-sm text-gray-600">Move its articles to</span>
+              <select
+                value={mergeTargetId}
+                onChange={(e) => setMergeTargetId(e.target.value)}
+                className="input max-w-xs"
+              >
+                <option value="">Choose a tag...</option>
+                {tags
+                  .filter((tag) => tag.id !== mergeSource.id)
+                  .map((tag) => (
+                    <option key={tag.id} value={tag.id}>
+                      {tag.name_en} ({tag.articleCount})
+                    </option>
+                  ))}
+              </select>
+              <Button onClick={handleMerge} disabled={!mergeTargetId || saving} size="sm">
+                <GitMerge size={16} />
+                Merge
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setMergeSource(null)}>
+                Cancel
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle>All Tags ({tags.length})</CardTitle>
+            <select
+              value={unusedOnly ? 'unused' : 'all'}
+              onChange={(e) => setUnusedOnly(e.target.value === 'unused')}
+              className="input max-w-xs"
+            >
+              <option value="all">All tags</option>
+              <option value="unused">Unused ({unusedCount})</option>
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {shownTags.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-6xl mb-4">🏷️</div>
+              <p className="text-gray-600">{unusedOnly ? 'Every tag is in use' : 'No tags yet'}</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    {NAME_FIELDS.map((field) => (
+                      <th key={field} className="text-left py-3 px-4 font-medium text-gray-700">
+                        {NAME_LABELS[field]}
+                      </th>
+                    ))}
+                    <th className="text-right py-3 px-4 font-medium text-gray-700">Articles</th>
+                    <th className="text-right py-3 px-4 font-medium text-gray-700">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {shownTags.map((tag) => {
+                    const isEditing = editing?.id === tag.id;
+
+                    return (
+                      <tr key={tag.id} className="border-b border-gray-100 hover:bg-gray-50">
+                        {NAME_FIELDS.map((field) => (
+                          <td key={field} className="py-3 px-4">
+                            {isEditing ? (
+                              <input
+                                type="text"
+                                value={editing[field]}
+                                onChange={(e) => setEditing({ ...editing, [field]: e.target.value })}
+                                className="input"
+                              />
+                            ) : (
+                              tag[field]
+                            )}
+                          </td>
+                        ))}
+                        <td className="py-3 px-4 text-right text-gray-600">{tag.articleCount}</td>
+                        <td className="py-3 px-4">
+                          <div className="flex items-center justify-end gap-2">
+                            {isEditing ? (
+                              <>
+                                <Button variant="primary" size="sm" onClick={handleRename} disabled={saving}>
+                                  <Save size={16} />
+                                </Button>
+                                <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>
+                                  <X size={16} />
+                                </Button>
+                              </>
+                            ) : (
+                              <>
+                                <Button variant="ghost" size="sm" onClick={() => setEditing(tag)} title="Rename">
+                                  <Pencil size={16} />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => {
+                                    setMergeSource(tag);
+                                    setMergeTargetId('');
+                                  }}
+                                  disabled={tags.length < 2}
+                                  title="Merge into another tag"
+                                >
+                                  <GitMerge size={16} />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDelete(tag)}
+                                  disabled={tag.articleCount > 0}
+                                  title={tag.articleCount > 0 ? 'Merge used tags instead of deleting them' : 'Delete'}
+                                  className="text-red-600 hover:bg-red-50"
+                                >
+                                  <Trash2 size={16} />
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
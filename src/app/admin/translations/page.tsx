@@ -0,0 +1,232 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { RefreshCw, Pencil } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { LoadingPage } from '@/components/shared/Loading';
+import { LOCALE_LABELS } from '@/lib/i18n-helpers';
+import type { Locale } from '@/i18n';
+import type { TranslationCoverageReport } from '@/lib/translation-coverage';
+
+const LOCALES = Object.keys(LOCALE_LABELS) as Locale[];
+
+function percentColor(percent: number): string {
+  if (percent >= 100) return 'text-green-600';
+  if (percent >= 80) return 'text-yellow-600';
+  return 'text-red-600';
+}
+
+function barColor(percent: number): string {
+  if (percent >= 100) return 'bg-green-500';
+  if (percent >= 80) return 'bg-yellow-500';
+  return 'bg-red-500';
+}
+
+export default function AdminTranslationsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [report, setReport] = useState<TranslationCoverageReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [localeFilter, setLocaleFilter] = useState<Locale | ''>('');
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/admin/login');
+    }
+  }, [status, router]);
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchReport();
+    }
+  }, [status]);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/admin/translations');
+      const data = await res.json();
+
+      if (data.success) {
+        setReport(data.data);
+      } else {
+        toast.error(data.error || 'Failed to load translation report');
+      }
+    } catch (error) {
+      console.error('Error fetching translation report:', error);
+      toast.error('Failed to load translation report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (status === 'loading' || (loading && !report)) {
+    return <LoadingPage />;
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  const shownLocales = localeFilter ? [localeFilter] : LOCALES;
+  const models = (report?.models || [])
+    .map((model) => ({
+      ...model,
+      gaps: model.gaps.filter((gap) => shownLocales.some((locale) => gap.missing[locale].length > 0)),
+    }))
+    .filter((model) => model.gaps.length > 0);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-heading font-bold mb-2">Translations</h1>
+          <p className="text-gray-600">Empty fields are shown to visitors in Lao instead</p>
+        </div>
+        <Button variant="outline" onClick={fetchReport} disabled={loading}>
+          <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Overall completeness */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {LOCALES.map((locale) => {
+          const coverage = report?.coverage[locale];
+          if (!coverage) return null;
+
+          return (
+            <button
+              key={locale}
+              onClick={() => setLocaleFilter(localeFilter === locale ? '' : locale)}
+              className={`text-left bg-white rounded-2xl p-5 border transition-colors ${
+                localeFilter === locale ? 'border-pink-500' : 'border-gray-200 hover:border-pink-300'
+              }`}
+            >
+              <p className="text-sm text-gray-600">{LOCALE_LABELS[locale]}</p>
+              <p className={`text-3xl font-bold ${percentColor(coverage.percent)}`}>{coverage.percent}%</p>
+              <div className="h-2 bg-gray-100 rounded-full mt-3 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${barColor(coverage.percent)}`}
+                  style={{ width: `${coverage.percent}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {coverage.filled} of {coverage.expected} fields
+              </p>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Per content type */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>By Content Type</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 font-medium text-gray-700">Content</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-700">Records</th>
+                  {LOCALES.map((locale) => (
+                    <th key={locale} className="text-right py-3 px-4 font-medium text-gray-700">
+                      {LOCALE_LABELS[locale]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report?.models.map((model) => (
+                  <tr key={model.model} className="border-b border-gray-100">
+                    <td className="py-3 px-4 font-medium">{model.label}</td>
+                    <td className="py-3 px-4 text-right text-gray-600">{model.records}</td>
+                    {LOCALES.map((locale) => (
+                      <td
+                        key={locale}
+                        className={`py-3 px-4 text-right font-medium ${percentColor(model.coverage[locale].percent)}`}
+                      >
+                        {model.coverage[locale].percent}%
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Records with empty fields */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle>Missing Translations</CardTitle>
+            <select
+              value={localeFilter}
+              onChange={(e) => setLocaleFilter(e.target.value as Locale | '')}
+              className="input max-w-xs"
+            >
+              <option value="">All languages</option>
+              {LOCALES.map((locale) => (
+                <option key={locale} value={locale}>
+                  Missing {LOCALE_LABELS[locale]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {models.length === 0 ? (
+            <div className="text-center py-12">
+              <div className="text-6xl mb-4">🌐</div>
+              <p className="text-gray-600">
+                {localeFilter ? `Everything is translated into ${LOCALE_LABELS[localeFilter]}` : 'Everything is translated'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-8">
+              {models.map((model) => (
+                <div key={model.model}>
+                  <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-3">
+                    {model.label} ({model.gaps.length})
+                  </h2>
+                  <ul className="divide-y divide-gray-100 border border-gray-100 rounded-xl">
+                    {model.gaps.map((gap) => (
+                      <li key={gap.id} className="flex items-start justify-between gap-4 p-4">
+                        <div className="min-w-0 space-y-1">
+                          <p className="font-medium text-gray-900 truncate">{gap.title}</p>
+                          {shownLocales
+                            .filter((locale) => gap.missing[locale].length > 0)
+                            .map((locale) => (
+                              <p key={locale} className="text-xs text-gray-600">
+                                <span className="font-medium">{LOCALE_LABELS[locale]}:</span>{' '}
+                                {gap.missing[locale].join(', ')}
+                              </p>
+                            ))}
+                        </div>
+                        <Link href={gap.href} className="flex-shrink-0">
+                          <Button variant="ghost" size="sm">
+                            <Pencil size={16} />
+                            Edit
+                          </Button>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import { LoadingPage } from '@/components/shared/Loading';
 import * as Dialog from '@radix-ui/react-dialog';
 import * as Switch from '@radix-ui/react-switch';
 import * as Label from '@radix-ui/react-label';
+import { canManageRole } from '@/lib/permissions';
 
 export default function UsersPage() {
   const { data: session, status } = useSession();
@@ -289,7 +290,9 @@ export default function UsersPage() {
                 <select {...register('role')} className="input">
                   <option value="ADMIN">Admin</option>
                   <option value="EDITOR">Editor</option>
-                  <option value="SUPER_ADMIN">Super Admin</option>
+                  {canManageRole(session.user.role, 'SUPER_ADMIN') && (
+                    <option value="SUPER_ADMIN">Super Admin</option>
+                  )}
                 </select>
               </div>
               <div className="flex items-center justify-between pt-2">
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { AppError, formatErrorResponse } from '@/lib/error-handler';
 import { prisma } from '@/lib/prisma';
+import { logActivity } from '@/lib/activity-log';
 
 // GET about page content
 export async function GET() {
@@ -100,14 +101,7 @@ export async function GET() {
 // POST - Update about page content
 export async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const session = await requirePermission('about', 'update');
 
     console.log('PUT request received for /api/about');
     
@@ -137,6 +131,15 @@ export async function POST(request: NextRequest) {
       values,
     } = body;
 
+    const previousPage = await prisma.aboutPage.findUnique({
+      where: { id: 'about_page' },
+      include: {
+        values: {
+          orderBy: { order: 'asc' },
+        },
+      },
+    });
+
     // Update about page
     const aboutPage = await prisma.aboutPage.upsert({
       where: { id: 'about_page' },
@@ -251,11 +254,25 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'AboutPage',
+      resourceId: 'about_page',
+      description: 'Updated about page',
+      before: previousPage,
+      after: updatedPage,
+    });
+
     return NextResponse.json({
       success: true,
       data: updatedPage,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Failed to update about page:', error);
     return NextResponse.json(
       { 
@@ -1,152 +1,148 @@
 // @ts-ignore
 import { NextRequest, NextResponse } from 'next/server';
-// @ts-ignore
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { ActivityAction } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { formatErrorResponse, AuthenticationError, logError } from '@/lib/error-handler';
-import { createPaginationOptions, formatPaginationResponse } from '@/lib/performance';
+import { formatErrorResponse, ValidationError, logError } from '@/lib/error-handler';
+import { createPaginationOptions } from '@/lib/performance';
 
 interface ActivityItem {
   id: string;
-  type: 'create' | 'update' | 'delete' | 'login' | 'logout';
+  type: 'create' | 'update' | 'delete' | 'login' | 'login_failed';
   resource: string;
+  resourceId: string | null;
   description: string;
   user: {
     id: string;
     name: string;
     email: string;
-  };
+  } | null;
   timestamp: string;
-  metadata?: any;
+  metadata: {
+    before: any;
+    after: any;
+    ipAddress: string | null;
+  };
 }
 
-// GET - Fetch recent activity
+const ACTIVITY_ACTIONS = Object.values(ActivityAction);
+
+function parseAction(value: string | null): ActivityAction | undefined {
+  if (!value) return undefined;
+
+  const action = value.toUpperCase() as ActivityAction;
+  if (!ACTIVITY_ACTIONS.includes(action)) {
+    throw new ValidationError(`Invalid activity type: ${value}`);
+  }
+  return action;
+}
+
+function parseDate(value: string | null, endOfDay: boolean = false): Date | undefined {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid date: ${value}`);
+  }
+
+  // Date-only values (YYYY-MM-DD) should include the whole day when used as an upper bound
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+// GET - Fetch activity with filters
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      throw new AuthenticationError();
-    }
+    await requirePermission('activity', 'read');
 
     const { searchParams } = new URL(request.url);
     const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
     const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '20')));
-    const type = searchParams.get('type') as string || undefined;
+    const userId = searchParams.get('userId');
+    const resource = searchParams.get('resource');
+    const resourceId = searchParams.get('resourceId');
+    const action = parseAction(searchParams.get('type'));
+    const from = parseDate(searchParams.get('from'));
+    const to = parseDate(searchParams.get('to'), true);
 
     const pagination = createPaginationOptions(page, limit);
 
     // Build where clause
     const where: any = {};
-    
-    if (type) {
-      where.type = type;
-    }
-
-    // Since Activity model doesn't exist, return mock data for now
-    // In a real implementation, you would create an Activity model in the schema
-    const mockActivity: ActivityItem[] = [
-      {
-        id: '1',
-        type: 'login',
-        resource: 'Admin Panel',
-        description: 'User logged in to admin panel',
-        user: {
-          id: session.user.id,
-          name: session.user.name || 'Admin User',
-          email: session.user.email || '',
-        },
-        timestamp: new Date().toISOString(),
-      },
-      {
-        id: '2',
-        type: 'create',
-        resource: 'Article',
-        description: 'Created new article',
-        user: {
-          id: session.user.id,
-          name: session.user.name || 'Admin User',
-          email: session.user.email || '',
-        },
-        timestamp: new Date(Date.now() - 3600000).toISOString(), // 1 hour ago
-      },
-    ];
-
-    // Filter by type if specified
-    const filteredActivity = type
-      ? mockActivity.filter(item => item.type === type)
-      : mockActivity;
 
-    // Apply pagination
-    const startIndex = (page - 1) * limit;
-    const endIndex = startIndex + limit;
-    const paginatedActivity = filteredActivity.slice(startIndex, endIndex);
+    if (userId) {
+      where.userId = userId;
+    }
 
-    return NextResponse.json({
-      success: true,
-      data: paginatedActivity,
-      pagination: {
-        page,
-        limit,
-        total: filteredActivity.length,
-        totalPages: Math.ceil(filteredActivity.length / limit),
-      },
-    });
-  } catch (error: any) {
-    logError(error, 'Activity API - GET');
-    return NextResponse.json(
-      formatErrorResponse(error),
-      { status: error.statusCode || 500 }
-    );
-  }
-}
+    if (resource) {
+      where.resourceType = resource;
+    }
 
-// POST - Log activity
-export async function POST(request: NextRequest) {
-  try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      throw new AuthenticationError();
+    if (resourceId) {
+      where.resourceId = resourceId;
     }
 
-    const body = await request.json();
-    const { type, resource, description, metadata } = body;
+    if (action) {
+      where.action = action;
+    }
 
-    // Validate required fields
-    if (!type || !resource) {
-      return NextResponse.json(
-        { success: false, error: 'Type and resource are required' },
-        { status: 400 }
-      );
+    if (from || to) {
+      where.createdAt = {
+        ...(from && { gte: from }),
+        ...(to && { lte: to }),
+      };
     }
 
-    // Since Activity model doesn't exist, just return success
-    // In a real implementation, you would create an Activity model in the schema
-    const activity = {
-      id: Date.now().toString(),
-      type,
-      resource,
-      description: description || '',
-      user: {
-        id: session.user.id,
-        name: session.user.name || 'Admin User',
-        email: session.user.email || '',
+    const [logs, total] = await Promise.all([
+      prisma.activityLog.findMany({
+        where,
+        include: {
+          user: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        ...pagination,
+      }),
+      prisma.activityLog.count({ where }),
+    ]);
+
+    const activity: ActivityItem[] = logs.map((log) => ({
+      id: log.id,
+      type: log.action.toLowerCase() as ActivityItem['type'],
+      resource: log.resourceType,
+      resourceId: log.resourceId,
+      description: log.description || `${log.action.toLowerCase()} ${log.resourceType}`,
+      user: log.user,
+      timestamp: log.createdAt.toISOString(),
+      metadata: {
+        before: log.before,
+        after: log.after,
+        ipAddress: log.ipAddress,
       },
-      timestamp: new Date().toISOString(),
-      metadata: metadata || {},
-    };
+    }));
 
     return NextResponse.json({
       success: true,
       data: activity,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
     });
   } catch (error: any) {
-    logError(error, 'Activity API - POST');
+    logError(error, 'Activity API - GET');
     return NextResponse.json(
       formatErrorResponse(error),
       { status: error.statusCode || 500 }
     );
   }
-}
\ No newline at end of file
+}
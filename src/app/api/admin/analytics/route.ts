@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { formatErrorResponse, logError, ValidationError } from '@/lib/error-handler';
+import { getPageViewReport } from '@/lib/page-views';
+
+const RANGES = [7, 30, 90];
+
+// GET - Page-view charts for the dashboard: ?days=7|30|90
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission('analytics', 'read');
+
+    const days = parseInt(request.nextUrl.searchParams.get('days') || '30');
+    if (!RANGES.includes(days)) {
+      throw new ValidationError(`days must be one of ${RANGES.join(', ')}`, 'days');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getPageViewReport(days),
+    });
+  } catch (error: any) {
+    logError(error, 'Analytics API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
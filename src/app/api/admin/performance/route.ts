@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { getWebVitalReport, parseWebVitalFilters } from '@/lib/web-vitals-report';
+
+// GET - Core Web Vitals p75 report: ?days=1|7|30&device=&route=
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission('analytics', 'read');
+
+    const filters = parseWebVitalFilters(request.nextUrl.searchParams);
+
+    return NextResponse.json({
+      success: true,
+      data: await getWebVitalReport(filters),
+    });
+  } catch (error: any) {
+    logError(error, 'Performance API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
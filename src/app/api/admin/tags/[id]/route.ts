@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { ConflictError, formatErrorResponse, logError, NotFoundError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { invalidateArticleCache } from '@/lib/article-publishing';
+import { assertTagNamesAvailable, parseTagInput, uniqueTagSlug } from '@/lib/article-tags';
+
+// PUT - Rename a tag; the slug follows the English name
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission('tag', 'update');
+
+    const existing = await prisma.tag.findUnique({ where: { id: params.id } });
+    if (!existing) {
+      throw new NotFoundError('Tag not found');
+    }
+
+    const input = parseTagInput(await request.json());
+    await assertTagNamesAvailable(input, existing.id);
+
+    const tag = await prisma.tag.update({
+      where: { id: existing.id },
+      data: {
+        ...input,
+        slug: input.name_en === existing.name_en ? existing.slug : await uniqueTagSlug(input.name_en, existing.id),
+      },
+    });
+
+    await invalidateArticleCache();
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'Tag',
+      resourceId: tag.id,
+      description: `Renamed tag "${existing.name_en}" to "${tag.name_en}"`,
+      before: existing,
+      after: tag,
+    });
+
+    return NextResponse.json({ success: true, data: tag });
+  } catch (error: any) {
+    logError(error, 'Admin Tags API - PUT');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// DELETE - Remove a tag no article uses; used tags are merged instead
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission('tag', 'delete');
+
+    const tag = await prisma.tag.findUnique({
+      where: { id: params.id },
+      include: { _count: { select: { articles: true } } },
+    });
+    if (!tag) {
+      throw new NotFoundError('Tag not found');
+    }
+    if (tag._count.articles > 0) {
+      throw new ConflictError(`"${tag.name_en}" is used by ${tag._count.articles} article(s); merge it into another tag instead`);
+    }
+
+    await prisma.tag.delete({ where: { id: tag.id } });
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'DELETE',
+      resourceType: 'Tag',
+      resourceId: tag.id,
+      description: `Deleted tag "${tag.name_en}"`,
+      before: tag,
+    });
+
+    return NextResponse.json({ success: true, message: 'Tag deleted' });
+  } catch (error: any) {
+    logError(error, 'Admin Tags API - DELETE');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
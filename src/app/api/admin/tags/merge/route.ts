@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { formatErrorResponse, logError, ValidationError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { invalidateArticleCache } from '@/lib/article-publishing';
+import { mergeTags } from '@/lib/article-tags';
+
+// POST - Merge one tag into another: { sourceId, targetId }
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission('tag', 'delete');
+
+    const { sourceId, targetId } = await request.json();
+    if (typeof sourceId !== 'string' || typeof targetId !== 'string') {
+      throw new ValidationError('sourceId and targetId are required');
+    }
+
+    const { source, target, moved } = await mergeTags(sourceId, targetId);
+
+    await invalidateArticleCache();
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'DELETE',
+      resourceType: 'Tag',
+      resourceId: source.id,
+      description: `Merged tag "${source.name_en}" into "${target.name_en}" (${moved} article(s))`,
+      before: source,
+    });
+
+    return NextResponse.json({ success: true, data: { target, moved } });
+  } catch (error: any) {
+    logError(error, 'Admin Tags API - Merge');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+
+// GET - Every tag with how many articles (any status) use it
+export async function GET() {
+  try {
+    await requirePermission('tag', 'update');
+
+    const tags = await prisma.tag.findMany({
+      include: { _count: { select: { articles: true } } },
+      orderBy: { name_en: 'asc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: tags.map(({ _count, ...tag }) => ({ ...tag, articleCount: _count.articles })),
+    });
+  } catch (error: any) {
+    logError(error, 'Admin Tags API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { formatErrorResponse, logError, ValidationError } from '@/lib/error-handler';
+import {
+  getTranslationProvider,
+  parseTranslationPair,
+  translateDocument,
+  translateStrings,
+  TipTapNode,
+} from '@/lib/machine-translation';
+
+// Roughly one long article in every field
+const MAX_CHARACTERS = 100000;
+
+function parseEntries<T>(value: unknown, name: string, isValid: (entry: unknown) => entry is T): [string, T][] {
+  if (value === undefined) return [];
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError(`${name} must be an object of field values`, name);
+  }
+
+  const entries = Object.entries(value);
+  for (const [field, entry] of entries) {
+    if (!isValid(entry)) {
+      throw new ValidationError(`Invalid value for ${field}`, name);
+    }
+  }
+  return entries as [string, T][];
+}
+
+const isString = (entry: unknown): entry is string => typeof entry === 'string';
+const isDocument = (entry: unknown): entry is TipTapNode =>
+  Boolean(entry) && typeof entry === 'object' && !Array.isArray(entry);
+
+// POST - Machine-translate form fields: { source, target, texts?, documents? }
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission('translation', 'create');
+
+    const body = await request.json();
+    const { source, target } = parseTranslationPair(body.source, body.target);
+    const texts = parseEntries(body.texts, 'texts', isString);
+    const documents = parseEntries(body.documents, 'documents', isDocument);
+
+    if (texts.length === 0 && documents.length === 0) {
+      throw new ValidationError('Nothing to translate');
+    }
+    if (JSON.stringify(body.texts ?? {}).length + JSON.stringify(body.documents ?? {}).length > MAX_CHARACTERS) {
+      throw new ValidationError('Too much text to translate at once; translate fields one by one');
+    }
+
+    const provider = getTranslationProvider();
+
+    const translatedTexts = await translateStrings(provider, texts.map(([, text]) => text), source, target);
+    const translatedDocuments = await Promise.all(
+      documents.map(([, doc]) => translateDocument(provider, doc, source, target))
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        provider: provider.name,
+        texts: Object.fromEntries(texts.map(([field], index) => [field, translatedTexts[index]])),
+        documents: Object.fromEntries(documents.map(([field], index) => [field, translatedDocuments[index]])),
+      },
+    });
+  } catch (error: any) {
+    logError(error, 'Translate API - POST');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
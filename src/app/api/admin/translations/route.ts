@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { getTranslationCoverage } from '@/lib/translation-coverage';
+
+// GET - Per-locale translation coverage and the records with empty fields
+export async function GET() {
+  try {
+    await requirePermission('translation', 'read');
+
+    return NextResponse.json({
+      success: true,
+      data: await getTranslationCoverage(),
+    });
+  } catch (error: any) {
+    logError(error, 'Translations API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
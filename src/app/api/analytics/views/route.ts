@@ -5,7 +5,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { formatErrorResponse, AuthenticationError, logError } from '@/lib/error-handler';
-import { cache } from '@/lib/performance';
+import { cache } from '@/lib/cache';
 
 // GET - Fetch view analytics
 export async function GET(request: NextRequest) {
@@ -17,7 +17,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Try to get from cache first
-    const cachedViews = cache.get('total_views');
+    const cachedViews = await cache.get('total_views');
     if (cachedViews) {
       return NextResponse.json({
         success: true,
@@ -25,29 +25,23 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Calculate total views from articles
-    const articlesResult = await prisma.article.aggregate({
+    // Sum the daily page-view rollups, split by the kind of page viewed
+    const groups = await prisma.pageViewDaily.groupBy({
+      by: ['entityType'],
       _sum: {
-        viewCount: true,
-      },
-      where: {
-        isPublished: true,
+        views: true,
       },
     });
 
-    // Products don't have viewCount field, so we'll count published products instead
-    const productsCount = await prisma.product.count({
-      where: {
-        isPublished: true,
-      },
-    });
+    const viewsOf = (entityType: string | null) =>
+      groups.find((group) => group.entityType === entityType)?._sum.views || 0;
 
-    const articleViews = articlesResult._sum.viewCount || 0;
-    const productViews = productsCount * 10; // Estimate 10 views per product
-    const totalViews = articleViews + productViews;
+    const articleViews = viewsOf('article');
+    const productViews = viewsOf('product');
+    const totalViews = groups.reduce((sum, group) => sum + (group._sum.views || 0), 0);
 
     // Cache the result for 5 minutes
-    cache.set('total_views', totalViews, 300);
+    await cache.set('total_views', totalViews, 300);
 
     return NextResponse.json({
       success: true,
@@ -56,7 +50,7 @@ export async function GET(request: NextRequest) {
         breakdown: {
           articles: articleViews,
           products: productViews,
-          productsCount: productsCount,
+          other: viewsOf(null),
         }
       },
     });
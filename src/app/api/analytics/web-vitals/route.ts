@@ -1,108 +1,83 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { AppError, formatErrorResponse, logError, ValidationError } from '@/lib/error-handler';
+import { MAX_PAYLOAD_BYTES, parseWebVitals, recordWebVitals } from '@/lib/web-vitals-report';
 
-const prisma = new PrismaClient();
+function payloadTooLarge() {
+  return new AppError('Payload too large', 413, true, 'PAYLOAD_TOO_LARGE');
+}
 
+// POST - Batches of Core Web Vitals from visitors' browsers. sendBeacon posts
+// the same JSON as text, so the body is parsed by hand.
 export async function POST(request: NextRequest) {
   try {
-    const { metrics } = await request.json();
-
-    if (!metrics || !Array.isArray(metrics)) {
-      return NextResponse.json(
-        { error: 'Invalid metrics data' },
-        { status: 400 }
-      );
+    if (parseInt(request.headers.get('content-length') || '0') > MAX_PAYLOAD_BYTES) {
+      throw payloadTooLarge();
     }
 
-    // Process each metric
-    for (const metric of metrics) {
-      try {
-        // Store in database (you might want to create a dedicated table for this)
-        // For now, we'll log and potentially send to analytics service
-        
-        console.log('Web Vitals Metric:', {
-          name: metric.name,
-          value: metric.value,
-          rating: metric.rating,
-          url: metric.url,
-          timestamp: new Date(metric.timestamp).toISOString(),
-          userAgent: metric.userAgent,
-        });
-
-        // You could also store these in a database table like:
-        // await prisma.webVital.create({
-        //   data: {
-        //     name: metric.name,
-        //     value: metric.value,
-        //     rating: metric.rating,
-        //     delta: metric.delta,
-        //     url: metric.url,
-        //     userAgent: metric.userAgent,
-        //     timestamp: new Date(metric.timestamp),
-        //   },
-        // });
-
-        // Or send to external analytics service like Google Analytics
-        if (typeof window !== 'undefined' && (window as any).gtag) {
-          (window as any).gtag('event', metric.name, {
-            event_category: 'Web Vitals',
-            value: Math.round(metric.name === 'CLS' ? metric.value * 1000 : metric.value),
-            event_label: metric.rating,
-            non_interaction: true,
-          });
-        }
+    const text = await request.text();
+    if (Buffer.byteLength(text) > MAX_PAYLOAD_BYTES) {
+      throw payloadTooLarge();
+    }
 
-      } catch (error) {
-        console.error('Error processing individual metric:', error);
-        // Continue processing other metrics even if one fails
-      }
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new ValidationError('Invalid JSON');
     }
 
-    return NextResponse.json({ 
-      success: true, 
+    const metrics = parseWebVitals(body, request.headers.get('user-agent'));
+    const count = await recordWebVitals(metrics);
+
+    return NextResponse.json({
+      success: true,
       message: 'Metrics processed successfully',
-      count: metrics.length 
+      count,
     });
-
-  } catch (error) {
-    console.error('Error processing Web Vitals:', error);
+  } catch (error: any) {
+    logError(error, 'Web Vitals API - POST');
     return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
     );
   }
 }
 
-// Optional: GET endpoint to retrieve metrics for analysis
+// GET - Most recent raw samples, for debugging the collector
 export async function GET(request: NextRequest) {
   try {
+    await requirePermission('analytics', 'read');
+
     const { searchParams } = new URL(request.url);
-    const limit = parseInt(searchParams.get('limit') || '100');
-    const offset = parseInt(searchParams.get('offset') || '0');
+    // Non-numeric values fall back to the defaults instead of reaching Prisma as NaN
+    const limit = Math.min(500, Math.max(1, parseInt(searchParams.get('limit') || '') || 100));
+    const offset = Math.max(0, parseInt(searchParams.get('offset') || '') || 0);
 
-    // This would typically query your database
-    // const metrics = await prisma.webVital.findMany({
-    //   orderBy: { timestamp: 'desc' },
-    //   take: limit,
-    //   skip: offset,
-    // });
+    const [metrics, total] = await Promise.all([
+      prisma.webVital.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.webVital.count(),
+    ]);
 
-    // For now, return a placeholder response
     return NextResponse.json({
       success: true,
-      data: [],
+      data: metrics,
       pagination: {
         limit,
         offset,
-        total: 0,
+        total,
       },
     });
-
-  } catch (error) {
-    console.error('Error fetching Web Vitals:', error);
+  } catch (error: any) {
+    logError(error, 'Web Vitals API - GET');
     return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
     );
   }
-}
\ No newline at end of file
+}
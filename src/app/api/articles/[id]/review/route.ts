@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission, assertCanModifyRecord } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, ValidationError, NotFoundError, logError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { assertValidReviewer } from '@/lib/article-publishing';
+
+const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+};
+
+async function findArticle(id: string) {
+  const article = await prisma.article.findUnique({
+    where: { id },
+  });
+
+  if (!article) {
+    throw new NotFoundError('Article not found');
+  }
+  return article;
+}
+
+// GET - Reviewer and review comments for an article
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requirePermission('article', 'read');
+
+    const article = await prisma.article.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        status: true,
+        publishedAt: true,
+        reviewer: { select: userSelect },
+        reviewComments: {
+          include: { author: { select: userSelect } },
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    });
+
+    if (!article) {
+      throw new NotFoundError('Article not found');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        status: article.status,
+        publishedAt: article.publishedAt,
+        reviewer: article.reviewer,
+        comments: article.reviewComments,
+      },
+    });
+  } catch (error: any) {
+    logError(error, 'Article review API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// POST - Add a review comment
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission('article', 'update');
+
+    const body = await request.json();
+    const text = typeof body.body === 'string' ? body.body.trim() : '';
+
+    if (!text) {
+      throw new ValidationError('Comment is required');
+    }
+
+    const article = await findArticle(params.id);
+
+    const comment = await prisma.articleReviewComment.create({
+      data: {
+        articleId: article.id,
+        authorId: session.user.id,
+        body: text.substring(0, 2000),
+        status: article.status,
+      },
+      include: { author: { select: userSelect } },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: comment,
+    });
+  } catch (error: any) {
+    logError(error, 'Article review API - POST');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// PUT - Assign or clear the reviewer
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission('article', 'update');
+
+    const body = await request.json();
+    const reviewerId: string | null = body.reviewerId || null;
+
+    const existing = await findArticle(params.id);
+    assertCanModifyRecord(session, 'article', existing);
+
+    if (reviewerId) {
+      await assertValidReviewer(reviewerId);
+    }
+
+    const article = await prisma.article.update({
+      where: { id: existing.id },
+      data: { reviewerId },
+      include: { reviewer: { select: userSelect } },
+    });
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'Article',
+      resourceId: article.id,
+      description: article.reviewer
+        ? `Assigned ${article.reviewer.name} to review article "${article.title_en}"`
+        : `Cleared reviewer on article "${article.title_en}"`,
+      before: { reviewerId: existing.reviewerId },
+      after: { reviewerId: article.reviewerId },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: article.reviewer,
+    });
+  } catch (error: any) {
+    logError(error, 'Article review API - PUT');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission, assertCanModifyRecord } from '@/lib/auth';
+import { AppError, formatErrorResponse } from '@/lib/error-handler';
 import { prisma } from '@/lib/prisma';
 import { slugify } from '@/lib/utils';
+import { logActivity } from '@/lib/activity-log';
+import { syncSearchDocument } from '@/lib/search';
+import { invalidateArticleCache } from '@/lib/article-publishing';
+import { createRevision, ensureBaselineRevision, deleteRevisions } from '@/lib/revisions';
+import { parseMachineTranslated } from '@/lib/machine-translation';
+import { parseArticleTagIds } from '@/lib/article-tags';
+import { TRANSLATION_MODELS } from '@/lib/translation-coverage';
 
 // GET - Get single article
 export async function GET(
@@ -10,6 +17,8 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
+    await requirePermission('article', 'read');
+
     const article = await prisma.article.findUnique({
       where: { id: params.id },
       include: {
@@ -20,6 +29,13 @@ export async function GET(
             email: true,
           },
         },
+        reviewer: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
         tags: {
           include: {
             tag: true,
@@ -39,7 +55,10 @@ export async function GET(
       success: true,
       data: article,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Article fetch error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to fetch article' },
@@ -54,13 +73,7 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const session = await requirePermission('article', 'update');
 
     const body = await request.json();
     const {
@@ -70,13 +83,21 @@ export async function PUT(
       featuredImage,
       metaTitle_lo, metaTitle_th, metaTitle_zh, metaTitle_en,
       metaDesc_lo, metaDesc_th, metaDesc_zh, metaDesc_en,
-      isPublished,
+      machineTranslated,
       isFeatured,
+      tags,
     } = body;
 
-    // Check if article exists
+    // Check if article exists; tags are loaded so the activity log diff shows tag changes
     const existing = await prisma.article.findUnique({
       where: { id: params.id },
+      include: {
+        tags: {
+          include: {
+            tag: true,
+          },
+        },
+      },
     });
 
     if (!existing) {
@@ -86,6 +107,13 @@ export async function PUT(
       );
     }
 
+    // Status changes go through POST /api/articles/[id]/status
+    assertCanModifyRecord(session, 'article', existing);
+    await ensureBaselineRevision('Article', existing);
+
+    // Tags are replaced as a whole when sent
+    const tagIds = tags !== undefined ? await parseArticleTagIds(tags) : null;
+
     // Update slug if title changed
     let slug = existing.slug;
     if (title_en && title_en !== existing.title_en) {
@@ -129,9 +157,16 @@ export async function PUT(
         metaDesc_th,
         metaDesc_zh,
         metaDesc_en,
-        isPublished,
+        ...(machineTranslated !== undefined && {
+          machineTranslated: parseMachineTranslated(machineTranslated, TRANSLATION_MODELS.article.fields),
+        }),
         isFeatured,
-        publishedAt: isPublished && !existing.publishedAt ? new Date() : existing.publishedAt,
+        ...(tagIds && {
+          tags: {
+            deleteMany: {},
+            create: tagIds.map((tagId) => ({ tagId })),
+          },
+        }),
       },
       include: {
         createdBy: true,
@@ -143,11 +178,36 @@ export async function PUT(
       },
     });
 
+    await invalidateArticleCache();
+
+    await createRevision({
+      resourceType: 'Article',
+      resourceId: article.id,
+      record: article,
+      authorId: session.user.id,
+    });
+
+    await syncSearchDocument('Article', article.id);
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'Article',
+      resourceId: article.id,
+      description: `Updated article "${article.title_en}"`,
+      before: existing,
+      after: article,
+    });
+
     return NextResponse.json({
       success: true,
       data: article,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Article update error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to update article' },
@@ -162,23 +222,48 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
+    const session = await requirePermission('article', 'delete');
+
+    const existing = await prisma.article.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: 'Article not found' },
+        { status: 404 }
       );
     }
 
-    await prisma.article.delete({
+    assertCanModifyRecord(session, 'article', existing);
+
+    const deleted = await prisma.article.delete({
       where: { id: params.id },
     });
 
+    await invalidateArticleCache();
+    await deleteRevisions('Article', deleted.id);
+
+    await syncSearchDocument('Article', deleted.id);
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'DELETE',
+      resourceType: 'Article',
+      resourceId: deleted.id,
+      description: `Deleted article "${deleted.title_en}"`,
+      before: deleted,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Article deleted successfully',
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Article delete error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to delete article' },
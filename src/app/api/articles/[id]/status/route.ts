@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission, assertCanModifyRecord } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, ValidationError, NotFoundError, logError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { syncSearchDocument } from '@/lib/search';
+import { isArticleStatus, ARTICLE_STATUS_LABELS } from '@/lib/article-workflow';
+import { assertCanTransition, getStatusData, invalidateArticleCache } from '@/lib/article-publishing';
+
+// POST - Move article to another workflow status
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission('article', 'update');
+
+    const body = await request.json();
+    const { status, publishedAt, comment } = body;
+
+    if (!isArticleStatus(status)) {
+      throw new ValidationError(`Invalid article status: ${status}`);
+    }
+
+    const existing = await prisma.article.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Article not found');
+    }
+
+    assertCanModifyRecord(session, 'article', existing);
+    assertCanTransition(session, existing.status, status);
+
+    const statusData = getStatusData(status, existing.publishedAt, publishedAt);
+    const note = typeof comment === 'string' ? comment.trim().substring(0, 2000) : '';
+
+    const article = await prisma.$transaction(async (tx) => {
+      if (note) {
+        await tx.articleReviewComment.create({
+          data: {
+            articleId: existing.id,
+            authorId: session.user.id,
+            body: note,
+            status,
+          },
+        });
+      }
+
+      return tx.article.update({
+        where: { id: existing.id },
+        data: statusData,
+        include: {
+          reviewer: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+            },
+          },
+        },
+      });
+    });
+
+    await invalidateArticleCache();
+
+    await syncSearchDocument('Article', article.id);
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'Article',
+      resourceId: article.id,
+      description: `Moved article "${article.title_en}" from ${ARTICLE_STATUS_LABELS[existing.status]} to ${ARTICLE_STATUS_LABELS[status]}`,
+      before: existing,
+      after: article,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: article,
+    });
+  } catch (error: any) {
+    logError(error, 'Article status API - POST');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { can } from '@/lib/permissions';
+
+// GET - Users who can be assigned to review articles
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission('article', 'read');
+
+    const users = await prisma.user.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: users.filter((user) => can(user.role, 'article', 'publish')),
+    });
+  } catch (error: any) {
+    logError(error, 'Article reviewers API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -1,13 +1,39 @@
 // @ts-ignore
 import { NextRequest, NextResponse } from 'next/server';
-// @ts-ignore
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { slugify } from '@/lib/utils';
-import { rateLimit, getClientIP, SECURITY_CONFIG } from '@/lib/security';
-import { formatErrorResponse, AuthenticationError, ValidationError, logError } from '@/lib/error-handler';
-import { createPaginationOptions, formatPaginationResponse, createOptimizedQuery, cache } from '@/lib/performance';
+import { getClientIP, SECURITY_CONFIG } from '@/lib/security';
+import { rateLimit } from '@/lib/rate-limit';
+import { formatErrorResponse, ValidationError, logError } from '@/lib/error-handler';
+import { createPaginationOptions, formatPaginationResponse } from '@/lib/performance';
+import { createOptimizedQuery } from '@/lib/cache';
+import { logActivity } from '@/lib/activity-log';
+import { syncSearchDocument } from '@/lib/search';
+import { createRevision } from '@/lib/revisions';
+import { getMissingTranslationIds, parseTranslationLocale, TRANSLATION_MODELS } from '@/lib/translation-coverage';
+import { parseMachineTranslated } from '@/lib/machine-translation';
+import { parseArticleTagIds } from '@/lib/article-tags';
+import { isArticleStatus, ArticleStatus, INITIAL_ARTICLE_STATUSES } from '@/lib/article-workflow';
+import {
+  publishDueArticles,
+  assertCanTransition,
+  assertValidReviewer,
+  getStatusData,
+  invalidateArticleCache,
+} from '@/lib/article-publishing';
+
+function parseStatuses(value: string | null): ArticleStatus[] {
+  if (!value) return [];
+
+  return value.split(',').map((status) => {
+    const normalized = status.trim().toUpperCase();
+    if (!isArticleStatus(normalized)) {
+      throw new ValidationError(`Invalid article status: ${status}`);
+    }
+    return normalized;
+  });
+}
 
 // GET - List articles
 export async function GET(request: NextRequest) {
@@ -15,8 +41,21 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const published = searchParams.get('published') !== 'false';
     const featured = searchParams.get('featured') === 'true';
+    const statuses = parseStatuses(searchParams.get('status'));
+    const reviewerId = searchParams.get('reviewerId');
+    const missing = parseTranslationLocale(searchParams.get('missing'));
     const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
     const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+
+    // Anything beyond the published list is editorial data
+    const isPublicQuery = published && statuses.length === 0 && !reviewerId && !missing;
+    if (isPublicQuery) {
+      await publishDueArticles();
+    } else {
+      await requirePermission('article', 'read');
+    }
+
+    const missingIds = missing ? await getMissingTranslationIds('article', missing) : null;
     
     // Create cache key
     const cacheKey = `articles:${published}:${featured}:${page}:${limit}`;
@@ -25,8 +64,18 @@ export async function GET(request: NextRequest) {
     const query = () => {
       const where: any = {};
       
-      if (published) {
-        where.isPublished = true;
+      if (isPublicQuery) {
+        where.status = 'PUBLISHED';
+      } else if (statuses.length > 0) {
+        where.status = { in: statuses };
+      }
+
+      if (reviewerId) {
+        where.reviewerId = reviewerId;
+      }
+
+      if (missingIds) {
+        where.id = { in: missingIds };
       }
       
       if (featured) {
@@ -46,6 +95,15 @@ export async function GET(request: NextRequest) {
                 email: true,
               },
             },
+            ...(!isPublicQuery && {
+              reviewer: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                },
+              },
+            }),
             tags: {
               include: {
                 tag: true,
@@ -62,12 +120,24 @@ export async function GET(request: NextRequest) {
       ]);
     };
 
-    const [articles, total] = await createOptimizedQuery(query, cacheKey, 300); // 5 minutes cache
+    // Only the public list is cached; editors need to see their changes immediately
+    const [articles, total] = isPublicQuery
+      ? await createOptimizedQuery(query, cacheKey, 300, ['articles']) // 5 minutes cache
+      : await query();
+
+    const statusCounts = isPublicQuery
+      ? undefined
+      : Object.fromEntries(
+          (await prisma.article.groupBy({ by: ['status'], _count: { _all: true } })).map(
+            (group) => [group.status, group._count._all]
+          )
+        );
 
     return NextResponse.json({
       success: true,
       data: articles,
       pagination: formatPaginationResponse(articles, total, page, limit),
+      ...(statusCounts && { statusCounts }),
     });
   } catch (error: any) {
     logError(error, 'Articles API - GET');
@@ -81,15 +151,11 @@ export async function GET(request: NextRequest) {
 // POST - Create article
 export async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      throw new AuthenticationError();
-    }
+    const session = await requirePermission('article', 'create');
 
     // Rate limiting for article creation
     const clientIP = getClientIP(request);
-    const rateLimitResult = rateLimit(`article-create:${clientIP}`, 5); // 5 articles per window
+    const rateLimitResult = await rateLimit(`article-create:${clientIP}`, 5); // 5 articles per window
     
     if (!rateLimitResult.success) {
       throw new ValidationError('Too many article creation attempts. Please try again later.');
@@ -103,11 +169,30 @@ export async function POST(request: NextRequest) {
       featuredImage,
       metaTitle_lo, metaTitle_th, metaTitle_zh, metaTitle_en,
       metaDesc_lo, metaDesc_th, metaDesc_zh, metaDesc_en,
+      machineTranslated,
+      status,
+      publishedAt,
+      reviewerId,
       isPublished,
       isFeatured,
       tags,
     } = body;
 
+    // Older clients only send isPublished
+    const initialStatus = status ?? (isPublished ? 'PUBLISHED' : 'DRAFT');
+    if (!INITIAL_ARTICLE_STATUSES.includes(initialStatus)) {
+      throw new ValidationError(`Invalid article status: ${initialStatus}`);
+    }
+
+    assertCanTransition(session, null, initialStatus);
+    const statusData = getStatusData(initialStatus, null, publishedAt);
+
+    if (reviewerId) {
+      await assertValidReviewer(reviewerId);
+    }
+
+    const tagIds = tags !== undefined ? await parseArticleTagIds(tags) : [];
+
     // Validate required fields
     if (!title_lo || !title_th || !title_zh || !title_en) {
       throw new ValidationError('All language titles are required');
@@ -149,10 +234,6 @@ export async function POST(request: NextRequest) {
 
     // Create article with transaction
     const article = await prisma.$transaction(async (tx: any) => {
-      // Clear cache for articles list
-      cache.delete('articles:true:false:1:20');
-      cache.delete('articles:true:true:1:20');
-      
       return tx.article.create({
         data: {
           slug: finalSlug,
@@ -177,10 +258,14 @@ export async function POST(request: NextRequest) {
           metaDesc_th: metaDesc_th?.substring(0, 160) || null,
           metaDesc_zh: metaDesc_zh?.substring(0, 160) || null,
           metaDesc_en: metaDesc_en?.substring(0, 160) || null,
-          isPublished: isPublished ?? false,
+          machineTranslated: parseMachineTranslated(machineTranslated, TRANSLATION_MODELS.article.fields),
+          ...statusData,
           isFeatured: isFeatured ?? false,
-          publishedAt: isPublished ? new Date() : null,
+          reviewerId: reviewerId || null,
           createdById: (user as any).id,
+          tags: {
+            create: tagIds.map((tagId) => ({ tagId })),
+          },
         },
         include: {
           createdBy: true,
@@ -193,6 +278,27 @@ export async function POST(request: NextRequest) {
       });
     });
 
+    await invalidateArticleCache();
+
+    await createRevision({
+      resourceType: 'Article',
+      resourceId: article.id,
+      record: article,
+      authorId: (user as any).id,
+    });
+
+    await syncSearchDocument('Article', article.id);
+
+    await logActivity({
+      request,
+      userId: (user as any).id,
+      action: 'CREATE',
+      resourceType: 'Article',
+      resourceId: article.id,
+      description: `Created article "${article.title_en}"`,
+      after: article,
+    });
+
     return NextResponse.json({
       success: true,
       data: article,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { publishDueArticles } from '@/lib/article-publishing';
 
 // GET - Get single article by slug
 export async function GET(
@@ -7,8 +8,13 @@ export async function GET(
   { params }: { params: { slug: string } }
 ) {
   try {
-    const article = await prisma.article.findUnique({
-      where: { slug: params.slug },
+    await publishDueArticles();
+
+    const article = await prisma.article.findFirst({
+      where: {
+        slug: params.slug,
+        status: 'PUBLISHED',
+      },
       include: {
         createdBy: {
           select: {
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { AppError, formatErrorResponse } from '@/lib/error-handler';
 import { prisma } from '@/lib/prisma';
 import { slugify } from '@/lib/utils';
+import { logActivity } from '@/lib/activity-log';
 
 // GET - Get single category
 export async function GET(
@@ -46,13 +47,7 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const session = await requirePermission('category', 'update');
 
     const body = await request.json();
     const { name_lo, name_th, name_zh, name_en, description_lo, description_th, description_zh, description_en, image, order, isActive } = body;
@@ -105,11 +100,25 @@ export async function PUT(
       },
     });
 
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'Category',
+      resourceId: category.id,
+      description: `Updated category "${category.name_en}"`,
+      before: existing,
+      after: category,
+    });
+
     return NextResponse.json({
       success: true,
       data: category,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Category update error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to update category' },
@@ -124,13 +133,7 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const session = await requirePermission('category', 'delete');
 
     // Check if category has products
     const productsCount = await prisma.product.count({
@@ -147,15 +150,28 @@ export async function DELETE(
       );
     }
 
-    await prisma.category.delete({
+    const deleted = await prisma.category.delete({
       where: { id: params.id },
     });
 
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'DELETE',
+      resourceType: 'Category',
+      resourceId: deleted.id,
+      description: `Deleted category "${deleted.name_en}"`,
+      before: deleted,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Category deleted successfully',
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Category delete error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to delete category' },
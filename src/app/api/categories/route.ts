@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { AppError, formatErrorResponse } from '@/lib/error-handler';
 import { prisma } from '@/lib/prisma';
 import { slugify } from '@/lib/utils';
+import { logActivity } from '@/lib/activity-log';
 
 // GET - List all categories
 export async function GET(request: NextRequest) {
@@ -38,13 +39,7 @@ export async function GET(request: NextRequest) {
 // POST - Create new category
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const session = await requirePermission('category', 'create');
 
     const body = await request.json();
     const { name_lo, name_th, name_zh, name_en, description_lo, description_th, description_zh, description_en, image, order } = body;
@@ -89,11 +84,24 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'CREATE',
+      resourceType: 'Category',
+      resourceId: category.id,
+      description: `Created category "${category.name_en}"`,
+      after: category,
+    });
+
     return NextResponse.json({
       success: true,
       data: category,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Category create error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to create category' },
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, ValidationError, logError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { BASE_CURRENCY, isCurrency } from '@/lib/currency';
+import { invalidateCurrencyConfig } from '@/lib/exchange-rates';
+import { refreshProductPriceRange } from '@/lib/product-catalog';
+
+// GET - List exchange rates with who last updated them
+export async function GET() {
+  try {
+    await requirePermission('settings', 'read');
+
+    const rates = await prisma.exchangeRate.findMany({
+      orderBy: { currency: 'asc' },
+      include: {
+        updatedBy: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      baseCurrency: BASE_CURRENCY,
+      data: rates,
+    });
+  } catch (error: any) {
+    logError(error, 'Exchange Rates API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// PUT - Replace the rate table; currencies left out are removed
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await requirePermission('settings', 'update');
+
+    const body = await request.json();
+    if (!body || !Array.isArray(body.rates)) {
+      throw new ValidationError('rates must be an array');
+    }
+
+    const seen = new Set<string>();
+    const entries = body.rates.map((entry: any) => {
+      const currency = typeof entry?.currency === 'string' ? entry.currency.toUpperCase() : '';
+      const rate = Number(entry?.rate);
+
+      if (!isCurrency(currency) || currency === BASE_CURRENCY) {
+        throw new ValidationError(`Unsupported currency: ${entry?.currency}`);
+      }
+      if (seen.has(currency)) {
+        throw new ValidationError(`Duplicate currency: ${currency}`);
+      }
+      if (!isFinite(rate) || rate <= 0) {
+        throw new ValidationError(`Invalid rate for ${currency}`);
+      }
+
+      seen.add(currency);
+      return { currency, rate };
+    });
+
+    const previous = await prisma.exchangeRate.findMany({ orderBy: { currency: 'asc' } });
+    const previousRates = new Map(previous.map((rate) => [rate.currency, Number(rate.rate)]));
+
+    await prisma.$transaction([
+      prisma.exchangeRate.deleteMany({
+        where: { currency: { notIn: Array.from(seen) } },
+      }),
+      // Only touch rows whose rate changed so their timestamp stays meaningful
+      ...entries
+        .filter(({ currency, rate }: { currency: string; rate: number }) => previousRates.get(currency) !== rate)
+        .map(({ currency, rate }: { currency: string; rate: number }) =>
+          prisma.exchangeRate.upsert({
+            where: { currency },
+            create: { currency, rate, updatedById: session.user.id },
+            update: { rate, updatedById: session.user.id },
+          })
+        ),
+    ]);
+
+    await invalidateCurrencyConfig();
+    // Price filters compare in the base currency, so every product's range moves with the rates
+    await refreshProductPriceRange();
+
+    const rates = await prisma.exchangeRate.findMany({
+      orderBy: { currency: 'asc' },
+      include: {
+        updatedBy: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'Settings',
+      resourceId: 'exchange_rates',
+      description: 'Updated exchange rates',
+      before: Object.fromEntries(previousRates),
+      after: Object.fromEntries(rates.map((rate) => [rate.currency, Number(rate.rate)])),
+    });
+
+    return NextResponse.json({
+      success: true,
+      baseCurrency: BASE_CURRENCY,
+      data: rates,
+    });
+  } catch (error: any) {
+    logError(error, 'Exchange Rates API - PUT');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
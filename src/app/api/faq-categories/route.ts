@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
+import { AppError, formatErrorResponse } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
 
 const prisma = new PrismaClient();
 
@@ -38,6 +41,7 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await requirePermission('faq', 'create');
     const body = await request.json();
     const {
       name_lo,
@@ -67,8 +71,21 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'CREATE',
+      resourceType: 'FAQCategory',
+      resourceId: category.id,
+      description: `Created FAQ category "${category.name_en}"`,
+      after: category,
+    });
+
     return NextResponse.json(category);
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('FAQ category creation error:', error);
     return NextResponse.json(
       { error: 'Failed to create FAQ category' },
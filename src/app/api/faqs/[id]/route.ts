@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
+import { AppError, formatErrorResponse } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { syncSearchDocument } from '@/lib/search';
 
 const prisma = new PrismaClient();
 
@@ -8,9 +12,14 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const session = await requirePermission('faq', 'update');
     const body = await request.json();
     const { id } = params;
 
+    const existing = await prisma.fAQ.findUnique({
+      where: { id },
+    });
+
     const faq = await prisma.fAQ.update({
       where: { id },
       data: {
@@ -31,8 +40,24 @@ export async function PUT(
       },
     });
 
+    await syncSearchDocument('FAQ', faq.id);
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'FAQ',
+      resourceId: faq.id,
+      description: `Updated FAQ "${faq.question_en}"`,
+      before: existing,
+      after: faq,
+    });
+
     return NextResponse.json(faq);
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('FAQ update error:', error);
     return NextResponse.json(
       { error: 'Failed to update FAQ' },
@@ -46,14 +71,30 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const session = await requirePermission('faq', 'delete');
     const { id } = params;
 
-    await prisma.fAQ.delete({
+    const deleted = await prisma.fAQ.delete({
       where: { id },
     });
 
+    await syncSearchDocument('FAQ', deleted.id);
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'DELETE',
+      resourceType: 'FAQ',
+      resourceId: deleted.id,
+      description: `Deleted FAQ "${deleted.question_en}"`,
+      before: deleted,
+    });
+
     return NextResponse.json({ success: true });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('FAQ deletion error:', error);
     return NextResponse.json(
       { error: 'Failed to delete FAQ' },
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
+import { AppError, formatErrorResponse } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { syncSearchDocument } from '@/lib/search';
 
 const prisma = new PrismaClient();
 
@@ -56,6 +60,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const session = await requirePermission('faq', 'create');
     const body = await request.json();
     const {
       question_lo,
@@ -90,8 +95,23 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await syncSearchDocument('FAQ', faq.id);
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'CREATE',
+      resourceType: 'FAQ',
+      resourceId: faq.id,
+      description: `Created FAQ "${faq.question_en}"`,
+      after: faq,
+    });
+
     return NextResponse.json(faq);
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('FAQ creation error:', error);
     return NextResponse.json(
       { error: 'Failed to create FAQ' },
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, logError, NotFoundError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { parseHomeSectionInput, invalidateHomeSections } from '@/lib/home-sections';
+
+// PUT - Update a section
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission('homeSection', 'update');
+
+    const existing = await prisma.homeSection.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Section not found');
+    }
+
+    const data = parseHomeSectionInput(await request.json());
+
+    const section = await prisma.homeSection.update({
+      where: { id: params.id },
+      data,
+    });
+
+    await invalidateHomeSections();
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'HomeSection',
+      resourceId: section.id,
+      description: `Updated ${section.type} home section`,
+      before: existing,
+      after: section,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: section,
+    });
+  } catch (error: any) {
+    logError(error, 'Home Sections API - PUT');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// DELETE - Delete a section
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission('homeSection', 'delete');
+
+    const existing = await prisma.homeSection.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Section not found');
+    }
+
+    await prisma.homeSection.delete({
+      where: { id: params.id },
+    });
+
+    await invalidateHomeSections();
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'DELETE',
+      resourceType: 'HomeSection',
+      resourceId: existing.id,
+      description: `Deleted ${existing.type} home section`,
+      before: existing,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Section deleted successfully',
+    });
+  } catch (error: any) {
+    logError(error, 'Home Sections API - DELETE');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { HomeSection } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { listOrdered, reorderList } from '@/lib/ordered-list';
+import { homeSectionList } from '@/lib/home-sections';
+
+// PUT - Save a new order; body is { ids } listing every section in display order
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await requirePermission('homeSection', 'update');
+
+    const order = await reorderList(homeSectionList, await request.json());
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'HomeSection',
+      resourceId: 'order',
+      description: 'Reordered home sections',
+      before: { order: order.before },
+      after: { order: order.after },
+    });
+
+    const sections = await listOrdered<HomeSection>(homeSectionList);
+
+    return NextResponse.json({
+      success: true,
+      data: sections,
+    });
+  } catch (error: any) {
+    logError(error, 'Home Sections API - Reorder');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
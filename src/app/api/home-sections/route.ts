@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { HomeSection } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { listOrdered, createOrdered } from '@/lib/ordered-list';
+import { logActivity } from '@/lib/activity-log';
+import { parseHomeSectionInput, homeSectionList } from '@/lib/home-sections';
+
+// GET - List all sections, including inactive ones
+export async function GET() {
+  try {
+    await requirePermission('homeSection', 'read');
+
+    const sections = await listOrdered<HomeSection>(homeSectionList);
+
+    return NextResponse.json({
+      success: true,
+      data: sections,
+    });
+  } catch (error: any) {
+    logError(error, 'Home Sections API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// POST - Create a section at the end of the list
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission('homeSection', 'create');
+
+    const data = parseHomeSectionInput(await request.json());
+
+    const section = await createOrdered<HomeSection>(homeSectionList, data);
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'CREATE',
+      resourceType: 'HomeSection',
+      resourceId: section.id,
+      description: `Created ${section.type} home section`,
+      after: section,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: section,
+    }, { status: 201 });
+  } catch (error: any) {
+    logError(error, 'Home Sections API - POST');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, NotFoundError, ValidationError, logError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { inquiryInclude, isInquiryStatus } from '@/lib/inquiries';
+
+// PUT - Update status, assignee or notes
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission('inquiry', 'update');
+
+    const existing = await prisma.inquiry.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Inquiry not found');
+    }
+
+    const body = await request.json();
+    const data: { status?: any; assigneeId?: string | null; notes?: string | null } = {};
+
+    if (body.status !== undefined) {
+      if (!isInquiryStatus(body.status)) {
+        throw new ValidationError(`Invalid status: ${body.status}`);
+      }
+      data.status = body.status;
+    }
+
+    if (body.assigneeId !== undefined) {
+      if (body.assigneeId) {
+        const assignee = await prisma.user.findFirst({
+          where: { id: body.assigneeId, isActive: true },
+          select: { id: true },
+        });
+        if (!assignee) {
+          throw new ValidationError('Assignee must be an active user');
+        }
+      }
+      data.assigneeId = body.assigneeId || null;
+    }
+
+    if (body.notes !== undefined) {
+      data.notes = typeof body.notes === 'string' && body.notes.trim() ? body.notes.substring(0, 5000) : null;
+    }
+
+    const inquiry = await prisma.inquiry.update({
+      where: { id: params.id },
+      data,
+      include: inquiryInclude,
+    });
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'Inquiry',
+      resourceId: inquiry.id,
+      description: `Updated inquiry from "${inquiry.name}"`,
+      before: { status: existing.status, assigneeId: existing.assigneeId, notes: existing.notes },
+      after: { status: inquiry.status, assigneeId: inquiry.assigneeId, notes: inquiry.notes },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: inquiry,
+    });
+  } catch (error: any) {
+    logError(error, 'Inquiries API - PUT');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// DELETE - Remove an inquiry (e.g. spam that got through)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission('inquiry', 'delete');
+
+    const existing = await prisma.inquiry.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Inquiry not found');
+    }
+
+    await prisma.inquiry.delete({
+      where: { id: params.id },
+    });
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'DELETE',
+      resourceType: 'Inquiry',
+      resourceId: existing.id,
+      description: `Deleted inquiry from "${existing.name}"`,
+      before: existing,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Inquiry deleted successfully',
+    });
+  } catch (error: any) {
+    logError(error, 'Inquiries API - DELETE');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
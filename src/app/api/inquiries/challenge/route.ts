@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { createChallenge } from '@/lib/inquiries';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Issue a security question for the contact form
+export async function GET() {
+  try {
+    return NextResponse.json({
+      success: true,
+      data: createChallenge(),
+    });
+  } catch (error: any) {
+    logError(error, 'Inquiry Challenge API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
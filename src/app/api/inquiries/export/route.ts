@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { buildInquiryWhere, inquiryInclude, toCsv } from '@/lib/inquiries';
+
+const MAX_EXPORT_ROWS = 10000;
+
+// GET - Export the filtered inbox as CSV
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission('inquiry', 'read');
+
+    const { searchParams } = new URL(request.url);
+    const inquiries = await prisma.inquiry.findMany({
+      where: buildInquiryWhere(searchParams),
+      include: inquiryInclude,
+      orderBy: { createdAt: 'desc' },
+      take: MAX_EXPORT_ROWS,
+    });
+
+    const csv = toCsv(
+      ['Date', 'Status', 'Name', 'Email', 'Phone', 'Language', 'Product', 'Message', 'Assignee', 'Notes'],
+      inquiries.map((inquiry) => [
+        inquiry.createdAt,
+        inquiry.status,
+        inquiry.name,
+        inquiry.email,
+        inquiry.phone,
+        inquiry.locale,
+        inquiry.product?.name_en || inquiry.product?.name_lo,
+        inquiry.message,
+        inquiry.assignee?.name,
+        inquiry.notes,
+      ])
+    );
+
+    const date = new Date().toISOString().slice(0, 10);
+
+    // BOM so spreadsheet apps read Lao, Thai and Chinese text as UTF-8
+    return new NextResponse(`\uFEFF${csv}`, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="inquiries-${date}.csv"`,
+      },
+    });
+  } catch (error: any) {
+    logError(error, 'Inquiries API - EXPORT');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
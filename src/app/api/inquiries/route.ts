@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, RateLimitError, logError } from '@/lib/error-handler';
+import { createPaginationOptions } from '@/lib/performance';
+import { getClientIP } from '@/lib/security';
+import { rateLimit } from '@/lib/rate-limit';
+import { buildInquiryWhere, inquiryInclude, parseInquiryInput, verifyChallenge } from '@/lib/inquiries';
+
+// GET - Inquiry inbox with status counts
+export async function GET(request: NextRequest) {
+  try {
+    await requirePermission('inquiry', 'read');
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '20')));
+    const where = buildInquiryWhere(searchParams);
+
+    // Counts ignore the status filter so the tabs stay populated
+    const countWhere = { ...where };
+    delete countWhere.status;
+
+    const [inquiries, total, statusGroups] = await Promise.all([
+      prisma.inquiry.findMany({
+        where,
+        include: inquiryInclude,
+        orderBy: { createdAt: 'desc' },
+        ...createPaginationOptions(page, limit),
+      }),
+      prisma.inquiry.count({ where }),
+      prisma.inquiry.groupBy({
+        by: ['status'],
+        where: countWhere,
+        _count: { _all: true },
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: inquiries,
+      statusCounts: Object.fromEntries(statusGroups.map((group) => [group.status, group._count._all])),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error: any) {
+    logError(error, 'Inquiries API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// POST - Submit the public contact form
+export async function POST(request: NextRequest) {
+  try {
+    const clientIP = getClientIP(request);
+    const rateLimitResult = await rateLimit(`inquiry:${clientIP}`, 5); // 5 inquiries per window
+
+    if (!rateLimitResult.success) {
+      throw new RateLimitError('Too many inquiries. Please try again later.');
+    }
+
+    const body = await request.json();
+
+    // Honeypot: real visitors never see this field. Pretend success so bots don't adapt.
+    if (body?.website) {
+      return NextResponse.json({ success: true }, { status: 201 });
+    }
+
+    await verifyChallenge(body?.challengeToken, body?.challengeAnswer);
+    const input = parseInquiryInput(body);
+
+    // Only keep references to products that are actually on the site
+    const product = input.productId
+      ? await prisma.product.findFirst({
+          where: { id: input.productId, isPublished: true },
+          select: { id: true },
+        })
+      : null;
+
+    await prisma.inquiry.create({
+      data: {
+        ...input,
+        productId: product?.id ?? null,
+        ipAddress: clientIP,
+        userAgent: request.headers.get('user-agent')?.substring(0, 500) || null,
+      },
+    });
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error: any) {
+    logError(error, 'Inquiries API - POST');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission, assertCanModifyRecord, assertCanPublish } from '@/lib/auth';
+import { AppError, formatErrorResponse } from '@/lib/error-handler';
 import { prisma } from '@/lib/prisma';
 import { slugify } from '@/lib/utils';
+import { logActivity } from '@/lib/activity-log';
+import { syncSearchDocument } from '@/lib/search';
+import { createRevision, ensureBaselineRevision, deleteRevisions } from '@/lib/revisions';
+import { productVariantInclude, validateVariantInput, replaceProductVariants } from '@/lib/product-variants';
+import { parseMachineTranslated } from '@/lib/machine-translation';
+import { TRANSLATION_MODELS } from '@/lib/translation-coverage';
+import { refreshProductPriceRange } from '@/lib/product-catalog';
 
 // GET - Get single product
 export async function GET(
@@ -17,6 +24,7 @@ export async function GET(
         images: {
           orderBy: { order: 'asc' },
         },
+        ...productVariantInclude,
         createdBy: {
           select: {
             id: true,
@@ -53,13 +61,7 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const session = await requirePermission('product', 'update');
 
     const body = await request.json();
     const {
@@ -71,17 +73,23 @@ export async function PUT(
       sku,
       featuredImage,
       images,
+      options,
+      variants,
       metaTitle_lo, metaTitle_th, metaTitle_zh, metaTitle_en,
       metaDesc_lo, metaDesc_th, metaDesc_zh, metaDesc_en,
+      machineTranslated,
       isPublished,
       isFeatured,
       order,
     } = body;
 
+    // Options and variants are replaced as a whole when sent
+    const variantInput = options !== undefined ? validateVariantInput(options, variants ?? []) : null;
+
     // Check if product exists
     const existing = await prisma.product.findUnique({
       where: { id: params.id },
-      include: { images: true },
+      include: { images: true, ...productVariantInclude },
     });
 
     if (!existing) {
@@ -91,6 +99,10 @@ export async function PUT(
       );
     }
 
+    assertCanModifyRecord(session, 'product', existing);
+    assertCanPublish(session, 'product', isPublished);
+    await ensureBaselineRevision('Product', existing);
+
     // Update slug if name changed
     let slug = existing.slug;
     if (name_en && name_en !== existing.name_en) {
@@ -108,65 +120,102 @@ export async function PUT(
       }
     }
 
-    // Delete old images
-    if (images && existing.images.length > 0) {
-      await prisma.productImage.deleteMany({
-        where: { productId: params.id },
+    // Variants, images and the product change together or not at all
+    const product = await prisma.$transaction(async (tx) => {
+      if (variantInput) {
+        await replaceProductVariants(tx, params.id, variantInput);
+      }
+
+      // Delete old images
+      if (images && existing.images.length > 0) {
+        await tx.productImage.deleteMany({
+          where: { productId: params.id },
+        });
+      }
+
+      // Update product
+      const updated = await tx.product.update({
+        where: { id: params.id },
+        data: {
+          slug,
+          name_lo,
+          name_th,
+          name_zh,
+          name_en,
+          description_lo,
+          description_th,
+          description_zh,
+          description_en,
+          categoryId,
+          price: price ? parseFloat(price) : null,
+          currency,
+          sku,
+          featuredImage,
+          metaTitle_lo,
+          metaTitle_th,
+          metaTitle_zh,
+          metaTitle_en,
+          metaDesc_lo,
+          metaDesc_th,
+          metaDesc_zh,
+          metaDesc_en,
+          ...(machineTranslated !== undefined && {
+            machineTranslated: parseMachineTranslated(machineTranslated, TRANSLATION_MODELS.product.fields),
+          }),
+          isPublished,
+          isFeatured,
+          order,
+          publishedAt: isPublished && !existing.publishedAt ? new Date() : existing.publishedAt,
+          images: images && images.length > 0 ? {
+            create: images.map((img: any, index: number) => ({
+              url: img.url,
+              alt_lo: img.alt_lo,
+              alt_th: img.alt_th,
+              alt_zh: img.alt_zh,
+              alt_en: img.alt_en,
+              order: index,
+            })),
+          } : undefined,
+        },
+        include: {
+          category: true,
+          images: true,
+          ...productVariantInclude,
+        },
       });
-    }
+      await refreshProductPriceRange(updated.id, tx);
 
-    // Update product
-    const product = await prisma.product.update({
-      where: { id: params.id },
-      data: {
-        slug,
-        name_lo,
-        name_th,
-        name_zh,
-        name_en,
-        description_lo,
-        description_th,
-        description_zh,
-        description_en,
-        categoryId,
-        price: price ? parseFloat(price) : null,
-        currency,
-        sku,
-        featuredImage,
-        metaTitle_lo,
-        metaTitle_th,
-        metaTitle_zh,
-        metaTitle_en,
-        metaDesc_lo,
-        metaDesc_th,
-        metaDesc_zh,
-        metaDesc_en,
-        isPublished,
-        isFeatured,
-        order,
-        publishedAt: isPublished && !existing.publishedAt ? new Date() : existing.publishedAt,
-        images: images && images.length > 0 ? {
-          create: images.map((img: any, index: number) => ({
-            url: img.url,
-            alt_lo: img.alt_lo,
-            alt_th: img.alt_th,
-            alt_zh: img.alt_zh,
-            alt_en: img.alt_en,
-            order: index,
-          })),
-        } : undefined,
-      },
-      include: {
-        category: true,
-        images: true,
-      },
+      return updated;
+    });
+
+    await createRevision({
+      resourceType: 'Product',
+      resourceId: product.id,
+      record: product,
+      authorId: session.user.id,
+    });
+
+    await syncSearchDocument('Product', product.id);
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'Product',
+      resourceId: product.id,
+      description: `Updated product "${product.name_en}"`,
+      before: existing,
+      after: product,
     });
 
     return NextResponse.json({
       success: true,
       data: product,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Product update error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to update product' },
@@ -181,23 +230,47 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
+    const session = await requirePermission('product', 'delete');
+
+    const existing = await prisma.product.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: 'Product not found' },
+        { status: 404 }
       );
     }
 
-    await prisma.product.delete({
+    assertCanModifyRecord(session, 'product', existing);
+
+    const deleted = await prisma.product.delete({
       where: { id: params.id },
     });
 
+    await deleteRevisions('Product', deleted.id);
+
+    await syncSearchDocument('Product', deleted.id);
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'DELETE',
+      resourceType: 'Product',
+      resourceId: deleted.id,
+      description: `Deleted product "${deleted.name_en}"`,
+      before: deleted,
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Product deleted successfully',
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Product delete error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to delete product' },
@@ -1,71 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission, assertCanPublish } from '@/lib/auth';
+import { AppError, formatErrorResponse } from '@/lib/error-handler';
 import { prisma } from '@/lib/prisma';
 import { slugify } from '@/lib/utils';
+import { logActivity } from '@/lib/activity-log';
+import { syncSearchDocument } from '@/lib/search';
+import { createRevision } from '@/lib/revisions';
+import { parseProductFilters, queryProducts, getProductFacets, refreshProductPriceRange } from '@/lib/product-catalog';
+import { validateVariantInput, replaceProductVariants } from '@/lib/product-variants';
+import { parseMachineTranslated } from '@/lib/machine-translation';
+import { TRANSLATION_MODELS } from '@/lib/translation-coverage';
 
-// GET - List products
+// GET - List products with filters, sorting, facets and cursor pagination
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const categoryId = searchParams.get('categoryId');
-    const featured = searchParams.get('featured') === 'true';
-    const published = searchParams.get('published') !== 'false'; // default true
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '20');
-    const skip = (page - 1) * limit;
-
-    const where: any = {};
-    
-    if (published) {
-      where.isPublished = true;
-    }
-    
-    if (categoryId) {
-      where.categoryId = categoryId;
-    }
-    
-    if (featured) {
-      where.isFeatured = true;
+    const filters = parseProductFilters(searchParams);
+    const withFacets = searchParams.get('facets') !== 'false';
+
+    // Unpublished products and translation gaps are only visible in the admin
+    if (!filters.published || filters.missing) {
+      await requirePermission('product', 'read');
     }
 
-    const [products, total] = await Promise.all([
-      prisma.product.findMany({
-        where,
-        include: {
-          category: true,
-          images: {
-            orderBy: { order: 'asc' },
-          },
-          createdBy: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
+    const [{ products, total, hasNext, nextCursor }, facets] = await Promise.all([
+      queryProducts(filters, {
+        category: true,
+        images: {
+          orderBy: { order: 'asc' },
+        },
+        variants: {
+          select: { price: true, isAvailable: true },
+        },
+        createdBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
           },
         },
-        orderBy: [
-          { order: 'asc' },
-          { createdAt: 'desc' },
-        ],
-        skip,
-        take: limit,
       }),
-      prisma.product.count({ where }),
+      withFacets ? getProductFacets(filters) : Promise.resolve(undefined),
     ]);
 
     return NextResponse.json({
       success: true,
       data: products,
+      ...(facets && { facets }),
       pagination: {
         total,
-        page,
-        limit,
-        totalPages: Math.ceil(total / limit),
+        limit: filters.limit,
+        hasNext,
+        nextCursor,
+        ...(filters.page && {
+          page: filters.page,
+          totalPages: Math.ceil(total / filters.limit),
+        }),
       },
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Products fetch error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to fetch products' },
@@ -77,13 +73,7 @@ export async function GET(request: NextRequest) {
 // POST - Create product
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const session = await requirePermission('product', 'create');
 
     const body = await request.json();
     const {
@@ -95,13 +85,20 @@ export async function POST(request: NextRequest) {
       sku,
       featuredImage,
       images,
+      options,
+      variants,
       metaTitle_lo, metaTitle_th, metaTitle_zh, metaTitle_en,
       metaDesc_lo, metaDesc_th, metaDesc_zh, metaDesc_en,
+      machineTranslated,
       isPublished,
       isFeatured,
       order,
     } = body;
 
+    assertCanPublish(session, 'product', isPublished);
+
+    const variantInput = options !== undefined ? validateVariantInput(options, variants ?? []) : null;
+
     // Validate required fields
     if (!name_lo || !name_th || !name_zh || !name_en) {
       return NextResponse.json(
@@ -149,58 +146,90 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Create product
-    const product = await prisma.product.create({
-      data: {
-        slug: finalSlug,
-        name_lo,
-        name_th,
-        name_zh,
-        name_en,
-        description_lo,
-        description_th,
-        description_zh,
-        description_en,
-        categoryId,
-        price: price ? parseFloat(price) : null,
-        currency: currency || 'LAK',
-        sku,
-        featuredImage,
-        metaTitle_lo,
-        metaTitle_th,
-        metaTitle_zh,
-        metaTitle_en,
-        metaDesc_lo,
-        metaDesc_th,
-        metaDesc_zh,
-        metaDesc_en,
-        isPublished: isPublished ?? false,
-        isFeatured: isFeatured ?? false,
-        order: order || 0,
-        publishedAt: isPublished ? new Date() : null,
-        createdById: user.id,
-        images: images && images.length > 0 ? {
-          create: images.map((img: any, index: number) => ({
-            url: img.url,
-            alt_lo: img.alt_lo,
-            alt_th: img.alt_th,
-            alt_zh: img.alt_zh,
-            alt_en: img.alt_en,
-            order: index,
-          })),
-        } : undefined,
-      },
-      include: {
-        category: true,
-        images: true,
-      },
+    // Product, images and variants are written together so a rejected variant set leaves no product behind
+    const product = await prisma.$transaction(async (tx) => {
+      const created = await tx.product.create({
+        data: {
+          slug: finalSlug,
+          name_lo,
+          name_th,
+          name_zh,
+          name_en,
+          description_lo,
+          description_th,
+          description_zh,
+          description_en,
+          categoryId,
+          price: price ? parseFloat(price) : null,
+          currency: currency || 'LAK',
+          sku,
+          featuredImage,
+          metaTitle_lo,
+          metaTitle_th,
+          metaTitle_zh,
+          metaTitle_en,
+          metaDesc_lo,
+          metaDesc_th,
+          metaDesc_zh,
+          metaDesc_en,
+          machineTranslated: parseMachineTranslated(machineTranslated, TRANSLATION_MODELS.product.fields),
+          isPublished: isPublished ?? false,
+          isFeatured: isFeatured ?? false,
+          order: order || 0,
+          publishedAt: isPublished ? new Date() : null,
+          createdById: user.id,
+          images: images && images.length > 0 ? {
+            create: images.map((img: any, index: number) => ({
+              url: img.url,
+              alt_lo: img.alt_lo,
+              alt_th: img.alt_th,
+              alt_zh: img.alt_zh,
+              alt_en: img.alt_en,
+              order: index,
+            })),
+          } : undefined,
+        },
+        include: {
+          category: true,
+          images: true,
+        },
+      });
+
+      if (variantInput) {
+        await replaceProductVariants(tx, created.id, variantInput);
+      }
+      await refreshProductPriceRange(created.id, tx);
+
+      return created;
+    });
+
+    await createRevision({
+      resourceType: 'Product',
+      resourceId: product.id,
+      record: product,
+      authorId: user.id,
+    });
+
+    await syncSearchDocument('Product', product.id);
+
+    await logActivity({
+      request,
+      userId: user.id,
+      action: 'CREATE',
+      resourceType: 'Product',
+      resourceId: product.id,
+      description: `Created product "${product.name_en}"`,
+      after: product,
     });
 
     return NextResponse.json({
       success: true,
       data: product,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Product create error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to create product' },
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+
+// GET - Get single published product by slug
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { slug: string } }
+) {
+  try {
+    const product = await prisma.product.findUnique({
+      where: { slug: params.slug },
+      include: {
+        category: true,
+        images: {
+          orderBy: { order: 'asc' },
+        },
+      },
+    });
+
+    if (!product || !product.isPublished) {
+      return NextResponse.json(
+        { success: false, error: 'Product not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: product,
+    });
+  } catch (error) {
+    console.error('Product fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch product' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { getCurrencyConfig } from '@/lib/exchange-rates';
+
+// GET - Exchange rates and default display currency per locale (no authentication required)
+export async function GET(request: NextRequest) {
+  try {
+    const config = await getCurrencyConfig();
+
+    return NextResponse.json({
+      success: true,
+      data: config,
+    });
+  } catch (error: any) {
+    logError(error, 'Public Currency API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { getMaintenanceState } from '@/lib/maintenance-state';
+import { isInternalRequest } from '@/lib/internal-request';
+
+export const dynamic = 'force-dynamic';
+
+// GET - Maintenance mode settings (no authentication required). The IP
+// allowlist is only included for the middleware's internal request.
+export async function GET(request: NextRequest) {
+  try {
+    const state = await getMaintenanceState();
+
+    return NextResponse.json({
+      success: true,
+      data: isInternalRequest(request) ? state : { ...state, allowedIPs: [] },
+    });
+  } catch (error: any) {
+    logError(error, 'Public Maintenance API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { getClientIP } from '@/lib/security';
+import { rateLimit } from '@/lib/rate-limit';
+import { hasOptedOut, isBot, parsePageView, recordPageView } from '@/lib/page-views';
+
+// POST - Page-view beacon: { path, locale, referrer }. Sent with sendBeacon,
+// so the body arrives as text; no cookies are read or set.
+export async function POST(request: NextRequest) {
+  try {
+    const userAgent = request.headers.get('user-agent');
+    if (isBot(userAgent) || hasOptedOut(request.headers)) {
+      return new NextResponse(null, { status: 204 });
+    }
+
+    // Beacons also get a budget of their own on top of the middleware's API limit
+    const clientIP = getClientIP(request);
+    if (!(await rateLimit(`pageview:${clientIP}`, 300)).success) {
+      return new NextResponse(null, { status: 204 });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(await request.text());
+    } catch {
+      body = null;
+    }
+
+    const input = parsePageView(body, request.nextUrl.hostname);
+    await recordPageView(input, { ip: clientIP, userAgent: userAgent! });
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error: any) {
+    logError(error, 'Page View API - POST');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
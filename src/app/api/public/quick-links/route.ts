@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { getActiveQuickLinks } from '@/lib/quick-links';
+
+// GET - Active quick links in display order (no authentication required)
+export async function GET(request: NextRequest) {
+  try {
+    const links = await getActiveQuickLinks();
+
+    return NextResponse.json({
+      success: true,
+      data: links,
+    });
+  } catch (error: any) {
+    logError(error, 'Public Quick Links API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
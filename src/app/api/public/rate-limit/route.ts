@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AuthorizationError, ValidationError, formatErrorResponse, logError } from '@/lib/error-handler';
+import { isInternalRequest } from '@/lib/internal-request';
+import { rateLimit } from '@/lib/rate-limit';
+
+export const dynamic = 'force-dynamic';
+
+// POST - Counts one request against { key, limit } for the middleware, which
+// cannot reach Redis from the Edge runtime. Internal requests only.
+export async function POST(request: NextRequest) {
+  try {
+    if (!isInternalRequest(request)) {
+      throw new AuthorizationError();
+    }
+
+    const { key, limit } = await request.json();
+    if (typeof key !== 'string' || !key) {
+      throw new ValidationError('key is required', 'key');
+    }
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new ValidationError('limit must be a positive integer', 'limit');
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await rateLimit(key, limit),
+    });
+  } catch (error: any) {
+    logError(error, 'Public Rate Limit API - POST');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -1,14 +1,14 @@
 // @ts-ignore
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { cache } from '@/lib/performance';
+import { cache } from '@/lib/cache';
 import { formatErrorResponse, logError } from '@/lib/error-handler';
 
 // GET - Fetch public settings (no authentication required)
 export async function GET(request: NextRequest) {
   try {
     // Try to get from cache first
-    const cachedSettings = cache.get('public_site_settings');
+    const cachedSettings = await cache.get('public_site_settings');
     if (cachedSettings) {
       return NextResponse.json({
         success: true,
@@ -62,6 +62,8 @@ export async function GET(request: NextRequest) {
         whatsappMessage_en: true,
         facebookPage: true,
         lineId: true,
+        googleAnalyticsId: true,
+        facebookPixelId: true,
         defaultMetaDesc_lo: true,
         defaultMetaDesc_th: true,
         defaultMetaDesc_zh: true,
@@ -71,6 +73,10 @@ export async function GET(request: NextRequest) {
         maintenanceMessage_th: true,
         maintenanceMessage_zh: true,
         maintenanceMessage_en: true,
+        displayCurrency_lo: true,
+        displayCurrency_th: true,
+        displayCurrency_zh: true,
+        displayCurrency_en: true,
         updatedAt: true,
       },
     });
@@ -119,6 +125,8 @@ export async function GET(request: NextRequest) {
         whatsappMessage_en: '',
         facebookPage: '',
         lineId: '',
+        googleAnalyticsId: '',
+        facebookPixelId: '',
         defaultMetaDesc_lo: '',
         defaultMetaDesc_th: '',
         defaultMetaDesc_zh: '',
@@ -128,17 +136,21 @@ export async function GET(request: NextRequest) {
         maintenanceMessage_th: '',
         maintenanceMessage_zh: '',
         maintenanceMessage_en: '',
+        displayCurrency_lo: 'LAK',
+        displayCurrency_th: 'THB',
+        displayCurrency_zh: 'CNY',
+        displayCurrency_en: 'USD',
         updatedAt: new Date(),
       };
       
-      cache.set('public_site_settings', defaultSettings, 300); // 5 minutes cache
+      await cache.set('public_site_settings', defaultSettings, 300); // 5 minutes cache
       return NextResponse.json({
         success: true,
         data: defaultSettings,
       });
     }
 
-    cache.set('public_site_settings', settings, 300); // 5 minutes cache
+    await cache.set('public_site_settings', settings, 300); // 5 minutes cache
     return NextResponse.json({
       success: true,
       data: settings,
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, logError, NotFoundError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { parseQuickLinkInput, invalidateQuickLinks } from '@/lib/quick-links';
+
+// PUT - Update a quick link
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission('quickLink', 'update');
+
+    const existing = await prisma.quickLink.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Quick link not found');
+    }
+
+    const data = parseQuickLinkInput(await request.json());
+
+    const link = await prisma.quickLink.update({
+      where: { id: params.id },
+      data,
+    });
+
+    await invalidateQuickLinks();
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'QuickLink',
+      resourceId: link.id,
+      description: `Updated quick link "${link.label_lo}"`,
+      before: existing,
+      after: link,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: link,
+    });
+  } catch (error: any) {
+    logError(error, 'Quick Links API - PUT');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// DELETE - Delete a quick link
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission('quickLink', 'delete');
+
+    const existing = await prisma.quickLink.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Quick link not found');
+    }
+
+    await prisma.quickLink.delete({
+      where: { id: params.id },
+    });
+
+    await invalidateQuickLinks();
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'DELETE',
+      resourceType: 'QuickLink',
+      resourceId: existing.id,
+      description: `Deleted quick link "${existing.label_lo}"`,
+      before: existing,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Quick link deleted successfully',
+    });
+  } catch (error: any) {
+    logError(error, 'Quick Links API - DELETE');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
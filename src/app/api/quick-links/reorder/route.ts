@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuickLink } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { listOrdered, reorderList } from '@/lib/ordered-list';
+import { quickLinkList } from '@/lib/quick-links';
+
+// PUT - Save a new order; body is { ids } listing every quick link in display order
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await requirePermission('quickLink', 'update');
+
+    const order = await reorderList(quickLinkList, await request.json());
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'QuickLink',
+      resourceId: 'order',
+      description: 'Reordered quick links',
+      before: { order: order.before },
+      after: { order: order.after },
+    });
+
+    const links = await listOrdered<QuickLink>(quickLinkList);
+
+    return NextResponse.json({
+      success: true,
+      data: links,
+    });
+  } catch (error: any) {
+    logError(error, 'Quick Links API - Reorder');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
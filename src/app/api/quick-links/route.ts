@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { QuickLink } from '@prisma/client';
+import { requirePermission } from '@/lib/auth';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { listOrdered, createOrdered } from '@/lib/ordered-list';
+import { logActivity } from '@/lib/activity-log';
+import { parseQuickLinkInput, quickLinkList } from '@/lib/quick-links';
+
+// GET - List all quick links, including inactive ones
+export async function GET() {
+  try {
+    await requirePermission('quickLink', 'read');
+
+    const links = await listOrdered<QuickLink>(quickLinkList);
+
+    return NextResponse.json({
+      success: true,
+      data: links,
+    });
+  } catch (error: any) {
+    logError(error, 'Quick Links API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// POST - Create a quick link at the end of the list
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission('quickLink', 'create');
+
+    const data = parseQuickLinkInput(await request.json());
+
+    const link = await createOrdered<QuickLink>(quickLinkList, data);
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'CREATE',
+      resourceType: 'QuickLink',
+      resourceId: link.id,
+      description: `Created quick link "${link.label_lo}"`,
+      after: link,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: link,
+    }, { status: 201 });
+  } catch (error: any) {
+    logError(error, 'Quick Links API - POST');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
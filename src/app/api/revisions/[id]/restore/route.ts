@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { requireSession, assertPermission, assertCanModifyRecord } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, ConflictError, NotFoundError, logError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { syncSearchDocument } from '@/lib/search';
+import { invalidateArticleCache } from '@/lib/article-publishing';
+import { refreshProductPriceRange } from '@/lib/product-catalog';
+import {
+  isRevisionResource,
+  REVISION_PERMISSION_RESOURCE,
+  createRevision,
+  ensureBaselineRevision,
+  findRevisionTarget,
+  pickRevisionData,
+} from '@/lib/revisions';
+
+// POST - Restore a revision; the restored state is saved as a new revision
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Signed-out callers get 401 before anything reveals whether the revision exists
+    const session = await requireSession();
+
+    const revision = await prisma.revision.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!revision || !isRevisionResource(revision.resourceType)) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    const resourceType = revision.resourceType;
+    assertPermission(session, REVISION_PERMISSION_RESOURCE[resourceType], 'update');
+
+    const existing = await findRevisionTarget(resourceType, revision.resourceId);
+    assertCanModifyRecord(session, REVISION_PERMISSION_RESOURCE[resourceType], existing);
+    await ensureBaselineRevision(resourceType, existing);
+
+    // Only write fields the current schema still versions
+    const data = pickRevisionData(resourceType, revision.data);
+
+    let restored;
+    try {
+      restored = resourceType === 'Article'
+        ? await prisma.article.update({ where: { id: existing.id }, data })
+        : await prisma.product.update({ where: { id: existing.id }, data });
+    } catch (error) {
+      // e.g. the snapshot's slug or SKU has since been taken by another record
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const fields = ([] as string[]).concat((error.meta?.target as string[] | string) || []);
+        throw new ConflictError(
+          `Another ${resourceType.toLowerCase()} already uses this revision's ${fields.join(', ') || 'unique fields'}`
+        );
+      }
+      throw error;
+    }
+
+    const newRevision = await createRevision({
+      resourceType,
+      resourceId: restored.id,
+      record: restored,
+      authorId: session.user.id,
+      restoredFromId: revision.id,
+    });
+
+    if (resourceType === 'Article') {
+      await invalidateArticleCache();
+    } else {
+      await refreshProductPriceRange(restored.id);
+    }
+    await syncSearchDocument(resourceType, restored.id);
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType,
+      resourceId: restored.id,
+      description: `Restored ${resourceType.toLowerCase()} "${(restored as any).title_en || (restored as any).name_en}" to revision #${revision.version}`,
+      before: existing,
+      after: restored,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: newRevision,
+    });
+  } catch (error: any) {
+    logError(error, 'Revisions API - restore');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
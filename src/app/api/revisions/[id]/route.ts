@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession, assertPermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, NotFoundError, logError } from '@/lib/error-handler';
+import { isRevisionResource, REVISION_PERMISSION_RESOURCE } from '@/lib/revisions';
+
+// GET - Single revision with the one before it, for diffing
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Signed-out callers get 401 before anything reveals whether the revision exists
+    const session = await requireSession();
+
+    const revision = await prisma.revision.findUnique({
+      where: { id: params.id },
+      include: {
+        author: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    if (!revision || !isRevisionResource(revision.resourceType)) {
+      throw new NotFoundError('Revision not found');
+    }
+
+    assertPermission(session, REVISION_PERMISSION_RESOURCE[revision.resourceType], 'read');
+
+    const previous = await prisma.revision.findFirst({
+      where: {
+        resourceType: revision.resourceType,
+        resourceId: revision.resourceId,
+        version: { lt: revision.version },
+      },
+      orderBy: { version: 'desc' },
+      select: {
+        id: true,
+        version: true,
+        data: true,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...revision,
+        previous,
+      },
+    });
+  } catch (error: any) {
+    logError(error, 'Revisions API - GET by id');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, ValidationError, logError } from '@/lib/error-handler';
+import { isRevisionResource, REVISION_PERMISSION_RESOURCE } from '@/lib/revisions';
+
+// GET - List revisions of an article or product
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const resource = searchParams.get('resource');
+    const resourceId = searchParams.get('resourceId');
+
+    if (!isRevisionResource(resource) || !resourceId) {
+      throw new ValidationError('Valid resource and resourceId are required');
+    }
+
+    await requirePermission(REVISION_PERMISSION_RESOURCE[resource], 'read');
+
+    const revisions = await prisma.revision.findMany({
+      where: {
+        resourceType: resource,
+        resourceId,
+      },
+      select: {
+        id: true,
+        version: true,
+        restoredFromId: true,
+        createdAt: true,
+        author: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: { version: 'desc' },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: revisions,
+    });
+  } catch (error: any) {
+    logError(error, 'Revisions API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
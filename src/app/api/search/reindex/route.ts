@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { rebuildSearchIndex } from '@/lib/search';
+
+// POST - Rebuild the search index from scratch
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission('settings', 'update');
+
+    const counts = await rebuildSearchIndex();
+
+    return NextResponse.json({
+      success: true,
+      data: counts,
+    });
+  } catch (error: any) {
+    logError(error, 'Search API - reindex');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatErrorResponse, ValidationError, logError } from '@/lib/error-handler';
+import { formatPaginationResponse } from '@/lib/performance';
+import { createOptimizedQuery } from '@/lib/cache';
+import { searchDocuments, SEARCH_TYPES } from '@/lib/search';
+import { publishDueArticles } from '@/lib/article-publishing';
+import { locales, defaultLocale, Locale } from '@/i18n';
+
+const MAX_QUERY_LENGTH = 100;
+
+// GET - Search published articles, products and FAQs
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+    const localeParam = searchParams.get('locale') || defaultLocale;
+    const typeParam = searchParams.get('type');
+    // Non-numeric values fall back to the defaults instead of reaching LIMIT/OFFSET as NaN
+    const page = Math.max(1, parseInt(searchParams.get('page') || '') || 1);
+    const limit = Math.min(50, Math.max(1, parseInt(searchParams.get('limit') || '') || 20));
+
+    if (!locales.includes(localeParam as Locale)) {
+      throw new ValidationError(`Invalid locale: ${localeParam}`);
+    }
+    const locale = localeParam as Locale;
+
+    const type = typeParam && typeParam !== 'all' ? SEARCH_TYPES[typeParam] : undefined;
+    if (typeParam && typeParam !== 'all' && !type) {
+      throw new ValidationError(`Invalid type: ${typeParam}`);
+    }
+
+    if (query.length > MAX_QUERY_LENGTH) {
+      throw new ValidationError(`Search query must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    if (!query) {
+      return NextResponse.json({
+        success: true,
+        terms: [],
+        ...formatPaginationResponse([], 0, page, limit),
+      });
+    }
+
+    // Indexes articles whose scheduled time has passed before answering from the cache
+    await publishDueArticles();
+
+    const { results, total, terms } = await createOptimizedQuery(
+      () => searchDocuments({ query, locale, type, page, limit }),
+      `search:${locale}:${type || 'all'}:${page}:${limit}:${query.toLowerCase()}`,
+      60,
+      ['search']
+    );
+
+    return NextResponse.json({
+      success: true,
+      terms,
+      ...formatPaginationResponse(results, total, page, limit),
+    });
+  } catch (error: any) {
+    logError(error, 'Search API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -1,23 +1,23 @@
 // @ts-ignore
 import { NextRequest, NextResponse } from 'next/server';
-// @ts-ignore
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { formatErrorResponse, AuthenticationError, ValidationError, logError } from '@/lib/error-handler';
-import { cache } from '@/lib/performance';
+import { formatErrorResponse, ValidationError, logError } from '@/lib/error-handler';
+import { cache } from '@/lib/cache';
+import { logActivity } from '@/lib/activity-log';
+import { isCurrency } from '@/lib/currency';
+import { invalidateCurrencyConfig } from '@/lib/exchange-rates';
+import { invalidateMaintenanceState } from '@/lib/maintenance-state';
+import { invalidateQuickLinks } from '@/lib/quick-links';
+import { parseAllowedIPs } from '@/lib/maintenance';
 
 // GET - Fetch settings
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      throw new AuthenticationError();
-    }
+    await requirePermission('settings', 'read');
 
     // Try to get from cache first
-    const cachedSettings = cache.get('site_settings');
+    const cachedSettings = await cache.get('site_settings');
     if (cachedSettings) {
       return NextResponse.json({
         success: true,
@@ -36,14 +36,14 @@ export async function GET(request: NextRequest) {
         data: { id: 'site_settings' },
       });
       
-      cache.set('site_settings', defaultSettings, 300); // 5 minutes cache
+      await cache.set('site_settings', defaultSettings, 300); // 5 minutes cache
       return NextResponse.json({
         success: true,
         data: defaultSettings,
       });
     }
 
-    cache.set('site_settings', settings, 300); // 5 minutes cache
+    await cache.set('site_settings', settings, 300); // 5 minutes cache
     return NextResponse.json({
       success: true,
       data: settings,
@@ -60,11 +60,7 @@ export async function GET(request: NextRequest) {
 // PUT - Update settings
 export async function PUT(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      throw new AuthenticationError();
-    }
+    const session = await requirePermission('settings', 'update');
 
     const body = await request.json();
     
@@ -90,11 +86,14 @@ export async function PUT(request: NextRequest) {
       'defaultMetaDesc_lo', 'defaultMetaDesc_th', 'defaultMetaDesc_zh', 'defaultMetaDesc_en',
       'googleAnalyticsId', 'facebookPixelId',
       'isUnderMaintenance',
-      'maintenanceMessage_lo', 'maintenanceMessage_th', 'maintenanceMessage_zh', 'maintenanceMessage_en'
+      'maintenanceMessage_lo', 'maintenanceMessage_th', 'maintenanceMessage_zh', 'maintenanceMessage_en',
+      'maintenanceAllowedIPs', 'maintenanceStartsAt', 'maintenanceEndsAt',
+      'displayCurrency_lo', 'displayCurrency_th', 'displayCurrency_zh', 'displayCurrency_en'
     ];
 
     // Define which fields are boolean vs string
     const booleanFields = ['isUnderMaintenance'];
+    const dateFields = ['maintenanceStartsAt', 'maintenanceEndsAt'];
     const stringFields = allowedFields.filter(field => !booleanFields.includes(field));
     
     for (const field of allowedFields) {
@@ -102,6 +101,17 @@ export async function PUT(request: NextRequest) {
         if (booleanFields.includes(field)) {
           // Handle boolean fields
           sanitizedData[field] = Boolean(body[field]);
+        } else if (dateFields.includes(field)) {
+          // Handle optional date fields sent as ISO strings
+          if (!body[field]) {
+            sanitizedData[field] = null;
+          } else {
+            const date = new Date(body[field]);
+            if (isNaN(date.getTime())) {
+              throw new ValidationError(`Invalid date for ${field}`);
+            }
+            sanitizedData[field] = date;
+          }
         } else {
           // Handle string fields (including optional ones)
           if (body[field] === null || body[field] === '' || body[field] === false) {
@@ -120,6 +130,33 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    // Display currencies are required and limited to the supported set
+    for (const field of ['displayCurrency_lo', 'displayCurrency_th', 'displayCurrency_zh', 'displayCurrency_en']) {
+      if (sanitizedData[field] !== undefined && !isCurrency(sanitizedData[field])) {
+        throw new ValidationError(`Unsupported currency for ${field}`);
+      }
+    }
+
+    // Maintenance allowlist is stored one IP per line
+    if (sanitizedData.maintenanceAllowedIPs) {
+      const ips = parseAllowedIPs(sanitizedData.maintenanceAllowedIPs);
+      const invalid = ips.find((ip) => !/^(\d{1,3}\.){3}\d{1,3}$/.test(ip) && !/^[0-9a-f:]+$/i.test(ip));
+      if (invalid) {
+        throw new ValidationError(`Invalid IP address: ${invalid}`);
+      }
+      sanitizedData.maintenanceAllowedIPs = ips.join('\n') || null;
+    }
+
+    const startsAt = sanitizedData.maintenanceStartsAt;
+    const endsAt = sanitizedData.maintenanceEndsAt;
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      throw new ValidationError('Maintenance end time must be after the start time');
+    }
+
+    const previousSettings = await prisma.siteSettings.findUnique({
+      where: { id: 'site_settings' },
+    });
+
     // Update settings with transaction
     const updatedSettings = await prisma.$transaction(async (tx: any) => {
       const settings = await tx.siteSettings.update({
@@ -128,12 +165,26 @@ export async function PUT(request: NextRequest) {
       });
 
       // Clear both admin and public cache
-      cache.delete('site_settings');
-      cache.delete('public_site_settings');
+      await cache.delete('site_settings', 'public_site_settings');
+      await invalidateCurrencyConfig();
+      await invalidateMaintenanceState();
+      // Quick links fall back to the contact fields until any are saved
+      await invalidateQuickLinks();
       
       return settings;
     });
 
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'Settings',
+      resourceId: 'site_settings',
+      description: 'Updated site settings',
+      before: previousSettings,
+      after: updatedSettings,
+    });
+
     return NextResponse.json({
       success: true,
       data: updatedSettings,
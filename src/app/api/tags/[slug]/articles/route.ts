@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
+import { publishDueArticles } from '@/lib/article-publishing';
 
 // GET - Get articles by tag slug
 export async function GET(
@@ -24,6 +25,8 @@ export async function GET(
       );
     }
 
+    await publishDueArticles();
+
     // Get articles by tag
     const [articles, total] = await Promise.all([
       prisma.article.findMany({
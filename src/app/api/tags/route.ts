@@ -1,14 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { publishDueArticles } from '@/lib/article-publishing';
+import { assertTagNamesAvailable, parseTagInput, uniqueTagSlug } from '@/lib/article-tags';
 
 // GET - List all tags
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const popular = searchParams.get('popular') === 'true';
+    const search = searchParams.get('search')?.trim();
     const limit = parseInt(searchParams.get('limit') || '50');
 
     if (popular) {
+      await publishDueArticles();
+
       // Get tags with article count, ordered by popularity
       const tags = await prisma.tag.findMany({
         include: {
@@ -42,8 +50,15 @@ export async function GET(request: NextRequest) {
         data: formattedTags,
       });
     } else {
-      // Get all tags
+      // Get all tags, or those matching the editor's autocomplete query in any language
       const tags = await prisma.tag.findMany({
+        where: search
+          ? {
+              OR: (['name_lo', 'name_th', 'name_zh', 'name_en', 'slug'] as const).map((field) => ({
+                [field]: { contains: search, mode: 'insensitive' as const },
+              })),
+            }
+          : undefined,
         orderBy: { name_en: 'asc' },
         take: limit,
       });
@@ -53,11 +68,11 @@ export async function GET(request: NextRequest) {
         data: tags,
       });
     }
-  } catch (error) {
-    console.error('Tags fetch error:', error);
+  } catch (error: any) {
+    logError(error, 'Tags API - GET');
     return NextResponse.json(
-      { success: false, error: 'Failed to fetch tags' },
-      { status: 500 }
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
     );
   }
 }
@@ -65,62 +80,37 @@ export async function GET(request: NextRequest) {
 // POST - Create new tag
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { name_lo, name_th, name_zh, name_en } = body;
-
-    // Validate required fields
-    if (!name_lo || !name_th || !name_zh || !name_en) {
-      return NextResponse.json(
-        { success: false, error: 'All language names are required' },
-        { status: 400 }
-      );
-    }
+    const session = await requirePermission('tag', 'create');
 
-    // Generate slug
-    const slug = name_en.toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/(^-|-$)/g, '');
-
-    // Check if tag already exists
-    const existing = await prisma.tag.findFirst({
-      where: {
-        OR: [
-          { name_lo },
-          { name_th },
-          { name_zh },
-          { name_en },
-          { slug },
-        ],
-      },
-    });
+    const input = parseTagInput(await request.json());
+    await assertTagNamesAvailable(input);
 
-    if (existing) {
-      return NextResponse.json(
-        { success: false, error: 'Tag already exists' },
-        { status: 400 }
-      );
-    }
-
-    // Create tag
     const tag = await prisma.tag.create({
       data: {
-        name_lo,
-        name_th,
-        name_zh,
-        name_en,
-        slug,
+        ...input,
+        slug: await uniqueTagSlug(input.name_en),
       },
     });
 
-    return NextResponse.json({
-      success: true,
-      data: tag,
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'CREATE',
+      resourceType: 'Tag',
+      resourceId: tag.id,
+      description: `Created tag "${tag.name_en}"`,
+      after: tag,
     });
-  } catch (error) {
-    console.error('Tag creation error:', error);
+
+    return NextResponse.json(
+      { success: true, data: tag },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    logError(error, 'Tags API - POST');
     return NextResponse.json(
-      { success: false, error: 'Failed to create tag' },
-      { status: 500 }
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
     );
   }
 }
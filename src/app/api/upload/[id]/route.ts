@@ -1,23 +1,67 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { AppError, ValidationError, formatErrorResponse } from '@/lib/error-handler';
 import { prisma } from '@/lib/prisma';
-import { unlink } from 'fs/promises';
+import { mediaKey } from '@/lib/storage';
+import { invalidateTransforms } from '@/lib/image-transform';
+import { deleteMediaWithFiles, parseFolderName, parseMediaTags } from '@/lib/media-library';
+import { buildMediaUsageIndex, getUsage } from '@/lib/media-usage';
+import { logActivity } from '@/lib/activity-log';
 
-export async function DELETE(
+// Focal points are fractions of the image size; null clears back to a centred crop
+function parseFocalCoordinate(value: unknown, field: string): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 1) {
+    throw new ValidationError(`${field} must be a number between 0 and 1`, field);
+  }
+  return Math.round(value * 1000) / 1000;
+}
+
+// GET - Single media item with the places that reference it
+export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
+    await requirePermission('media', 'read');
+
+    const media = await prisma.media.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!media) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: 'Media not found' },
+        { status: 404 }
       );
     }
 
+    const usage = getUsage(await buildMediaUsageIndex(), media.url);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...media, usage },
+    });
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
+    console.error('Fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch media' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await requirePermission('media', 'delete');
+
     const { id } = params;
 
     // Find media
@@ -32,23 +76,43 @@ export async function DELETE(
       );
     }
 
-    // Delete file from disk
-    try {
-      await unlink(media.path);
-    } catch (error) {
-      console.error('Failed to delete file from disk:', error);
+    // Refuse to break pages that still show the file unless the editor confirms with ?force=true
+    const force = request.nextUrl.searchParams.get('force') === 'true';
+    const usage = getUsage(await buildMediaUsageIndex(), media.url);
+    if (usage.length > 0 && !force) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${media.originalName} is still used in ${usage.length} place(s)`,
+          code: 'MEDIA_IN_USE',
+          usage,
+        },
+        { status: 409 }
+      );
     }
 
-    // Delete from database
-    await prisma.media.delete({
-      where: { id },
+    await deleteMediaWithFiles(media);
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'DELETE',
+      resourceType: 'Media',
+      resourceId: media.id,
+      description: usage.length > 0
+        ? `Deleted ${media.originalName} while still used in ${usage.length} place(s)`
+        : `Deleted ${media.originalName}`,
+      before: media,
     });
 
     return NextResponse.json({
       success: true,
       message: 'Media deleted successfully',
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Delete error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to delete media' },
@@ -62,17 +126,27 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
+    const session = await requirePermission('media', 'update');
+
+    const { id } = params;
+    const body = await request.json();
+
+    const existing = await prisma.media.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: 'Media not found' },
+        { status: 404 }
       );
     }
 
-    const { id } = params;
-    const body = await request.json();
+    const focalX = parseFocalCoordinate(body.focalX, 'focalX');
+    const focalY = parseFocalCoordinate(body.focalY, 'focalY');
+    if ((focalX === null) !== (focalY === null) || (focalX === undefined) !== (focalY === undefined)) {
+      throw new ValidationError('focalX and focalY must be set together');
+    }
 
     const media = await prisma.media.update({
       where: { id },
@@ -81,14 +155,38 @@ export async function PATCH(
         alt_th: body.alt_th,
         alt_zh: body.alt_zh,
         alt_en: body.alt_en,
+        focalX,
+        focalY,
+        // Moving only changes the library folder; the file keeps its URL
+        folder: body.folder === undefined ? undefined : parseFolderName(body.folder),
+        tags: body.tags === undefined ? undefined : parseMediaTags(body.tags),
       },
     });
 
+    // Cropped variants were rendered around the old focal point
+    if ((existing.focalX !== media.focalX || existing.focalY !== media.focalY)) {
+      await invalidateTransforms(mediaKey(media));
+    }
+
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'Media',
+      resourceId: media.id,
+      description: `Updated ${media.originalName}`,
+      before: existing,
+      after: media,
+    });
+
     return NextResponse.json({
       success: true,
       data: media,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Update error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to update media' },
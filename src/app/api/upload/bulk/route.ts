@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { formatErrorResponse, logError, ValidationError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { deleteMediaWithFiles, parseFolderName, parseMediaTags } from '@/lib/media-library';
+import { buildMediaUsageIndex, getUsage, MediaUsage } from '@/lib/media-usage';
+
+const ACTIONS = ['move', 'addTags', 'removeTags', 'delete'] as const;
+type BulkAction = (typeof ACTIONS)[number];
+
+const MAX_ITEMS = 200;
+
+// POST - Apply one action to many media items: { action, ids, folder?, tags?, force? }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const action = body.action as BulkAction;
+
+    if (!ACTIONS.includes(action)) {
+      throw new ValidationError(`Action must be one of ${ACTIONS.join(', ')}`);
+    }
+
+    const session = await requirePermission('media', action === 'delete' ? 'delete' : 'update');
+
+    const ids: string[] = Array.isArray(body.ids)
+      ? Array.from(new Set<string>(body.ids.filter((id: unknown): id is string => typeof id === 'string')))
+      : [];
+    if (ids.length === 0) {
+      throw new ValidationError('Select at least one file');
+    }
+    if (ids.length > MAX_ITEMS) {
+      throw new ValidationError(`At most ${MAX_ITEMS} files can be changed at once`);
+    }
+
+    const media = await prisma.media.findMany({
+      where: { id: { in: ids } },
+    });
+
+    if (action === 'move') {
+      const folder = parseFolderName(body.folder);
+      await prisma.media.updateMany({
+        where: { id: { in: media.map((item) => item.id) } },
+        data: { folder },
+      });
+
+      await logActivity({
+        request,
+        userId: session.user.id,
+        action: 'UPDATE',
+        resourceType: 'Media',
+        description: `Moved ${media.length} file(s) to ${folder}`,
+      });
+
+      return NextResponse.json({ success: true, data: { updated: media.length } });
+    }
+
+    if (action === 'addTags' || action === 'removeTags') {
+      const tags = parseMediaTags(body.tags);
+      if (tags.length === 0) {
+        throw new ValidationError('Enter at least one tag', 'tags');
+      }
+
+      // Tag sets differ per item, so each row is written separately
+      await prisma.$transaction(
+        media.map((item) =>
+          prisma.media.update({
+            where: { id: item.id },
+            data: {
+              tags: action === 'addTags'
+                ? parseMediaTags([...item.tags, ...tags])
+                : item.tags.filter((tag) => !tags.includes(tag)),
+            },
+          })
+        )
+      );
+
+      await logActivity({
+        request,
+        userId: session.user.id,
+        action: 'UPDATE',
+        resourceType: 'Media',
+        description: `${action === 'addTags' ? 'Tagged' : 'Untagged'} ${media.length} file(s): ${tags.join(', ')}`,
+      });
+
+      return NextResponse.json({ success: true, data: { updated: media.length } });
+    }
+
+    // Referenced files are skipped unless the editor explicitly forces the delete
+    const force = body.force === true;
+    const usageIndex = await buildMediaUsageIndex();
+    const skipped: { id: string; originalName: string; usage: MediaUsage[] }[] = [];
+    let deleted = 0;
+
+    for (const item of media) {
+      const usage = getUsage(usageIndex, item.url);
+      if (usage.length > 0 && !force) {
+        skipped.push({ id: item.id, originalName: item.originalName, usage });
+        continue;
+      }
+
+      await deleteMediaWithFiles(item);
+      deleted++;
+
+      await logActivity({
+        request,
+        userId: session.user.id,
+        action: 'DELETE',
+        resourceType: 'Media',
+        resourceId: item.id,
+        description: `Deleted ${item.originalName}`,
+        before: item,
+      });
+    }
+
+    return NextResponse.json({ success: true, data: { deleted, skipped } });
+  } catch (error: any) {
+    logError(error, 'Media Bulk API - POST');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
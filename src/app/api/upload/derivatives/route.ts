@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { backfillDerivatives, countPendingDerivatives } from '@/lib/image-derivatives';
+import { logActivity } from '@/lib/activity-log';
+
+// GET - Number of uploads still missing responsive versions
+export async function GET() {
+  try {
+    await requirePermission('media', 'read');
+
+    return NextResponse.json({
+      success: true,
+      data: { remaining: await countPendingDerivatives() },
+    });
+  } catch (error: any) {
+    logError(error, 'Media Derivatives API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// POST - Generate responsive versions for one batch of existing uploads.
+// The admin calls this repeatedly until `remaining` reaches zero.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requirePermission('media', 'update');
+
+    const body = await request.json().catch(() => ({}));
+    const batchSize = Math.min(25, Math.max(1, parseInt(body.batchSize) || 5));
+
+    const result = await backfillDerivatives(batchSize);
+
+    if (result.processed > 0) {
+      await logActivity({
+        request,
+        userId: session.user.id,
+        action: 'UPDATE',
+        resourceType: 'Media',
+        description: `Generated responsive versions for ${result.processed} file(s)`,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+    });
+  } catch (error: any) {
+    logError(error, 'Media Derivatives API - POST');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
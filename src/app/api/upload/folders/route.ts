@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { ConflictError, formatErrorResponse, logError, ValidationError } from '@/lib/error-handler';
+import { DEFAULT_MEDIA_FOLDERS, listMediaFolders, parseFolderName } from '@/lib/media-library';
+
+// GET - Media folders with file counts
+export async function GET() {
+  try {
+    await requirePermission('media', 'read');
+
+    return NextResponse.json({
+      success: true,
+      data: await listMediaFolders(),
+    });
+  } catch (error: any) {
+    logError(error, 'Media Folders API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// POST - Create an empty folder
+export async function POST(request: NextRequest) {
+  try {
+    await requirePermission('media', 'create');
+
+    const body = await request.json();
+    const name = parseFolderName(body.name);
+
+    const folders = await listMediaFolders();
+    if (folders.some((folder) => folder.name === name)) {
+      throw new ConflictError(`Folder "${name}" already exists`);
+    }
+
+    await prisma.mediaFolder.create({
+      data: { name },
+    });
+
+    return NextResponse.json(
+      { success: true, data: { name, count: 0 } },
+      { status: 201 }
+    );
+  } catch (error: any) {
+    logError(error, 'Media Folders API - POST');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
+
+// DELETE - Remove an empty folder (?name=)
+export async function DELETE(request: NextRequest) {
+  try {
+    await requirePermission('media', 'delete');
+
+    const name = parseFolderName(request.nextUrl.searchParams.get('name'));
+
+    if (DEFAULT_MEDIA_FOLDERS.includes(name)) {
+      throw new ValidationError('Built-in folders cannot be removed');
+    }
+
+    const count = await prisma.media.count({ where: { folder: name } });
+    if (count > 0) {
+      throw new ConflictError(`Move the ${count} file(s) out of "${name}" before removing it`);
+    }
+
+    await prisma.mediaFolder.deleteMany({
+      where: { name },
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Folder removed',
+    });
+  } catch (error: any) {
+    logError(error, 'Media Folders API - DELETE');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
@@ -1,24 +1,24 @@
 // @ts-ignore
 import { NextRequest, NextResponse } from 'next/server';
-// @ts-ignore
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
 import { uploadImage } from '@/lib/upload';
 import { prisma } from '@/lib/prisma';
-import { validateFileUpload, getClientIP, rateLimit, SECURITY_CONFIG } from '@/lib/security';
-import { formatErrorResponse, AuthenticationError, ValidationError, logError } from '@/lib/error-handler';
+import { Prisma } from '@prisma/client';
+import { validateFileUpload, getClientIP, SECURITY_CONFIG } from '@/lib/security';
+import { rateLimit } from '@/lib/rate-limit';
+import { formatErrorResponse, ValidationError, logError } from '@/lib/error-handler';
+import { logActivity } from '@/lib/activity-log';
+import { parseMediaTags, sanitizeFolder } from '@/lib/media-library';
+import { buildMediaUsageIndex, getUsage } from '@/lib/media-usage';
+import { findSimilarMedia, sha256Hex } from '@/lib/image-hash';
 
 export async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      throw new AuthenticationError();
-    }
+    const session = await requirePermission('media', 'create');
 
     // Rate limiting for uploads
     const clientIP = getClientIP(request);
-    const rateLimitResult = rateLimit(`upload:${clientIP}`, 10); // 10 uploads per window
+    const rateLimitResult = await rateLimit(`upload:${clientIP}`, 10); // 10 uploads per window
     
     if (!rateLimitResult.success) {
       throw new ValidationError('Too many upload attempts. Please try again later.');
@@ -43,7 +43,21 @@ export async function POST(request: NextRequest) {
     }
 
     // Sanitize folder name
-    const sanitizedFolder = folder.replace(/[^a-zA-Z0-9-_]/g, '').substring(0, 50);
+    const sanitizedFolder = sanitizeFolder(folder) || 'general';
+    const tags = formData.get('tags') as string | null;
+
+    // The exact same file is already in the library: hand that back instead of storing a copy
+    const existing = await prisma.media.findFirst({
+      where: { sha256: sha256Hex(Buffer.from(await file.arrayBuffer())) },
+      orderBy: { uploadedAt: 'asc' },
+    });
+    if (existing) {
+      return NextResponse.json({
+        success: true,
+        data: existing,
+        duplicate: true,
+      });
+    }
 
     // Upload file
     const uploadedFile = await uploadImage(file, sanitizedFolder);
@@ -57,6 +71,8 @@ export async function POST(request: NextRequest) {
         size: uploadedFile.size,
         url: uploadedFile.url,
         path: uploadedFile.path,
+        storage: uploadedFile.storage,
+        derivatives: uploadedFile.derivatives as unknown as Prisma.InputJsonArray | undefined,
         width: uploadedFile.width,
         height: uploadedFile.height,
         folder: sanitizedFolder,
@@ -64,12 +80,30 @@ export async function POST(request: NextRequest) {
         alt_th: alt_th?.substring(0, 500) || null,
         alt_zh: alt_zh?.substring(0, 500) || null,
         alt_en: alt_en?.substring(0, 500) || null,
+        tags: tags ? parseMediaTags(tags.split(',')) : [],
+        sha256: uploadedFile.sha256,
+        phash: uploadedFile.phash,
+        hashedAt: new Date(),
       },
     });
 
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'CREATE',
+      resourceType: 'Media',
+      resourceId: media.id,
+      description: `Uploaded ${media.originalName}`,
+      after: media,
+    });
+
+    // Visually similar images the editor may want to reuse instead
+    const similar = media.phash ? await findSimilarMedia(media.phash, media.id) : [];
+
     return NextResponse.json({
       success: true,
       data: media,
+      similar,
     });
   } catch (error: any) {
     logError(error, 'Upload API - POST');
@@ -82,22 +116,30 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      throw new AuthenticationError();
-    }
+    await requirePermission('media', 'read');
 
     const { searchParams } = new URL(request.url);
     const folder = searchParams.get('folder');
+    const search = searchParams.get('search')?.trim();
+    const tag = searchParams.get('tag')?.trim().toLowerCase();
+    const usageFilter = searchParams.get('usage'); // 'used' | 'unused'
     const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
     const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20')));
     const skip = (page - 1) * limit;
 
     // Sanitize folder name
-    const sanitizedFolder = folder?.replace(/[^a-zA-Z0-9-_]/g, '') || undefined;
+    const sanitizedFolder = sanitizeFolder(folder) || undefined;
 
-    const where = sanitizedFolder ? { folder: sanitizedFolder } : {};
+    const usageIndex = await buildMediaUsageIndex();
+    const usedUrls = Array.from(usageIndex.keys());
+
+    const where: Prisma.MediaWhereInput = {
+      ...(sanitizedFolder && { folder: sanitizedFolder }),
+      ...(tag && { tags: { has: tag } }),
+      ...(search && { originalName: { contains: search, mode: 'insensitive' as const } }),
+      ...(usageFilter === 'used' && { url: { in: usedUrls } }),
+      ...(usageFilter === 'unused' && { url: { notIn: usedUrls } }),
+    };
 
     const [media, total] = await Promise.all([
       prisma.media.findMany({
@@ -111,7 +153,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      data: media,
+      data: media.map((item) => ({ ...item, usage: getUsage(usageIndex, item.url) })),
       pagination: {
         total,
         page,
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { requirePermission } from '@/lib/auth';
+import { formatErrorResponse, logError } from '@/lib/error-handler';
+import { findUnusedMedia } from '@/lib/media-usage';
+
+// GET - Report of media nothing references, for bulk cleanup
+export async function GET() {
+  try {
+    await requirePermission('media', 'read');
+
+    const unused = await findUnusedMedia();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        items: unused,
+        count: unused.length,
+        totalSize: unused.reduce((sum, item) => sum + item.size, 0),
+      },
+    });
+  } catch (error: any) {
+    logError(error, 'Media Unused API - GET');
+    return NextResponse.json(
+      formatErrorResponse(error),
+      { status: error.statusCode || 500 }
+    );
+  }
+}
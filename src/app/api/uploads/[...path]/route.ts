@@ -1,54 +1,133 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { join } from 'path';
-import { readFile, stat } from 'fs/promises';
-import { existsSync } from 'fs';
+import { createHash } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { AppError, formatErrorResponse } from '@/lib/error-handler';
+import {
+  StoredObject,
+  assertValidKey,
+  contentTypeFor,
+  getStorage,
+  getStorageFor,
+  isStorageBackend,
+  mediaUrl,
+} from '@/lib/storage';
+import {
+  getFocalPoint,
+  isTransformable,
+  negotiateFormat,
+  parseTransformParams,
+  readCachedTransform,
+  transformETag,
+  transformImage,
+  writeCachedTransform,
+} from '@/lib/image-transform';
+
+const CACHE_CONTROL = 'public, max-age=31536000, immutable';
+// Crops follow the editable focal point, so transformed variants are revalidated via ETag
+const TRANSFORM_CACHE_CONTROL = 'public, max-age=86400, stale-while-revalidate=604800';
+
+async function loadFile(key: string): Promise<StoredObject | null> {
+  const storage = getStorage();
+  const file = await storage.get(key);
+  if (file) return file;
+
+  // Files uploaded before a backend switch stay where they were until migrated
+  const media = await prisma.media.findFirst({
+    where: { url: mediaUrl(key) },
+    select: { storage: true },
+  });
+  if (media && media.storage !== storage.backend && isStorageBackend(media.storage)) {
+    return getStorageFor(media.storage).get(key);
+  }
+  return null;
+}
+
+function imageResponse(body: Buffer | null, headers: Record<string, string>, status: number = 200) {
+  const response = new NextResponse(body ? new Uint8Array(body) : null, { status });
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+
+  // Security headers
+  response.headers.set('X-Content-Type-Options', 'nosniff');
+  response.headers.set('X-Frame-Options', 'DENY');
+
+  return response;
+}
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { path: string[] } }
 ) {
   try {
-    const path = params.path.join('/');
-    const filePath = join(process.cwd(), 'public', 'uploads', path);
-    
-    // Security check: ensure file exists and is within uploads directory
-    if (!existsSync(filePath) || !filePath.includes('uploads')) {
+    const key = params.path.join('/');
+
+    // Security check: reject keys that could escape the uploads root
+    try {
+      assertValidKey(key);
+    } catch {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+
+    const ifNoneMatch = request.headers.get('if-none-match');
+    const transform = parseTransformParams(request.nextUrl.searchParams);
+    const sourceType = contentTypeFor(key);
+
+    if (transform && isTransformable(sourceType)) {
+      const format = negotiateFormat(transform, request.headers.get('accept') || '', sourceType);
+      const focal = transform.fit === 'cover' && transform.width && transform.height
+        ? await getFocalPoint(key)
+        : null;
+      const etag = transformETag(key, transform, format, focal);
+
+      const headers: Record<string, string> = {
+        'Content-Type': `image/${format}`,
+        'Cache-Control': TRANSFORM_CACHE_CONTROL,
+        ETag: etag,
+      };
+      if (transform.format === 'auto') {
+        headers.Vary = 'Accept';
+      }
+
+      if (ifNoneMatch === etag) {
+        return imageResponse(null, headers, 304);
+      }
+
+      let data: Buffer | null = await readCachedTransform(key, etag, format);
+      if (!data) {
+        const file = await loadFile(key);
+        if (!file) {
+          return NextResponse.json({ error: 'File not found' }, { status: 404 });
+        }
+        data = await transformImage(file.body, transform, format, focal);
+        await writeCachedTransform(key, etag, format, data);
+      }
+
+      return imageResponse(data, { ...headers, 'Content-Length': data.length.toString() });
+    }
+
+    const file = await loadFile(key);
+    if (!file) {
       return NextResponse.json({ error: 'File not found' }, { status: 404 });
     }
-    
-    // Get file stats
-    const fileStats = await stat(filePath);
-    
-    // Determine content type
-    const ext = path.split('.').pop()?.toLowerCase();
-    const contentTypes: Record<string, string> = {
-      'jpg': 'image/jpeg',
-      'jpeg': 'image/jpeg',
-      'png': 'image/png',
-      'gif': 'image/gif',
-      'webp': 'image/webp',
-      'svg': 'image/svg+xml',
-      'avif': 'image/avif',
+
+    const etag = `"${createHash('sha1').update(file.body).digest('hex').slice(0, 20)}"`;
+    const headers = {
+      'Content-Type': file.contentType,
+      'Cache-Control': CACHE_CONTROL,
+      ETag: etag,
     };
-    
-    const contentType = contentTypes[ext || ''] || 'application/octet-stream';
-    
-    // Read file
-    const fileBuffer = await readFile(filePath);
-    
-    // Create response with proper headers
-    const response = new NextResponse(fileBuffer);
-    response.headers.set('Content-Type', contentType);
-    response.headers.set('Cache-Control', 'public, max-age=31536000, immutable');
-    response.headers.set('Content-Length', fileStats.size.toString());
-    
-    // Security headers
-    response.headers.set('X-Content-Type-Options', 'nosniff');
-    response.headers.set('X-Frame-Options', 'DENY');
-    
-    return response;
+
+    if (ifNoneMatch === etag) {
+      return imageResponse(null, headers, 304);
+    }
+
+    return imageResponse(file.body, { ...headers, 'Content-Length': file.size.toString() });
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Image serving error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
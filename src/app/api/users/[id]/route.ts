@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { AppError, AuthorizationError, ValidationError, formatErrorResponse } from '@/lib/error-handler';
+import { canManageRole, isRole } from '@/lib/permissions';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
+import { logActivity } from '@/lib/activity-log';
 
 // GET - Get single user
 export async function GET(
@@ -10,13 +12,7 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    await requirePermission('user', 'read');
 
     const user = await prisma.user.findUnique({
       where: { id: params.id },
@@ -43,7 +39,10 @@ export async function GET(
       success: true,
       data: user,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('User fetch error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to fetch user' },
@@ -58,16 +57,43 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
+    const session = await requirePermission('user', 'update');
+
+    const body = await request.json();
+    const { email, password, name, role, isActive } = body;
+
+    const existing = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        role: true,
+        isActive: true,
+        updatedAt: true,
+      },
+    });
+
+    if (!existing) {
       return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
+        { success: false, error: 'User not found' },
+        { status: 404 }
       );
     }
 
-    const body = await request.json();
-    const { email, password, name, role, isActive } = body;
+    if (!canManageRole(session.user.role, existing.role)) {
+      throw new AuthorizationError(`Your role is not allowed to modify ${existing.role} users`);
+    }
+
+    if (role !== undefined) {
+      if (!isRole(role)) {
+        throw new ValidationError(`Invalid role: ${role}`);
+      }
+
+      if (!canManageRole(session.user.role, role)) {
+        throw new AuthorizationError(`Your role is not allowed to assign the ${role} role`);
+      }
+    }
 
     const updateData: any = {
       email,
@@ -94,11 +120,27 @@ export async function PUT(
       },
     });
 
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'UPDATE',
+      resourceType: 'User',
+      resourceId: user.id,
+      description: updateData.password
+        ? `Updated user ${user.email} (password changed)`
+        : `Updated user ${user.email}`,
+      before: existing,
+      after: user,
+    });
+
     return NextResponse.json({
       success: true,
       data: user,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('User update error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to update user' },
@@ -113,13 +155,7 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const session = await requirePermission('user', 'delete');
 
     // Prevent self-deletion
     const currentUser = await prisma.user.findUnique({
@@ -133,15 +169,44 @@ export async function DELETE(
       );
     }
 
-    await prisma.user.delete({
+    const target = await prisma.user.findUnique({
       where: { id: params.id },
+      select: { role: true },
+    });
+
+    if (!target) {
+      return NextResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canManageRole(session.user.role, target.role)) {
+      throw new AuthorizationError(`Your role is not allowed to delete ${target.role} users`);
+    }
+
+    const deleted = await prisma.user.delete({
+      where: { id: params.id },
+    });
+
+    await logActivity({
+      request,
+      userId: currentUser?.id,
+      action: 'DELETE',
+      resourceType: 'User',
+      resourceId: deleted.id,
+      description: `Deleted user ${deleted.email}`,
+      before: deleted,
     });
 
     return NextResponse.json({
       success: true,
       message: 'User deleted successfully',
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('User delete error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to delete user' },
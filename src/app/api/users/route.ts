@@ -1,19 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/auth';
+import { AppError, AuthorizationError, ValidationError, formatErrorResponse } from '@/lib/error-handler';
+import { canManageRole, isRole } from '@/lib/permissions';
 import { prisma } from '@/lib/prisma';
 import bcrypt from 'bcryptjs';
+import { logActivity } from '@/lib/activity-log';
 
 // GET - List users
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    await requirePermission('user', 'read');
 
     const users = await prisma.user.findMany({
       select: {
@@ -39,7 +35,10 @@ export async function GET(request: NextRequest) {
       success: true,
       data: users,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('Users fetch error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to fetch users' },
@@ -51,13 +50,7 @@ export async function GET(request: NextRequest) {
 // POST - Create user
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
+    const session = await requirePermission('user', 'create');
 
     const body = await request.json();
     const { email, password, name, role } = body;
@@ -70,6 +63,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const newRole = role || 'ADMIN';
+    if (!isRole(newRole)) {
+      throw new ValidationError(`Invalid role: ${newRole}`);
+    }
+
+    if (!canManageRole(session.user.role, newRole)) {
+      throw new AuthorizationError(`Your role is not allowed to create ${newRole} users`);
+    }
+
     // Check if email already exists
     const existing = await prisma.user.findUnique({
       where: { email },
@@ -91,7 +93,7 @@ export async function POST(request: NextRequest) {
         email,
         password: hashedPassword,
         name,
-        role: role || 'ADMIN',
+        role: newRole,
         isActive: true,
       },
       select: {
@@ -104,11 +106,24 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await logActivity({
+      request,
+      userId: session.user.id,
+      action: 'CREATE',
+      resourceType: 'User',
+      resourceId: user.id,
+      description: `Created user ${user.email}`,
+      after: user,
+    });
+
     return NextResponse.json({
       success: true,
       data: user,
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error instanceof AppError) {
+      return NextResponse.json(formatErrorResponse(error), { status: error.statusCode });
+    }
     console.error('User create error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to create user' },
@@ -1,5 +1,7 @@
 import { MetadataRoute } from 'next';
 import { prisma } from '@/lib/prisma';
+import { publishDueArticles } from '@/lib/article-publishing';
+import { getTranslatedLocales } from '@/lib/translation-coverage';
 
 const baseUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://localhost:3000';
 const locales = ['en', 'lo', 'th', 'zh'];
@@ -28,23 +30,44 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 
   // Get dynamic data from database
   try {
-    const [products, articles, tags] = await Promise.all([
+    await publishDueArticles();
+
+    const [products, categories, articles, tags] = await Promise.all([
       prisma.product.findMany({
         where: { isPublished: true },
-        select: { slug: true, updatedAt: true },
+        select: {
+          slug: true,
+          updatedAt: true,
+          name_lo: true, name_th: true, name_zh: true, name_en: true,
+          description_lo: true, description_th: true, description_zh: true, description_en: true,
+        },
+      }),
+      prisma.category.findMany({
+        where: { isActive: true },
+        select: {
+          slug: true,
+          updatedAt: true,
+          name_lo: true, name_th: true, name_zh: true, name_en: true,
+          description_lo: true, description_th: true, description_zh: true, description_en: true,
+        },
       }),
       prisma.article.findMany({
-        where: { isPublished: true },
-        select: { slug: true, updatedAt: true },
+        where: { status: 'PUBLISHED' },
+        select: {
+          slug: true,
+          updatedAt: true,
+          title_lo: true, title_th: true, title_zh: true, title_en: true,
+          content_lo: true, content_th: true, content_zh: true, content_en: true,
+        },
       }),
       prisma.tag.findMany({
         select: { slug: true, createdAt: true },
       }),
     ]);
 
-    // Generate product URLs
+    // Generate product URLs, leaving out locales that would show the Lao fallback
     const productUrls = products.flatMap(product =>
-      locales.map(locale => ({
+      getTranslatedLocales(product, ['name', 'description']).map(locale => ({
         url: `${baseUrl}/${locale}/products/${product.slug}`,
         lastModified: product.updatedAt,
         changeFrequency: 'weekly' as const,
@@ -52,9 +75,19 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       }))
     );
 
+    // Generate category landing page URLs
+    const categoryUrls = categories.flatMap(category =>
+      getTranslatedLocales(category, ['name', 'description']).map(locale => ({
+        url: `${baseUrl}/${locale}/products/category/${category.slug}`,
+        lastModified: category.updatedAt,
+        changeFrequency: 'weekly' as const,
+        priority: 0.8,
+      }))
+    );
+
     // Generate article URLs
     const articleUrls = articles.flatMap(article =>
-      locales.map(locale => ({
+      getTranslatedLocales(article, ['title', 'content']).map(locale => ({
         url: `${baseUrl}/${locale}/articles/${article.slug}`,
         lastModified: article.updatedAt,
         changeFrequency: 'monthly' as const,
@@ -72,7 +105,7 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
       }))
     );
 
-    return [...staticUrls, ...productUrls, ...articleUrls, ...tagUrls];
+    return [...staticUrls, ...productUrls, ...categoryUrls, ...articleUrls, ...tagUrls];
   } catch (error) {
     console.error('Error generating sitemap:', error);
     return staticUrls;
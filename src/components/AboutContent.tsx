@@ -53,9 +53,10 @@ interface AboutPageData {
 
 interface AboutContentProps {
   locale?: string;
+  backgroundImage?: string;
 }
 
-export default function AboutContent({ locale }: AboutContentProps) {
+export default function AboutContent({ locale, backgroundImage }: AboutContentProps) {
   const [aboutData, setAboutData] = useState<AboutPageData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
@@ -109,13 +110,15 @@ export default function AboutContent({ locale }: AboutContentProps) {
     return localizedValue || fallbackValue || '';
   };
 
+  const background = backgroundImage || aboutData.backgroundImage;
+
   return (
     <section className="min-h-screen bg-gradient-to-br from-pink-50 via-white to-pink-50 relative overflow-hidden">
       {/* Enhanced Background with better visual effects */}
-      {aboutData.backgroundImage && (
+      {background && (
         <div className="absolute inset-0">
           <Image
-            src={aboutData.backgroundImage}
+            src={background}
             alt="About Background"
             fill
             priority
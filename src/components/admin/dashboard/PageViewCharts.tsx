@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { LOCALE_LABELS } from '@/lib/i18n-helpers';
+import type { Locale } from '@/i18n';
+import type { PageViewReport, RankedEntry } from '@/lib/page-views';
+
+const RANGES = [7, 30, 90];
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+// Horizontal bars relative to the largest entry
+function RankedBars({ entries, empty }: { entries: RankedEntry[]; empty: string }) {
+  if (entries.length === 0) {
+    return <p className="text-gray-500 text-center py-4">{empty}</p>;
+  }
+
+  const max = Math.max(...entries.map((entry) => entry.views));
+
+  return (
+    <ul className="space-y-3">
+      {entries.map((entry) => (
+        <li key={entry.key}>
+          <div className="flex items-center justify-between gap-4 text-sm mb-1">
+            {entry.href ? (
+              <Link href={entry.href} className="truncate hover:text-pink-600">
+                {entry.label}
+              </Link>
+            ) : (
+              <span className="truncate">{entry.label}</span>
+            )}
+            <span className="flex-shrink-0 font-medium">{entry.views.toLocaleString()}</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div className="h-full bg-pink-500 rounded-full" style={{ width: `${(entry.views / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function PageViewCharts() {
+  const [days, setDays] = useState(30);
+  const [report, setReport] = useState<PageViewReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      setLoading(true);
+      try {
+        const res = await fetch(`/api/admin/analytics?days=${days}`);
+        const data = await res.json();
+        if (data.success) {
+          setReport(data.data);
+        }
+      } catch (error) {
+        console.error('Error fetching page views:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchReport();
+  }, [days]);
+
+  const maxViews = Math.max(1, ...(report?.daily.map((day) => day.views) || []));
+
+  return (
+    <div className="space-y-6">
+      {/* Views over time */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Page Views</CardTitle>
+              {report && (
+                <p className="text-sm text-gray-600 mt-1">
+                  {report.totals.views.toLocaleString()} views · {report.totals.uniqueViews.toLocaleString()} unique page views · {report.totals.visitors.toLocaleString()} daily visitors
+                </p>
+              )}
+            </div>
+            <select
+              value={days}
+              onChange={(e) => setDays(parseInt(e.target.value))}
+              className="input max-w-[10rem]"
+            >
+              {RANGES.map((range) => (
+                <option key={range} value={range}>
+                  Last {range} days
+                </option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!report ? (
+            <p className="text-gray-500 text-center py-12">{loading ? 'Loading...' : 'Page views are unavailable'}</p>
+          ) : (
+            <div className={loading ? 'opacity-50' : ''}>
+              <div className="flex items-end gap-px h-48">
+                {report.daily.map((day) => (
+                  <div
+                    key={day.date}
+                    className="flex-1 h-full flex items-end group"
+                    title={`${formatDay(day.date)}: ${day.views} views, ${day.uniqueViews} unique page views, ${day.visitors} visitors`}
+                  >
+                    <div
+                      className="w-full bg-pink-400 group-hover:bg-pink-600 rounded-t"
+                      style={{ height: `${(day.views / maxViews) * 100}%` }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 mt-2">
+                <span>{formatDay(report.daily[0].date)}</span>
+                <span>{formatDay(report.daily[report.daily.length - 1].date)}</span>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {report && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Products</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RankedBars entries={report.topProducts} empty="No product views yet" />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Articles</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RankedBars entries={report.topArticles} empty="No article views yet" />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Languages</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RankedBars
+                entries={report.locales.map((entry) => ({
+                  ...entry,
+                  label: LOCALE_LABELS[entry.key as Locale] || entry.key,
+                }))}
+                empty="No views yet"
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Referrers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <RankedBars entries={report.referrers} empty="No views yet" />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -12,9 +13,16 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import ImagePicker from './ImagePicker';
 import RichTextEditor from './RichTextEditor';
+import ArticleWorkflowPanel from './ArticleWorkflowPanel';
+import RevisionHistory from './RevisionHistory';
+import TagPicker, { PickerTag } from './TagPicker';
+import { useMachineTranslation, TranslateAllButtons, FieldTranslation } from './MachineTranslation';
+import { can } from '@/lib/permissions';
+import { ARTICLE_STATUS_LABELS, INITIAL_ARTICLE_STATUSES, requiresPublishPermission } from '@/lib/article-workflow';
 import * as Tabs from '@radix-ui/react-tabs';
 import * as Switch from '@radix-ui/react-switch';
 import * as Label from '@radix-ui/react-label';
+import type { Locale } from '@/i18n';
 
 // Form validation schema
 const articleSchema = z.object({
@@ -31,16 +39,17 @@ const articleSchema = z.object({
   excerpt_zh: z.string(),
   excerpt_en: z.string(),
   featuredImage: z.string(),
-  isPublished: z.boolean(),
+  status: z.enum(['DRAFT', 'IN_REVIEW', 'SCHEDULED', 'PUBLISHED']),
+  publishedAt: z.string(),
   isFeatured: z.boolean(),
   metaTitle_lo: z.string(),
   metaTitle_th: z.string(),
   metaTitle_zh: z.string(),
   metaTitle_en: z.string(),
-  metaDescription_lo: z.string(),
-  metaDescription_th: z.string(),
-  metaDescription_zh: z.string(),
-  metaDescription_en: z.string(),
+  metaDesc_lo: z.string(),
+  metaDesc_th: z.string(),
+  metaDesc_zh: z.string(),
+  metaDesc_en: z.string(),
 });
 
 type ArticleFormData = z.infer<typeof articleSchema>;
@@ -48,6 +57,9 @@ type ArticleFormData = z.infer<typeof articleSchema>;
 interface ArticleFormProps {
   articleId?: string;
   initialData?: Partial<ArticleFormData>;
+  // Field keys still waiting for review after machine translation
+  initialMachineTranslated?: string[];
+  initialTags?: PickerTag[];
 }
 
 const languages = [
@@ -57,16 +69,19 @@ const languages = [
   { code: 'en', label: 'English', flag: '🇬🇧' },
 ];
 
-export default function ArticleForm({ articleId, initialData }: ArticleFormProps) {
+export default function ArticleForm({ articleId, initialData, initialMachineTranslated, initialTags = [] }: ArticleFormProps) {
   const router = useRouter();
+  const { data: session } = useSession();
   const [activeTab, setActiveTab] = useState('lo');
   const [loading, setLoading] = useState(false);
   const [showSeo, setShowSeo] = useState(false);
+  const [tags, setTags] = useState<PickerTag[]>(initialTags);
 
   const {
     register,
     handleSubmit,
     setValue,
+    getValues,
     watch,
     control,
     formState: { errors },
@@ -86,24 +101,37 @@ export default function ArticleForm({ articleId, initialData }: ArticleFormProps
       excerpt_zh: '',
       excerpt_en: '',
       featuredImage: '',
-      isPublished: false,
+      status: 'DRAFT',
+      publishedAt: '',
       isFeatured: false,
       metaTitle_lo: '',
       metaTitle_th: '',
       metaTitle_zh: '',
       metaTitle_en: '',
-      metaDescription_lo: '',
-      metaDescription_th: '',
-      metaDescription_zh: '',
-      metaDescription_en: '',
+      metaDesc_lo: '',
+      metaDesc_th: '',
+      metaDesc_zh: '',
+      metaDesc_en: '',
       ...initialData,
     },
   });
 
+  const translation = useMachineTranslation({
+    fields: [{ name: 'title' }, { name: 'excerpt' }, { name: 'content', rich: true }, { name: 'metaTitle' }, { name: 'metaDesc' }],
+    getValue: (key) => getValues(key as keyof ArticleFormData) as string | undefined,
+    setValue: (key, value) => setValue(key as keyof ArticleFormData, value, { shouldDirty: true }),
+    initialNeedsReview: initialMachineTranslated,
+  });
+
   const featuredImage = watch('featuredImage') || '';
-  const isPublished = watch('isPublished');
+  const status = watch('status');
   const isFeatured = watch('isFeatured');
 
+  // New articles can only start in statuses the current role may enter
+  const initialStatuses = INITIAL_ARTICLE_STATUSES.filter(
+    (option) => !requiresPublishPermission(null, option) || can(session?.user?.role, 'article', 'publish')
+  );
+
   const onSubmit = async (data: ArticleFormData) => {
     setLoading(true);
     try {
@@ -113,7 +141,14 @@ export default function ArticleForm({ articleId, initialData }: ArticleFormProps
       const res = await fetch(url, {
         method,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
+        body: JSON.stringify({
+          ...data,
+          machineTranslated: translation.needsReview,
+          tags: tags.map((tag) => tag.id),
+          publishedAt: data.status === 'SCHEDULED' && data.publishedAt
+            ? new Date(data.publishedAt).toISOString()
+            : undefined,
+        }),
       });
 
       const result = await res.json();
@@ -166,7 +201,7 @@ export default function ArticleForm({ articleId, initialData }: ArticleFormProps
             ) : (
               <>
                 <Save size={20} />
-                {articleId ? 'Update' : 'Publish'} Article
+                {articleId ? 'Update' : 'Save'} Article
               </>
             )}
           </Button>
@@ -197,6 +232,8 @@ export default function ArticleForm({ articleId, initialData }: ArticleFormProps
 
                 {languages.map((lang) => (
                   <Tabs.Content key={lang.code} value={lang.code} className="space-y-4">
+                    <TranslateAllButtons target={lang.code as Locale} translation={translation} />
+                    <FieldTranslation name="title" target={lang.code as Locale} translation={translation} />
                     <Input
                       label={`Title (${lang.label})`}
                       {...register(`title_${lang.code}` as any)}
@@ -204,6 +241,7 @@ export default function ArticleForm({ articleId, initialData }: ArticleFormProps
                       placeholder={`Enter article title in ${lang.label}`}
                     />
                     <div>
+                      <FieldTranslation name="excerpt" target={lang.code as Locale} translation={translation} />
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         Excerpt ({lang.label})
                       </label>
@@ -215,6 +253,7 @@ export default function ArticleForm({ articleId, initialData }: ArticleFormProps
                       />
                     </div>
                     <div>
+                      <FieldTranslation name="content" target={lang.code as Locale} translation={translation} />
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         Content ({lang.label})
                       </label>
@@ -267,17 +306,19 @@ export default function ArticleForm({ articleId, initialData }: ArticleFormProps
 
                   {languages.map((lang) => (
                     <Tabs.Content key={lang.code} value={lang.code} className="space-y-4">
+                      <FieldTranslation name="metaTitle" target={lang.code as Locale} translation={translation} />
                       <Input
                         label={`Meta Title (${lang.label})`}
                         {...register(`metaTitle_${lang.code}` as any)}
                         placeholder="SEO title"
                       />
                       <div>
+                        <FieldTranslation name="metaDesc" target={lang.code as Locale} translation={translation} />
                         <label className="block text-sm font-medium text-gray-700 mb-2">
                           Meta Description ({lang.label})
                         </label>
                         <textarea
-                          {...register(`metaDescription_${lang.code}` as any)}
+                          {...register(`metaDesc_${lang.code}` as any)}
                           rows={3}
                           className="input"
                           placeholder="SEO description"
@@ -293,25 +334,44 @@ export default function ArticleForm({ articleId, initialData }: ArticleFormProps
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {/* Workflow - existing articles change status through the review workflow */}
+          {articleId && <ArticleWorkflowPanel articleId={articleId} />}
+
           {/* Status */}
           <Card>
             <CardHeader>
               <CardTitle>Status</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="flex items-center justify-between">
-                <Label.Root htmlFor="isPublished" className="text-sm font-medium">
-                  Published
-                </Label.Root>
-                <Switch.Root
-                  id="isPublished"
-                  checked={isPublished}
-                  onCheckedChange={(checked) => setValue('isPublished', checked)}
-                  className="w-11 h-6 bg-gray-200 rounded-full data-[state=checked]:bg-pink-500 transition-colors"
-                >
-                  <Switch.Thumb className="block w-5 h-5 bg-white rounded-full transition-transform translate-x-0.5 data-[state=checked]:translate-x-[22px]" />
-                </Switch.Root>
-              </div>
+              {!articleId && (
+                <>
+                  <div>
+                    <Label.Root htmlFor="status" className="block text-sm font-medium mb-1">
+                      Initial status
+                    </Label.Root>
+                    <select id="status" {...register('status')} className="input">
+                      {initialStatuses.map((option) => (
+                        <option key={option} value={option}>
+                          {ARTICLE_STATUS_LABELS[option]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {status === 'SCHEDULED' && (
+                    <div>
+                      <Label.Root htmlFor="publishedAt" className="block text-sm font-medium mb-1">
+                        Publish at
+                      </Label.Root>
+                      <input
+                        id="publishedAt"
+                        type="datetime-local"
+                        {...register('publishedAt')}
+                        className="input"
+                      />
+                    </div>
+                  )}
+                </>
+              )}
               <div className="flex items-center justify-between">
                 <Label.Root htmlFor="isFeatured" className="text-sm font-medium">
                   Featured
@@ -341,6 +401,18 @@ export default function ArticleForm({ articleId, initialData }: ArticleFormProps
               />
             </CardContent>
           </Card>
+
+          {/* Tags */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Tags</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TagPicker value={tags} onChange={setTags} />
+            </CardContent>
+          </Card>
+
+          {articleId && <RevisionHistory resource="Article" resourceId={articleId} />}
         </div>
       </div>
     </form>
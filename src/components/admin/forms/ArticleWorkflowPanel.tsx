@@ -0,0 +1,309 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import toast from 'react-hot-toast';
+import { Loader2, MessageSquare } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { can } from '@/lib/permissions';
+import {
+  ArticleStatus,
+  ARTICLE_STATUS_LABELS,
+  ARTICLE_TRANSITIONS,
+  requiresPublishPermission,
+} from '@/lib/article-workflow';
+
+const statusStyles: Record<ArticleStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-700',
+  IN_REVIEW: 'bg-yellow-100 text-yellow-700',
+  SCHEDULED: 'bg-blue-100 text-blue-700',
+  PUBLISHED: 'bg-green-100 text-green-700',
+  ARCHIVED: 'bg-red-100 text-red-700',
+};
+
+// Button label for moving into each status
+const transitionLabels: Record<ArticleStatus, string> = {
+  DRAFT: 'Back to Draft',
+  IN_REVIEW: 'Submit for Review',
+  SCHEDULED: 'Schedule',
+  PUBLISHED: 'Publish Now',
+  ARCHIVED: 'Archive',
+};
+
+export function ArticleStatusBadge({ status }: { status: ArticleStatus }) {
+  return (
+    <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${statusStyles[status]}`}>
+      {ARTICLE_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+interface Reviewer {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface ReviewComment {
+  id: string;
+  body: string;
+  status: ArticleStatus | null;
+  createdAt: string;
+  author: Reviewer | null;
+}
+
+interface ArticleWorkflowPanelProps {
+  articleId: string;
+}
+
+export default function ArticleWorkflowPanel({ articleId }: ArticleWorkflowPanelProps) {
+  const { data: session } = useSession();
+  const [status, setStatus] = useState<ArticleStatus | null>(null);
+  const [publishedAt, setPublishedAt] = useState<string | null>(null);
+  const [reviewer, setReviewer] = useState<Reviewer | null>(null);
+  const [reviewers, setReviewers] = useState<Reviewer[]>([]);
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [comment, setComment] = useState('');
+  const [scheduleAt, setScheduleAt] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const canPublish = can(session?.user?.role, 'article', 'publish');
+
+  useEffect(() => {
+    fetchReview();
+    fetchReviewers();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [articleId]);
+
+  const fetchReview = async () => {
+    try {
+      const res = await fetch(`/api/articles/${articleId}/review`);
+      const data = await res.json();
+
+      if (data.success) {
+        setStatus(data.data.status);
+        setPublishedAt(data.data.publishedAt);
+        setReviewer(data.data.reviewer);
+        setComments(data.data.comments);
+      }
+    } catch (error) {
+      console.error('Error fetching review:', error);
+    }
+  };
+
+  const fetchReviewers = async () => {
+    try {
+      const res = await fetch('/api/articles/reviewers');
+      const data = await res.json();
+
+      if (data.success) {
+        setReviewers(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching reviewers:', error);
+    }
+  };
+
+  const handleTransition = async (to: ArticleStatus) => {
+    if (to === 'SCHEDULED' && !scheduleAt) {
+      toast.error('Choose a publish date first');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/articles/${articleId}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: to,
+          publishedAt: to === 'SCHEDULED' ? new Date(scheduleAt).toISOString() : undefined,
+          comment,
+        }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success(`Article moved to ${ARTICLE_STATUS_LABELS[to]}`);
+        setComment('');
+        setScheduleAt('');
+        fetchReview();
+      } else {
+        toast.error(data.error || 'Failed to change status');
+      }
+    } catch (error) {
+      console.error('Status change error:', error);
+      toast.error('Failed to change status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddComment = async () => {
+    if (!comment.trim()) return;
+
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/articles/${articleId}/review`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: comment }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setComments((prev) => [...prev, data.data]);
+        setComment('');
+      } else {
+        toast.error(data.error || 'Failed to add comment');
+      }
+    } catch (error) {
+      console.error('Comment error:', error);
+      toast.error('Failed to add comment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReviewerChange = async (reviewerId: string) => {
+    try {
+      const res = await fetch(`/api/articles/${articleId}/review`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewerId: reviewerId || null }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setReviewer(data.data);
+        toast.success(data.data ? 'Reviewer assigned' : 'Reviewer cleared');
+      } else {
+        toast.error(data.error || 'Failed to assign reviewer');
+      }
+    } catch (error) {
+      console.error('Reviewer error:', error);
+      toast.error('Failed to assign reviewer');
+    }
+  };
+
+  if (!status) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Workflow</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-500">Loading...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const transitions = ARTICLE_TRANSITIONS[status].filter(
+    (to) => canPublish || !requiresPublishPermission(status, to)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Workflow</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Status</span>
+          <ArticleStatusBadge status={status} />
+        </div>
+        {status === 'SCHEDULED' && publishedAt && (
+          <p className="text-xs text-gray-500">
+            Goes live {new Date(publishedAt).toLocaleString()}
+          </p>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Reviewer</label>
+          <select
+            value={reviewer?.id || ''}
+            onChange={(e) => handleReviewerChange(e.target.value)}
+            className="input"
+          >
+            <option value="">Unassigned</option>
+            {reviewers.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Comment</label>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={3}
+            className="input"
+            placeholder="Notes for the author or reviewer"
+          />
+          <button
+            type="button"
+            onClick={handleAddComment}
+            disabled={saving || !comment.trim()}
+            className="mt-2 flex items-center gap-1 text-sm text-pink-500 hover:text-pink-600 disabled:opacity-50"
+          >
+            <MessageSquare size={14} />
+            Add comment
+          </button>
+        </div>
+
+        {transitions.includes('SCHEDULED') && (
+          <div>
+            <label className="block text-sm font-medium mb-1">Publish at</label>
+            <input
+              type="datetime-local"
+              value={scheduleAt}
+              onChange={(e) => setScheduleAt(e.target.value)}
+              className="input"
+            />
+          </div>
+        )}
+
+        {transitions.length > 0 && (
+          <div className="flex flex-col gap-2">
+            {transitions.map((to) => (
+              <Button
+                key={to}
+                type="button"
+                size="sm"
+                variant={to === 'PUBLISHED' ? 'primary' : to === 'ARCHIVED' ? 'danger' : 'outline'}
+                disabled={saving}
+                onClick={() => handleTransition(to)}
+              >
+                {saving && <Loader2 size={16} className="animate-spin" />}
+                {to === status ? 'Reschedule' : transitionLabels[to]}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {comments.length > 0 && (
+          <div className="pt-4 border-t space-y-3">
+            <h3 className="text-sm font-semibold text-gray-700">Review comments</h3>
+            {comments.map((item) => (
+              <div key={item.id} className="text-sm">
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+                  <span>{item.author?.name || 'Unknown user'}</span>
+                  <span>{new Date(item.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="text-gray-800 whitespace-pre-line">{item.body}</p>
+                {item.status && (
+                  <span className="text-xs text-gray-400">{ARTICLE_STATUS_LABELS[item.status]}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import Image from 'next/image';
-import { X, Upload, Check, Image as ImageIcon } from 'lucide-react';
+import { X, Upload, Check, Image as ImageIcon, Copy } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import toast from 'react-hot-toast';
 
@@ -14,6 +14,11 @@ interface Media {
   height?: number;
 }
 
+// Existing image that looks like a fresh upload (see POST /api/upload)
+interface SimilarMedia extends Media {
+  distance: number;
+}
+
 interface ImagePickerProps {
   value?: string;
   onChange: (url: string) => void;
@@ -34,6 +39,8 @@ export default function ImagePicker({
   const [isLoading, setIsLoading] = useState(false);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [uploadingFile, setUploadingFile] = useState(false);
+  const [similar, setSimilar] = useState<SimilarMedia[]>([]);
+  const [lastUploadId, setLastUploadId] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -97,8 +104,17 @@ export default function ImagePicker({
 
       const result = await response.json();
 
-      if (result.success) {
+      if (result.success && result.duplicate) {
+        // Nothing new was stored; use the copy already in the library
+        toast.success('This image is already in the library, using the existing file');
+        onChange(result.data.url);
+        setIsOpen(false);
+        setSelectedId(null);
+      } else if (result.success) {
         toast.success('Image uploaded successfully!');
+        setSelectedId(result.data.id);
+        setLastUploadId(result.data.id);
+        setSimilar(result.similar || []);
         fetchMedia();
       } else {
         toast.error(result.error || 'Failed to upload image');
@@ -111,6 +127,23 @@ export default function ImagePicker({
     }
   };
 
+  // Swap the fresh upload for an existing near-duplicate and discard the new copy
+  const handleUseExisting = async (item: SimilarMedia) => {
+    onChange(item.url);
+    setIsOpen(false);
+    setSelectedId(null);
+    setSimilar([]);
+
+    if (lastUploadId) {
+      try {
+        await fetch(`/api/upload/${lastUploadId}`, { method: 'DELETE' });
+      } catch (error) {
+        console.error('Failed to remove duplicate upload:', error);
+      }
+      setLastUploadId(null);
+    }
+  };
+
   const handleRemove = () => {
     onChange('');
   };
@@ -193,6 +226,39 @@ export default function ImagePicker({
             </div>
 
             <div className="flex-1 overflow-y-auto p-6">
+              {similar.length > 0 && (
+                <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl">
+                  <div className="flex items-start justify-between gap-4 mb-3">
+                    <div className="flex items-center gap-2 text-amber-900">
+                      <Copy size={18} />
+                      <div>
+                        <p className="font-medium">Similar images are already in the library</p>
+                        <p className="text-sm">Reuse one instead of keeping another copy of the same photo.</p>
+                      </div>
+                    </div>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setSimilar([])}>
+                      Keep New Upload
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-3">
+                    {similar.map((item) => (
+                      <button
+                        key={item.id}
+                        type="button"
+                        onClick={() => handleUseExisting(item)}
+                        className="group w-28 text-left"
+                        title={`Use ${item.originalName}`}
+                      >
+                        <div className="relative w-28 h-28 rounded-lg overflow-hidden border-2 border-amber-200 group-hover:border-pink-500">
+                          <Image src={item.url} alt={item.originalName} fill sizes="112px" className="object-cover" />
+                        </div>
+                        <span className="block text-xs text-gray-700 truncate mt-1">{item.originalName}</span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {isLoading ? (
                 <div className="flex items-center justify-center py-12">
                   <div className="spinner"></div>
@@ -252,6 +318,7 @@ export default function ImagePicker({
                 onClick={() => {
                   setIsOpen(false);
                   setSelectedId(null);
+                  setSimilar([]);
                 }}
               >
                 Cancel
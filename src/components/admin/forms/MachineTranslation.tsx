@@ -0,0 +1,178 @@
+'use client';
+
+import { useState } from 'react';
+import { generateHTML, generateJSON } from '@tiptap/core';
+import toast from 'react-hot-toast';
+import { Languages, Loader2, Check, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { LOCALE_LABELS } from '@/lib/i18n-helpers';
+import { richTextExtensions } from './RichTextEditor';
+import type { Locale } from '@/i18n';
+
+// Languages editors write the original in
+const SOURCE_LOCALES: Locale[] = ['lo', 'en'];
+
+export interface TranslatableField {
+  name: string;
+  // Rich text is stored as HTML and translated as a TipTap document
+  rich?: boolean;
+}
+
+interface UseMachineTranslationOptions {
+  fields: TranslatableField[];
+  getValue: (key: string) => string | undefined;
+  setValue: (key: string, value: string) => void;
+  initialNeedsReview?: string[];
+}
+
+export type MachineTranslation = ReturnType<typeof useMachineTranslation>;
+
+function isBlank(value: string | undefined, rich?: boolean): boolean {
+  const text = rich ? (value || '').replace(/<[^>]+>/g, '') : value || '';
+  return text.trim().length === 0;
+}
+
+export function useMachineTranslation({ fields, getValue, setValue, initialNeedsReview = [] }: UseMachineTranslationOptions) {
+  // Field keys such as "title_th" that were machine translated and not yet confirmed
+  const [needsReview, setNeedsReview] = useState<string[]>(initialNeedsReview);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const translate = async (names: string[], source: Locale, target: Locale, busyKey: string) => {
+    const texts: Record<string, string> = {};
+    const documents: Record<string, unknown> = {};
+
+    for (const field of fields.filter((item) => names.includes(item.name))) {
+      const value = getValue(`${field.name}_${source}`);
+      if (isBlank(value, field.rich)) continue;
+
+      if (field.rich) {
+        documents[field.name] = generateJSON(value!, richTextExtensions);
+      } else {
+        texts[field.name] = value!;
+      }
+    }
+
+    const count = Object.keys(texts).length + Object.keys(documents).length;
+    if (count === 0) {
+      toast.error(`Nothing to translate in ${LOCALE_LABELS[source]}`);
+      return;
+    }
+
+    setBusy(busyKey);
+    try {
+      const res = await fetch('/api/admin/translate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ source, target, texts, documents }),
+      });
+      const data = await res.json();
+
+      if (!data.success) {
+        toast.error(data.error || 'Translation failed');
+        return;
+      }
+
+      const translatedKeys: string[] = [];
+      Object.entries(data.data.texts as Record<string, string>).forEach(([name, value]) => {
+        setValue(`${name}_${target}`, value);
+        translatedKeys.push(`${name}_${target}`);
+      });
+      Object.entries(data.data.documents as Record<string, any>).forEach(([name, doc]) => {
+        setValue(`${name}_${target}`, generateHTML(doc, richTextExtensions));
+        translatedKeys.push(`${name}_${target}`);
+      });
+
+      setNeedsReview((prev) => Array.from(new Set([...prev, ...translatedKeys])));
+      toast.success(
+        `Translated ${count} field${count !== 1 ? 's' : ''} into ${LOCALE_LABELS[target]}. Please review before publishing.`
+      );
+    } catch (error) {
+      console.error('Translation error:', error);
+      toast.error('Translation failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return {
+    needsReview,
+    busy,
+    translateField: (name: string, source: Locale, target: Locale) =>
+      translate([name], source, target, `${name}_${target}`),
+    translateAll: (source: Locale, target: Locale) =>
+      translate(fields.map((field) => field.name), source, target, `all_${target}`),
+    confirm: (key: string) => setNeedsReview((prev) => prev.filter((item) => item !== key)),
+  };
+}
+
+// Per-tab action: fill every field of this language from Lao or English
+export function TranslateAllButtons({ target, translation }: { target: Locale; translation: MachineTranslation }) {
+  const sources = SOURCE_LOCALES.filter((source) => source !== target);
+  const isBusy = translation.busy === `all_${target}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-3 bg-gray-50 rounded-lg text-sm">
+      <Languages size={16} className="text-gray-500" />
+      <span className="text-gray-600">Machine translate all fields from</span>
+      {sources.map((source) => (
+        <Button
+          key={source}
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={translation.busy !== null}
+          onClick={() => translation.translateAll(source, target)}
+        >
+          {isBusy && <Loader2 size={14} className="animate-spin" />}
+          {LOCALE_LABELS[source]}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+// Per-field action and the "needs review" flag for a machine-translated value
+export function FieldTranslation({
+  name,
+  target,
+  translation,
+}: {
+  name: string;
+  target: Locale;
+  translation: MachineTranslation;
+}) {
+  const key = `${name}_${target}`;
+  const sources = SOURCE_LOCALES.filter((source) => source !== target);
+  const needsReview = translation.needsReview.includes(key);
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2 text-xs mb-1">
+      {needsReview && (
+        <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">
+          <AlertTriangle size={12} />
+          Machine translated — needs review
+          <button
+            type="button"
+            onClick={() => translation.confirm(key)}
+            className="flex items-center gap-0.5 ml-1 font-medium hover:text-yellow-900"
+          >
+            <Check size={12} />
+            Mark reviewed
+          </button>
+        </span>
+      )}
+      {sources.map((source) => (
+        <button
+          key={source}
+          type="button"
+          disabled={translation.busy !== null}
+          onClick={() => translation.translateField(name, source, target)}
+          className="flex items-center gap-1 text-gray-500 hover:text-pink-600 disabled:opacity-50"
+        >
+          {translation.busy === key ? <Loader2 size={12} className="animate-spin" /> : <Languages size={12} />}
+          From {LOCALE_LABELS[source]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -12,9 +12,13 @@ import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import ImagePicker from './ImagePicker';
+import RevisionHistory from './RevisionHistory';
+import ProductVariantsEditor, { OptionDraft, VariantDraft } from './ProductVariantsEditor';
+import { useMachineTranslation, TranslateAllButtons, FieldTranslation } from './MachineTranslation';
 import * as Tabs from '@radix-ui/react-tabs';
 import * as Switch from '@radix-ui/react-switch';
 import * as Label from '@radix-ui/react-label';
+import type { Locale } from '@/i18n';
 
 // Form validation schema
 const productSchema = z.object({
@@ -60,6 +64,9 @@ type ProductFormData = z.infer<typeof productSchema>;
 interface ProductFormProps {
   productId?: string;
   initialData?: Partial<ProductFormData>;
+  initialVariants?: { options: OptionDraft[]; variants: VariantDraft[] };
+  // Field keys still waiting for review after machine translation
+  initialMachineTranslated?: string[];
 }
 
 const languages = [
@@ -69,17 +76,20 @@ const languages = [
   { code: 'en', label: 'English', flag: '🇬🇧' },
 ];
 
-export default function ProductForm({ productId, initialData }: ProductFormProps) {
+export default function ProductForm({ productId, initialData, initialVariants, initialMachineTranslated }: ProductFormProps) {
   const router = useRouter();
   const [activeTab, setActiveTab] = useState('lo');
   const [categories, setCategories] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [showSeo, setShowSeo] = useState(false);
+  const [variantOptions, setVariantOptions] = useState<OptionDraft[]>(initialVariants?.options || []);
+  const [variants, setVariants] = useState<VariantDraft[]>(initialVariants?.variants || []);
 
   const {
     register,
     handleSubmit,
     setValue,
+    getValues,
     watch,
     formState: { errors },
   } = useForm<ProductFormData>({
@@ -113,6 +123,13 @@ export default function ProductForm({ productId, initialData }: ProductFormProps
     },
   });
 
+  const translation = useMachineTranslation({
+    fields: [{ name: 'name' }, { name: 'description' }, { name: 'metaTitle' }],
+    getValue: (key) => getValues(key as keyof ProductFormData) as string | undefined,
+    setValue: (key, value) => setValue(key as keyof ProductFormData, value, { shouldDirty: true }),
+    initialNeedsReview: initialMachineTranslated,
+  });
+
   const featuredImage = watch('featuredImage') || '';
   const galleryImages = watch('galleryImages') || [];
   const isPublished = watch('isPublished');
@@ -151,6 +168,12 @@ export default function ProductForm({ productId, initialData }: ProductFormProps
           alt_en: '',
           order: index,
         })),
+        machineTranslated: translation.needsReview,
+        options: variantOptions,
+        variants: variants.map((variant) => ({
+          ...variant,
+          price: variant.price || null,
+        })),
       };
       delete (payload as any).galleryImages;
 
@@ -251,6 +274,8 @@ export default function ProductForm({ productId, initialData }: ProductFormProps
 
                 {languages.map((lang) => (
                   <Tabs.Content key={lang.code} value={lang.code} className="space-y-4">
+                    <TranslateAllButtons target={lang.code as Locale} translation={translation} />
+                    <FieldTranslation name="name" target={lang.code as Locale} translation={translation} />
                     <Input
                       label={`Product Name (${lang.label})`}
                       {...register(`name_${lang.code}` as any)}
@@ -258,6 +283,7 @@ export default function ProductForm({ productId, initialData }: ProductFormProps
                       placeholder={`Enter product name in ${lang.label}`}
                     />
                     <div>
+                      <FieldTranslation name="description" target={lang.code as Locale} translation={translation} />
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         Description ({lang.label})
                       </label>
@@ -274,6 +300,16 @@ export default function ProductForm({ productId, initialData }: ProductFormProps
             </CardContent>
           </Card>
 
+          <ProductVariantsEditor
+            options={variantOptions}
+            variants={variants}
+            images={[featuredImage, ...galleryImages].filter(Boolean)}
+            onChange={(options, rows) => {
+              setVariantOptions(options);
+              setVariants(rows);
+            }}
+          />
+
           {/* SEO Section */}
           <Card>
             <CardHeader>
@@ -305,6 +341,7 @@ export default function ProductForm({ productId, initialData }: ProductFormProps
 
                   {languages.map((lang) => (
                     <Tabs.Content key={lang.code} value={lang.code} className="space-y-4">
+                      <FieldTranslation name="metaTitle" target={lang.code as Locale} translation={translation} />
                       <Input
                         label={`Meta Title (${lang.label})`}
                         {...register(`metaTitle_${lang.code}` as any)}
@@ -466,6 +503,8 @@ export default function ProductForm({ productId, initialData }: ProductFormProps
               />
             </CardContent>
           </Card>
+
+          {productId && <RevisionHistory resource="Product" resourceId={productId} />}
         </div>
       </div>
     </form>
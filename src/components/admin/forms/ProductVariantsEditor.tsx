@@ -0,0 +1,289 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+
+const languages = [
+  { code: 'lo', label: 'ລາວ' },
+  { code: 'th', label: 'ไทย' },
+  { code: 'zh', label: '中文' },
+  { code: 'en', label: 'EN' },
+] as const;
+
+type LangCode = (typeof languages)[number]['code'];
+
+export type OptionValueDraft = Record<`value_${LangCode}`, string>;
+
+export type OptionDraft = Record<`name_${LangCode}`, string> & {
+  values: OptionValueDraft[];
+};
+
+export interface VariantDraft {
+  values: number[];
+  sku: string;
+  price: string;
+  image: string;
+  isAvailable: boolean;
+}
+
+interface ProductVariantsEditorProps {
+  options: OptionDraft[];
+  variants: VariantDraft[];
+  images: string[];
+  onChange: (options: OptionDraft[], variants: VariantDraft[]) => void;
+}
+
+const emptyValue = (): OptionValueDraft => ({ value_lo: '', value_th: '', value_zh: '', value_en: '' });
+
+const emptyOption = (): OptionDraft => ({
+  name_lo: '',
+  name_th: '',
+  name_zh: '',
+  name_en: '',
+  values: [emptyValue()],
+});
+
+// Map product data from the API onto editor drafts
+export function toVariantDrafts(product: any): { options: OptionDraft[]; variants: VariantDraft[] } {
+  const options: any[] = product.options || [];
+
+  return {
+    options: options.map((option) => ({
+      name_lo: option.name_lo || '',
+      name_th: option.name_th || '',
+      name_zh: option.name_zh || '',
+      name_en: option.name_en || '',
+      values: option.values.map((value: any) => ({
+        value_lo: value.value_lo || '',
+        value_th: value.value_th || '',
+        value_zh: value.value_zh || '',
+        value_en: value.value_en || '',
+      })),
+    })),
+    variants: (product.variants || []).map((variant: any) => {
+      const valueIds = variant.optionValues.map((value: any) => value.id);
+      return {
+        values: options.map((option) =>
+          option.values.findIndex((value: any) => valueIds.includes(value.id))
+        ),
+        sku: variant.sku || '',
+        price: variant.price?.toString() || '',
+        image: variant.image || '',
+        isAvailable: variant.isAvailable,
+      };
+    }),
+  };
+}
+
+function combinationKey(options: OptionDraft[], values: number[]) {
+  return values.map((valueIndex, optionIndex) => options[optionIndex]?.values[valueIndex]?.value_lo).join('|');
+}
+
+// Every combination of option values, keeping the data of rows that still exist
+function buildMatrix(
+  options: OptionDraft[],
+  previousOptions: OptionDraft[],
+  previousVariants: VariantDraft[]
+): VariantDraft[] {
+  if (options.length === 0) return [];
+
+  const previous = new Map(
+    previousVariants.map((variant) => [combinationKey(previousOptions, variant.values), variant])
+  );
+
+  let combinations: number[][] = [[]];
+  options.forEach((option) => {
+    combinations = combinations.flatMap((combination) =>
+      option.values.map((_, valueIndex) => [...combination, valueIndex])
+    );
+  });
+
+  return combinations.map((values) => {
+    const existing = previous.get(combinationKey(options, values));
+    return existing
+      ? { ...existing, values }
+      : { values, sku: '', price: '', image: '', isAvailable: true };
+  });
+}
+
+export default function ProductVariantsEditor({ options, variants, images, onChange }: ProductVariantsEditorProps) {
+  const updateOptions = (next: OptionDraft[]) => {
+    onChange(next, buildMatrix(next, options, variants));
+  };
+
+  const updateOption = (index: number, patch: Partial<OptionDraft>) => {
+    updateOptions(options.map((option, i) => (i === index ? { ...option, ...patch } : option)));
+  };
+
+  const updateValue = (optionIndex: number, valueIndex: number, field: keyof OptionValueDraft, text: string) => {
+    const values = options[optionIndex].values.map((value, i) =>
+      i === valueIndex ? { ...value, [field]: text } : value
+    );
+    updateOption(optionIndex, { values });
+  };
+
+  const updateVariant = (index: number, patch: Partial<VariantDraft>) => {
+    onChange(
+      options,
+      variants.map((variant, i) => (i === index ? { ...variant, ...patch } : variant))
+    );
+  };
+
+  const variantLabel = (variant: VariantDraft) =>
+    variant.values
+      .map((valueIndex, optionIndex) => options[optionIndex]?.values[valueIndex]?.value_lo || '—')
+      .join(' / ');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Options &amp; Variants</CardTitle>
+          <Button type="button" variant="secondary" size="sm" onClick={() => updateOptions([...options, emptyOption()])}>
+            <Plus size={16} />
+            Add Option
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {options.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No options. Add one (e.g. Size, Volume) to sell this product in several variants.
+          </p>
+        )}
+
+        {options.map((option, optionIndex) => (
+          <div key={optionIndex} className="border border-gray-200 rounded-xl p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-semibold">Option {optionIndex + 1}</p>
+              <button
+                type="button"
+                onClick={() => updateOptions(options.filter((_, i) => i !== optionIndex))}
+                className="p-1 text-red-500 hover:bg-red-50 rounded"
+                aria-label="Remove option"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {languages.map((lang) => (
+                <input
+                  key={lang.code}
+                  value={option[`name_${lang.code}`]}
+                  onChange={(e) => updateOption(optionIndex, { [`name_${lang.code}`]: e.target.value })}
+                  placeholder={`Name (${lang.label})`}
+                  className="input"
+                />
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-gray-500 uppercase">Values</p>
+              {option.values.map((value, valueIndex) => (
+                <div key={valueIndex} className="flex gap-2">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2 flex-1">
+                    {languages.map((lang) => (
+                      <input
+                        key={lang.code}
+                        value={value[`value_${lang.code}`]}
+                        onChange={(e) => updateValue(optionIndex, valueIndex, `value_${lang.code}`, e.target.value)}
+                        placeholder={`Value (${lang.label})`}
+                        className="input"
+                      />
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      updateOption(optionIndex, { values: option.values.filter((_, i) => i !== valueIndex) })
+                    }
+                    disabled={option.values.length === 1}
+                    className="p-2 text-gray-400 hover:text-red-500 disabled:opacity-30"
+                    aria-label="Remove value"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => updateOption(optionIndex, { values: [...option.values, emptyValue()] })}
+                className="text-sm text-pink-600 hover:text-pink-700"
+              >
+                + Add value
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {variants.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-3 font-medium">Variant</th>
+                  <th className="py-2 pr-3 font-medium">SKU</th>
+                  <th className="py-2 pr-3 font-medium">Price</th>
+                  <th className="py-2 pr-3 font-medium">Image</th>
+                  <th className="py-2 font-medium">Available</th>
+                </tr>
+              </thead>
+              <tbody>
+                {variants.map((variant, index) => (
+                  <tr key={variant.values.join('-')} className="border-b last:border-0">
+                    <td className="py-2 pr-3 font-medium whitespace-nowrap">{variantLabel(variant)}</td>
+                    <td className="py-2 pr-3">
+                      <input
+                        value={variant.sku}
+                        onChange={(e) => updateVariant(index, { sku: e.target.value })}
+                        placeholder="SKU"
+                        className="input"
+                      />
+                    </td>
+                    <td className="py-2 pr-3">
+                      <input
+                        type="number"
+                        min={0}
+                        value={variant.price}
+                        onChange={(e) => updateVariant(index, { price: e.target.value })}
+                        placeholder="Base price"
+                        className="input"
+                      />
+                    </td>
+                    <td className="py-2 pr-3">
+                      <select
+                        value={variant.image}
+                        onChange={(e) => updateVariant(index, { image: e.target.value })}
+                        className="input"
+                      >
+                        <option value="">Default</option>
+                        {images.map((url, imageIndex) => (
+                          <option key={url} value={url}>
+                            Image {imageIndex + 1}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={variant.isAvailable}
+                        onChange={(e) => updateVariant(index, { isAvailable: e.target.checked })}
+                        className="rounded text-pink-500 focus:ring-pink-300"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-2">
+              Leave the price empty to use the product price. Images come from the featured image and gallery.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
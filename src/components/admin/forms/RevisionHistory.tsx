@@ -0,0 +1,247 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { History, RotateCcw, Loader2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { diffWords, toPlainText } from '@/lib/text-diff';
+import type { RevisionResource } from '@/lib/revisions';
+
+// Localized fields shown in the diff, without the language suffix
+const DIFF_FIELDS: Record<RevisionResource, Array<{ key: string; label: string }>> = {
+  Article: [
+    { key: 'title', label: 'Title' },
+    { key: 'excerpt', label: 'Excerpt' },
+    { key: 'content', label: 'Content' },
+  ],
+  Product: [
+    { key: 'name', label: 'Name' },
+    { key: 'description', label: 'Description' },
+  ],
+};
+
+const languages = [
+  { code: 'lo', label: 'ພາສາລາວ', flag: '🇱🇦' },
+  { code: 'th', label: 'ภาษาไทย', flag: '🇹🇭' },
+  { code: 'zh', label: '中文', flag: '🇨🇳' },
+  { code: 'en', label: 'English', flag: '🇬🇧' },
+];
+
+interface RevisionSummary {
+  id: string;
+  version: number;
+  restoredFromId: string | null;
+  createdAt: string;
+  author: { id: string; name: string; email: string } | null;
+}
+
+interface RevisionDetail extends RevisionSummary {
+  data: Record<string, any>;
+  previous: { id: string; version: number; data: Record<string, any> } | null;
+}
+
+interface RevisionHistoryProps {
+  resource: RevisionResource;
+  resourceId: string;
+}
+
+export default function RevisionHistory({ resource, resourceId }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [selected, setSelected] = useState<RevisionDetail | null>(null);
+  const [lang, setLang] = useState('lo');
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    fetchRevisions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [resource, resourceId]);
+
+  const fetchRevisions = async () => {
+    try {
+      const params = new URLSearchParams({ resource, resourceId });
+      const res = await fetch(`/api/revisions?${params.toString()}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setRevisions(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+    }
+  };
+
+  const selectRevision = async (id: string) => {
+    if (selected?.id === id) {
+      setSelected(null);
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/revisions/${id}`);
+      const data = await res.json();
+
+      if (data.success) {
+        setSelected(data.data);
+      } else {
+        toast.error(data.error || 'Failed to load revision');
+      }
+    } catch (error) {
+      console.error('Error fetching revision:', error);
+      toast.error('Failed to load revision');
+    }
+  };
+
+  const handleRestore = async (revision: RevisionSummary) => {
+    if (!confirm(`Restore revision #${revision.version}? Unsaved changes in the form will be lost.`)) {
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      const res = await fetch(`/api/revisions/${revision.id}/restore`, { method: 'POST' });
+      const data = await res.json();
+
+      if (data.success) {
+        toast.success(`Restored revision #${revision.version}`);
+        // Reload so the form picks up the restored content
+        window.location.reload();
+      } else {
+        toast.error(data.error || 'Failed to restore revision');
+      }
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast.error('Failed to restore revision');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const versionOf = (id: string | null) => revisions.find((revision) => revision.id === id)?.version;
+  const latestVersion = revisions[0]?.version;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History size={18} />
+          Revisions
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">No revisions yet. One is saved every time you update.</p>
+        ) : (
+          <ul className="space-y-2">
+            {revisions.map((revision) => (
+              <li key={revision.id}>
+                <div className="flex items-center justify-between gap-2">
+                  <button
+                    type="button"
+                    onClick={() => selectRevision(revision.id)}
+                    className={`text-left text-sm flex-1 min-w-0 ${
+                      selected?.id === revision.id ? 'text-pink-600 font-medium' : 'text-gray-700 hover:text-pink-500'
+                    }`}
+                  >
+                    #{revision.version}
+                    {revision.version === latestVersion && ' (current)'}
+                    <span className="block text-xs text-gray-500 truncate">
+                      {revision.author?.name || 'Unknown user'} • {new Date(revision.createdAt).toLocaleString()}
+                      {revision.restoredFromId && ` • restored #${versionOf(revision.restoredFromId) ?? '?'}`}
+                    </span>
+                  </button>
+                  {revision.version !== latestVersion && (
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoring}
+                      className="p-2 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+                      title="Restore this revision"
+                    >
+                      {restoring ? <Loader2 size={16} className="animate-spin" /> : <RotateCcw size={16} className="text-gray-600" />}
+                    </button>
+                  )}
+                </div>
+
+                {selected?.id === revision.id && (
+                  <div className="mt-3 mb-4 border rounded-lg p-3">
+                    <div className="flex gap-1 border-b mb-3">
+                      {languages.map((language) => (
+                        <button
+                          key={language.code}
+                          type="button"
+                          onClick={() => setLang(language.code)}
+                          className={`px-2 py-1 text-xs font-medium ${
+                            lang === language.code
+                              ? 'text-pink-600 border-b-2 border-pink-600'
+                              : 'text-gray-600 hover:text-gray-900'
+                          }`}
+                          title={language.label}
+                        >
+                          {language.flag} {language.code.toUpperCase()}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mb-3">
+                      {selected.previous ? `Changes since #${selected.previous.version}` : 'First revision'}
+                    </p>
+                    <div className="space-y-3">
+                      {DIFF_FIELDS[resource].map((field) => {
+                        const key = `${field.key}_${lang}`;
+                        const parts = diffWords(
+                          toPlainText(selected.previous?.data?.[key]),
+                          toPlainText(selected.data?.[key])
+                        );
+                        const changed = parts.some((part) => part.type !== 'equal');
+
+                        return (
+                          <div key={field.key}>
+                            <div className="text-xs font-semibold text-gray-700 mb-1">
+                              {field.label}
+                              {!changed && <span className="font-normal text-gray-400"> — unchanged</span>}
+                            </div>
+                            {changed && (
+                              <p className="text-xs whitespace-pre-wrap break-words max-h-60 overflow-y-auto">
+                                {parts.map((part, index) => (
+                                  <span
+                                    key={index}
+                                    className={
+                                      part.type === 'added'
+                                        ? 'bg-green-100 text-green-800'
+                                        : part.type === 'removed'
+                                        ? 'bg-red-100 text-red-800 line-through'
+                                        : 'text-gray-600'
+                                    }
+                                  >
+                                    {part.value}
+                                  </span>
+                                ))}
+                              </p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                    {revision.version !== latestVersion && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        className="mt-4 w-full"
+                        disabled={restoring}
+                        onClick={() => handleRestore(revision)}
+                      >
+                        <RotateCcw size={16} />
+                        Restore #{revision.version}
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
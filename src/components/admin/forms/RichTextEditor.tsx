@@ -8,7 +8,19 @@ import {
   Bold, Italic, List, ListOrdered, Quote, Undo, Redo,
   Heading1, Heading2, Heading3, Link as LinkIcon, ImageIcon
 } from 'lucide-react';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+
+// Also used to convert stored HTML to TipTap JSON and back outside the editor
+export const richTextExtensions = [
+  StarterKit,
+  Image,
+  Link.configure({
+    openOnClick: false,
+    HTMLAttributes: {
+      class: 'text-pink-600 underline',
+    },
+  }),
+];
 
 interface RichTextEditorProps {
   value: string;
@@ -23,16 +35,7 @@ export default function RichTextEditor({ value, onChange, placeholder }: RichTex
   const [imageUrl, setImageUrl] = useState('');
 
   const editor = useEditor({
-    extensions: [
-      StarterKit,
-      Image,
-      Link.configure({
-        openOnClick: false,
-        HTMLAttributes: {
-          class: 'text-pink-600 underline',
-        },
-      }),
-    ],
+    extensions: richTextExtensions,
     content: value,
     onUpdate: ({ editor }) => {
       onChange(editor.getHTML());
@@ -44,6 +47,13 @@ export default function RichTextEditor({ value, onChange, placeholder }: RichTex
     },
   });
 
+  // Pick up values set from outside, such as a machine translation
+  useEffect(() => {
+    if (editor && value !== editor.getHTML()) {
+      editor.commands.setContent(value, false);
+    }
+  }, [editor, value]);
+
   if (!editor) {
     return null;
   }
@@ -0,0 +1,228 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { X, Plus, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+
+export interface PickerTag {
+  id: string;
+  slug: string;
+  name_lo: string;
+  name_th: string;
+  name_zh: string;
+  name_en: string;
+}
+
+interface TagPickerProps {
+  value: PickerTag[];
+  onChange: (tags: PickerTag[]) => void;
+}
+
+const NAME_FIELDS = [
+  { field: 'name_lo', label: 'ພາສາລາວ' },
+  { field: 'name_th', label: 'ภาษาไทย' },
+  { field: 'name_zh', label: '中文' },
+  { field: 'name_en', label: 'English' },
+] as const;
+
+type TagNames = Record<(typeof NAME_FIELDS)[number]['field'], string>;
+
+const EMPTY_NAMES: TagNames = { name_lo: '', name_th: '', name_zh: '', name_en: '' };
+
+export default function TagPicker({ value, onChange }: TagPickerProps) {
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<PickerTag[]>([]);
+  const [open, setOpen] = useState(false);
+  const [newTag, setNewTag] = useState<TagNames | null>(null);
+  const [creating, setCreating] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Debounced autocomplete
+  useEffect(() => {
+    const search = query.trim();
+    if (!search) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/tags?search=${encodeURIComponent(search)}&limit=10`);
+        const data = await res.json();
+        if (data.success) {
+          setSuggestions(data.data);
+        }
+      } catch (error) {
+        console.error('Error searching tags:', error);
+      }
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const selectedIds = new Set(value.map((tag) => tag.id));
+  const available = suggestions.filter((tag) => !selectedIds.has(tag.id));
+  const exactMatch = suggestions.some((tag) =>
+    NAME_FIELDS.some(({ field }) => tag[field].toLowerCase() === query.trim().toLowerCase())
+  );
+
+  const addTag = (tag: PickerTag) => {
+    if (!selectedIds.has(tag.id)) {
+      onChange([...value, tag]);
+    }
+    setQuery('');
+    setOpen(false);
+  };
+
+  const removeTag = (id: string) => {
+    onChange(value.filter((tag) => tag.id !== id));
+  };
+
+  const startCreate = () => {
+    setNewTag({ ...EMPTY_NAMES, name_lo: query.trim() });
+    setOpen(false);
+  };
+
+  const createTag = async () => {
+    if (!newTag) return;
+
+    setCreating(true);
+    try {
+      const res = await fetch('/api/tags', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(newTag),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        addTag(data.data);
+        setNewTag(null);
+        toast.success('Tag created');
+      } else {
+        toast.error(data.error || 'Failed to create tag');
+      }
+    } catch (error) {
+      console.error('Error creating tag:', error);
+      toast.error('Failed to create tag');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="space-y-3">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((tag) => (
+            <span
+              key={tag.id}
+              className="flex items-center gap-1 px-3 py-1 rounded-full bg-pink-50 text-pink-700 text-sm"
+              title={`${tag.name_th} · ${tag.name_zh} · ${tag.name_en}`}
+            >
+              {tag.name_lo}
+              <button type="button" onClick={() => removeTag(tag.id)} className="hover:text-pink-900">
+                <X size={14} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="relative">
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={(e) => {
+            // Enter would submit the article form
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              if (available.length > 0) addTag(available[0]);
+              else if (query.trim() && !exactMatch) startCreate();
+            }
+          }}
+          className="input"
+          placeholder="Search or create tags..."
+        />
+
+        {open && query.trim() && (
+          <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-64 overflow-y-auto">
+            {available.map((tag) => (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => addTag(tag)}
+                className="w-full text-left px-3 py-2 text-sm hover:bg-pink-50"
+              >
+                {tag.name_lo}
+                <span className="text-gray-500"> · {tag.name_en}</span>
+              </button>
+            ))}
+            {!exactMatch && (
+              <button
+                type="button"
+                onClick={startCreate}
+                className="w-full flex items-center gap-2 text-left px-3 py-2 text-sm text-pink-600 hover:bg-pink-50 border-t border-gray-100"
+              >
+                <Plus size={14} />
+                Create tag &quot;{query.trim()}&quot;
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {newTag && (
+        <div className="p-3 border border-gray-200 rounded-lg space-y-2">
+          <p className="text-sm font-medium">New tag</p>
+          {NAME_FIELDS.map(({ field, label }) => (
+            <input
+              key={field}
+              type="text"
+              value={newTag[field]}
+              onChange={(e) => setNewTag({ ...newTag, [field]: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  createTag();
+                }
+              }}
+              className="input"
+              placeholder={label}
+            />
+          ))}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setNewTag(null)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              disabled={creating || NAME_FIELDS.some(({ field }) => !newTag[field].trim())}
+              onClick={createTag}
+            >
+              {creating && <Loader2 size={14} className="animate-spin" />}
+              Create Tag
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
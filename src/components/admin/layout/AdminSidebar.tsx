@@ -3,6 +3,7 @@
 import Link from 'next/link';
 import Image from 'next/image';
 import { usePathname } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import {
   LayoutDashboard,
   Package,
@@ -12,25 +13,51 @@ import {
   Image as ImageIcon,
   Users,
   HelpCircle,
+  History,
+  Inbox,
+  Link2,
+  LayoutTemplate,
+  Languages,
+  Tag,
+  Gauge,
 } from 'lucide-react';
 import { useSettings } from '@/hooks/useSettings';
 import { addCacheBusting } from '@/lib/performance';
+import { can, PermissionResource, PermissionAction } from '@/lib/permissions';
 
-const navigation = [
+const navigation: Array<{
+  name: string;
+  href: string;
+  icon: typeof LayoutDashboard;
+  permission?: [PermissionResource, PermissionAction];
+}> = [
   { name: 'Dashboard', href: '/admin/dashboard', icon: LayoutDashboard },
-  { name: 'Products', href: '/admin/products', icon: Package },
-  { name: 'Articles', href: '/admin/articles', icon: FileText },
-  { name: 'Categories', href: '/admin/categories', icon: FolderOpen },
-  { name: 'About Page', href: '/admin/about', icon: FileText },
-  { name: 'FAQs', href: '/admin/faqs', icon: HelpCircle },
-  { name: 'Media', href: '/admin/media', icon: ImageIcon },
-  { name: 'Settings', href: '/admin/settings', icon: Settings },
-  { name: 'Users', href: '/admin/users', icon: Users },
+  { name: 'Products', href: '/admin/products', icon: Package, permission: ['product', 'create'] },
+  { name: 'Articles', href: '/admin/articles', icon: FileText, permission: ['article', 'create'] },
+  { name: 'Categories', href: '/admin/categories', icon: FolderOpen, permission: ['category', 'update'] },
+  { name: 'Tags', href: '/admin/tags', icon: Tag, permission: ['tag', 'update'] },
+  { name: 'Homepage', href: '/admin/home-sections', icon: LayoutTemplate, permission: ['homeSection', 'update'] },
+  { name: 'About Page', href: '/admin/about', icon: FileText, permission: ['about', 'update'] },
+  { name: 'FAQs', href: '/admin/faqs', icon: HelpCircle, permission: ['faq', 'update'] },
+  { name: 'Inquiries', href: '/admin/inquiries', icon: Inbox, permission: ['inquiry', 'read'] },
+  { name: 'Quick Links', href: '/admin/quick-links', icon: Link2, permission: ['quickLink', 'update'] },
+  { name: 'Media', href: '/admin/media', icon: ImageIcon, permission: ['media', 'read'] },
+  { name: 'Translations', href: '/admin/translations', icon: Languages, permission: ['translation', 'read'] },
+  { name: 'Performance', href: '/admin/performance', icon: Gauge, permission: ['analytics', 'read'] },
+  { name: 'Settings', href: '/admin/settings', icon: Settings, permission: ['settings', 'update'] },
+  { name: 'Users', href: '/admin/users', icon: Users, permission: ['user', 'read'] },
+  { name: 'Activity', href: '/admin/activity', icon: History, permission: ['activity', 'read'] },
 ];
 
 export default function AdminSidebar() {
   const pathname = usePathname();
   const { settings } = useSettings();
+  const { data: session } = useSession();
+  const role = session?.user?.role;
+
+  const visibleNavigation = navigation.filter(
+    (item) => !item.permission || can(role, item.permission[0], item.permission[1])
+  );
 
   return (
     <aside className="w-64 bg-white border-r border-gray-200 flex flex-col">
@@ -55,7 +82,7 @@ export default function AdminSidebar() {
       </div>
 
       <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
-        {navigation.map((item) => {
+        {visibleNavigation.map((item) => {
           const Icon = item.icon;
           const isActive = pathname === item.href;
 
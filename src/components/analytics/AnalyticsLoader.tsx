@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSettings } from '@/hooks/useSettings';
+import { ConsentState, onConsentChange, readConsent, trackEvent } from '@/lib/consent';
+import GoogleAnalytics from './GoogleAnalytics';
+import FacebookPixel from './FacebookPixel';
+import ConsentBanner from './ConsentBanner';
+
+const WHATSAPP_LINK = /^https:\/\/(wa\.me|api\.whatsapp\.com)\//;
+
+// Injects GA and the Facebook Pixel only for the categories the visitor allowed
+export default function AnalyticsLoader() {
+  const { settings, loading } = useSettings();
+  const [consent, setConsent] = useState<ConsentState | null>(null);
+  // A tracker stays mounted once loaded so later withdrawals reach it
+  const [loaded, setLoaded] = useState({ analytics: false, marketing: false });
+
+  useEffect(() => {
+    setConsent(readConsent());
+    return onConsentChange(setConsent);
+  }, []);
+
+  useEffect(() => {
+    if (!consent) return;
+    setLoaded((current) => ({
+      analytics: current.analytics || consent.analytics,
+      marketing: current.marketing || consent.marketing,
+    }));
+  }, [consent]);
+
+  // Contact events for every WhatsApp link on the site
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      const link = (event.target as Element | null)?.closest?.('a[href]') as HTMLAnchorElement | null;
+      if (link && WHATSAPP_LINK.test(link.href)) {
+        trackEvent('Contact', { method: 'whatsapp' });
+      }
+    };
+
+    document.addEventListener('click', handleClick);
+    return () => document.removeEventListener('click', handleClick);
+  }, []);
+
+  const gaId = settings?.googleAnalyticsId || process.env.NEXT_PUBLIC_GA_ID;
+  const pixelId = settings?.facebookPixelId;
+
+  return (
+    <>
+      {gaId && consent && loaded.analytics && <GoogleAnalytics id={gaId} consent={consent} />}
+      {pixelId && consent && loaded.marketing && <FacebookPixel id={pixelId} granted={consent.marketing} />}
+      <ConsentBanner consent={consent} autoOpen={!loading && Boolean(gaId || pixelId)} />
+    </>
+  );
+}
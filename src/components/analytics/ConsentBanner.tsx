@@ -0,0 +1,105 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import * as Switch from '@radix-ui/react-switch';
+import { ConsentState, onConsentSettingsOpen, saveConsent } from '@/lib/consent';
+
+interface ConsentBannerProps {
+  consent: ConsentState | null;
+  // Ask on the first visit; without trackers there is nothing to consent to
+  autoOpen: boolean;
+}
+
+export default function ConsentBanner({ consent, autoOpen }: ConsentBannerProps) {
+  const t = useTranslations('consent');
+  const [open, setOpen] = useState(false);
+  const [customizing, setCustomizing] = useState(false);
+  const [choice, setChoice] = useState({ analytics: false, marketing: false });
+
+  useEffect(() => {
+    if (autoOpen && !consent) setOpen(true);
+  }, [autoOpen, consent]);
+
+  useEffect(
+    () =>
+      onConsentSettingsOpen(() => {
+        setChoice({ analytics: Boolean(consent?.analytics), marketing: Boolean(consent?.marketing) });
+        setCustomizing(true);
+        setOpen(true);
+      }),
+    [consent]
+  );
+
+  if (!open) return null;
+
+  const save = (selected: { analytics: boolean; marketing: boolean }) => {
+    saveConsent(selected);
+    setOpen(false);
+    setCustomizing(false);
+  };
+
+  const categories = [
+    { key: 'necessary', locked: true },
+    { key: 'analytics', locked: false },
+    { key: 'marketing', locked: false },
+  ] as const;
+
+  return (
+    <div
+      role="dialog"
+      aria-labelledby="consent-title"
+      className="fixed inset-x-0 bottom-0 z-[70] p-4 sm:p-6"
+    >
+      <div className="max-w-3xl mx-auto bg-white rounded-2xl shadow-2xl border border-pink-100 p-6">
+        <h2 id="consent-title" className="text-lg font-semibold text-gray-900 mb-2">
+          {t('title')}
+        </h2>
+        <p className="text-sm text-gray-600 mb-4">{t('message')}</p>
+
+        {customizing && (
+          <ul className="space-y-3 mb-4">
+            {categories.map(({ key, locked }) => (
+              <li key={key} className="flex items-start justify-between gap-4 p-3 rounded-xl bg-gray-50">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{t(`${key}.title`)}</p>
+                  <p className="text-xs text-gray-600">{t(`${key}.description`)}</p>
+                </div>
+                {locked ? (
+                  <span className="flex-shrink-0 text-xs text-gray-500">{t('alwaysOn')}</span>
+                ) : (
+                  <Switch.Root
+                    checked={choice[key]}
+                    onCheckedChange={(checked) => setChoice((current) => ({ ...current, [key]: checked }))}
+                    aria-label={t(`${key}.title`)}
+                    className="flex-shrink-0 w-11 h-6 bg-gray-300 rounded-full relative data-[state=checked]:bg-pink-500 transition-colors"
+                  >
+                    <Switch.Thumb className="block w-5 h-5 bg-white rounded-full transition-transform translate-x-0.5 data-[state=checked]:translate-x-[22px]" />
+                  </Switch.Root>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-col sm:flex-row sm:justify-end gap-2">
+          {customizing ? (
+            <button type="button" onClick={() => save(choice)} className="btn btn-secondary">
+              {t('save')}
+            </button>
+          ) : (
+            <button type="button" onClick={() => setCustomizing(true)} className="btn btn-ghost">
+              {t('customize')}
+            </button>
+          )}
+          <button type="button" onClick={() => save({ analytics: false, marketing: false })} className="btn btn-secondary">
+            {t('rejectAll')}
+          </button>
+          <button type="button" onClick={() => save({ analytics: true, marketing: true })} className="btn btn-primary">
+            {t('acceptAll')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
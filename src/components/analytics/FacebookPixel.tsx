@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import Script from 'next/script';
+import { usePathname } from 'next/navigation';
+import { flushEvents } from '@/lib/consent';
+
+interface FacebookPixelProps {
+  id: string;
+  granted: boolean;
+}
+
+// Queue stub from the official Pixel snippet; fbevents.js replays the queue once loaded
+function installPixelStub() {
+  if (window.fbq) return;
+
+  const fbq: any = function (...args: unknown[]) {
+    if (fbq.callMethod) {
+      fbq.callMethod(...args);
+    } else {
+      fbq.queue.push(args);
+    }
+  };
+  fbq.push = fbq;
+  fbq.loaded = true;
+  fbq.version = '2.0';
+  fbq.queue = [];
+  window.fbq = fbq;
+  (window as any)._fbq = fbq;
+}
+
+// Mounted once the visitor allows marketing; a withdrawn consent revokes it
+export default function FacebookPixel({ id, granted }: FacebookPixelProps) {
+  const pathname = usePathname();
+  const initialized = useRef(false);
+
+  useEffect(() => {
+    if (initialized.current) {
+      window.fbq?.('consent', granted ? 'grant' : 'revoke');
+      return;
+    }
+    initialized.current = true;
+
+    installPixelStub();
+    window.fbq!('consent', granted ? 'grant' : 'revoke');
+    window.fbq!('init', id);
+    flushEvents('marketing');
+  }, [id, granted]);
+
+  // The Pixel does not see client-side navigations on its own
+  useEffect(() => {
+    if (granted) {
+      window.fbq?.('track', 'PageView');
+    }
+  }, [pathname, granted]);
+
+  return <Script src="https://connect.facebook.net/en_US/fbevents.js" strategy="afterInteractive" />;
+}
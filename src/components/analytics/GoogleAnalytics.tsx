@@ -1,32 +1,42 @@
 'use client';
 
+import { useEffect, useRef } from 'react';
 import Script from 'next/script';
+import { ConsentState, flushEvents, toGoogleConsent } from '@/lib/consent';
 
-export default function GoogleAnalytics() {
-  const GA_ID = process.env.NEXT_PUBLIC_GA_ID;
-  
-  if (!GA_ID) {
-    console.warn('Google Analytics ID not found in environment variables');
-    return null;
-  }
+interface GoogleAnalyticsProps {
+  id: string;
+  consent: ConsentState;
+}
+
+// Mounted once the visitor allows analytics; stays mounted afterwards so a
+// withdrawn consent is passed on to Consent Mode
+export default function GoogleAnalytics({ id, consent }: GoogleAnalyticsProps) {
+  const initialized = useRef(false);
+
+  useEffect(() => {
+    if (initialized.current) {
+      window.gtag?.('consent', 'update', toGoogleConsent(consent));
+      return;
+    }
+    initialized.current = true;
+
+    window.dataLayer = window.dataLayer || [];
+    window.gtag = function gtag() {
+      // gtag.js expects the arguments object itself
+      // eslint-disable-next-line prefer-rest-params
+      window.dataLayer!.push(arguments);
+    };
+    window.gtag('consent', 'default', toGoogleConsent(consent));
+    window.gtag('js', new Date());
+    window.gtag('config', id);
+    flushEvents('analytics');
+  }, [id, consent]);
 
   return (
-    <>
-      <Script
-        src={`https://www.googletagmanager.com/gtag/js?id=${GA_ID}`}
-        strategy="afterInteractive"
-      />
-      <Script id="google-analytics" strategy="afterInteractive">
-        {`
-          window.dataLayer = window.dataLayer || [];
-          function gtag(){dataLayer.push(arguments);}
-          gtag('js', new Date());
-          gtag('config', '${GA_ID}', {
-            page_title: document.title,
-            page_location: window.location.href,
-          });
-        `}
-      </Script>
-    </>
+    <Script
+      src={`https://www.googletagmanager.com/gtag/js?id=${encodeURIComponent(id)}`}
+      strategy="afterInteractive"
+    />
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { usePathname } from 'next/navigation';
+
+interface PageViewTrackerProps {
+  locale: string;
+}
+
+// Sends one cookieless beacon per page, including client-side navigations
+export default function PageViewTracker({ locale }: PageViewTrackerProps) {
+  const pathname = usePathname();
+  const lastPath = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!pathname || pathname === lastPath.current) return;
+
+    // Only the landing page has an external referrer
+    const referrer = lastPath.current === null ? document.referrer : '';
+    lastPath.current = pathname;
+
+    const body = JSON.stringify({ path: pathname, locale, referrer });
+    if (navigator.sendBeacon) {
+      navigator.sendBeacon('/api/public/pageview', body);
+    } else {
+      fetch('/api/public/pageview', { method: 'POST', body, keepalive: true }).catch(() => {});
+    }
+  }, [pathname, locale]);
+
+  return null;
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import { Send, CheckCircle } from 'lucide-react';
+import { getLocalizedField } from '@/lib/i18n-helpers';
+import { Locale } from '@/i18n';
+
+const emptyForm = {
+  name: '',
+  email: '',
+  phone: '',
+  productId: '',
+  message: '',
+  challengeAnswer: '',
+  // Honeypot, hidden from people
+  website: '',
+};
+
+export default function ContactForm() {
+  const t = useTranslations('contact.form');
+  const locale = useLocale();
+  const searchParams = useSearchParams();
+  const productSlug = searchParams.get('product');
+
+  const [form, setForm] = useState(emptyForm);
+  const [products, setProducts] = useState<any[]>([]);
+  const [challenge, setChallenge] = useState<{ question: string; token: string } | null>(null);
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchChallenge = useCallback(async () => {
+    try {
+      const res = await fetch('/api/inquiries/challenge', { cache: 'no-store' });
+      const data = await res.json();
+      if (data.success) {
+        setChallenge(data.data);
+      }
+    } catch (err) {
+      console.error('Error fetching challenge:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchChallenge();
+  }, [fetchChallenge]);
+
+  useEffect(() => {
+    async function fetchProducts() {
+      try {
+        const res = await fetch('/api/products?limit=100&facets=false');
+        const data = await res.json();
+        if (data.success) {
+          setProducts(data.data);
+          const selected = data.data.find((product: any) => product.slug === productSlug);
+          if (selected) {
+            setForm((prev) => ({ ...prev, productId: selected.id }));
+          }
+        }
+      } catch (err) {
+        console.error('Error fetching products:', err);
+      }
+    }
+    fetchProducts();
+  }, [productSlug]);
+
+  const update = (field: keyof typeof emptyForm) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!form.email.trim() && !form.phone.trim()) {
+      setError(t('contactHint'));
+      return;
+    }
+
+    setSending(true);
+    try {
+      const res = await fetch('/api/inquiries', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...form,
+          locale,
+          productId: form.productId || null,
+          challengeToken: challenge?.token,
+        }),
+      });
+      const data = await res.json();
+
+      if (data.success) {
+        setSent(true);
+        setForm(emptyForm);
+      } else {
+        setError(data.error || t('error'));
+      }
+    } catch (err) {
+      console.error('Error sending inquiry:', err);
+      setError(t('error'));
+    } finally {
+      setSending(false);
+      // Tokens are single-use from the visitor's point of view
+      fetchChallenge();
+    }
+  };
+
+  if (sent) {
+    return (
+      <div className="card text-center py-12">
+        <CheckCircle size={48} className="text-green-500 mx-auto mb-4" />
+        <p className="text-gray-700 mb-6">{t('success')}</p>
+        <button onClick={() => setSent(false)} className="text-pink-500 hover:text-pink-600 font-medium">
+          {t('sendAnother')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="card relative space-y-4" noValidate>
+      <h2 className="text-2xl font-heading font-bold mb-2">{t('title')}</h2>
+
+      <div>
+        <label htmlFor="inquiry-name" className="block text-sm font-medium text-gray-700 mb-1">
+          {t('name')} <span className="text-pink-500">*</span>
+        </label>
+        <input id="inquiry-name" value={form.name} onChange={update('name')} required maxLength={100} className="input" />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="inquiry-email" className="block text-sm font-medium text-gray-700 mb-1">
+            {t('email')}
+          </label>
+          <input id="inquiry-email" type="email" value={form.email} onChange={update('email')} maxLength={200} className="input" />
+        </div>
+        <div>
+          <label htmlFor="inquiry-phone" className="block text-sm font-medium text-gray-700 mb-1">
+            {t('phone')}
+          </label>
+          <input id="inquiry-phone" type="tel" value={form.phone} onChange={update('phone')} maxLength={50} className="input" />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 -mt-2">{t('contactHint')}</p>
+
+      <div>
+        <label htmlFor="inquiry-product" className="block text-sm font-medium text-gray-700 mb-1">
+          {t('product')}
+        </label>
+        <select id="inquiry-product" value={form.productId} onChange={update('productId')} className="input">
+          <option value="">{t('noProduct')}</option>
+          {products.map((product) => (
+            <option key={product.id} value={product.id}>
+              {getLocalizedField(product, 'name', locale as Locale)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="inquiry-message" className="block text-sm font-medium text-gray-700 mb-1">
+          {t('message')} <span className="text-pink-500">*</span>
+        </label>
+        <textarea
+          id="inquiry-message"
+          value={form.message}
+          onChange={update('message')}
+          required
+          rows={5}
+          maxLength={5000}
+          className="input"
+        />
+      </div>
+
+      <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label htmlFor="inquiry-website">Website</label>
+        <input id="inquiry-website" tabIndex={-1} autoComplete="off" value={form.website} onChange={update('website')} />
+      </div>
+
+      {challenge && (
+        <div>
+          <label htmlFor="inquiry-challenge" className="block text-sm font-medium text-gray-700 mb-1">
+            {t('challenge', { question: challenge.question })} <span className="text-pink-500">*</span>
+          </label>
+          <input
+            id="inquiry-challenge"
+            inputMode="numeric"
+            value={form.challengeAnswer}
+            onChange={update('challengeAnswer')}
+            required
+            maxLength={3}
+            className="input w-32"
+          />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={sending || !challenge}
+        className="btn btn-primary inline-flex items-center gap-2 disabled:opacity-50"
+      >
+        <Send size={18} />
+        {sending ? t('sending') : t('submit')}
+      </button>
+    </form>
+  );
+}
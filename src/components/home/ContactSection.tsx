@@ -0,0 +1,35 @@
+'use client';
+
+import { Suspense } from 'react';
+import { useTranslations } from 'next-intl';
+import ContactForm from '@/components/contact/ContactForm';
+import { ImageDerivative } from '@/lib/performance';
+import SectionBackground from './SectionBackground';
+
+interface ContactSectionProps {
+  title?: string;
+  subtitle?: string;
+  backgroundImage?: string;
+  backgroundDerivatives?: ImageDerivative[];
+}
+
+export default function ContactSection({ title, subtitle, backgroundImage, backgroundDerivatives }: ContactSectionProps) {
+  const t = useTranslations('contact');
+
+  return (
+    <section className="section-padding bg-gradient-to-br from-pink-50 via-white to-pink-50 relative overflow-hidden">
+      {backgroundImage && <SectionBackground src={backgroundImage} derivatives={backgroundDerivatives} />}
+      <div className="container-custom relative z-10">
+        <div className="max-w-3xl mx-auto">
+          <h2 className="text-3xl md:text-4xl font-heading font-bold mb-4 text-center bg-gradient-to-r from-pink-500 to-pink-600 bg-clip-text text-transparent">
+            {title || t('getInTouch')}
+          </h2>
+          <p className="text-center text-gray-600 mb-10">{subtitle || t('description')}</p>
+          <Suspense>
+            <ContactForm />
+          </Suspense>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,36 @@
+import { ImageDerivative } from '@/lib/performance';
+import SectionBackground from './SectionBackground';
+
+interface CustomSectionProps {
+  title?: string;
+  subtitle?: string;
+  backgroundImage?: string;
+  backgroundDerivatives?: ImageDerivative[];
+  html: string;
+}
+
+// Free-form section whose rich text is written in the admin homepage builder
+export default function CustomSection({
+  title,
+  subtitle,
+  backgroundImage,
+  backgroundDerivatives,
+  html,
+}: CustomSectionProps) {
+  return (
+    <section className="section-padding bg-white relative overflow-hidden">
+      {backgroundImage && <SectionBackground src={backgroundImage} derivatives={backgroundDerivatives} />}
+      <div className="container-custom relative z-10">
+        <div className="max-w-4xl mx-auto">
+          {title && (
+            <h2 className="text-3xl md:text-4xl font-heading font-bold mb-4 text-center bg-gradient-to-r from-pink-500 to-pink-600 bg-clip-text text-transparent">
+              {title}
+            </h2>
+          )}
+          {subtitle && <p className="text-center text-gray-600 text-lg mb-10">{subtitle}</p>}
+          <div className="prose prose-lg max-w-none" dangerouslySetInnerHTML={{ __html: html }} />
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -5,6 +5,8 @@ import { ChevronDown, HelpCircle } from 'lucide-react';
 import { useTranslations } from 'next-intl';
 import { Loading } from '@/components/shared/Loading';
 import { ListLoader } from '@/components/shared/Loading';
+import { ImageDerivative } from '@/lib/performance';
+import SectionBackground from './SectionBackground';
 
 interface FAQ {
   id: string;
@@ -15,9 +17,21 @@ interface FAQ {
 
 interface FAQSectionProps {
   locale: string;
+  title?: string;
+  subtitle?: string;
+  backgroundImage?: string;
+  backgroundDerivatives?: ImageDerivative[];
+  limit?: number;
 }
 
-export default function FAQSection({ locale }: FAQSectionProps) {
+export default function FAQSection({
+  locale,
+  title,
+  subtitle,
+  backgroundImage,
+  backgroundDerivatives,
+  limit = 4,
+}: FAQSectionProps) {
   const t = useTranslations();
   const [openItem, setOpenItem] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
@@ -27,7 +41,7 @@ export default function FAQSection({ locale }: FAQSectionProps) {
   useEffect(() => {
     const fetchFAQs = async () => {
       try {
-        const response = await fetch(`/api/faqs?limit=4&locale=${locale}`);
+        const response = await fetch(`/api/faqs?limit=${limit}&locale=${locale}`);
         if (response.ok) {
           const data = await response.json();
           const transformedFAQs = data.map((faq: any) => ({
@@ -46,25 +60,26 @@ export default function FAQSection({ locale }: FAQSectionProps) {
     };
 
     fetchFAQs();
-  }, [locale]); // Add locale as dependency
+  }, [locale, limit]);
 
   const toggleItem = (id: string) => {
     setOpenItem(openItem === id ? null : id);
   };
 
   return (
-    <section className="section-padding soft-gradient-bg">
-      <div className="container-custom">
+    <section className="section-padding soft-gradient-bg relative overflow-hidden">
+      {backgroundImage && <SectionBackground src={backgroundImage} derivatives={backgroundDerivatives} />}
+      <div className="container-custom relative z-10">
         {/* Header */}
         <div className="text-center mb-16">
           <div className="inline-flex items-center justify-center w-16 h-16 bg-pink-100 rounded-2xl mb-6">
             <HelpCircle className="w-8 h-8 text-pink-500" />
           </div>
           <h2 className="text-3xl md:text-4xl lg:text-5xl font-bold gradient-text mb-6">
-            {t('faq.title')}
+            {title || t('faq.title')}
           </h2>
           <p className="text-neutral-600 text-lg max-w-2xl mx-auto">
-            {t('faq.description')}
+            {subtitle || t('faq.description')}
           </p>
         </div>
 
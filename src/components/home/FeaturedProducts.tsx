@@ -3,13 +3,33 @@
 import { useTranslations, useLocale } from 'next-intl';
 import { getLocalizedField } from '@/lib/i18n-helpers';
 import { Locale } from '@/i18n';
+import { getPriceRange } from '@/lib/utils';
+import Price from '@/components/products/Price';
 import Link from 'next/link';
 import Image from 'next/image';
 import { ArrowRight } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useEffect, useState } from 'react';
+import { ImageDerivative } from '@/lib/performance';
+import SectionBackground from './SectionBackground';
 
-export default function FeaturedProducts() {
+interface FeaturedProductsProps {
+  title?: string;
+  subtitle?: string;
+  backgroundImage?: string;
+  backgroundDerivatives?: ImageDerivative[];
+  limit?: number;
+  featuredOnly?: boolean;
+}
+
+export default function FeaturedProducts({
+  title,
+  subtitle,
+  backgroundImage,
+  backgroundDerivatives,
+  limit = 3,
+  featuredOnly = true,
+}: FeaturedProductsProps) {
   const t = useTranslations();
   const locale = useLocale() as Locale;
   const [products, setProducts] = useState<any[]>([]);
@@ -18,7 +38,8 @@ export default function FeaturedProducts() {
   useEffect(() => {
     async function fetchProducts() {
       try {
-        const res = await fetch('/api/products?featured=true&published=true&limit=3');
+        const featured = featuredOnly ? 'featured=true&' : '';
+        const res = await fetch(`/api/products?${featured}published=true&limit=${limit}&facets=false`);
         const data = await res.json();
         if (data.success) {
           setProducts(data.data);
@@ -30,10 +51,11 @@ export default function FeaturedProducts() {
       }
     }
     fetchProducts();
-  }, []);
+  }, [limit, featuredOnly]);
 
   return (
     <section className="section-padding bg-gradient-to-br from-white via-pink-25/30 to-white relative overflow-hidden">
+      {backgroundImage && <SectionBackground src={backgroundImage} derivatives={backgroundDerivatives} />}
       {/* Subtle background elements for visual continuity */}
       <div className="absolute top-10 right-10 w-48 h-48 bg-pink-100/20 rounded-full mix-blend-multiply filter blur-3xl opacity-30 animate-pulse"></div>
       <div className="absolute bottom-10 left-10 w-48 h-48 bg-pink-150/20 rounded-full mix-blend-multiply filter blur-3xl opacity-30 animate-pulse"></div>
@@ -48,9 +70,9 @@ export default function FeaturedProducts() {
         >
           <div>
             <h2 className="text-3xl md:text-4xl font-heading font-bold mb-2 bg-gradient-to-r from-pink-500 to-pink-600 bg-clip-text text-transparent">
-              {t('product.featured')}
+              {title || t('product.featured')}
             </h2>
-            <p className="text-gray-600 text-lg">{t('product.latest')}</p>
+            <p className="text-gray-600 text-lg">{subtitle || t('product.latest')}</p>
           </div>
           <Link
             href={`/${locale}/products`}
@@ -63,7 +85,7 @@ export default function FeaturedProducts() {
 
         {loading ? (
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            {[1, 2, 3].map((i) => (
+            {Array.from({ length: Math.min(limit, 3) }, (_, i) => (
               <div key={i} className="card animate-pulse">
                 <div className="aspect-square rounded-xl bg-gray-200 mb-4"></div>
                 <div className="h-4 bg-gray-200 rounded mb-2"></div>
@@ -79,7 +101,7 @@ export default function FeaturedProducts() {
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             {products.map((product: any, index: number) => {
               const name = getLocalizedField(product, 'name', locale);
-              const price = product.price ? Number(product.price) : 0;
+              const priceRange = getPriceRange(product.price, product.variants);
 
               return (
                 <motion.div
@@ -89,6 +111,7 @@ export default function FeaturedProducts() {
                   transition={{ duration: 0.4, delay: index * 0.1 }}
                   className="card group cursor-pointer"
                 >
+                  <Link href={`/${locale}/products/${product.slug}`} className="block">
                   {product.featuredImage ? (
                     <div className="relative aspect-square rounded-xl overflow-hidden mb-4 bg-gray-100">
                       <Image
@@ -107,11 +130,12 @@ export default function FeaturedProducts() {
                   <h3 className="font-semibold text-lg mb-2 group-hover:text-pink-500 transition-colors line-clamp-2">
                     {name}
                   </h3>
-                  {price > 0 && (
+                  {priceRange && (
                     <p className="text-pink-500 font-bold">
-                      ₭{price.toLocaleString()}
+                      <Price amount={priceRange} currency={product.currency} />
                     </p>
                   )}
+                  </Link>
                 </motion.div>
               );
             })}
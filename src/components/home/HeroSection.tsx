@@ -8,9 +8,17 @@ import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/Button';
 import { useState, useEffect } from 'react';
 import Image from 'next/image';
-import { addCacheBusting } from '@/lib/performance';
+import { addCacheBusting, ImageDerivative } from '@/lib/performance';
+import OptimizedImage from '@/components/ui/OptimizedImage';
 
-export default function HeroSection() {
+interface HeroSectionProps {
+  title?: string;
+  subtitle?: string;
+  backgroundImage?: string;
+  backgroundDerivatives?: ImageDerivative[];
+}
+
+export default function HeroSection({ title, subtitle, backgroundImage, backgroundDerivatives }: HeroSectionProps) {
   const t = useTranslations();
   const locale = useLocale();
   const [homeBg, setHomeBg] = useState('');
@@ -44,28 +52,42 @@ export default function HeroSection() {
     fetchSettings();
   }, [locale, t]);
 
+  const background = backgroundImage || homeBg;
+
   return (
     <section className="relative min-h-screen flex items-center overflow-hidden pb-0">
       {/* Background Image */}
-      {homeBg && (
+      {background && (
         <>
           <div className="absolute inset-0">
-            <Image
-              src={homeBg}
-              alt="Background"
-              fill
-              priority
-              sizes="100vw"
-              className="object-cover"
-              style={{ filter: 'brightness(0.6)' }}
-            />
+            {backgroundImage && backgroundDerivatives && backgroundDerivatives.length > 0 ? (
+              <OptimizedImage
+                src={backgroundImage}
+                alt="Background"
+                fill
+                priority
+                derivatives={backgroundDerivatives}
+                className="w-full h-full"
+                style={{ filter: 'brightness(0.6)' }}
+              />
+            ) : (
+              <Image
+                src={background}
+                alt="Background"
+                fill
+                priority
+                sizes="100vw"
+                className="object-cover"
+                style={{ filter: 'brightness(0.6)' }}
+              />
+            )}
             <div className="absolute inset-0 bg-black/40"></div>
           </div>
         </>
       )}
       
       {/* Fallback gradient background */}
-      {!homeBg && <div className="absolute inset-0 soft-gradient-bg"></div>}
+      {!background && <div className="absolute inset-0 soft-gradient-bg"></div>}
       
       {/* Decorative geometric elements */}
       <div className="absolute top-20 right-20 w-80 h-80 bg-pink-200 rounded-full mix-blend-multiply filter blur-3xl opacity-20 animate-pulse"></div>
@@ -100,12 +122,12 @@ export default function HeroSection() {
             
             <h1 className="text-5xl md:text-6xl lg:text-7xl xl:text-8xl font-heading font-bold mb-8 leading-tight">
               <span className="gradient-text">
-                {heroTitle}
+                {title || heroTitle}
               </span>
             </h1>
             
             <p className="text-xl md:text-2xl text-neutral-600 mb-12 leading-relaxed max-w-2xl mx-auto lg:mx-0">
-              {heroSubtitle}
+              {subtitle || heroSubtitle}
             </p>
             
             <div className="flex flex-col sm:flex-row gap-6 justify-center lg:justify-start mb-16">
@@ -179,7 +201,7 @@ export default function HeroSection() {
                           </div>
                         </div>
                         <p className="text-4xl font-bold tracking-wider mb-4">NAMNGAM</p>
-                        <p className="text-xl opacity-90 px-4">{heroSubtitle}</p>
+                        <p className="text-xl opacity-90 px-4">{subtitle || heroSubtitle}</p>
                       </div>
                     </div>
                   </div>
@@ -197,7 +219,7 @@ export default function HeroSection() {
                           </div>
                         </div>
                         <p className="text-4xl font-bold tracking-wider mb-4">NAMNGAM</p>
-                        <p className="text-xl opacity-90 px-4">{heroSubtitle}</p>
+                        <p className="text-xl opacity-90 px-4">{subtitle || heroSubtitle}</p>
                       </div>
                     </div>
                   </div>
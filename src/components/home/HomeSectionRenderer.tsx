@@ -0,0 +1,99 @@
+import { getLocalizedField } from '@/lib/i18n-helpers';
+import type { PublicHomeSection } from '@/lib/home-sections';
+import { Locale } from '@/i18n';
+import HeroSection from './HeroSection';
+import HeroAboutTransition from './HeroAboutTransition';
+import AboutContent from '@/components/AboutContent';
+import FeaturedProducts from './FeaturedProducts';
+import LatestArticles from './LatestArticles';
+import FAQSection from './FAQSection';
+import ContactSection from './ContactSection';
+import CustomSection from './CustomSection';
+
+interface HomeSectionRendererProps {
+  section: PublicHomeSection;
+  locale: Locale;
+}
+
+export default function HomeSectionRenderer({ section, locale }: HomeSectionRendererProps) {
+  // Empty titles fall back to each section's built-in translated heading
+  const title = getLocalizedField(section, 'title', locale) || undefined;
+  const subtitle = getLocalizedField(section, 'subtitle', locale) || undefined;
+  const backgroundImage = section.backgroundImage || undefined;
+  const backgroundDerivatives = section.backgroundDerivatives;
+  const { limit, featuredOnly } = section.settings;
+
+  switch (section.type) {
+    case 'HERO':
+      return (
+        <>
+          <HeroSection
+            title={title}
+            subtitle={subtitle}
+            backgroundImage={backgroundImage}
+            backgroundDerivatives={backgroundDerivatives}
+          />
+          <HeroAboutTransition />
+        </>
+      );
+    case 'ABOUT':
+      return <AboutContent locale={locale} backgroundImage={backgroundImage} />;
+    case 'PRODUCTS':
+      return (
+        <FeaturedProducts
+          title={title}
+          subtitle={subtitle}
+          backgroundImage={backgroundImage}
+          backgroundDerivatives={backgroundDerivatives}
+          limit={limit}
+          featuredOnly={featuredOnly}
+        />
+      );
+    case 'ARTICLES':
+      return (
+        <LatestArticles
+          title={title}
+          subtitle={subtitle}
+          backgroundImage={backgroundImage}
+          backgroundDerivatives={backgroundDerivatives}
+          limit={limit}
+          featuredOnly={featuredOnly}
+        />
+      );
+    case 'FAQ':
+      return (
+        <FAQSection
+          locale={locale}
+          title={title}
+          subtitle={subtitle}
+          backgroundImage={backgroundImage}
+          backgroundDerivatives={backgroundDerivatives}
+          limit={limit}
+        />
+      );
+    case 'CONTACT':
+      return (
+        <ContactSection
+          title={title}
+          subtitle={subtitle}
+          backgroundImage={backgroundImage}
+          backgroundDerivatives={backgroundDerivatives}
+        />
+      );
+    case 'CUSTOM': {
+      const html = getLocalizedField(section, 'content', locale);
+      if (!html) return null;
+      return (
+        <CustomSection
+          title={title}
+          subtitle={subtitle}
+          backgroundImage={backgroundImage}
+          backgroundDerivatives={backgroundDerivatives}
+          html={html}
+        />
+      );
+    }
+    default:
+      return null;
+  }
+}
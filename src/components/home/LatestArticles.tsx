@@ -5,13 +5,32 @@ import Link from 'next/link';
 import { ArrowRight } from 'lucide-react';
 import { motion } from 'framer-motion';
 import ArticlesList from '@/components/articles/ArticlesList';
+import { ImageDerivative } from '@/lib/performance';
+import SectionBackground from './SectionBackground';
 
-export default function LatestArticles() {
+interface LatestArticlesProps {
+  title?: string;
+  subtitle?: string;
+  backgroundImage?: string;
+  backgroundDerivatives?: ImageDerivative[];
+  limit?: number;
+  featuredOnly?: boolean;
+}
+
+export default function LatestArticles({
+  title,
+  subtitle,
+  backgroundImage,
+  backgroundDerivatives,
+  limit = 2,
+  featuredOnly = true,
+}: LatestArticlesProps) {
   const t = useTranslations();
   const locale = useLocale();
 
   return (
     <section className="section-padding bg-gradient-to-br from-gray-50 via-pink-25/20 to-gray-50 relative overflow-hidden">
+      {backgroundImage && <SectionBackground src={backgroundImage} derivatives={backgroundDerivatives} />}
       {/* Subtle background elements for visual continuity */}
       <div className="absolute top-10 right-10 w-48 h-48 bg-pink-100/15 rounded-full mix-blend-multiply filter blur-3xl opacity-30 animate-pulse"></div>
       <div className="absolute bottom-10 left-10 w-48 h-48 bg-pink-150/15 rounded-full mix-blend-multiply filter blur-3xl opacity-30 animate-pulse"></div>
@@ -26,9 +45,9 @@ export default function LatestArticles() {
         >
           <div>
             <h2 className="text-3xl md:text-4xl font-heading font-bold mb-2 bg-gradient-to-r from-pink-500 to-pink-600 bg-clip-text text-transparent">
-              {t('article.latest')}
+              {title || t('article.latest')}
             </h2>
-            <p className="text-gray-600 text-lg">{t('article.featured')}</p>
+            <p className="text-gray-600 text-lg">{subtitle || t('article.featured')}</p>
           </div>
           <Link
             href={`/${locale}/articles`}
@@ -45,7 +64,7 @@ export default function LatestArticles() {
           viewport={{ once: true }}
           transition={{ duration: 0.4, delay: 0.1 }}
         >
-          <ArticlesList limit={2} featured={true} />
+          <ArticlesList limit={limit} featured={featuredOnly} />
         </motion.div>
       </div>
     </section>
@@ -0,0 +1,21 @@
+import Image from 'next/image';
+import OptimizedImage from '@/components/ui/OptimizedImage';
+import { ImageDerivative } from '@/lib/performance';
+
+interface SectionBackgroundProps {
+  src: string;
+  derivatives?: ImageDerivative[];
+}
+
+// Faded background image for homepage sections configured in the admin
+export default function SectionBackground({ src, derivatives }: SectionBackgroundProps) {
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {derivatives && derivatives.length > 0 ? (
+        <OptimizedImage src={src} alt="" fill derivatives={derivatives} className="w-full h-full opacity-20" />
+      ) : (
+        <Image src={src} alt="" fill sizes="100vw" className="object-cover opacity-20" />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Coins } from 'lucide-react';
+import { CURRENCIES, CURRENCY_LABELS } from '@/lib/currency';
+import { useCurrency } from '@/hooks/useCurrency';
+
+export default function CurrencySwitcher() {
+  const [isOpen, setIsOpen] = useState(false);
+  const t = useTranslations();
+  const { currency, updatedAt, setCurrency } = useCurrency();
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg border-2 border-gray-200 hover:border-pink-500 transition-colors"
+        aria-label={t('currency.select')}
+        aria-expanded={isOpen}
+      >
+        <Coins size={18} />
+        <span className="text-sm font-medium">{currency}</span>
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            className="fixed inset-0 z-40"
+            onClick={() => setIsOpen(false)}
+          ></div>
+          <div className="absolute right-0 mt-2 w-48 bg-white rounded-xl shadow-lg border border-gray-100 py-2 z-50">
+            {CURRENCIES.map((code) => (
+              <button
+                key={code}
+                onClick={() => {
+                  setCurrency(code);
+                  setIsOpen(false);
+                }}
+                className={`w-full text-left px-4 py-2 hover:bg-pink-50 transition-colors text-sm font-medium ${
+                  currency === code ? 'bg-pink-50 text-pink-500' : ''
+                }`}
+              >
+                {CURRENCY_LABELS[code]}
+              </button>
+            ))}
+            {updatedAt && (
+              <p className="px-4 pt-2 mt-1 border-t border-gray-100 text-xs text-gray-500">
+                {t('currency.ratesUpdated', { date: new Date(updatedAt).toLocaleDateString() })}
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { useTranslations, useLocale } from 'next-intl';
 import { Facebook, Mail, Phone } from 'lucide-react';
 import { useSettings } from '@/hooks/useSettings';
 import { addCacheBusting } from '@/lib/performance';
+import { openConsentSettings } from '@/lib/consent';
 
 // WhatsApp SVG Icon
 function WhatsAppIcon({ className }: { className?: string }) {
@@ -188,6 +189,13 @@ export default function Footer() {
             <span>.</span>
             <span>{t('footer.allRightsReserved')}.</span>
           </p>
+          <button
+            type="button"
+            onClick={openConsentSettings}
+            className="mt-2 text-gray-500 hover:text-pink-300 underline-offset-2 hover:underline transition-colors"
+          >
+            {t('consent.settings')}
+          </button>
         </div>
       </div>
     </footer>
@@ -0,0 +1,37 @@
+import { AlertTriangle } from 'lucide-react';
+import { getMaintenanceState } from '@/lib/maintenance-state';
+import { isMaintenanceActive } from '@/lib/maintenance';
+import { logError } from '@/lib/error-handler';
+
+// Shown to the staff and allowlisted visitors the middleware lets through during maintenance
+export default async function MaintenanceBanner() {
+  let active = false;
+  let endsAt: string | null = null;
+
+  try {
+    const state = await getMaintenanceState();
+    active = isMaintenanceActive(state);
+    endsAt = state.endsAt;
+  } catch (error) {
+    logError(error, 'Maintenance banner');
+  }
+
+  if (!active) {
+    return null;
+  }
+
+  return (
+    <div className="sticky top-0 z-[60] bg-amber-500 text-white text-sm">
+      <div className="container-custom py-2 flex items-center justify-center gap-2 text-center">
+        <AlertTriangle size={16} className="flex-shrink-0" />
+        <span>
+          Maintenance mode is on. Visitors currently see the maintenance page
+          {endsAt ? ` until ${new Date(endsAt).toLocaleString('en-GB', { timeZone: 'Asia/Vientiane' })}` : ''}.
+        </span>
+        <a href="/admin/settings" className="underline font-medium ml-2">
+          Settings
+        </a>
+      </div>
+    </div>
+  );
+}
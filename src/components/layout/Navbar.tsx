@@ -7,6 +7,8 @@ import { usePathname } from 'next/navigation';
 import { useTranslations, useLocale } from 'next-intl';
 import { Menu, X } from 'lucide-react';
 import LanguageSwitcher from './LanguageSwitcher';
+import CurrencySwitcher from './CurrencySwitcher';
+import SearchBox from './SearchBox';
 import { useSettings } from '@/hooks/useSettings';
 import { addCacheBusting } from '@/lib/performance';
 import { ariaRoles, ariaProperties, focusManager } from '@/lib/accessibility';
@@ -96,8 +98,10 @@ export default function Navbar() {
                 }`} aria-hidden="true" />
               </Link>
             ))}
-            <div className="ml-8">
+            <SearchBox className="w-48" />
+            <div className="ml-8 flex items-center gap-3">
               <LanguageSwitcher />
+              <CurrencySwitcher />
             </div>
           </div>
 
@@ -142,7 +146,11 @@ export default function Navbar() {
               </Link>
             ))}
             <div className="px-6 pt-4">
+              <SearchBox onSubmitted={() => setIsOpen(false)} />
+            </div>
+            <div className="px-6 pt-4 flex items-center gap-3">
               <LanguageSwitcher />
+              <CurrencySwitcher />
             </div>
           </div>
         )}
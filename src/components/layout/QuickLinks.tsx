@@ -1,65 +1,66 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { useLocale } from 'next-intl';
 import { MessageCircle, X } from 'lucide-react';
-import { FaWhatsapp, FaFacebook, FaLine, FaPhone, FaEnvelope } from 'react-icons/fa';
+import { FaWhatsapp, FaFacebook, FaLine, FaPhone, FaEnvelope, FaTelegram, FaWeixin, FaLink } from 'react-icons/fa';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useSettings } from '@/hooks/useSettings';
+import type { LinkType } from '@prisma/client';
+import { getLocalizedField } from '@/lib/i18n-helpers';
+import { Locale } from '@/i18n';
+
+interface QuickLink {
+  id: string;
+  type: LinkType;
+  label_lo: string;
+  label_th: string | null;
+  label_zh: string | null;
+  label_en: string | null;
+  url: string;
+  icon: string | null;
+  color: string | null;
+}
+
+// Icon and brand colour for each link type; CUSTOM links can set their own icon image
+const LINK_STYLES: Record<LinkType, { icon: typeof FaLink; color: string }> = {
+  WHATSAPP: { icon: FaWhatsapp, color: '#25D366' },
+  FACEBOOK: { icon: FaFacebook, color: '#1877F2' },
+  LINE: { icon: FaLine, color: '#00B900' },
+  PHONE: { icon: FaPhone, color: '#4267B2' },
+  EMAIL: { icon: FaEnvelope, color: '#EA4335' },
+  TELEGRAM: { icon: FaTelegram, color: '#229ED9' },
+  WECHAT: { icon: FaWeixin, color: '#07C160' },
+  CUSTOM: { icon: FaLink, color: '#EC4899' },
+};
+
+function LinkIcon({ link }: { link: QuickLink }) {
+  if (link.icon) {
+    return <Image src={link.icon} alt="" width={20} height={20} className="object-contain" />;
+  }
+  const Icon = LINK_STYLES[link.type].icon;
+  return <Icon size={20} />;
+}
 
 export default function QuickLinks() {
   const [isOpen, setIsOpen] = useState(false);
-  const { settings } = useSettings();
+  const [quickLinks, setQuickLinks] = useState<QuickLink[]>([]);
+  const locale = useLocale() as Locale;
 
-  // Icon Components with SVG from react-icons
-  const WhatsAppIcon = () => <FaWhatsapp size={20} />;
-  const FacebookIcon = () => <FaFacebook size={20} />;
-  const LineIcon = () => <FaLine size={20} />;
-  const PhoneIcon = () => <FaPhone size={20} />;
-  const EmailIcon = () => <FaEnvelope size={20} />;
+  useEffect(() => {
+    fetch('/api/public/quick-links')
+      .then((response) => response.json())
+      .then((result) => {
+        if (result.success) {
+          setQuickLinks(result.data);
+        }
+      })
+      .catch((err) => console.error('Quick links fetch error:', err));
+  }, []);
 
-  // Build quick links from settings (keeping original logic)
-  const quickLinks = [
-    ...(settings?.whatsapp ? [{
-      id: 1,
-      type: 'whatsapp' as const,
-      label: 'WhatsApp',
-      url: `https://wa.me/${settings.whatsapp.replace(/[^\d]/g, '')}`,
-      color: '#25D366',
-      icon: <WhatsAppIcon />,
-    }] : []),
-    ...(settings?.facebookPage ? [{
-      id: 2,
-      type: 'facebook' as const,
-      label: 'Facebook',
-      url: settings.facebookPage,
-      color: '#1877F2',
-      icon: <FacebookIcon />,
-    }] : []),
-    ...(settings?.lineId ? [{
-      id: 3,
-      type: 'line' as const,
-      label: 'LINE',
-      url: `https://line.me/ti/p/~${settings.lineId}`,
-      color: '#00B900',
-      icon: <LineIcon />,
-    }] : []),
-    ...(settings?.phone ? [{
-      id: 4,
-      type: 'phone' as const,
-      label: 'Phone',
-      url: `tel:${settings.phone}`,
-      color: '#4267B2',
-      icon: <PhoneIcon />,
-    }] : []),
-    ...(settings?.email ? [{
-      id: 5,
-      type: 'email' as const,
-      label: 'Email',
-      url: `mailto:${settings.email}`,
-      color: '#EA4335',
-      icon: <EmailIcon />,
-    }] : []),
-  ];
+  if (quickLinks.length === 0) {
+    return null;
+  }
 
   return (
     <div className="fixed bottom-6 right-6 z-50">
@@ -76,7 +77,7 @@ export default function QuickLinks() {
               <motion.a
                 key={link.id}
                 href={link.url}
-                target="_blank"
+                target={link.url.startsWith('/') ? undefined : '_blank'}
                 rel="noopener noreferrer"
                 initial={{ opacity: 0, x: 20 }}
                 animate={{ opacity: 1, x: 0 }}
@@ -86,12 +87,12 @@ export default function QuickLinks() {
               >
                 <div
                   className="w-12 h-12 flex items-center justify-center text-white flex-shrink-0"
-                  style={{ backgroundColor: link.color }}
+                  style={{ backgroundColor: link.color || LINK_STYLES[link.type].color }}
                 >
-                  {link.icon}
+                  <LinkIcon link={link} />
                 </div>
                 <span className="pr-4 font-medium text-gray-700 group-hover:text-pink-500 transition-colors">
-                  {link.label}
+                  {getLocalizedField(link, 'label', locale)}
                 </span>
               </motion.a>
             ))}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import { Search } from 'lucide-react';
+
+interface SearchBoxProps {
+  className?: string;
+  onSubmitted?: () => void;
+}
+
+export default function SearchBox({ className = '', onSubmitted }: SearchBoxProps) {
+  const [query, setQuery] = useState('');
+  const router = useRouter();
+  const locale = useLocale();
+  const t = useTranslations();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = query.trim();
+    if (!q) return;
+
+    router.push(`/${locale}/search?q=${encodeURIComponent(q)}`);
+    setQuery('');
+    onSubmitted?.();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} role="search" className={`relative ${className}`}>
+      <input
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={t('nav.search')}
+        aria-label={t('search.placeholder')}
+        maxLength={100}
+        className="w-full pl-4 pr-10 py-2 rounded-2xl border border-neutral-200 bg-white/70 text-sm focus:outline-none focus:ring-2 focus:ring-pink-300"
+      />
+      <button
+        type="submit"
+        className="absolute right-3 top-1/2 -translate-y-1/2 text-neutral-500 hover:text-pink-500"
+        aria-label={t('search.submit')}
+      >
+        <Search size={18} />
+      </button>
+    </form>
+  );
+}
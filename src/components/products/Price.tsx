@@ -0,0 +1,34 @@
+'use client';
+
+import { formatPrice, PriceRange } from '@/lib/utils';
+import { convertPriceRange } from '@/lib/currency';
+import { useCurrency } from '@/hooks/useCurrency';
+
+interface PriceProps {
+  amount: number | PriceRange;
+  // Currency the product is priced in
+  currency: string;
+  className?: string;
+  // Also print the canonical price under the converted one
+  showOriginal?: boolean;
+}
+
+export default function Price({ amount, currency, className = '', showOriginal = false }: PriceProps) {
+  const { currency: displayCurrency, rates } = useCurrency();
+
+  const range = typeof amount === 'number' ? { min: amount, max: amount } : amount;
+  const original = formatPrice(range, currency);
+  const converted =
+    displayCurrency !== currency ? convertPriceRange(range, currency, displayCurrency, rates) : null;
+
+  if (!converted) {
+    return <span className={className}>{original}</span>;
+  }
+
+  return (
+    <span className={className} title={original}>
+      ≈ {formatPrice(converted, displayCurrency)}
+      {showOriginal && <span className="block text-sm font-normal text-gray-500">{original}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import ProductsList from './ProductsList';
+
+interface ProductCatalogProps {
+  locale: string;
+  initialProducts: any[];
+  initialCursor: string | null;
+  total: number;
+  // Normalized filter query used to fetch the following pages
+  query: string;
+}
+
+export default function ProductCatalog({
+  locale,
+  initialProducts,
+  initialCursor,
+  total,
+  query,
+}: ProductCatalogProps) {
+  const t = useTranslations();
+  const [products, setProducts] = useState(initialProducts);
+  const [cursor, setCursor] = useState(initialCursor);
+  const [loading, setLoading] = useState(false);
+
+  const loadMore = async () => {
+    if (!cursor) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(
+        `/api/products?${query}&cursor=${encodeURIComponent(cursor)}&facets=false`
+      );
+      const result = await response.json();
+
+      if (result.success) {
+        setProducts((current) => [...current, ...result.data]);
+        setCursor(result.pagination.nextCursor);
+      }
+    } catch (err) {
+      console.error('Error loading products:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      {total > 0 && (
+        <p className="text-sm text-gray-600 mb-6">
+          {t('product.showing', { shown: products.length, total })}
+        </p>
+      )}
+
+      <ProductsList products={products} locale={locale} />
+
+      {cursor && (
+        <div className="text-center mt-10">
+          <button onClick={loadMore} disabled={loading} className="btn btn-primary disabled:opacity-50">
+            {loading ? t('common.loading') : t('product.loadMore')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,301 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import Link from 'next/link';
+import Image from 'next/image';
+import { motion } from 'framer-motion';
+import { ArrowLeft, ChevronRight, MessageCircle, Mail } from 'lucide-react';
+import { PriceRange } from '@/lib/utils';
+import Price from './Price';
+import { trackEvent } from '@/lib/consent';
+
+interface GalleryImage {
+  id: string;
+  url: string;
+  alt: string;
+}
+
+interface VariantOption {
+  id: string;
+  name: string;
+  values: Array<{ id: string; label: string }>;
+}
+
+interface Variant {
+  id: string;
+  sku: string | null;
+  price: number | null;
+  image: string | null;
+  isAvailable: boolean;
+  valueIds: string[];
+}
+
+interface ProductDetailProps {
+  id: string;
+  locale: string;
+  name: string;
+  description: string;
+  categoryName: string;
+  breadcrumbs: Array<{ name: string; url: string }>;
+  images: GalleryImage[];
+  priceRange: PriceRange | null;
+  options: VariantOption[];
+  variants: Variant[];
+  currency: string;
+  sku: string | null;
+  productUrl: string;
+  inquiryUrl: string;
+  whatsapp: string | null;
+  whatsappMessage: string;
+}
+
+export default function ProductDetail({
+  id,
+  locale,
+  name,
+  description,
+  categoryName,
+  breadcrumbs,
+  images,
+  priceRange,
+  options,
+  variants,
+  currency,
+  sku,
+  productUrl,
+  inquiryUrl,
+  whatsapp,
+  whatsappMessage,
+}: ProductDetailProps) {
+  const t = useTranslations();
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [showVariantImage, setShowVariantImage] = useState(true);
+
+  // Start from the first available variant
+  const [selected, setSelected] = useState<Record<string, string>>(() => {
+    const initial = variants.find((variant) => variant.isAvailable) || variants[0];
+    if (!initial) return {};
+    return Object.fromEntries(
+      options.map((option) => [
+        option.id,
+        option.values.find((value) => initial.valueIds.includes(value.id))?.id || '',
+      ])
+    );
+  });
+
+  const findVariant = (selection: Record<string, string>) =>
+    variants.find((variant) => options.every((option) => variant.valueIds.includes(selection[option.id])));
+
+  const selectedVariant = findVariant(selected);
+
+  useEffect(() => {
+    trackEvent('ViewContent', {
+      content_ids: [id],
+      content_name: name,
+      content_type: 'product',
+      currency,
+      value: priceRange?.min,
+      items: [{ item_id: id, item_name: name, item_category: categoryName }],
+    });
+    // Once per product, not on every variant change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [id]);
+
+  const selectValue = (optionId: string, valueId: string) => {
+    setSelected((current) => ({ ...current, [optionId]: valueId }));
+    setShowVariantImage(true);
+  };
+
+  const activeImage =
+    showVariantImage && selectedVariant?.image
+      ? { id: selectedVariant.id, url: selectedVariant.image, alt: name }
+      : images[activeIndex];
+
+  const displayPrice = selectedVariant?.price ?? priceRange;
+  const displaySku = selectedVariant?.sku || sku;
+
+  const variantLabel = selectedVariant
+    ? options
+        .map((option) => option.values.find((value) => value.id === selected[option.id])?.label)
+        .filter(Boolean)
+        .join(' / ')
+    : '';
+  const itemName = variantLabel ? `${name} (${variantLabel})` : name;
+
+  const message = `${whatsappMessage || t('product.whatsappMessage')}: ${itemName}\n${productUrl}`;
+  const whatsappUrl = whatsapp
+    ? `https://wa.me/${whatsapp.replace(/[^\d]/g, '')}?text=${encodeURIComponent(message)}`
+    : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 via-white to-pink-50">
+      <div className="container-custom py-12">
+        {/* Breadcrumbs */}
+        <nav aria-label="Breadcrumb" className="mb-8">
+          <ol className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            {breadcrumbs.map((crumb, index) => (
+              <li key={crumb.url} className="flex items-center gap-2">
+                {index > 0 && <ChevronRight size={14} className="text-gray-400" aria-hidden="true" />}
+                {index === breadcrumbs.length - 1 ? (
+                  <span className="text-pink-500 font-medium" aria-current="page">
+                    {crumb.name}
+                  </span>
+                ) : (
+                  <Link href={crumb.url} className="hover:text-pink-500 transition-colors">
+                    {crumb.name}
+                  </Link>
+                )}
+              </li>
+            ))}
+          </ol>
+        </nav>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
+          {/* Gallery */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            {activeImage ? (
+              <div className="relative aspect-square rounded-2xl overflow-hidden bg-gray-100 mb-4">
+                <Image
+                  src={activeImage.url}
+                  alt={activeImage.alt}
+                  fill
+                  sizes="(max-width: 1024px) 100vw, 50vw"
+                  className="object-cover"
+                  priority
+                />
+              </div>
+            ) : (
+              <div className="aspect-square rounded-2xl bg-gradient-to-br from-pink-100 to-pink-50 mb-4 flex items-center justify-center text-8xl">
+                🎁
+              </div>
+            )}
+
+            {images.length > 1 && (
+              <div className="grid grid-cols-5 gap-3">
+                {images.map((image, index) => (
+                  <button
+                    key={image.id}
+                    type="button"
+                    onClick={() => {
+                      setActiveIndex(index);
+                      setShowVariantImage(false);
+                    }}
+                    className={`relative aspect-square rounded-xl overflow-hidden bg-gray-100 border-2 transition-colors ${
+                      index === activeIndex ? 'border-pink-500' : 'border-transparent hover:border-pink-200'
+                    }`}
+                    aria-label={image.alt}
+                    aria-pressed={index === activeIndex}
+                  >
+                    <Image
+                      src={image.url}
+                      alt={image.alt}
+                      fill
+                      sizes="20vw"
+                      className="object-cover"
+                    />
+                  </button>
+                ))}
+              </div>
+            )}
+          </motion.div>
+
+          {/* Details */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6, delay: 0.1 }}
+          >
+            <span className="text-sm text-pink-500 font-medium mb-2 block">
+              {categoryName}
+            </span>
+            <h1 className="text-4xl font-heading font-bold mb-4">{name}</h1>
+
+            {displayPrice !== null && (
+              <p className="text-3xl text-pink-500 font-bold mb-6">
+                <Price amount={displayPrice} currency={currency} showOriginal />
+              </p>
+            )}
+
+            {options.map((option) => (
+              <fieldset key={option.id} className="mb-6">
+                <legend className="text-sm font-semibold mb-2">{option.name}</legend>
+                <div className="flex flex-wrap gap-2">
+                  {option.values.map((value) => {
+                    const candidate = findVariant({ ...selected, [option.id]: value.id });
+                    const isSelected = selected[option.id] === value.id;
+
+                    return (
+                      <button
+                        key={value.id}
+                        type="button"
+                        onClick={() => selectValue(option.id, value.id)}
+                        aria-pressed={isSelected}
+                        className={`px-4 py-2 rounded-xl border text-sm font-medium transition-colors ${
+                          isSelected
+                            ? 'border-pink-500 bg-pink-50 text-pink-600'
+                            : 'border-gray-200 bg-white text-gray-700 hover:border-pink-300'
+                        } ${!candidate?.isAvailable ? 'opacity-50 line-through' : ''}`}
+                      >
+                        {value.label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </fieldset>
+            ))}
+
+            {options.length > 0 && selectedVariant && !selectedVariant.isAvailable && (
+              <p className="text-sm font-medium text-red-500 mb-6">{t('product.outOfStock')}</p>
+            )}
+
+            {displaySku && (
+              <p className="text-sm text-gray-500 mb-6">SKU: {displaySku}</p>
+            )}
+
+            <div className="mb-8">
+              <h2 className="text-lg font-semibold mb-2">{t('product.details')}</h2>
+              <p className="text-gray-600 whitespace-pre-line">{description}</p>
+            </div>
+
+            {whatsappUrl && (
+              <a
+                href={whatsappUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center justify-center gap-2 w-full sm:w-auto px-8 py-4 bg-green-500 text-white rounded-xl font-medium hover:bg-green-600 transition-colors"
+              >
+                <MessageCircle size={20} />
+                {t('product.askAboutProduct')}
+              </a>
+            )}
+
+            <Link
+              href={inquiryUrl}
+              className={`inline-flex items-center justify-center gap-2 w-full sm:w-auto px-8 py-4 rounded-xl font-medium border-2 border-pink-300 text-pink-600 hover:bg-pink-50 transition-colors ${
+                whatsappUrl ? 'mt-3 sm:mt-0 sm:ml-3' : ''
+              }`}
+            >
+              <Mail size={20} />
+              {t('product.sendInquiry')}
+            </Link>
+
+            <div className="mt-12 pt-8 border-t">
+              <Link
+                href={`/${locale}/products`}
+                className="inline-flex items-center gap-2 text-pink-500 hover:text-pink-600 font-medium"
+              >
+                <ArrowLeft size={20} />
+                {t('product.backToProducts')}
+              </Link>
+            </div>
+          </motion.div>
+        </div>
+      </div>
+    </div>
+  );
+}
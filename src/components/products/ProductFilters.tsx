@@ -0,0 +1,215 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useTranslations } from 'next-intl';
+import { getLocalizedField } from '@/lib/i18n-helpers';
+import { Locale } from '@/i18n';
+import { BASE_CURRENCY, convertPrice } from '@/lib/currency';
+import { useCurrency } from '@/hooks/useCurrency';
+
+interface CategoryFacet {
+  id: string;
+  slug: string;
+  name_lo: string;
+  name_th: string;
+  name_zh: string;
+  name_en: string;
+  count: number;
+}
+
+interface ProductFiltersProps {
+  locale: string;
+  basePath: string;
+  facets: {
+    categories: CategoryFacet[];
+    // In the base currency
+    price: { min: number | null; max: number | null };
+  };
+  // Category landing pages fix the category in the path
+  activeCategory?: string;
+}
+
+const SORT_OPTIONS = [
+  { value: 'order', label: 'product.sortOrder' },
+  { value: 'newest', label: 'product.sortNewest' },
+  { value: 'price_asc', label: 'product.sortPriceAsc' },
+  { value: 'price_desc', label: 'product.sortPriceDesc' },
+];
+
+export default function ProductFilters({ locale, basePath, facets, activeCategory }: ProductFiltersProps) {
+  const t = useTranslations();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const { currency: displayCurrency, rates } = useCurrency();
+  // Bounds are entered in the display currency while its rate is known
+  const priceCurrency = convertPrice(1, displayCurrency, BASE_CURRENCY, rates) !== null ? displayCurrency : BASE_CURRENCY;
+  const pricePlaceholder = (price: number | null, fallback: string) => {
+    const converted = price !== null ? convertPrice(price, BASE_CURRENCY, priceCurrency, rates) : null;
+    return converted !== null ? String(converted) : fallback;
+  };
+
+  const selectedCategories = (searchParams.get('category') || '').split(',').filter(Boolean);
+  const sort = searchParams.get('sort') || 'order';
+  const featured = searchParams.get('featured') === 'true';
+
+  const [minPrice, setMinPrice] = useState(searchParams.get('minPrice') || '');
+  const [maxPrice, setMaxPrice] = useState(searchParams.get('maxPrice') || '');
+
+  useEffect(() => {
+    setMinPrice(searchParams.get('minPrice') || '');
+    setMaxPrice(searchParams.get('maxPrice') || '');
+  }, [searchParams]);
+
+  const navigate = (updates: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    });
+    params.delete('cursor');
+
+    const query = params.toString();
+    router.push(query ? `${basePath}?${query}` : basePath, { scroll: false });
+  };
+
+  const toggleCategory = (slug: string) => {
+    const next = selectedCategories.includes(slug)
+      ? selectedCategories.filter((selected) => selected !== slug)
+      : [...selectedCategories, slug];
+    navigate({ category: next.join(',') || null });
+  };
+
+  const applyPrice = (e: React.FormEvent) => {
+    e.preventDefault();
+    navigate({
+      minPrice: minPrice || null,
+      maxPrice: maxPrice || null,
+      currency: (minPrice || maxPrice) && priceCurrency !== BASE_CURRENCY ? priceCurrency : null,
+    });
+  };
+
+  const hasFilters = ['category', 'minPrice', 'maxPrice', 'currency', 'featured', 'sort'].some((key) =>
+    searchParams.has(key)
+  );
+
+  const chipClass = (active: boolean) =>
+    `px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+      active
+        ? 'bg-pink-500 text-white'
+        : 'bg-white text-gray-700 border border-gray-200 hover:border-pink-300'
+    }`;
+
+  return (
+    <div className="mb-10 space-y-4" aria-label={t('product.filters')}>
+      <div className="flex flex-wrap gap-2">
+        {activeCategory ? (
+          <>
+            <Link href={`/${locale}/products`} className={chipClass(false)}>
+              {t('product.allCategories')}
+            </Link>
+            {facets.categories.map((category) => (
+              <Link
+                key={category.id}
+                href={`/${locale}/products/category/${category.slug}`}
+                className={chipClass(category.slug === activeCategory)}
+              >
+                {getLocalizedField(category, 'name', locale as Locale)} ({category.count})
+              </Link>
+            ))}
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => navigate({ category: null })}
+              className={chipClass(selectedCategories.length === 0)}
+            >
+              {t('product.allCategories')}
+            </button>
+            {facets.categories.map((category) => (
+              <button
+                key={category.id}
+                onClick={() => toggleCategory(category.slug)}
+                className={chipClass(selectedCategories.includes(category.slug))}
+                aria-pressed={selectedCategories.includes(category.slug)}
+              >
+                {getLocalizedField(category, 'name', locale as Locale)} ({category.count})
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <form onSubmit={applyPrice} className="flex items-end gap-2">
+          <label className="text-sm text-gray-600">
+            <span className="block mb-1">{t('product.priceRange')} ({priceCurrency})</span>
+            <input
+              type="number"
+              min={0}
+              value={minPrice}
+              onChange={(e) => setMinPrice(e.target.value)}
+              placeholder={pricePlaceholder(facets.price.min, t('product.minPrice'))}
+              aria-label={t('product.minPrice')}
+              className="w-28 px-3 py-2 rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-pink-300"
+            />
+          </label>
+          <span className="pb-2 text-gray-400">–</span>
+          <input
+            type="number"
+            min={0}
+            value={maxPrice}
+            onChange={(e) => setMaxPrice(e.target.value)}
+            placeholder={pricePlaceholder(facets.price.max, t('product.maxPrice'))}
+            aria-label={t('product.maxPrice')}
+            className="w-28 px-3 py-2 rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-pink-300"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 rounded-lg border border-pink-300 text-pink-600 text-sm font-medium hover:bg-pink-50"
+          >
+            {t('product.applyPrice')}
+          </button>
+        </form>
+
+        <label className="text-sm text-gray-600">
+          <span className="block mb-1">{t('product.sortBy')}</span>
+          <select
+            value={sort}
+            onChange={(e) => navigate({ sort: e.target.value === 'order' ? null : e.target.value })}
+            className="px-3 py-2 rounded-lg border border-gray-200 bg-white focus:outline-none focus:ring-2 focus:ring-pink-300"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {t(option.label)}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 pb-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={featured}
+            onChange={(e) => navigate({ featured: e.target.checked ? 'true' : null })}
+            className="rounded text-pink-500 focus:ring-pink-300"
+          />
+          {t('product.featuredOnly')}
+        </label>
+
+        {hasFilters && (
+          <button
+            onClick={() => router.push(basePath, { scroll: false })}
+            className="pb-2 text-sm text-pink-600 hover:underline"
+          >
+            {t('product.clearFilters')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,10 @@
 import { useTranslations } from 'next-intl';
 import { getLocalizedField } from '@/lib/i18n-helpers';
 import { Locale } from '@/i18n';
+import { getPriceRange } from '@/lib/utils';
+import Price from './Price';
 import Image from 'next/image';
+import Link from 'next/link';
 import Head from 'next/head';
 import { ProductStructuredData } from '@/components/seo/StructuredData';
 
@@ -49,10 +52,11 @@ export default function ProductsList({ products, locale }: ProductsListProps) {
         {products.map((product: any) => {
           const name = getLocalizedField(product, 'name', locale as Locale);
           const categoryName = getLocalizedField(product.category, 'name', locale as Locale);
-          const price = product.price ? Number(product.price) : 0;
+          const priceRange = getPriceRange(product.price, product.variants);
 
           return (
             <div key={product.id} className="card group cursor-pointer">
+            <Link href={`/${locale}/products/${product.slug}`} className="block">
             {product.featuredImage ? (
               <div className="relative aspect-square rounded-xl overflow-hidden mb-4 bg-gray-100">
                 <Image
@@ -74,9 +78,10 @@ export default function ProductsList({ products, locale }: ProductsListProps) {
             <h3 className="font-semibold text-lg mb-2 group-hover:text-pink-500 transition-colors line-clamp-2">
               {name}
             </h3>
-            {price > 0 && (
+            </Link>
+            {priceRange && (
               <p className="text-pink-500 font-bold mb-4">
-                ₭{price.toLocaleString()}
+                <Price amount={priceRange} currency={product.currency} />
               </p>
             )}
             <a
@@ -0,0 +1,233 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useLocale, useTranslations } from 'next-intl';
+import { Search } from 'lucide-react';
+import { Loading } from '@/components/shared/Loading';
+
+interface SearchResult {
+  type: 'Article' | 'Product' | 'FAQ';
+  id: string;
+  path: string;
+  title: string;
+  snippet: string;
+  image: string | null;
+  score: number;
+}
+
+const TYPE_FILTERS = ['all', 'article', 'product', 'faq'] as const;
+
+const typeLabelKeys: Record<(typeof TYPE_FILTERS)[number], string> = {
+  all: 'search.all',
+  article: 'search.articles',
+  product: 'search.products',
+  faq: 'search.faqs',
+};
+
+const resultTypeKeys: Record<SearchResult['type'], string> = {
+  Article: 'search.articles',
+  Product: 'search.products',
+  FAQ: 'search.faqs',
+};
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Wrap every occurrence of the matched terms in <mark>
+function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  const words = terms.filter(Boolean).sort((a, b) => b.length - a.length);
+  if (words.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${words.map(escapeRegExp).join('|')})`, 'gi');
+  const parts = text.split(pattern);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-pink-100 text-pink-700 rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function SearchResults() {
+  const t = useTranslations();
+  const locale = useLocale();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const query = searchParams.get('q') || '';
+  const type = searchParams.get('type') || 'all';
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1'));
+
+  const [input, setInput] = useState(query);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [terms, setTerms] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+
+  const fetchResults = useCallback(async () => {
+    if (!query) {
+      setResults([]);
+      setTotal(0);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ q: query, locale, type, page: page.toString() });
+      const response = await fetch(`/api/search?${params.toString()}`);
+      const result = await response.json();
+
+      if (result.success) {
+        setResults(result.data);
+        setTerms([query, ...result.terms]);
+        setTotal(result.pagination.total);
+        setTotalPages(Math.max(1, result.pagination.totalPages));
+      }
+    } catch (err) {
+      console.error('Search error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [query, locale, type, page]);
+
+  useEffect(() => {
+    setInput(query);
+    fetchResults();
+  }, [query, fetchResults]);
+
+  const navigate = (next: { q?: string; type?: string; page?: number }) => {
+    const params = new URLSearchParams({
+      q: next.q ?? query,
+      type: next.type ?? type,
+      page: String(next.page ?? 1),
+    });
+    if (params.get('type') === 'all') params.delete('type');
+    if (params.get('page') === '1') params.delete('page');
+    router.push(`/${locale}/search?${params.toString()}`);
+  };
+
+  return (
+    <div>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          navigate({ q: input.trim() });
+        }}
+        className="flex gap-3 mb-6"
+        role="search"
+      >
+        <div className="relative flex-1">
+          <Search size={20} className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" aria-hidden="true" />
+          <input
+            type="search"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={t('search.placeholder')}
+            aria-label={t('search.title')}
+            maxLength={100}
+            className="w-full pl-12 pr-4 py-3 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-pink-300"
+          />
+        </div>
+        <button
+          type="submit"
+          className="px-6 py-3 bg-pink-500 text-white rounded-xl font-medium hover:bg-pink-600 transition-colors"
+        >
+          {t('search.submit')}
+        </button>
+      </form>
+
+      <div className="flex flex-wrap gap-2 mb-8">
+        {TYPE_FILTERS.map((option) => (
+          <button
+            key={option}
+            onClick={() => navigate({ type: option })}
+            className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
+              type === option
+                ? 'bg-pink-500 text-white'
+                : 'bg-white text-gray-700 border border-gray-200 hover:border-pink-300'
+            }`}
+          >
+            {t(typeLabelKeys[option])}
+          </button>
+        ))}
+      </div>
+
+      {!query ? (
+        <p className="text-center text-gray-600 py-12">{t('search.enterQuery')}</p>
+      ) : loading ? (
+        <Loading />
+      ) : results.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="text-6xl mb-4">🔍</div>
+          <h2 className="text-xl font-semibold mb-2">{t('search.noResults')}</h2>
+          <p className="text-gray-600">{t('search.noResultsDescription')}</p>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-6">{t('search.resultsFor', { count: total, query })}</p>
+          <ul className="space-y-4">
+            {results.map((result) => (
+              <li key={`${result.type}-${result.id}`}>
+                <Link
+                  href={result.path}
+                  className="flex gap-4 p-4 bg-white rounded-2xl border border-gray-100 hover:border-pink-200 hover:shadow-md transition-all"
+                >
+                  {result.image && (
+                    <div className="relative w-20 h-20 rounded-xl overflow-hidden bg-gray-100 flex-shrink-0">
+                      <Image src={result.image} alt={result.title} fill sizes="80px" className="object-cover" />
+                    </div>
+                  )}
+                  <div className="min-w-0">
+                    <span className="text-xs font-medium text-pink-500 uppercase tracking-wide">
+                      {t(resultTypeKeys[result.type])}
+                    </span>
+                    <h2 className="text-lg font-semibold text-gray-900 mb-1">
+                      <Highlight text={result.title} terms={terms} />
+                    </h2>
+                    <p className="text-sm text-gray-600 line-clamp-3">
+                      <Highlight text={result.snippet} terms={terms} />
+                    </p>
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ul>
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between mt-8">
+              <button
+                onClick={() => navigate({ page: page - 1 })}
+                disabled={page <= 1}
+                className="px-4 py-2 rounded-lg border border-gray-200 text-sm disabled:opacity-50"
+              >
+                {t('search.previous')}
+              </button>
+              <span className="text-sm text-gray-600">
+                {t('search.page', { page, total: totalPages })}
+              </span>
+              <button
+                onClick={() => navigate({ page: page + 1 })}
+                disabled={page >= totalPages}
+                className="px-4 py-2 rounded-lg border border-gray-200 text-sm disabled:opacity-50"
+              >
+                {t('search.next')}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
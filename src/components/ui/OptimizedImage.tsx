@@ -2,7 +2,13 @@
 
 import Image from 'next/image';
 import { useState } from 'react';
-import { getOptimizedImageUrl, addCacheBusting } from '@/lib/performance';
+import {
+  getOptimizedImageUrl,
+  addCacheBusting,
+  getImageSizes,
+  getImageSrcSet,
+  ImageDerivative,
+} from '@/lib/performance';
 
 interface OptimizedImageProps {
   src: string;
@@ -20,6 +26,8 @@ interface OptimizedImageProps {
   onError?: () => void;
   style?: React.CSSProperties;
   unoptimized?: boolean;
+  // Responsive copies from Media.derivatives; rendered as a <picture> with AVIF/WebP sources
+  derivatives?: ImageDerivative[] | null;
 }
 
 export default function OptimizedImage({
@@ -38,6 +46,7 @@ export default function OptimizedImage({
   onError,
   style,
   unoptimized = true, // Default to unoptimized for uploaded images
+  derivatives,
   ...props
 }: OptimizedImageProps) {
   const [isLoading, setIsLoading] = useState(true);
@@ -74,6 +83,37 @@ export default function OptimizedImage({
     );
   }
 
+  const fadeClass = `transition-opacity duration-300 ${isLoading ? 'opacity-0' : 'opacity-100'}`;
+
+  // Let the browser pick format and width itself; next/image can't emit <source> elements
+  if (derivatives && derivatives.length > 0) {
+    const resolvedSizes = sizes || (fill ? '100vw' : getImageSizes(width));
+
+    return (
+      <div className={`relative ${className}`} style={style}>
+        {isLoading && (
+          <div className="absolute inset-0 bg-gray-200 animate-pulse rounded-lg" />
+        )}
+        <picture>
+          <source type="image/avif" srcSet={getImageSrcSet(derivatives, 'avif')} sizes={resolvedSizes} />
+          <source type="image/webp" srcSet={getImageSrcSet(derivatives, 'webp')} sizes={resolvedSizes} />
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={src}
+            alt={alt}
+            width={fill ? undefined : width}
+            height={fill ? undefined : height}
+            loading={priority ? 'eager' : 'lazy'}
+            decoding="async"
+            onLoad={handleLoad}
+            onError={handleError}
+            className={`${fill ? 'absolute inset-0 w-full h-full object-cover' : ''} ${fadeClass}`}
+          />
+        </picture>
+      </div>
+    );
+  }
+
   return (
     <div className={`relative ${className}`} style={style}>
       {isLoading && (
@@ -92,9 +132,7 @@ export default function OptimizedImage({
         blurDataURL={blurDataURL}
         onLoad={handleLoad}
         onError={handleError}
-        className={`transition-opacity duration-300 ${
-          isLoading ? 'opacity-0' : 'opacity-100'
-        }`}
+        className={fadeClass}
         {...props}
       />
     </div>
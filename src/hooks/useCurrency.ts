@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useLocale } from 'next-intl';
+import { DEFAULT_DISPLAY_CURRENCIES, ExchangeRates, isCurrency, Currency } from '@/lib/currency';
+
+const STORAGE_KEY = 'display-currency';
+const CHANGE_EVENT = 'display-currency-change';
+
+interface CurrencyConfig {
+  rates: ExchangeRates;
+  updatedAt: string | null;
+  defaults: Record<string, Currency>;
+}
+
+// Shared across every price on the page so the config is fetched once
+let configPromise: Promise<CurrencyConfig | null> | null = null;
+
+function loadConfig() {
+  if (!configPromise) {
+    configPromise = fetch('/api/public/currency')
+      .then((response) => response.json())
+      .then((result) => (result.success ? (result.data as CurrencyConfig) : null))
+      .catch((err) => {
+        console.error('Currency config fetch error:', err);
+        configPromise = null;
+        return null;
+      });
+  }
+  return configPromise;
+}
+
+function readStoredCurrency(): Currency | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isCurrency(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+interface UseCurrencyReturn {
+  currency: Currency;
+  rates: ExchangeRates;
+  updatedAt: string | null;
+  setCurrency: (currency: Currency) => void;
+}
+
+// Visitor display currency: their own choice, else the locale default from settings
+export function useCurrency(): UseCurrencyReturn {
+  const locale = useLocale();
+  const [config, setConfig] = useState<CurrencyConfig | null>(null);
+  const [chosen, setChosen] = useState<Currency | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    setChosen(readStoredCurrency());
+    loadConfig().then((loaded) => {
+      if (active) setConfig(loaded);
+    });
+
+    const handleChange = () => setChosen(readStoredCurrency());
+    window.addEventListener(CHANGE_EVENT, handleChange);
+    window.addEventListener('storage', handleChange);
+    return () => {
+      active = false;
+      window.removeEventListener(CHANGE_EVENT, handleChange);
+      window.removeEventListener('storage', handleChange);
+    };
+  }, []);
+
+  const setCurrency = useCallback((currency: Currency) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, currency);
+    } catch {
+      // Storage can be unavailable in private mode; keep the choice for this page
+    }
+    setChosen(currency);
+    window.dispatchEvent(new Event(CHANGE_EVENT));
+  }, []);
+
+  const fallback = config?.defaults[locale] || DEFAULT_DISPLAY_CURRENCIES[locale] || 'LAK';
+
+  return {
+    currency: chosen || fallback,
+    rates: config?.rates || {},
+    updatedAt: config?.updatedAt || null,
+    setCurrency,
+  };
+}
@@ -21,6 +21,8 @@ interface Settings {
   whatsapp: string;
   logo: string;
   favicon: string;
+  googleAnalyticsId?: string;
+  facebookPixelId?: string;
   createdAt?: string;
   updatedAt?: string;
 }
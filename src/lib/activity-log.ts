@@ -0,0 +1,124 @@
+// Persistent audit log for admin actions in NAMNGAM
+
+import { ActivityAction } from '@prisma/client';
+import { prisma } from './prisma';
+import { getClientIP } from './security';
+import { logError } from './error-handler';
+
+export type ActivityResource =
+  | 'Article'
+  | 'Product'
+  | 'Category'
+  | 'FAQ'
+  | 'FAQCategory'
+  | 'Settings'
+  | 'User'
+  | 'Media'
+  | 'AboutPage'
+  | 'Inquiry'
+  | 'QuickLink'
+  | 'HomeSection'
+  | 'Tag'
+  | 'Auth';
+
+export const ACTIVITY_RESOURCES: ActivityResource[] = [
+  'Article',
+  'Product',
+  'Category',
+  'FAQ',
+  'FAQCategory',
+  'Settings',
+  'User',
+  'Media',
+  'AboutPage',
+  'Inquiry',
+  'QuickLink',
+  'HomeSection',
+  'Tag',
+  'Auth',
+];
+
+// Fields that must never be written to the audit log
+const REDACTED_FIELDS = ['password'];
+
+// Bookkeeping fields that change on every save and only add noise to diffs
+const IGNORED_DIFF_FIELDS = ['updatedAt'];
+
+interface LogActivityOptions {
+  request?: any;
+  userId?: string | null;
+  action: ActivityAction;
+  resourceType: ActivityResource;
+  resourceId?: string | null;
+  description?: string;
+  before?: any;
+  after?: any;
+}
+
+// Convert Prisma results (Decimal, Date) into plain JSON and drop secrets
+function toSnapshot(record: any): Record<string, any> | null {
+  if (!record || typeof record !== 'object') return null;
+
+  return JSON.parse(JSON.stringify(record), (key, value) =>
+    REDACTED_FIELDS.includes(key) ? '[REDACTED]' : value
+  );
+}
+
+// Keep only the top-level fields whose values differ between two snapshots
+export function diffSnapshots(before: any, after: any) {
+  const beforeSnapshot = toSnapshot(before);
+  const afterSnapshot = toSnapshot(after);
+
+  if (!beforeSnapshot || !afterSnapshot) {
+    return { before: beforeSnapshot, after: afterSnapshot };
+  }
+
+  const changedBefore: Record<string, any> = {};
+  const changedAfter: Record<string, any> = {};
+  const keys = Array.from(new Set([...Object.keys(beforeSnapshot), ...Object.keys(afterSnapshot)]));
+
+  for (const key of keys) {
+    if (IGNORED_DIFF_FIELDS.includes(key)) continue;
+
+    const previous = JSON.stringify(beforeSnapshot[key] ?? null);
+    const next = JSON.stringify(afterSnapshot[key] ?? null);
+
+    if (previous !== next) {
+      changedBefore[key] = beforeSnapshot[key] ?? null;
+      changedAfter[key] = afterSnapshot[key] ?? null;
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
+
+// Write an audit entry. Failures are logged but never break the calling request.
+export async function logActivity({
+  request,
+  userId,
+  action,
+  resourceType,
+  resourceId,
+  description,
+  before,
+  after,
+}: LogActivityOptions) {
+  try {
+    const diff = diffSnapshots(before, after);
+
+    await prisma.activityLog.create({
+      data: {
+        userId: userId || null,
+        action,
+        resourceType,
+        resourceId: resourceId || null,
+        description: description?.substring(0, 500) || null,
+        before: diff.before ?? undefined,
+        after: diff.after ?? undefined,
+        ipAddress: request ? getClientIP(request) : null,
+      },
+    });
+  } catch (error) {
+    logError(error, `Activity log - ${action} ${resourceType}`);
+  }
+}
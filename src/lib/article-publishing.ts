@@ -0,0 +1,121 @@
+// Server-side helpers for the article editorial workflow
+
+import { Session } from 'next-auth';
+import { prisma } from './prisma';
+import { cache } from './cache';
+import { can } from './permissions';
+import { AuthorizationError, ValidationError, logError } from './error-handler';
+import { syncSearchDocument } from './search';
+import {
+  ArticleStatus,
+  ARTICLE_STATUS_LABELS,
+  canTransition,
+  requiresPublishPermission,
+} from './article-workflow';
+
+export async function invalidateArticleCache() {
+  await cache.invalidateTag('articles');
+}
+
+// Lazily flip scheduled articles whose publish time has passed.
+// Called before public article queries so no separate job runner is required.
+export async function publishDueArticles(): Promise<number> {
+  try {
+    const due = await prisma.article.findMany({
+      where: {
+        status: 'SCHEDULED',
+        publishedAt: { lte: new Date() },
+      },
+      select: { id: true },
+    });
+
+    if (due.length === 0) return 0;
+
+    const result = await prisma.article.updateMany({
+      where: {
+        id: { in: due.map((article) => article.id) },
+        status: 'SCHEDULED',
+      },
+      data: {
+        status: 'PUBLISHED',
+        isPublished: true,
+      },
+    });
+
+    await invalidateArticleCache();
+    for (const article of due) {
+      await syncSearchDocument('Article', article.id);
+    }
+    return result.count;
+  } catch (error) {
+    logError(error, 'Article publishing - scheduled');
+    return 0;
+  }
+}
+
+export function assertCanTransition(
+  session: Session,
+  from: ArticleStatus | null,
+  to: ArticleStatus
+) {
+  if (from !== null && !canTransition(from, to)) {
+    throw new ValidationError(
+      `Cannot move an article from ${ARTICLE_STATUS_LABELS[from]} to ${ARTICLE_STATUS_LABELS[to]}`
+    );
+  }
+
+  if (requiresPublishPermission(from, to) && !can(session.user.role, 'article', 'publish')) {
+    throw new AuthorizationError('Your role is not allowed to publish, schedule or archive articles');
+  }
+}
+
+// Fields to write when an article enters a status
+export function getStatusData(
+  to: ArticleStatus,
+  existingPublishedAt: Date | null,
+  scheduledAt?: string | null
+) {
+  const now = new Date();
+
+  switch (to) {
+    case 'SCHEDULED': {
+      const publishAt = scheduledAt ? new Date(scheduledAt) : null;
+      if (!publishAt || isNaN(publishAt.getTime())) {
+        throw new ValidationError('A valid publish date is required to schedule an article');
+      }
+      if (publishAt <= now) {
+        throw new ValidationError('Scheduled publish date must be in the future');
+      }
+      return { status: to, isPublished: false, publishedAt: publishAt };
+    }
+    case 'PUBLISHED':
+      // Keep the original publish date when re-publishing
+      return {
+        status: to,
+        isPublished: true,
+        publishedAt: existingPublishedAt && existingPublishedAt <= now ? existingPublishedAt : now,
+      };
+    default:
+      // A pending schedule no longer applies once the article leaves SCHEDULED
+      return {
+        status: to,
+        isPublished: false,
+        publishedAt: existingPublishedAt && existingPublishedAt > now ? null : existingPublishedAt,
+      };
+  }
+}
+
+export async function assertValidReviewer(reviewerId: string) {
+  const reviewer = await prisma.user.findUnique({
+    where: { id: reviewerId },
+    select: { id: true, role: true, isActive: true },
+  });
+
+  if (!reviewer || !reviewer.isActive) {
+    throw new ValidationError('Reviewer not found');
+  }
+
+  if (!can(reviewer.role, 'article', 'publish')) {
+    throw new ValidationError('Reviewer must be allowed to publish articles');
+  }
+}
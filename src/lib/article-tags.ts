@@ -0,0 +1,104 @@
+// Article tags: validating tag input, assigning tags to articles and the
+// rename / merge / delete operations of the admin tags page
+
+import { prisma } from './prisma';
+import { slugify } from './utils';
+import { ConflictError, NotFoundError, ValidationError } from './error-handler';
+
+const MAX_TAGS_PER_ARTICLE = 20;
+const MAX_TAG_NAME_LENGTH = 50;
+
+export interface TagInput {
+  name_lo: string;
+  name_th: string;
+  name_zh: string;
+  name_en: string;
+}
+
+// Every language needs a name; the English one also becomes the slug
+export function parseTagInput(body: any): TagInput {
+  const input = {} as TagInput;
+
+  for (const field of ['name_lo', 'name_th', 'name_zh', 'name_en'] as const) {
+    const value = typeof body?.[field] === 'string' ? body[field].trim() : '';
+    if (!value) {
+      throw new ValidationError('All language names are required', field);
+    }
+    input[field] = value.substring(0, MAX_TAG_NAME_LENGTH);
+  }
+
+  return input;
+}
+
+// Unique slug from the English name; falls back to a timestamp for names slugify empties
+export async function uniqueTagSlug(name: string, excludeId?: string): Promise<string> {
+  const base = slugify(name) || `tag-${Date.now()}`;
+  const conflict = await prisma.tag.findFirst({
+    where: { slug: base, ...(excludeId && { id: { not: excludeId } }) },
+    select: { id: true },
+  });
+  return conflict ? `${base}-${Date.now()}` : base;
+}
+
+// Names must stay unique per language so the picker never shows two identical tags
+export async function assertTagNamesAvailable(input: TagInput, excludeId?: string) {
+  const existing = await prisma.tag.findFirst({
+    where: {
+      OR: [
+        { name_lo: input.name_lo },
+        { name_th: input.name_th },
+        { name_zh: input.name_zh },
+        { name_en: input.name_en },
+      ],
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+  });
+
+  if (existing) {
+    throw new ConflictError(`Tag "${existing.name_en}" already uses one of these names`);
+  }
+}
+
+// Tag ids sent by the article editor; unknown ids are rejected rather than dropped
+export async function parseArticleTagIds(value: unknown): Promise<string[]> {
+  if (!Array.isArray(value)) {
+    throw new ValidationError('Tags must be a list of tag ids', 'tags');
+  }
+
+  const ids = Array.from(new Set(value.filter((id): id is string => typeof id === 'string')));
+  if (ids.length > MAX_TAGS_PER_ARTICLE) {
+    throw new ValidationError(`An article can have at most ${MAX_TAGS_PER_ARTICLE} tags`, 'tags');
+  }
+
+  const found = await prisma.tag.count({ where: { id: { in: ids } } });
+  if (found !== ids.length) {
+    throw new ValidationError('One or more tags no longer exist', 'tags');
+  }
+  return ids;
+}
+
+// Re-points every article from one tag to another, then removes the first
+export async function mergeTags(sourceId: string, targetId: string) {
+  if (sourceId === targetId) {
+    throw new ValidationError('Choose two different tags to merge');
+  }
+
+  const [source, target] = await Promise.all([
+    prisma.tag.findUnique({ where: { id: sourceId }, include: { articles: { select: { articleId: true } } } }),
+    prisma.tag.findUnique({ where: { id: targetId } }),
+  ]);
+  if (!source || !target) {
+    throw new NotFoundError('Tag not found');
+  }
+
+  await prisma.$transaction([
+    prisma.articleTag.createMany({
+      data: source.articles.map(({ articleId }) => ({ articleId, tagId: targetId })),
+      skipDuplicates: true,
+    }),
+    // Cascades to the source tag's remaining ArticleTag rows
+    prisma.tag.delete({ where: { id: sourceId } }),
+  ]);
+
+  return { source, target, moved: source.articles.length };
+}
@@ -0,0 +1,48 @@
+// Editorial workflow for NAMNGAM articles
+// Pure data and checks so it can be shared by API routes and admin UI.
+
+export type ArticleStatus = 'DRAFT' | 'IN_REVIEW' | 'SCHEDULED' | 'PUBLISHED' | 'ARCHIVED';
+
+export const ARTICLE_STATUSES: ArticleStatus[] = ['DRAFT', 'IN_REVIEW', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED'];
+
+export const ARTICLE_STATUS_LABELS: Record<ArticleStatus, string> = {
+  DRAFT: 'Draft',
+  IN_REVIEW: 'In Review',
+  SCHEDULED: 'Scheduled',
+  PUBLISHED: 'Published',
+  ARCHIVED: 'Archived',
+};
+
+// Status → statuses it may move to (SCHEDULED → SCHEDULED reschedules)
+export const ARTICLE_TRANSITIONS: Record<ArticleStatus, ArticleStatus[]> = {
+  DRAFT: ['IN_REVIEW', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED'],
+  IN_REVIEW: ['DRAFT', 'SCHEDULED', 'PUBLISHED'],
+  SCHEDULED: ['DRAFT', 'SCHEDULED', 'PUBLISHED'],
+  PUBLISHED: ['DRAFT', 'ARCHIVED'],
+  ARCHIVED: ['DRAFT'],
+};
+
+// Statuses that are live, queued to go live or retired; entering or leaving them needs 'publish'
+const PUBLISHING_STATUSES: ArticleStatus[] = ['SCHEDULED', 'PUBLISHED', 'ARCHIVED'];
+
+// Statuses an author may still edit when limited to their own drafts
+const DRAFT_STATUSES: ArticleStatus[] = ['DRAFT', 'IN_REVIEW'];
+
+// Statuses a new article may start in
+export const INITIAL_ARTICLE_STATUSES: ArticleStatus[] = ['DRAFT', 'IN_REVIEW', 'SCHEDULED', 'PUBLISHED'];
+
+export function isArticleStatus(value: unknown): value is ArticleStatus {
+  return typeof value === 'string' && ARTICLE_STATUSES.includes(value as ArticleStatus);
+}
+
+export function canTransition(from: ArticleStatus, to: ArticleStatus): boolean {
+  return ARTICLE_TRANSITIONS[from].includes(to);
+}
+
+export function requiresPublishPermission(from: ArticleStatus | null, to: ArticleStatus): boolean {
+  return PUBLISHING_STATUSES.includes(to) || (from !== null && PUBLISHING_STATUSES.includes(from));
+}
+
+export function isDraftStatus(status: ArticleStatus): boolean {
+  return DRAFT_STATUSES.includes(status);
+}
@@ -1,8 +1,13 @@
-import { NextAuthOptions } from 'next-auth';
+import { NextAuthOptions, getServerSession, Session } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import { compare } from 'bcryptjs';
 import { prisma } from './prisma';
-import { rateLimit, getClientIP, SECURITY_CONFIG } from './security';
+import { getClientIP, SECURITY_CONFIG } from './security';
+import { rateLimit } from './rate-limit';
+import { logActivity } from './activity-log';
+import { AuthenticationError, AuthorizationError } from './error-handler';
+import { can, isLimitedToOwnDrafts, PermissionResource, PermissionAction } from './permissions';
+import { isArticleStatus, isDraftStatus } from './article-workflow';
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -20,7 +25,7 @@ export const authOptions: NextAuthOptions = {
         // Rate limiting for login attempts
         try {
           const clientIP = getClientIP(req);
-          const rateLimitResult = rateLimit(`login:${clientIP}`, SECURITY_CONFIG.LOGIN_RATE_LIMIT_MAX);
+          const rateLimitResult = await rateLimit(`login:${clientIP}`, SECURITY_CONFIG.LOGIN_RATE_LIMIT_MAX);
           
           if (!rateLimitResult.success) {
             throw new Error('Too many login attempts. Please try again later.');
@@ -38,12 +43,26 @@ export const authOptions: NextAuthOptions = {
         });
 
         if (!user || !user.isActive) {
+          await logActivity({
+            request: req,
+            userId: user?.id,
+            action: 'LOGIN_FAILED',
+            resourceType: 'Auth',
+            description: user ? `Login attempt for inactive user ${email}` : `Login attempt for unknown email ${email}`,
+          });
           throw new Error('Invalid credentials');
         }
 
         const isPasswordValid = await compare(password, user.password);
 
         if (!isPasswordValid) {
+          await logActivity({
+            request: req,
+            userId: user.id,
+            action: 'LOGIN_FAILED',
+            resourceType: 'Auth',
+            description: `Wrong password for ${email}`,
+          });
           throw new Error('Invalid credentials');
         }
 
@@ -53,6 +72,15 @@ export const authOptions: NextAuthOptions = {
           data: { lastLoginAt: new Date() },
         });
 
+        await logActivity({
+          request: req,
+          userId: user.id,
+          action: 'LOGIN',
+          resourceType: 'Auth',
+          resourceId: user.id,
+          description: `${user.email} logged in`,
+        });
+
         return {
           id: user.id,
           email: user.email,
@@ -89,3 +117,52 @@ export const authOptions: NextAuthOptions = {
   // @ts-ignore
   secret: process.env.NEXTAUTH_SECRET,
 };
+
+// Require a signed-in user, whatever their role
+export async function requireSession(): Promise<Session> {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    throw new AuthenticationError();
+  }
+  return session;
+}
+
+export function assertPermission(session: Session, resource: PermissionResource, action: PermissionAction) {
+  if (!can(session.user.role, resource, action)) {
+    throw new AuthorizationError(`Your role is not allowed to ${action} ${resource}s`);
+  }
+}
+
+// Require a signed-in user whose role allows `action` on `resource`
+export async function requirePermission(
+  resource: PermissionResource,
+  action: PermissionAction
+): Promise<Session> {
+  const session = await requireSession();
+  assertPermission(session, resource, action);
+  return session;
+}
+
+// Enforce "own drafts only" for roles restricted on this resource
+export function assertCanModifyRecord(
+  session: Session,
+  resource: PermissionResource,
+  record: { createdById: string; isPublished: boolean; status?: string }
+) {
+  if (!isLimitedToOwnDrafts(session.user.role, resource)) return;
+
+  if (record.createdById !== session.user.id) {
+    throw new AuthorizationError(`You can only modify your own ${resource}s`);
+  }
+
+  if (record.isPublished || (isArticleStatus(record.status) && !isDraftStatus(record.status))) {
+    throw new AuthorizationError(`You can only modify unpublished ${resource}s`);
+  }
+}
+
+// Reject publish requests from roles without the publish permission
+export function assertCanPublish(session: Session, resource: PermissionResource, isPublished: unknown) {
+  if (isPublished && !can(session.user.role, resource, 'publish')) {
+    throw new AuthorizationError(`Your role is not allowed to publish ${resource}s`);
+  }
+}
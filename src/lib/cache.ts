@@ -0,0 +1,128 @@
+// Server-side cache for query results. Values live in the shared store; with
+// Redis each process also keeps short-lived local copies, and deletes and tag
+// invalidations are broadcast so other instances drop theirs immediately.
+
+import { getStore, Store } from './store';
+import { createMemoryStore } from './store-memory';
+import { logError } from './error-handler';
+
+const BUST_CHANNEL = 'cache:bust';
+// Upper bound on how stale a local copy can be if a broadcast is missed
+const LOCAL_TTL = 30;
+
+interface BustMessage {
+  keys?: string[];
+  tag?: string;
+}
+
+class SharedCache {
+  private local: Store | null = null;
+  private shared: Store | null = null;
+
+  // Connects on first use rather than at import time, which also runs during builds
+  private stores() {
+    if (!this.local) {
+      const store = getStore();
+      if (store.driver === 'memory') {
+        this.local = store;
+      } else {
+        this.local = createMemoryStore();
+        this.shared = store;
+        store.subscribe(BUST_CHANNEL, (message) => this.applyBust(message));
+      }
+    }
+    return { local: this.local, shared: this.shared };
+  }
+
+  private applyBust(message: string) {
+    try {
+      const { keys, tag } = JSON.parse(message) as BustMessage;
+      if (keys) this.local!.delete(...keys);
+      if (tag) this.local!.invalidateTag(tag);
+    } catch (error) {
+      logError(error, 'Cache - bust message');
+    }
+  }
+
+  private async broadcast(shared: Store, message: BustMessage) {
+    await shared.publish(BUST_CHANNEL, JSON.stringify(message));
+  }
+
+  async get<T = any>(key: string): Promise<T | null> {
+    const { local, shared } = this.stores();
+    const cached = await local.get<T>(key);
+    if (cached !== null || !shared) return cached;
+
+    try {
+      const entry = await shared.get<{ data: T; tags: string[] }>(key);
+      if (!entry) return null;
+
+      await local.set(key, entry.data, LOCAL_TTL, entry.tags);
+      return entry.data;
+    } catch (error) {
+      // Treat an unreachable Redis as a miss so requests still go to the database
+      logError(error, 'Cache - get');
+      return null;
+    }
+  }
+
+  async set(key: string, data: unknown, ttlSeconds: number = 300, tags: string[] = []) {
+    const { local, shared } = this.stores();
+    await local.set(key, data, shared ? Math.min(ttlSeconds, LOCAL_TTL) : ttlSeconds, tags);
+    if (!shared) return;
+
+    try {
+      await shared.set(key, { data, tags }, ttlSeconds, tags);
+    } catch (error) {
+      logError(error, 'Cache - set');
+    }
+  }
+
+  async delete(...keys: string[]) {
+    const { local, shared } = this.stores();
+    await local.delete(...keys);
+    if (!shared) return;
+
+    try {
+      await shared.delete(...keys);
+      await this.broadcast(shared, { keys });
+    } catch (error) {
+      logError(error, 'Cache - delete');
+    }
+  }
+
+  // Drops every entry set with the tag, e.g. all article listings
+  async invalidateTag(tag: string) {
+    const { local, shared } = this.stores();
+    await local.invalidateTag(tag);
+    if (!shared) return;
+
+    try {
+      await shared.invalidateTag(tag);
+      await this.broadcast(shared, { tag });
+    } catch (error) {
+      logError(error, 'Cache - invalidate tag');
+    }
+  }
+}
+
+export const cache = new SharedCache();
+
+// Database query optimization
+export async function createOptimizedQuery<T>(
+  query: () => Promise<T>,
+  cacheKey: string,
+  ttlSeconds: number = 300,
+  tags: string[] = []
+): Promise<T> {
+  // Try to get from cache first
+  const cached = await cache.get<T>(cacheKey);
+  if (cached !== null) {
+    return cached;
+  }
+
+  // If not in cache, execute query
+  const result = await query();
+  await cache.set(cacheKey, result, ttlSeconds, tags);
+  return result;
+}
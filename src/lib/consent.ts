@@ -0,0 +1,137 @@
+// Visitor consent for third-party analytics and marketing scripts. The choice
+// is kept in localStorage on the visitor's device and shared between the
+// banner, the script loader and the event helpers through a window event.
+
+export type ConsentCategory = 'necessary' | 'analytics' | 'marketing';
+
+export interface ConsentState {
+  necessary: true;
+  analytics: boolean;
+  marketing: boolean;
+  // Bumped when the categories change so visitors are asked again
+  version: number;
+  updatedAt: string;
+}
+
+export type GoogleConsentSignal = 'granted' | 'denied';
+
+const STORAGE_KEY = 'namngam-consent';
+const CONSENT_VERSION = 1;
+const CHANGE_EVENT = 'namngam:consent-change';
+const OPEN_EVENT = 'namngam:consent-open';
+
+// Standard events and their names in GA4 and the Facebook Pixel
+const STANDARD_EVENTS = {
+  ViewContent: 'view_item',
+  Contact: 'contact',
+} as const;
+
+export type StandardEvent = keyof typeof STANDARD_EVENTS;
+
+type TrackerCategory = Exclude<ConsentCategory, 'necessary'>;
+
+declare global {
+  interface Window {
+    dataLayer?: unknown[];
+    gtag?: (...args: unknown[]) => void;
+    fbq?: (...args: unknown[]) => void;
+  }
+}
+
+// Events fired before a consented tracker finished initializing, e.g. on the landing page
+const MAX_PENDING_EVENTS = 20;
+const pendingEvents: Record<TrackerCategory, Array<[StandardEvent, Record<string, unknown>]>> = {
+  analytics: [],
+  marketing: [],
+};
+
+function sendEvent(category: TrackerCategory, event: StandardEvent, params: Record<string, unknown>) {
+  if (category === 'analytics') {
+    window.gtag!('event', STANDARD_EVENTS[event], params);
+  } else {
+    window.fbq!('track', event, params);
+  }
+}
+
+// null until the visitor has made a choice for the current version
+export function readConsent(): ConsentState | null {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return stored?.version === CONSENT_VERSION ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveConsent(choice: { analytics: boolean; marketing: boolean }): ConsentState {
+  const state: ConsentState = {
+    necessary: true,
+    analytics: choice.analytics,
+    marketing: choice.marketing,
+    version: CONSENT_VERSION,
+    updatedAt: new Date().toISOString(),
+  };
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch {
+    // Private browsing: the choice still applies to this page view
+  }
+  window.dispatchEvent(new CustomEvent<ConsentState>(CHANGE_EVENT, { detail: state }));
+  return state;
+}
+
+export function onConsentChange(listener: (state: ConsentState) => void): () => void {
+  const handler = (event: Event) => listener((event as CustomEvent<ConsentState>).detail);
+  window.addEventListener(CHANGE_EVENT, handler);
+  return () => window.removeEventListener(CHANGE_EVENT, handler);
+}
+
+// Lets a footer link reopen the banner after the first choice
+export function openConsentSettings() {
+  window.dispatchEvent(new Event(OPEN_EVENT));
+}
+
+export function onConsentSettingsOpen(listener: () => void): () => void {
+  window.addEventListener(OPEN_EVENT, listener);
+  return () => window.removeEventListener(OPEN_EVENT, listener);
+}
+
+// Google Consent Mode v2 signals for a consent state; null means nothing granted yet
+export function toGoogleConsent(state: ConsentState | null): Record<string, GoogleConsentSignal> {
+  const signal = (granted: boolean | undefined): GoogleConsentSignal => (granted ? 'granted' : 'denied');
+
+  return {
+    analytics_storage: signal(state?.analytics),
+    ad_storage: signal(state?.marketing),
+    ad_user_data: signal(state?.marketing),
+    ad_personalization: signal(state?.marketing),
+    functionality_storage: 'granted',
+    security_storage: 'granted',
+  };
+}
+
+// Sends a standard event to whichever trackers the visitor allowed; without
+// consent the event is dropped
+export function trackEvent(event: StandardEvent, params: Record<string, unknown> = {}) {
+  if (typeof window === 'undefined') return;
+  const consent = readConsent();
+
+  (['analytics', 'marketing'] as const).forEach((category) => {
+    if (!consent?.[category]) return;
+
+    const ready = category === 'analytics' ? window.gtag : window.fbq;
+    if (ready) {
+      sendEvent(category, event, params);
+    } else if (pendingEvents[category].length < MAX_PENDING_EVENTS) {
+      pendingEvents[category].push([event, params]);
+    }
+  });
+}
+
+// Called by a tracker once it is initialized
+export function flushEvents(category: TrackerCategory) {
+  pendingEvents[category].splice(0).forEach(([event, params]) => sendEvent(category, event, params));
+}
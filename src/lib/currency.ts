@@ -0,0 +1,56 @@
+// Display currencies and price conversion; safe to import from client components
+
+import type { PriceRange } from './utils';
+
+// Canonical currency: product prices are stored in it and rates are relative to it
+export const BASE_CURRENCY = 'LAK';
+
+export const CURRENCIES = ['LAK', 'THB', 'CNY', 'USD'] as const;
+
+export type Currency = (typeof CURRENCIES)[number];
+
+export const CURRENCY_LABELS: Record<Currency, string> = {
+  LAK: '₭ LAK',
+  THB: '฿ THB',
+  CNY: '¥ CNY',
+  USD: '$ USD',
+};
+
+// Fallbacks when SiteSettings has not been saved yet
+export const DEFAULT_DISPLAY_CURRENCIES: Record<string, Currency> = {
+  lo: 'LAK',
+  th: 'THB',
+  zh: 'CNY',
+  en: 'USD',
+};
+
+// LAK per unit of each currency
+export type ExchangeRates = Record<string, number>;
+
+export function isCurrency(value: unknown): value is Currency {
+  return typeof value === 'string' && CURRENCIES.includes(value as Currency);
+}
+
+// Convert between any two currencies via LAK; null when a rate is missing
+export function convertPrice(amount: number, from: string, to: string, rates: ExchangeRates): number | null {
+  if (from === to) return amount;
+
+  const fromRate = from === BASE_CURRENCY ? 1 : rates[from];
+  const toRate = to === BASE_CURRENCY ? 1 : rates[to];
+  if (!fromRate || !toRate) return null;
+
+  const converted = (amount * fromRate) / toRate;
+  // Kip has no minor unit in practice; other currencies keep cents
+  return to === BASE_CURRENCY ? Math.round(converted) : Math.round(converted * 100) / 100;
+}
+
+export function convertPriceRange(
+  range: PriceRange,
+  from: string,
+  to: string,
+  rates: ExchangeRates
+): PriceRange | null {
+  const min = convertPrice(range.min, from, to, rates);
+  const max = convertPrice(range.max, from, to, rates);
+  return min !== null && max !== null ? { min, max } : null;
+}
@@ -0,0 +1,57 @@
+// Exchange rates and per-locale display currencies for the storefront
+
+import { prisma } from './prisma';
+import { cache } from './cache';
+import { locales } from '@/i18n';
+import { DEFAULT_DISPLAY_CURRENCIES, ExchangeRates, isCurrency, Currency } from './currency';
+
+const CACHE_KEY = 'currency_config';
+
+export interface CurrencyConfig {
+  rates: ExchangeRates;
+  updatedAt: string | null;
+  defaults: Record<string, Currency>;
+}
+
+export async function getCurrencyConfig(): Promise<CurrencyConfig> {
+  const cached = await cache.get<CurrencyConfig>(CACHE_KEY);
+  if (cached) return cached;
+
+  const [rates, settings] = await Promise.all([
+    prisma.exchangeRate.findMany({ orderBy: { currency: 'asc' } }),
+    prisma.siteSettings.findUnique({
+      where: { id: 'site_settings' },
+      select: {
+        displayCurrency_lo: true,
+        displayCurrency_th: true,
+        displayCurrency_zh: true,
+        displayCurrency_en: true,
+      },
+    }),
+  ]);
+
+  const defaults = Object.fromEntries(
+    locales.map((locale) => {
+      const value = settings?.[`displayCurrency_${locale}` as keyof typeof settings];
+      return [locale, isCurrency(value) ? value : DEFAULT_DISPLAY_CURRENCIES[locale]];
+    })
+  );
+
+  const updatedAt = rates.reduce<Date | null>(
+    (latest, rate) => (!latest || rate.updatedAt > latest ? rate.updatedAt : latest),
+    null
+  );
+
+  const config: CurrencyConfig = {
+    rates: Object.fromEntries(rates.map((rate) => [rate.currency, Number(rate.rate)])),
+    updatedAt: updatedAt ? updatedAt.toISOString() : null,
+    defaults,
+  };
+
+  await cache.set(CACHE_KEY, config, 300); // 5 minutes cache
+  return config;
+}
+
+export async function invalidateCurrencyConfig() {
+  await cache.delete(CACHE_KEY);
+}
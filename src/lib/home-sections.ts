@@ -0,0 +1,155 @@
+// Homepage builder: ordered, configurable sections stored in HomeSection
+
+import { HomeSection, Prisma, SectionType } from '@prisma/client';
+import { prisma } from './prisma';
+import { ImageDerivative } from './performance';
+import { cache } from './cache';
+import { getDerivativesByUrl } from './image-derivatives';
+import { ValidationError } from './error-handler';
+import { OrderedList } from './ordered-list';
+import { locales } from '@/i18n';
+
+const CACHE_KEY = 'home_sections';
+
+export const SECTION_TYPES: SectionType[] = ['HERO', 'ABOUT', 'PRODUCTS', 'ARTICLES', 'FAQ', 'CONTACT', 'CUSTOM'];
+
+// Section types that show a list of items and how many they may show
+export const SECTION_LIMITS: Partial<Record<SectionType, { default: number; max: number }>> = {
+  PRODUCTS: { default: 3, max: 12 },
+  ARTICLES: { default: 2, max: 12 },
+  FAQ: { default: 4, max: 20 },
+};
+
+// Section types that can be restricted to featured items
+const FEATURED_FILTER_TYPES: SectionType[] = ['PRODUCTS', 'ARTICLES'];
+
+// Layout used until an admin saves the first section
+const DEFAULT_LAYOUT: SectionType[] = ['HERO', 'ABOUT', 'PRODUCTS', 'ARTICLES', 'FAQ'];
+
+export interface HomeSectionSettings {
+  limit?: number;
+  featuredOnly?: boolean;
+}
+
+export type PublicHomeSection = Omit<HomeSection, 'settings' | 'isActive' | 'createdAt' | 'updatedAt'> & {
+  settings: HomeSectionSettings;
+  // Responsive versions of backgroundImage when it is an upload
+  backgroundDerivatives: ImageDerivative[];
+};
+
+export function isSectionType(value: unknown): value is SectionType {
+  return typeof value === 'string' && SECTION_TYPES.includes(value as SectionType);
+}
+
+// Keep only the settings that apply to the section type, with defaults filled in
+export function parseSectionSettings(type: SectionType, raw: unknown): HomeSectionSettings {
+  const input = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const settings: HomeSectionSettings = {};
+
+  const limits = SECTION_LIMITS[type];
+  if (limits) {
+    const limit = input.limit === undefined || input.limit === '' ? limits.default : Number(input.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > limits.max) {
+      throw new ValidationError(`Item count must be between 1 and ${limits.max}`, 'limit');
+    }
+    settings.limit = limit;
+  }
+
+  if (FEATURED_FILTER_TYPES.includes(type)) {
+    settings.featuredOnly = input.featuredOnly !== false;
+  }
+
+  return settings;
+}
+
+function optionalText(value: unknown, max: number) {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().substring(0, max);
+  return text || null;
+}
+
+export function parseHomeSectionInput(body: any) {
+  if (!isSectionType(body?.type)) {
+    throw new ValidationError(`Invalid section type: ${body?.type}`, 'type');
+  }
+  const type: SectionType = body.type;
+
+  const data: Prisma.HomeSectionCreateInput = {
+    type,
+    backgroundImage: optionalText(body.backgroundImage, 500),
+    settings: parseSectionSettings(type, body.settings) as Prisma.InputJsonObject,
+    isActive: body.isActive !== false,
+  };
+
+  for (const locale of locales) {
+    data[`title_${locale}`] = optionalText(body[`title_${locale}`], 200);
+    data[`subtitle_${locale}`] = optionalText(body[`subtitle_${locale}`], 500);
+    // Only custom sections carry their own rich text; it is stored as HTML like article content
+    const content = type === 'CUSTOM' ? optionalText(body[`content_${locale}`], 100000) : null;
+    data[`content_${locale}`] = content ?? Prisma.DbNull;
+  }
+
+  if (type === 'CUSTOM' && data.content_lo === Prisma.DbNull) {
+    throw new ValidationError('Lao content is required for custom sections', 'content_lo');
+  }
+
+  return data;
+}
+
+function defaultSection(type: SectionType, order: number): PublicHomeSection {
+  return {
+    id: `default-${type.toLowerCase()}`,
+    type,
+    title_lo: null,
+    title_th: null,
+    title_zh: null,
+    title_en: null,
+    subtitle_lo: null,
+    subtitle_th: null,
+    subtitle_zh: null,
+    subtitle_en: null,
+    content_lo: null,
+    content_th: null,
+    content_zh: null,
+    content_en: null,
+    backgroundImage: null,
+    order,
+    settings: parseSectionSettings(type, {}),
+    backgroundDerivatives: [],
+  };
+}
+
+export async function getHomeSections(): Promise<PublicHomeSection[]> {
+  const cached = await cache.get<PublicHomeSection[]>(CACHE_KEY);
+  if (cached) return cached;
+
+  const sections = await prisma.homeSection.findMany({
+    orderBy: { order: 'asc' },
+  });
+
+  const activeSections = sections.filter((section) => section.isActive);
+  const derivatives = await getDerivativesByUrl(
+    activeSections.map((section) => section.backgroundImage || '')
+  );
+
+  const result = sections.length === 0
+    ? DEFAULT_LAYOUT.map(defaultSection)
+    : activeSections.map(({ isActive, createdAt, updatedAt, settings, ...section }) => ({
+        ...section,
+        settings: parseSectionSettings(section.type, settings),
+        backgroundDerivatives: (section.backgroundImage && derivatives[section.backgroundImage]) || [],
+      }));
+
+  await cache.set(CACHE_KEY, result, 300); // 5 minutes cache
+  return result;
+}
+
+export async function invalidateHomeSections() {
+  await cache.delete(CACHE_KEY);
+}
+
+export const homeSectionList: OrderedList = {
+  model: 'homeSection',
+  label: 'section',
+  invalidate: invalidateHomeSections,
+};
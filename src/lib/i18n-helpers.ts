@@ -1,5 +1,13 @@
 import { Locale } from '@/i18n';
 
+// English names for the admin, which is not itself localized
+export const LOCALE_LABELS: Record<Locale, string> = {
+  lo: 'Lao',
+  th: 'Thai',
+  zh: 'Chinese',
+  en: 'English',
+};
+
 export function getLocalizedField<T extends Record<string, any>>(
   obj: T,
   fieldName: string,
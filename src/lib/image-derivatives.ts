@@ -0,0 +1,142 @@
+import sharp from 'sharp';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ImageDerivative, ImageDerivativeFormat, parseImageDerivatives } from '@/lib/performance';
+import { StorageAdapter, getStorageFor, isStorageBackend, mediaKey, mediaUrl } from '@/lib/storage';
+import { perceptualHash, sha256Hex } from '@/lib/image-hash';
+
+// Widths generated for each upload; widths above the original are skipped
+export const DERIVATIVE_WIDTHS = [320, 640, 1024, 1600];
+
+export const DERIVATIVE_FORMATS: ImageDerivativeFormat[] = ['avif', 'webp'];
+
+// GIFs may be animated and SVGs scale on their own, so only raster stills get derivatives
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/avif'];
+
+export function supportsDerivatives(mimeType: string): boolean {
+  return SUPPORTED_MIME_TYPES.includes(mimeType);
+}
+
+// "products/123-abc.jpg" -> "products/123-abc-640w.webp"
+export function derivativeKey(key: string, width: number, format: ImageDerivativeFormat): string {
+  return `${key.replace(/\.[^./]+$/, '')}-${width}w.${format}`;
+}
+
+function encode(image: sharp.Sharp, format: ImageDerivativeFormat) {
+  return format === 'avif' ? image.avif({ quality: 50 }) : image.webp({ quality: 75 });
+}
+
+export async function generateDerivatives(
+  source: Buffer,
+  key: string,
+  storage: StorageAdapter
+): Promise<ImageDerivative[]> {
+  const metadata = await sharp(source).metadata();
+  if (!metadata.width) return [];
+
+  const widths = DERIVATIVE_WIDTHS.filter((width) => width < metadata.width!);
+  // Small images still get one re-encoded copy at their own size
+  if (widths.length === 0) widths.push(metadata.width);
+
+  const derivatives: ImageDerivative[] = [];
+
+  for (const width of widths) {
+    for (const format of DERIVATIVE_FORMATS) {
+      const resized = sharp(source).rotate().resize(width, null, { withoutEnlargement: true });
+      const { data, info } = await encode(resized, format).toBuffer({ resolveWithObject: true });
+      const outputKey = derivativeKey(key, width, format);
+
+      await storage.put(outputKey, data, `image/${format}`);
+      derivatives.push({
+        format,
+        width: info.width,
+        height: info.height,
+        size: info.size,
+        url: mediaUrl(outputKey),
+      });
+    }
+  }
+
+  return derivatives;
+}
+
+export async function deleteDerivatives(storage: StorageAdapter, derivatives: unknown) {
+  for (const derivative of parseImageDerivatives(derivatives)) {
+    await storage.delete(mediaKey(derivative));
+  }
+}
+
+// Supported images never processed, or uploaded before content hashes were recorded
+const pendingWhere: Prisma.MediaWhereInput = {
+  mimeType: { in: SUPPORTED_MIME_TYPES },
+  OR: [{ derivatives: { equals: Prisma.DbNull } }, { hashedAt: null }],
+};
+
+export function countPendingDerivatives() {
+  return prisma.media.count({ where: pendingWhere });
+}
+
+// Processes one batch of existing uploads; call repeatedly until nothing remains
+export async function backfillDerivatives(batchSize: number = 10) {
+  const media = await prisma.media.findMany({
+    where: pendingWhere,
+    orderBy: { uploadedAt: 'desc' },
+    take: batchSize,
+  });
+
+  let processed = 0;
+  const failed: string[] = [];
+
+  for (const item of media) {
+    const storage = getStorageFor(isStorageBackend(item.storage) ? item.storage : 'local');
+    const key = mediaKey(item);
+
+    try {
+      const file = await storage.get(key);
+      // Missing originals are marked with an empty list so they are not retried forever
+      const derivatives = item.derivatives !== null
+        ? item.derivatives
+        : file ? await generateDerivatives(file.body, key, storage) : [];
+
+      // The upload route's duplicate check matches on sha256. Older uploads only kept
+      // the optimized file, so re-uploading an original may still not match them.
+      await prisma.media.update({
+        where: { id: item.id },
+        data: {
+          derivatives: derivatives as unknown as Prisma.InputJsonArray,
+          sha256: item.sha256 ?? (file ? sha256Hex(file.body) : null),
+          phash: item.phash || (file && (await perceptualHash(file.body))) || null,
+          hashedAt: new Date(),
+        },
+      });
+      processed++;
+    } catch (error) {
+      console.error(`Failed to generate derivatives for ${key}:`, error);
+      failed.push(item.id);
+      // Mark as processed too, so one unreadable file does not stall the backfill
+      await prisma.media.update({
+        where: { id: item.id },
+        data: { derivatives: item.derivatives ?? [], phash: item.phash || null, hashedAt: new Date() },
+      });
+    }
+  }
+
+  return {
+    processed,
+    failed: failed.length,
+    remaining: await countPendingDerivatives(),
+  };
+}
+
+// Derivatives for images referenced by URL (e.g. section backgrounds), keyed by URL
+export async function getDerivativesByUrl(urls: string[]): Promise<Record<string, ImageDerivative[]>> {
+  const uploads = Array.from(new Set(urls.filter((url) => url.startsWith('/uploads/'))));
+  if (uploads.length === 0) return {};
+
+  const media = await prisma.media.findMany({
+    where: { url: { in: uploads } },
+    select: { url: true, derivatives: true },
+  });
+
+  return Object.fromEntries(media.map((item) => [item.url, parseImageDerivatives(item.derivatives)]));
+}
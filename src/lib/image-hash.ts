@@ -0,0 +1,72 @@
+// Fingerprints for spotting re-uploaded images: SHA-256 for byte-identical files
+// and a 64-bit difference hash (dHash) for visually similar ones.
+
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { prisma } from '@/lib/prisma';
+
+// Bits (out of 64) two hashes may differ by and still count as the same picture
+export const NEAR_DUPLICATE_THRESHOLD = 10;
+
+export function sha256Hex(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+// Shrinks to 9x8 grayscale and records whether each pixel is brighter than its right
+// neighbor, so resizing, recompression and small color shifts give the same hash.
+export async function perceptualHash(data: Buffer): Promise<string | null> {
+  try {
+    const pixels = await sharp(data)
+      .rotate()
+      .grayscale()
+      .resize(9, 8, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    let hex = '';
+    for (let row = 0; row < 8; row++) {
+      let byte = 0;
+      for (let col = 0; col < 8; col++) {
+        const offset = row * 9 + col;
+        byte = (byte << 1) | (pixels[offset] > pixels[offset + 1] ? 1 : 0);
+      }
+      hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+  } catch {
+    // Formats sharp cannot decode simply go without a hash
+    return null;
+  }
+}
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+}
+
+// Library images that look like the given hash, closest first. Only hashed rows
+// are loaded (images that could not be hashed keep phash null), with just the
+// columns the upload response shows.
+export async function findSimilarMedia(phash: string, excludeId?: string, limit: number = 6) {
+  const candidates = await prisma.media.findMany({
+    where: {
+      phash: { not: null },
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    select: { id: true, url: true, originalName: true, width: true, height: true, folder: true, phash: true },
+  });
+
+  return candidates
+    .map(({ phash: candidateHash, ...media }) => ({
+      ...media,
+      distance: hammingDistance(phash, candidateHash!),
+    }))
+    .filter((media) => media.distance <= NEAR_DUPLICATE_THRESHOLD)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit);
+}
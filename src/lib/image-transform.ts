@@ -0,0 +1,190 @@
+// On-the-fly resizing for /uploads/<key>?w=&h=&fit=&format=&q=, cached on disk.
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { ValidationError } from '@/lib/error-handler';
+import { IMAGE_TRANSFORM_QUALITIES, IMAGE_TRANSFORM_SIZES } from '@/lib/performance';
+import { cache } from '@/lib/cache';
+import { prisma } from '@/lib/prisma';
+import { mediaUrl } from '@/lib/storage';
+
+export type TransformFit = 'cover' | 'contain' | 'inside';
+export type TransformFormat = 'avif' | 'webp' | 'jpeg' | 'png';
+
+const FITS: TransformFit[] = ['cover', 'contain', 'inside'];
+const FORMATS: TransformFormat[] = ['avif', 'webp', 'jpeg', 'png'];
+
+const DEFAULT_QUALITY = 80;
+
+// Source formats sharp can re-encode; SVGs and GIFs are always served as stored
+const TRANSFORMABLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/avif'];
+
+const CACHE_DIR = process.env.IMAGE_CACHE_DIR || path.join(process.cwd(), '.next', 'cache', 'uploads');
+
+export interface TransformParams {
+  width?: number;
+  height?: number;
+  fit: TransformFit;
+  // 'auto' picks AVIF or WebP from the Accept header
+  format: TransformFormat | 'auto';
+  quality: number;
+}
+
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+function parseAllowed(value: string | null, allowed: number[], name: string): number | undefined {
+  if (value === null) return undefined;
+  const number = Number(value);
+  if (!allowed.includes(number)) {
+    throw new ValidationError(`Unsupported ${name}; use one of ${allowed.join(', ')}`, name);
+  }
+  return number;
+}
+
+// Null when the request has no transform parameters and the original should be served
+export function parseTransformParams(searchParams: URLSearchParams): TransformParams | null {
+  const keys = ['w', 'h', 'fit', 'format', 'q'];
+  if (!keys.some((key) => searchParams.has(key))) return null;
+
+  const fit = searchParams.get('fit') || 'cover';
+  if (!FITS.includes(fit as TransformFit)) {
+    throw new ValidationError(`Unsupported fit; use one of ${FITS.join(', ')}`, 'fit');
+  }
+
+  const format = searchParams.get('format') || 'auto';
+  if (format !== 'auto' && !FORMATS.includes(format as TransformFormat)) {
+    throw new ValidationError(`Unsupported format; use auto or one of ${FORMATS.join(', ')}`, 'format');
+  }
+
+  return {
+    width: parseAllowed(searchParams.get('w'), IMAGE_TRANSFORM_SIZES, 'w'),
+    height: parseAllowed(searchParams.get('h'), IMAGE_TRANSFORM_SIZES, 'h'),
+    fit: fit as TransformFit,
+    format: format as TransformFormat | 'auto',
+    quality: parseAllowed(searchParams.get('q'), IMAGE_TRANSFORM_QUALITIES, 'q') ?? DEFAULT_QUALITY,
+  };
+}
+
+export function isTransformable(contentType: string): boolean {
+  return TRANSFORMABLE_TYPES.includes(contentType);
+}
+
+// Best format the browser accepts, falling back to the source's own format
+export function negotiateFormat(params: TransformParams, accept: string, sourceType: string): TransformFormat {
+  if (params.format !== 'auto') return params.format;
+  if (accept.includes('image/avif')) return 'avif';
+  if (accept.includes('image/webp')) return 'webp';
+  return sourceType === 'image/png' ? 'png' : 'jpeg';
+}
+
+const FOCAL_CACHE_PREFIX = 'media_focal:';
+
+// Editor-chosen crop centre for an upload, or null to crop around the middle
+export async function getFocalPoint(key: string): Promise<FocalPoint | null> {
+  const cacheKey = `${FOCAL_CACHE_PREFIX}${key}`;
+  const cached = await cache.get<{ point: FocalPoint | null }>(cacheKey);
+  if (cached !== null) return cached.point;
+
+  const media = await prisma.media.findFirst({
+    where: { url: mediaUrl(key) },
+    select: { focalX: true, focalY: true },
+  });
+  const point = media && media.focalX !== null && media.focalY !== null
+    ? { x: media.focalX, y: media.focalY }
+    : null;
+
+  // Wrapped so a missing focal point is cached too
+  await cache.set(cacheKey, { point }, 300);
+  return point;
+}
+
+// Drops cached variants of one upload, e.g. after its focal point changes or it is deleted
+export async function invalidateTransforms(key: string) {
+  await cache.delete(`${FOCAL_CACHE_PREFIX}${key}`);
+  await rm(path.join(CACHE_DIR, ...key.split('/')), { recursive: true, force: true });
+}
+
+export function transformETag(key: string, params: TransformParams, format: TransformFormat, focal: FocalPoint | null) {
+  const hash = createHash('sha1')
+    .update(JSON.stringify([key, params.width, params.height, params.fit, format, params.quality, focal]))
+    .digest('hex')
+    .slice(0, 20);
+  return `"${hash}"`;
+}
+
+function cachePath(key: string, etag: string, format: TransformFormat) {
+  return path.join(CACHE_DIR, ...key.split('/'), `${etag.replace(/"/g, '')}.${format}`);
+}
+
+export async function readCachedTransform(key: string, etag: string, format: TransformFormat) {
+  try {
+    return await readFile(cachePath(key, etag, format));
+  } catch {
+    return null;
+  }
+}
+
+export async function writeCachedTransform(key: string, etag: string, format: TransformFormat, data: Buffer) {
+  const filePath = cachePath(key, etag, format);
+  try {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+  } catch (error) {
+    // A read-only or full disk only costs a re-render next time
+    console.error('Image cache write error:', error);
+  }
+}
+
+export async function transformImage(
+  source: Buffer,
+  params: TransformParams,
+  format: TransformFormat,
+  focal: FocalPoint | null
+): Promise<Buffer> {
+  const image = sharp(source).rotate();
+  const { width, height } = params;
+
+  if (width && height && params.fit === 'cover' && focal) {
+    // sharp only crops around fixed gravities, so scale to cover and cut the box around the focal point
+    const metadata = await sharp(source).metadata();
+    const rotated = (metadata.orientation || 1) >= 5;
+    const sourceWidth = (rotated ? metadata.height : metadata.width) || width;
+    const sourceHeight = (rotated ? metadata.width : metadata.height) || height;
+
+    const scale = Math.max(width / sourceWidth, height / sourceHeight);
+    const scaledWidth = Math.max(width, Math.round(sourceWidth * scale));
+    const scaledHeight = Math.max(height, Math.round(sourceHeight * scale));
+    const left = Math.min(Math.max(Math.round(focal.x * scaledWidth - width / 2), 0), scaledWidth - width);
+    const top = Math.min(Math.max(Math.round(focal.y * scaledHeight - height / 2), 0), scaledHeight - height);
+
+    image.resize(scaledWidth, scaledHeight, { fit: 'fill' }).extract({ left, top, width, height });
+  } else if (width || height) {
+    image.resize(width || null, height || null, {
+      fit: params.fit,
+      withoutEnlargement: params.fit === 'inside',
+      // Letterboxing is transparent except in JPEG, which has no alpha
+      background: { r: 255, g: 255, b: 255, alpha: format === 'jpeg' ? 1 : 0 },
+    });
+  }
+
+  switch (format) {
+    case 'avif':
+      image.avif({ quality: params.quality });
+      break;
+    case 'webp':
+      image.webp({ quality: params.quality });
+      break;
+    case 'png':
+      image.png({ compressionLevel: 9 });
+      break;
+    default:
+      image.jpeg({ quality: params.quality, progressive: true });
+  }
+
+  return image.toBuffer();
+}
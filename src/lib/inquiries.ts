@@ -0,0 +1,174 @@
+// Contact form inquiries: spam challenge, validation and CSV export
+
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { InquiryStatus, Prisma } from '@prisma/client';
+import { ValidationError, logError } from './error-handler';
+import { getStore } from './store';
+import { createMemoryStore } from './store-memory';
+import { locales, Locale } from '@/i18n';
+
+export const INQUIRY_STATUSES: InquiryStatus[] = ['NEW', 'IN_PROGRESS', 'CLOSED'];
+
+// Submissions faster than this after loading the form are treated as bots
+const MIN_FILL_TIME_MS = 3 * 1000;
+const CHALLENGE_TTL_MS = 60 * 60 * 1000;
+
+// Remembers used challenge nonces while the shared store is unreachable
+const usedNoncesFallback = createMemoryStore();
+
+export const inquiryInclude = {
+  product: {
+    select: {
+      id: true,
+      slug: true,
+      name_lo: true,
+      name_en: true,
+    },
+  },
+  assignee: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} satisfies Prisma.InquiryInclude;
+
+export function isInquiryStatus(value: unknown): value is InquiryStatus {
+  return typeof value === 'string' && INQUIRY_STATUSES.includes(value as InquiryStatus);
+}
+
+function sign(issuedAt: number, nonce: string, answer: string) {
+  return createHmac('sha256', process.env.NEXTAUTH_SECRET || 'namngam-inquiry')
+    .update(`inquiry:${issuedAt}:${nonce}:${answer}`)
+    .digest('base64url');
+}
+
+// Each token is accepted once; its nonce is remembered until the token would have expired anyway
+async function claimNonce(nonce: string) {
+  const key = `inquiry-challenge:${nonce}`;
+  const ttlSeconds = CHALLENGE_TTL_MS / 1000;
+
+  try {
+    return await getStore().claim(key, ttlSeconds);
+  } catch (error) {
+    logError(error, 'Inquiry challenge');
+    return usedNoncesFallback.claim(key, ttlSeconds);
+  }
+}
+
+// A small sum whose answer is only recoverable through the signed token
+export function createChallenge() {
+  const a = randomInt(1, 10);
+  const b = randomInt(1, 10);
+  const issuedAt = Date.now();
+  const nonce = randomBytes(12).toString('base64url');
+
+  return {
+    question: `${a} + ${b}`,
+    token: `${issuedAt}.${nonce}.${sign(issuedAt, nonce, String(a + b))}`,
+  };
+}
+
+export async function verifyChallenge(token: unknown, answer: unknown) {
+  if (typeof token !== 'string' || (typeof answer !== 'string' && typeof answer !== 'number')) {
+    throw new ValidationError('Please answer the security question', 'challenge');
+  }
+
+  const [issued, nonce, signature] = token.split('.');
+  const issuedAt = Number(issued);
+  const age = Date.now() - issuedAt;
+  if (!issuedAt || !nonce || !signature || age < MIN_FILL_TIME_MS || age > CHALLENGE_TTL_MS) {
+    throw new ValidationError('The form has expired, please try again', 'challenge');
+  }
+
+  const expected = Buffer.from(sign(issuedAt, nonce, String(answer).trim()));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new ValidationError('Incorrect answer to the security question', 'challenge');
+  }
+
+  if (!(await claimNonce(nonce))) {
+    throw new ValidationError('This form was already submitted, please reload it to send another inquiry', 'challenge');
+  }
+}
+
+function optionalText(value: unknown, max: number) {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().substring(0, max);
+  return text || null;
+}
+
+export function parseInquiryInput(body: any) {
+  const name = optionalText(body?.name, 100);
+  const email = optionalText(body?.email, 200);
+  const phone = optionalText(body?.phone, 50);
+  const message = optionalText(body?.message, 5000);
+  const locale = locales.includes(body?.locale) ? (body.locale as Locale) : 'lo';
+
+  if (!name) {
+    throw new ValidationError('Name is required', 'name');
+  }
+  if (!email && !phone) {
+    throw new ValidationError('Please provide an email or phone number', 'email');
+  }
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new ValidationError('Invalid email address', 'email');
+  }
+  if (!message) {
+    throw new ValidationError('Message is required', 'message');
+  }
+
+  return {
+    name,
+    email,
+    phone,
+    message,
+    locale,
+    productId: optionalText(body?.productId, 50),
+  };
+}
+
+// Filters shared by the inbox list and the CSV export
+export function buildInquiryWhere(searchParams: URLSearchParams): Prisma.InquiryWhereInput {
+  const where: Prisma.InquiryWhereInput = {};
+
+  const status = searchParams.get('status');
+  if (status) {
+    if (!isInquiryStatus(status)) {
+      throw new ValidationError(`Invalid status: ${status}`);
+    }
+    where.status = status;
+  }
+
+  const assigneeId = searchParams.get('assigneeId');
+  if (assigneeId === 'unassigned') {
+    where.assigneeId = null;
+  } else if (assigneeId) {
+    where.assigneeId = assigneeId;
+  }
+
+  const search = searchParams.get('search')?.trim();
+  if (search) {
+    where.OR = [
+      { name: { contains: search, mode: 'insensitive' } },
+      { email: { contains: search, mode: 'insensitive' } },
+      { phone: { contains: search } },
+      { message: { contains: search, mode: 'insensitive' } },
+    ];
+  }
+
+  return where;
+}
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  // Quote everything and neutralise spreadsheet formulas
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
+
+export function toCsv(headers: string[], rows: unknown[][]) {
+  return [headers, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
@@ -0,0 +1,17 @@
+// Requests the middleware makes to the app's own API routes for work that
+// cannot run on the Edge runtime. They carry INTERNAL_API_KEY in a header, a
+// secret of its own so a leak cannot be used to sign sessions.
+
+import { timingSafeEqual } from 'crypto';
+
+const INTERNAL_KEY_HEADER = 'x-internal-key';
+
+export function isInternalRequest(request: { headers: Headers }) {
+  const key = request.headers.get(INTERNAL_KEY_HEADER);
+  const secret = process.env.INTERNAL_API_KEY;
+  if (!key || !secret) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(key);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
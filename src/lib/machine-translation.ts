@@ -0,0 +1,145 @@
+// Machine-translation assist for the admin forms. Providers only ever see plain
+// strings; rich text is translated one TipTap text node at a time so marks
+// (bold, links...) stay on the words they were on.
+
+import { locales, Locale } from '@/i18n';
+import { AppError, ValidationError } from './error-handler';
+import { createLibreTranslateProvider } from './translation-libre';
+import { createMockTranslationProvider } from './translation-mock';
+
+export type TranslationProviderName = 'libretranslate' | 'mock';
+
+export const TRANSLATION_PROVIDERS: TranslationProviderName[] = ['libretranslate', 'mock'];
+
+export interface TranslationProvider {
+  readonly name: TranslationProviderName;
+  // One result per input, in the same order
+  translate(texts: string[], source: Locale, target: Locale): Promise<string[]>;
+}
+
+export interface TipTapNode {
+  type?: string;
+  text?: string;
+  marks?: { type: string; attrs?: Record<string, unknown> }[];
+  attrs?: Record<string, unknown>;
+  content?: TipTapNode[];
+}
+
+// Requests stay well under the provider's character limit
+const BATCH_SIZE = 50;
+
+export function isTranslationProvider(value: unknown): value is TranslationProviderName {
+  return typeof value === 'string' && TRANSLATION_PROVIDERS.includes(value as TranslationProviderName);
+}
+
+let provider: TranslationProvider | null = null;
+
+// Provider chosen with TRANSLATION_PROVIDER; unset means the feature is off
+export function getTranslationProvider(): TranslationProvider {
+  const name = process.env.TRANSLATION_PROVIDER;
+  if (!name) {
+    throw new AppError('Machine translation is not configured', 503, true, 'TRANSLATION_UNAVAILABLE');
+  }
+  if (!isTranslationProvider(name)) {
+    throw new Error(`Unknown TRANSLATION_PROVIDER: ${name}`);
+  }
+
+  if (!provider || provider.name !== name) {
+    provider = name === 'libretranslate' ? createLibreTranslateProvider() : createMockTranslationProvider();
+  }
+  return provider;
+}
+
+export function parseTranslationPair(source: unknown, target: unknown): { source: Locale; target: Locale } {
+  if (!locales.includes(source as Locale)) {
+    throw new ValidationError(`Invalid source language: ${source}`, 'source');
+  }
+  if (!locales.includes(target as Locale)) {
+    throw new ValidationError(`Invalid target language: ${target}`, 'target');
+  }
+  if (source === target) {
+    throw new ValidationError('Source and target language must differ');
+  }
+  return { source: source as Locale, target: target as Locale };
+}
+
+// Translates each distinct non-blank string once. Surrounding whitespace is
+// kept out of the request and put back, since providers trim it.
+export async function translateStrings(
+  provider: TranslationProvider,
+  texts: string[],
+  source: Locale,
+  target: Locale
+): Promise<string[]> {
+  const unique = Array.from(new Set(texts.map((text) => text.trim()).filter(Boolean)));
+  const translated = new Map<string, string>();
+
+  for (let i = 0; i < unique.length; i += BATCH_SIZE) {
+    const batch = unique.slice(i, i + BATCH_SIZE);
+    const results = await provider.translate(batch, source, target);
+    batch.forEach((text, index) => translated.set(text, results[index] ?? text));
+  }
+
+  return texts.map((text) => {
+    const core = text.trim();
+    if (!core) return text;
+    const [, leading, trailing] = text.match(/^(\s*)[\s\S]*?(\s*)$/) || ['', '', ''];
+    return `${leading}${translated.get(core)}${trailing}`;
+  });
+}
+
+// Code is never translated, whether a block or an inline mark
+function isCode(node: TipTapNode): boolean {
+  return node.type === 'codeBlock' || Boolean(node.marks?.some((mark) => mark.type === 'code'));
+}
+
+interface TextSlot {
+  get(): string;
+  set(value: string): void;
+}
+
+function collectSlots(node: TipTapNode, slots: TextSlot[]) {
+  if (isCode(node)) return;
+
+  if (typeof node.text === 'string') {
+    slots.push({ get: () => node.text!, set: (value) => { node.text = value; } });
+  }
+
+  // Image descriptions are read by screen readers and search engines too
+  const attrs = node.attrs;
+  if (attrs) {
+    for (const key of ['alt', 'title']) {
+      if (typeof attrs[key] === 'string' && attrs[key]) {
+        slots.push({ get: () => attrs[key] as string, set: (value) => { attrs[key] = value; } });
+      }
+    }
+  }
+
+  node.content?.forEach((child) => collectSlots(child, slots));
+}
+
+// Returns a translated copy; structure, marks and attributes are untouched
+export async function translateDocument(
+  provider: TranslationProvider,
+  doc: TipTapNode,
+  source: Locale,
+  target: Locale
+): Promise<TipTapNode> {
+  const copy: TipTapNode = JSON.parse(JSON.stringify(doc));
+  const slots: TextSlot[] = [];
+  collectSlots(copy, slots);
+
+  const translated = await translateStrings(provider, slots.map((slot) => slot.get()), source, target);
+  slots.forEach((slot, index) => slot.set(translated[index]));
+
+  return copy;
+}
+
+// Field keys (`title_th`...) an editor still has to check. Anything that is not
+// one of the form's localized fields is dropped.
+export function parseMachineTranslated(value: unknown, fields: string[]): string[] {
+  if (!Array.isArray(value)) return [];
+
+  const allowed = new Set(fields.flatMap((field) => locales.map((locale) => `${field}_${locale}`)));
+  return Array.from(new Set(value.filter((key): key is string => typeof key === 'string' && allowed.has(key))));
+}
@@ -0,0 +1,46 @@
+// Loads maintenance settings from the database for the middleware and layout
+
+import { prisma } from './prisma';
+import { cache } from './cache';
+import { MaintenanceState, parseAllowedIPs } from './maintenance';
+
+const CACHE_KEY = 'maintenance_state';
+
+export async function getMaintenanceState(): Promise<MaintenanceState> {
+  const cached = await cache.get<MaintenanceState>(CACHE_KEY);
+  if (cached) return cached;
+
+  const settings = await prisma.siteSettings.findUnique({
+    where: { id: 'site_settings' },
+    select: {
+      isUnderMaintenance: true,
+      maintenanceMessage_lo: true,
+      maintenanceMessage_th: true,
+      maintenanceMessage_zh: true,
+      maintenanceMessage_en: true,
+      maintenanceAllowedIPs: true,
+      maintenanceStartsAt: true,
+      maintenanceEndsAt: true,
+    },
+  });
+
+  const state: MaintenanceState = {
+    enabled: settings?.isUnderMaintenance ?? false,
+    startsAt: settings?.maintenanceStartsAt?.toISOString() ?? null,
+    endsAt: settings?.maintenanceEndsAt?.toISOString() ?? null,
+    allowedIPs: parseAllowedIPs(settings?.maintenanceAllowedIPs),
+    messages: {
+      lo: settings?.maintenanceMessage_lo,
+      th: settings?.maintenanceMessage_th,
+      zh: settings?.maintenanceMessage_zh,
+      en: settings?.maintenanceMessage_en,
+    },
+  };
+
+  await cache.set(CACHE_KEY, state, 60); // 1 minute cache
+  return state;
+}
+
+export async function invalidateMaintenanceState() {
+  await cache.delete(CACHE_KEY);
+}
@@ -0,0 +1,113 @@
+// Maintenance mode rules shared by the middleware and server components.
+// Kept free of Prisma so it can run in the edge runtime.
+
+import { Locale } from '@/i18n';
+
+export interface MaintenanceState {
+  enabled: boolean;
+  startsAt: string | null;
+  endsAt: string | null;
+  allowedIPs: string[];
+  messages: Partial<Record<Locale, string | null>>;
+}
+
+// Retry-After to send when no end time is scheduled
+const DEFAULT_RETRY_AFTER_SECONDS = 60 * 60;
+
+const DEFAULT_COPY: Record<Locale, { title: string; message: string; backAt: string }> = {
+  lo: {
+    title: 'ກຳລັງປັບປຸງລະບົບ',
+    message: 'ເວັບໄຊກຳລັງປັບປຸງ ກະລຸນາກັບມາອີກຄັ້ງໃນໄວໆນີ້.',
+    backAt: 'ຄາດວ່າຈະກັບມາ',
+  },
+  th: {
+    title: 'ปิดปรับปรุงชั่วคราว',
+    message: 'เว็บไซต์กำลังปรับปรุง กรุณากลับมาใหม่อีกครั้งในภายหลัง',
+    backAt: 'คาดว่าจะกลับมาเวลา',
+  },
+  zh: {
+    title: '网站维护中',
+    message: '网站正在维护，请稍后再来。',
+    backAt: '预计恢复时间',
+  },
+  en: {
+    title: 'Under maintenance',
+    message: "We're currently undergoing maintenance. Please check back soon.",
+    backAt: 'Expected back',
+  },
+};
+
+export function parseAllowedIPs(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(/[\s,]+/)
+    .map((ip) => ip.trim())
+    .filter(Boolean);
+}
+
+// Enabled maintenance only applies inside its scheduled window, when one is set
+export function isMaintenanceActive(state: MaintenanceState, now: Date = new Date()): boolean {
+  if (!state.enabled) return false;
+  if (state.startsAt && now < new Date(state.startsAt)) return false;
+  if (state.endsAt && now >= new Date(state.endsAt)) return false;
+  return true;
+}
+
+export function isAllowedIP(state: MaintenanceState, ip: string): boolean {
+  return state.allowedIPs.includes(ip);
+}
+
+export function getRetryAfterSeconds(state: MaintenanceState, now: Date = new Date()): number {
+  if (!state.endsAt) return DEFAULT_RETRY_AFTER_SECONDS;
+  const seconds = Math.ceil((new Date(state.endsAt).getTime() - now.getTime()) / 1000);
+  return Math.max(seconds, 60);
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Standalone page returned with the 503, so it must not depend on app assets
+export function renderMaintenancePage(state: MaintenanceState, locale: Locale): string {
+  const copy = DEFAULT_COPY[locale] || DEFAULT_COPY.en;
+  const message = state.messages[locale] || state.messages.lo || copy.message;
+
+  let backAt = '';
+  if (state.endsAt) {
+    const formatted = new Intl.DateTimeFormat(locale, {
+      dateStyle: 'medium',
+      timeStyle: 'short',
+      timeZone: 'Asia/Vientiane',
+    }).format(new Date(state.endsAt));
+    backAt = `<p class="back">${escapeHtml(copy.backAt)}: ${escapeHtml(formatted)}</p>`;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(copy.title)} | NAMNGAM</title>
+<style>
+body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;font-family:system-ui,-apple-system,sans-serif;background:linear-gradient(135deg,#fdf2f8,#fff,#fdf2f8);color:#374151}
+main{max-width:32rem;padding:2rem;text-align:center}
+h1{font-size:2rem;margin:0 0 1rem;color:#db2777}
+p{font-size:1.125rem;line-height:1.6;margin:0 0 .75rem;white-space:pre-line}
+.back{font-size:.95rem;color:#6b7280}
+</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(copy.title)}</h1>
+<p>${escapeHtml(message)}</p>
+${backAt}
+</main>
+</body>
+</html>`;
+}
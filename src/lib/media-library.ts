@@ -0,0 +1,88 @@
+// Media library helpers shared by the upload routes: folders, tags and deletion
+
+import { Media } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ValidationError } from '@/lib/error-handler';
+import { getStorageFor, isStorageBackend, mediaKey } from '@/lib/storage';
+import { deleteDerivatives } from '@/lib/image-derivatives';
+import { invalidateTransforms } from '@/lib/image-transform';
+
+// Always offered, even before anything is uploaded to them
+export const DEFAULT_MEDIA_FOLDERS = ['general', 'products', 'articles', 'banners'];
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 30;
+
+// Folder names end up in storage keys, so keep them to safe path characters
+export function sanitizeFolder(value: unknown): string {
+  return typeof value === 'string' ? value.replace(/[^a-zA-Z0-9-_]/g, '').substring(0, 50) : '';
+}
+
+export function parseFolderName(value: unknown): string {
+  const folder = sanitizeFolder(value);
+  if (!folder) {
+    throw new ValidationError('Folder name may only contain letters, numbers, - and _', 'folder');
+  }
+  return folder;
+}
+
+export function parseMediaTags(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    throw new ValidationError('Tags must be a list', 'tags');
+  }
+
+  const tags = Array.from(
+    new Set(
+      value
+        .filter((tag): tag is string => typeof tag === 'string')
+        .map((tag) => tag.trim().toLowerCase().substring(0, MAX_TAG_LENGTH))
+        .filter(Boolean)
+    )
+  );
+
+  if (tags.length > MAX_TAGS) {
+    throw new ValidationError(`A file can have at most ${MAX_TAGS} tags`, 'tags');
+  }
+  return tags;
+}
+
+export interface MediaFolderSummary {
+  name: string;
+  count: number;
+}
+
+// Default folders, created folders and any folder media was uploaded to
+export async function listMediaFolders(): Promise<MediaFolderSummary[]> {
+  const [created, counts] = await Promise.all([
+    prisma.mediaFolder.findMany({ select: { name: true } }),
+    prisma.media.groupBy({ by: ['folder'], _count: { _all: true } }),
+  ]);
+
+  const folders = new Map<string, number>();
+  for (const name of DEFAULT_MEDIA_FOLDERS) folders.set(name, 0);
+  for (const { name } of created) folders.set(name, 0);
+  for (const row of counts) {
+    const name = row.folder || 'general';
+    folders.set(name, (folders.get(name) || 0) + row._count._all);
+  }
+
+  return Array.from(folders, ([name, count]) => ({ name, count })).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Removes the stored file, its resized copies and cached transforms, then the row
+export async function deleteMediaWithFiles(media: Media) {
+  const key = mediaKey(media);
+
+  try {
+    const storage = getStorageFor(isStorageBackend(media.storage) ? media.storage : 'local');
+    await storage.delete(key);
+    await deleteDerivatives(storage, media.derivatives);
+    await invalidateTransforms(key);
+  } catch (error) {
+    console.error('Failed to delete file from storage:', error);
+  }
+
+  await prisma.media.delete({
+    where: { id: media.id },
+  });
+}
@@ -0,0 +1,176 @@
+// Finds where uploaded media is referenced so the library can show usage and
+// refuse to delete files that pages still point at.
+
+import { prisma } from '@/lib/prisma';
+
+export interface MediaUsage {
+  type: 'product' | 'category' | 'article' | 'settings' | 'homeSection' | 'about' | 'quickLink';
+  id: string;
+  label: string;
+  // Which field holds the reference, e.g. "featuredImage" or "content_lo"
+  field: string;
+  // Admin page where the reference can be changed
+  href: string;
+}
+
+// Matches "/uploads/<key>" inside URLs, HTML and JSON, without any ?w= transform query
+const UPLOAD_URL_PATTERN = /\/uploads\/[^\s"'()<>?#\\]+/g;
+
+const SETTINGS_IMAGE_FIELDS = [
+  'logo',
+  'favicon',
+  'homeBg',
+  'aboutBg',
+  'productsBg',
+  'articlesBg',
+  'heroBadgeImage',
+  'heroDesignImage',
+] as const;
+
+const LOCALES = ['lo', 'th', 'zh', 'en'] as const;
+
+export type MediaUsageIndex = Map<string, MediaUsage[]>;
+
+function record(index: MediaUsageIndex, value: unknown, usage: MediaUsage) {
+  if (value === null || value === undefined) return;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+
+  const urls = new Set(text.match(UPLOAD_URL_PATTERN) || []);
+  for (const url of Array.from(urls)) {
+    const usages = index.get(url) || [];
+    usages.push(usage);
+    index.set(url, usages);
+  }
+}
+
+// Scans every place an image URL can be stored. Admin-only and uncached, since
+// the result must reflect edits made a moment ago.
+export async function buildMediaUsageIndex(): Promise<MediaUsageIndex> {
+  const index: MediaUsageIndex = new Map();
+
+  const [products, categories, articles, settings, homeSections, aboutPage, quickLinks] = await Promise.all([
+    prisma.product.findMany({
+      select: {
+        id: true,
+        name_lo: true,
+        featuredImage: true,
+        images: { select: { url: true } },
+        variants: { select: { image: true } },
+      },
+    }),
+    prisma.category.findMany({
+      select: { id: true, name_lo: true, image: true },
+    }),
+    prisma.article.findMany({
+      select: {
+        id: true,
+        title_lo: true,
+        featuredImage: true,
+        content_lo: true,
+        content_th: true,
+        content_zh: true,
+        content_en: true,
+      },
+    }),
+    prisma.siteSettings.findUnique({
+      where: { id: 'site_settings' },
+      select: Object.fromEntries(SETTINGS_IMAGE_FIELDS.map((field) => [field, true])),
+    }),
+    prisma.homeSection.findMany({
+      select: {
+        id: true,
+        type: true,
+        backgroundImage: true,
+        content_lo: true,
+        content_th: true,
+        content_zh: true,
+        content_en: true,
+      },
+    }),
+    prisma.aboutPage.findFirst({
+      select: { backgroundImage: true, values: { select: { id: true, title_lo: true, icon: true } } },
+    }),
+    prisma.quickLink.findMany({
+      select: { id: true, label_lo: true, icon: true },
+    }),
+  ]);
+
+  for (const product of products) {
+    const usage = { type: 'product' as const, id: product.id, label: product.name_lo, href: `/admin/products/${product.id}/edit` };
+    record(index, product.featuredImage, { ...usage, field: 'featuredImage' });
+    record(index, product.images.map((image) => image.url), { ...usage, field: 'images' });
+    record(index, product.variants.map((variant) => variant.image), { ...usage, field: 'variants' });
+  }
+
+  for (const category of categories) {
+    record(index, category.image, {
+      type: 'category',
+      id: category.id,
+      label: category.name_lo,
+      field: 'image',
+      href: `/admin/categories/${category.id}/edit`,
+    });
+  }
+
+  for (const article of articles) {
+    const usage = { type: 'article' as const, id: article.id, label: article.title_lo, href: `/admin/articles/${article.id}/edit` };
+    record(index, article.featuredImage, { ...usage, field: 'featuredImage' });
+    for (const locale of LOCALES) {
+      record(index, article[`content_${locale}`], { ...usage, field: `content_${locale}` });
+    }
+  }
+
+  if (settings) {
+    for (const field of SETTINGS_IMAGE_FIELDS) {
+      record(index, (settings as Record<string, unknown>)[field], {
+        type: 'settings',
+        id: 'site_settings',
+        label: 'Site settings',
+        field,
+        href: '/admin/settings',
+      });
+    }
+  }
+
+  for (const section of homeSections) {
+    const usage = { type: 'homeSection' as const, id: section.id, label: `${section.type} section`, href: '/admin/home-sections' };
+    record(index, section.backgroundImage, { ...usage, field: 'backgroundImage' });
+    for (const locale of LOCALES) {
+      record(index, section[`content_${locale}`], { ...usage, field: `content_${locale}` });
+    }
+  }
+
+  if (aboutPage) {
+    const usage = { type: 'about' as const, id: 'about_page', label: 'About page', href: '/admin/about' };
+    record(index, aboutPage.backgroundImage, { ...usage, field: 'backgroundImage' });
+    for (const value of aboutPage.values) {
+      record(index, value.icon, { ...usage, id: value.id, label: `About: ${value.title_lo}`, field: 'icon' });
+    }
+  }
+
+  for (const link of quickLinks) {
+    record(index, link.icon, {
+      type: 'quickLink',
+      id: link.id,
+      label: link.label_lo,
+      field: 'icon',
+      href: '/admin/quick-links',
+    });
+  }
+
+  return index;
+}
+
+export function getUsage(index: MediaUsageIndex, url: string): MediaUsage[] {
+  return index.get(url) || [];
+}
+
+// Ids of media nothing refers to, largest first, for the cleanup report
+export async function findUnusedMedia(index?: MediaUsageIndex) {
+  const usageIndex = index || (await buildMediaUsageIndex());
+  const media = await prisma.media.findMany({
+    select: { id: true, url: true, originalName: true, size: true, folder: true, uploadedAt: true },
+    orderBy: { size: 'desc' },
+  });
+  return media.filter((item) => !usageIndex.has(item.url));
+}
@@ -0,0 +1,83 @@
+// Admin-managed lists whose rows are shown in a hand-picked `order`
+// (quick links, homepage sections)
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { ValidationError } from './error-handler';
+
+export interface OrderedList {
+  model: 'quickLink' | 'homeSection';
+  // Singular name used in validation messages, e.g. "quick link"
+  label: string;
+  // Drops the cached public copy after a write
+  invalidate: () => Promise<void>;
+}
+
+// The calls shared by every ordered model; a union of Prisma delegates is not callable directly
+interface OrderedDelegate {
+  findMany(args: { orderBy: { order: 'asc' }; select?: { id: true } }): Prisma.PrismaPromise<any[]>;
+  findFirst(args: { orderBy: { order: 'desc' }; select: { order: true } }): Prisma.PrismaPromise<{ order: number } | null>;
+  create(args: { data: any }): Prisma.PrismaPromise<any>;
+  update(args: { where: { id: string }; data: { order: number } }): Prisma.PrismaPromise<any>;
+}
+
+function delegate(list: OrderedList) {
+  return prisma[list.model] as unknown as OrderedDelegate;
+}
+
+export function listOrdered<T>(list: OrderedList): Promise<T[]> {
+  return delegate(list).findMany({ orderBy: { order: 'asc' } });
+}
+
+// Creates the row at the end of the list
+export async function createOrdered<T>(list: OrderedList, data: object): Promise<T> {
+  const last = await delegate(list).findFirst({
+    orderBy: { order: 'desc' },
+    select: { order: true },
+  });
+
+  const created = await delegate(list).create({
+    data: {
+      ...data,
+      order: last ? last.order + 1 : 0,
+    },
+  });
+
+  await list.invalidate();
+  return created;
+}
+
+// Saves a new order from a body of { ids } listing every row in display order.
+// Returns the previous and new id order for the activity log.
+export async function reorderList(list: OrderedList, body: any) {
+  const ids = body?.ids;
+  if (!Array.isArray(ids) || ids.some((id) => typeof id !== 'string')) {
+    throw new ValidationError(`ids must be an array of ${list.label} IDs`, 'ids');
+  }
+
+  const existing: { id: string }[] = await delegate(list).findMany({
+    orderBy: { order: 'asc' },
+    select: { id: true },
+  });
+
+  const known = new Set(existing.map((row) => row.id));
+  if (ids.length !== known.size || new Set(ids).size !== ids.length || ids.some((id) => !known.has(id))) {
+    throw new ValidationError(`ids must list every ${list.label} exactly once`, 'ids');
+  }
+
+  await prisma.$transaction(
+    ids.map((id: string, index: number) =>
+      delegate(list).update({
+        where: { id },
+        data: { order: index },
+      })
+    )
+  );
+
+  await list.invalidate();
+
+  return {
+    before: existing.map((row) => row.id),
+    after: ids as string[],
+  };
+}
@@ -0,0 +1,286 @@
+// First-party page-view analytics: cookieless beacons rolled up per day.
+// Visitors are counted with a hash of IP, user agent and the day, so the same
+// person cannot be followed from one day to the next.
+
+import { createHash, randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { ValidationError } from './error-handler';
+import { locales, defaultLocale, Locale } from '@/i18n';
+
+export type PageViewEntity = 'product' | 'article';
+
+const MAX_PATH_LENGTH = 300;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Hashes are only needed to dedupe visitors within the current day
+const VISITOR_RETENTION_DAYS = 2;
+const TOP_LIMIT = 10;
+// PageVisitor path of the site-wide row behind daily unique visitors
+const SITE_PATH = '';
+
+// Section landing pages worth counting. Below them only product and article
+// detail pages are, and only for existing slugs (see resolveEntity), so a client
+// cannot create a counter row for an arbitrary path.
+const TRACKED_SECTIONS = ['', 'about', 'articles', 'contact', 'faq', 'products', 'search', 'tags'];
+const DETAIL_SECTIONS = ['products', 'articles'];
+
+const BOT_PATTERN = /bot|crawl|spider|slurp|facebookexternalhit|preview|headless|lighthouse/i;
+
+export interface PageViewInput {
+  path: string;
+  locale: Locale;
+  referrerHost: string;
+}
+
+export function isBot(userAgent: string | null): boolean {
+  return !userAgent || BOT_PATTERN.test(userAgent);
+}
+
+// Do Not Track and Global Privacy Control opt visitors out of counting
+export function hasOptedOut(headers: Headers): boolean {
+  return headers.get('dnt') === '1' || headers.get('sec-gpc') === '1';
+}
+
+// Midnight UTC of the given time, the key of every rollup row
+export function startOfDay(time: number = Date.now()): Date {
+  return new Date(Math.floor(time / DAY_MS) * DAY_MS);
+}
+
+function referrerHostOf(referrer: unknown, siteHost: string | null): string {
+  if (typeof referrer !== 'string' || !referrer) return '';
+
+  try {
+    const host = new URL(referrer).hostname.replace(/^www\./, '');
+    return host === siteHost?.replace(/^www\./, '') ? '' : host.substring(0, 100);
+  } catch {
+    return '';
+  }
+}
+
+// Beacon body: { path, locale, referrer }. The locale prefix is dropped from
+// the path so one page groups across languages.
+export function parsePageView(body: any, siteHost: string | null): PageViewInput {
+  const rawPath = typeof body?.path === 'string' ? body.path.split(/[?#]/)[0] : '';
+  if (!rawPath.startsWith('/') || rawPath.length > MAX_PATH_LENGTH) {
+    throw new ValidationError('Invalid path', 'path');
+  }
+
+  const segments = rawPath.split('/').filter(Boolean);
+  const prefixed = locales.includes(segments[0] as Locale);
+  const locale = (prefixed ? segments.shift() : body?.locale || defaultLocale) as Locale;
+  if (!locales.includes(locale)) {
+    throw new ValidationError('Invalid locale', 'locale');
+  }
+  const tracked = segments.length <= 1
+    ? TRACKED_SECTIONS.includes(segments[0] || '')
+    : segments.length === 2 && DETAIL_SECTIONS.includes(segments[0]);
+  if (!tracked) {
+    throw new ValidationError('Path is not tracked', 'path');
+  }
+
+  return {
+    path: `/${segments.join('/')}`,
+    locale,
+    referrerHost: referrerHostOf(body?.referrer, siteHost),
+  };
+}
+
+// Without PAGE_VIEW_SALT each process salts with random bytes, so a returning
+// visitor is counted again after a restart or on another instance
+const fallbackSalt = randomBytes(32).toString('hex');
+
+export function hashVisitor(ip: string, userAgent: string, date: Date): string {
+  const salt = process.env.PAGE_VIEW_SALT || fallbackSalt;
+  return createHash('sha256')
+    .update(`${salt}:${date.toISOString().substring(0, 10)}:${ip}:${userAgent}`)
+    .digest('hex');
+}
+
+// Product and article detail pages carry their record id; unknown slugs are rejected
+async function resolveEntity(path: string): Promise<{ entityType: PageViewEntity; entityId: string } | null | undefined> {
+  const match = path.match(/^\/(products|articles)\/([^/]+)$/);
+  if (!match) return null;
+
+  let slug: string;
+  try {
+    slug = decodeURIComponent(match[2]);
+  } catch {
+    return undefined;
+  }
+
+  const record = match[1] === 'products'
+    ? await prisma.product.findUnique({ where: { slug }, select: { id: true } })
+    : await prisma.article.findUnique({ where: { slug }, select: { id: true } });
+
+  if (!record) return undefined;
+  return { entityType: match[1] === 'products' ? 'product' : 'article', entityId: record.id };
+}
+
+let lastPrunedDay = 0;
+
+// Drops old visitor hashes at most once per day per process
+async function pruneVisitors(today: Date) {
+  if (lastPrunedDay === today.getTime()) return;
+  lastPrunedDay = today.getTime();
+
+  await prisma.pageVisitor.deleteMany({
+    where: { date: { lt: new Date(today.getTime() - VISITOR_RETENTION_DAYS * DAY_MS) } },
+  });
+}
+
+// Adds one view to today's rollup; returns false when the path was not counted
+export async function recordPageView(input: PageViewInput, visitor: { ip: string; userAgent: string }): Promise<boolean> {
+  const entity = await resolveEntity(input.path);
+  if (entity === undefined) return false;
+
+  const date = startOfDay();
+  await pruneVisitors(date);
+
+  const visitorHash = hashVisitor(visitor.ip, visitor.userAgent, date);
+  const { count: newSiteVisitors } = await prisma.pageVisitor.createMany({
+    data: [{ date, visitorHash, path: SITE_PATH }],
+    skipDuplicates: true,
+  });
+  const { count: newPageVisitors } = await prisma.pageVisitor.createMany({
+    data: [{ date, visitorHash, path: input.path }],
+    skipDuplicates: true,
+  });
+
+  if (newSiteVisitors > 0) {
+    await prisma.visitorDaily.createMany({ data: [{ date }], skipDuplicates: true });
+    await prisma.visitorDaily.update({ where: { date }, data: { visitors: { increment: 1 } } });
+  }
+
+  const key = { date, path: input.path, locale: input.locale, referrerHost: input.referrerHost };
+  const increment = { views: { increment: 1 }, visitors: { increment: newPageVisitors } };
+
+  try {
+    await prisma.pageViewDaily.upsert({
+      where: { date_path_locale_referrerHost: key },
+      create: { ...key, ...entity, views: 1, visitors: newPageVisitors },
+      update: increment,
+    });
+  } catch (error) {
+    // Two first views of the day raced to create the row
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error;
+    await prisma.pageViewDaily.update({ where: { date_path_locale_referrerHost: key }, data: increment });
+  }
+
+  return true;
+}
+
+export interface DailyViews {
+  date: string;
+  views: number;
+  // Views counted once per visitor and path
+  uniqueViews: number;
+  // Visitors counted once for the whole site
+  visitors: number;
+}
+
+export interface RankedEntry {
+  key: string;
+  label: string;
+  views: number;
+  href?: string;
+}
+
+export interface PageViewReport {
+  days: number;
+  // Visitors are counted once per day, so a visitor returning on another day counts again
+  totals: { views: number; uniqueViews: number; visitors: number };
+  daily: DailyViews[];
+  topProducts: RankedEntry[];
+  topArticles: RankedEntry[];
+  locales: RankedEntry[];
+  referrers: RankedEntry[];
+}
+
+async function topEntities(entityType: PageViewEntity, since: Date) {
+  const groups = await prisma.pageViewDaily.groupBy({
+    by: ['entityId'],
+    where: { date: { gte: since }, entityType, entityId: { not: null } },
+    _sum: { views: true },
+    orderBy: { _sum: { views: 'desc' } },
+    take: TOP_LIMIT,
+  });
+  const ids = groups.map((group) => group.entityId!);
+
+  const names = new Map(
+    entityType === 'product'
+      ? (await prisma.product.findMany({ where: { id: { in: ids } }, select: { id: true, name_en: true } }))
+          .map((record) => [record.id, record.name_en])
+      : (await prisma.article.findMany({ where: { id: { in: ids } }, select: { id: true, title_en: true } }))
+          .map((record) => [record.id, record.title_en])
+  );
+
+  return groups.map((group) => ({
+    key: group.entityId!,
+    label: names.get(group.entityId!) || 'Deleted',
+    views: group._sum.views || 0,
+    href: names.has(group.entityId!) ? `/admin/${entityType}s/${group.entityId}/edit` : undefined,
+  }));
+}
+
+// Views over the last `days` days, including today
+export async function getPageViewReport(days: number): Promise<PageViewReport> {
+  const today = startOfDay();
+  const since = new Date(today.getTime() - (days - 1) * DAY_MS);
+  const where: Prisma.PageViewDailyWhereInput = { date: { gte: since } };
+
+  const [dailyGroups, visitorDays, localeGroups, referrerGroups, topProducts, topArticles] = await Promise.all([
+    prisma.pageViewDaily.groupBy({ by: ['date'], where, _sum: { views: true, visitors: true } }),
+    prisma.visitorDaily.findMany({ where: { date: { gte: since } } }),
+    prisma.pageViewDaily.groupBy({
+      by: ['locale'],
+      where,
+      _sum: { views: true },
+      orderBy: { _sum: { views: 'desc' } },
+    }),
+    prisma.pageViewDaily.groupBy({
+      by: ['referrerHost'],
+      where,
+      _sum: { views: true },
+      orderBy: { _sum: { views: 'desc' } },
+      take: TOP_LIMIT,
+    }),
+    topEntities('product', since),
+    topEntities('article', since),
+  ]);
+
+  // Every day appears, including those without views
+  const byDate = new Map(dailyGroups.map((group) => [group.date.toISOString().substring(0, 10), group._sum]));
+  const visitorsByDate = new Map(visitorDays.map((day) => [day.date.toISOString().substring(0, 10), day.visitors]));
+  const daily = Array.from({ length: days }, (_, index) => {
+    const date = new Date(since.getTime() + index * DAY_MS).toISOString().substring(0, 10);
+    const sums = byDate.get(date);
+    return {
+      date,
+      views: sums?.views || 0,
+      uniqueViews: sums?.visitors || 0,
+      visitors: visitorsByDate.get(date) || 0,
+    };
+  });
+
+  return {
+    days,
+    totals: {
+      views: daily.reduce((sum, day) => sum + day.views, 0),
+      uniqueViews: daily.reduce((sum, day) => sum + day.uniqueViews, 0),
+      visitors: daily.reduce((sum, day) => sum + day.visitors, 0),
+    },
+    daily,
+    topProducts,
+    topArticles,
+    locales: localeGroups.map((group) => ({
+      key: group.locale,
+      label: group.locale,
+      views: group._sum.views || 0,
+    })),
+    referrers: referrerGroups.map((group) => ({
+      key: group.referrerHost,
+      label: group.referrerHost || 'Direct / internal',
+      views: group._sum.views || 0,
+    })),
+  };
+}
@@ -1,71 +1,5 @@
 // Performance optimization utilities for NAMNGAM
 
-// Simple in-memory cache (in production, use Redis)
-class SimpleCache {
-  private cache = new Map<string, { data: any; expiry: number }>();
-  
-  set(key: string, data: any, ttlSeconds: number = 300) {
-    const expiry = Date.now() + (ttlSeconds * 1000);
-    this.cache.set(key, { data, expiry });
-  }
-  
-  get(key: string) {
-    const item = this.cache.get(key);
-    if (!item) return null;
-    
-    if (Date.now() > item.expiry) {
-      this.cache.delete(key);
-      return null;
-    }
-    
-    return item.data;
-  }
-  
-  delete(key: string) {
-    this.cache.delete(key);
-  }
-  
-  clear() {
-    this.cache.clear();
-  }
-  
-  // Clean up expired entries
-  cleanup() {
-    const now = Date.now();
-    for (const [key, item] of this.cache.entries()) {
-      if (now > item.expiry) {
-        this.cache.delete(key);
-      }
-    }
-  }
-}
-
-export const cache = new SimpleCache();
-
-// Clean up cache every 5 minutes
-if (typeof window === 'undefined') {
-  setInterval(() => cache.cleanup(), 5 * 60 * 1000);
-}
-
-// Database query optimization
-export function createOptimizedQuery<T>(
-  query: () => Promise<T>,
-  cacheKey: string,
-  ttlSeconds: number = 300
-): Promise<T> {
-  // Try to get from cache first
-  const cached = cache.get(cacheKey);
-  if (cached) {
-    return Promise.resolve(cached);
-  }
-  
-  // If not in cache, execute query
-  return query().then(result => {
-    cache.set(cacheKey, result, ttlSeconds);
-    return result;
-  });
-}
-
 // Pagination helper
 export function createPaginationOptions(page: number, limit: number = 20) {
   const skip = (page - 1) * limit;
@@ -124,24 +58,89 @@ export function throttle<T extends (...args: any[]) => any>(
   };
 }
 
+// Resized copies generated for uploaded images (stored as JSON on Media.derivatives)
+export type ImageDerivativeFormat = 'avif' | 'webp';
+
+export interface ImageDerivative {
+  format: ImageDerivativeFormat;
+  width: number;
+  height: number;
+  size: number;
+  url: string;
+}
+
+export function parseImageDerivatives(value: unknown): ImageDerivative[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (item): item is ImageDerivative =>
+      item &&
+      (item.format === 'avif' || item.format === 'webp') &&
+      typeof item.width === 'number' &&
+      typeof item.url === 'string'
+  );
+}
+
+// srcset for one format, e.g. "/uploads/a-320w.webp 320w, /uploads/a-640w.webp 640w"
+export function getImageSrcSet(derivatives: ImageDerivative[], format: ImageDerivativeFormat): string {
+  return derivatives
+    .filter((derivative) => derivative.format === format)
+    .sort((a, b) => a.width - b.width)
+    .map((derivative) => `${derivative.url} ${derivative.width}w`)
+    .join(', ');
+}
+
+// Default sizes attribute: full viewport width, capped at the rendered width when known
+export function getImageSizes(width?: number): string {
+  return width ? `(max-width: ${width}px) 100vw, ${width}px` : '100vw';
+}
+
+// Sizes /uploads accepts for ?w= and ?h= (next.config image sizes plus derivative widths).
+// Anything else is rejected so the transform cache can't be filled with arbitrary variants.
+export const IMAGE_TRANSFORM_SIZES = [
+  16, 32, 48, 64, 96, 128, 256, 320, 384, 640, 750, 828, 1024, 1080, 1200, 1600, 1920, 2048,
+];
+
+export const IMAGE_TRANSFORM_QUALITIES = [50, 60, 70, 75, 80, 85, 90];
+
+// Round up to the nearest allowed size, capped at the largest
+export function snapImageSize(size: number): number {
+  return IMAGE_TRANSFORM_SIZES.find((allowed) => allowed >= size) || IMAGE_TRANSFORM_SIZES[IMAGE_TRANSFORM_SIZES.length - 1];
+}
+
+function snapImageQuality(quality: number): number {
+  return IMAGE_TRANSFORM_QUALITIES.reduce((closest, allowed) =>
+    Math.abs(allowed - quality) < Math.abs(closest - quality) ? allowed : closest
+  );
+}
+
 // Image optimization helper
 export function getOptimizedImageUrl(
   url: string,
   width?: number,
   height?: number,
   quality: number = 85,
-  bustCache: boolean = false
+  bustCache: boolean = false,
+  derivatives: ImageDerivative[] = []
 ): string {
   if (!url) return '';
   
   // If it's an external URL, return as is
   if (url.startsWith('http')) return url;
   
-  // For local images, we can add optimization parameters
+  // Prefer the smallest pre-generated WebP that still covers the requested width
+  if (width && !bustCache) {
+    const candidates = derivatives
+      .filter((derivative) => derivative.format === 'webp')
+      .sort((a, b) => a.width - b.width);
+    const match = candidates.find((derivative) => derivative.width >= width) || candidates[candidates.length - 1];
+    if (match) return match.url;
+  }
+  
+  // For local images, ask /uploads to resize on the fly (see IMAGE_TRANSFORM_SIZES)
   const params = new URLSearchParams();
-  if (width) params.set('w', width.toString());
-  if (height) params.set('h', height.toString());
-  if (quality !== 85) params.set('q', quality.toString());
+  if (width) params.set('w', snapImageSize(width).toString());
+  if (height) params.set('h', snapImageSize(height).toString());
+  if (quality !== 85) params.set('q', snapImageQuality(quality).toString());
   
   // Add cache busting parameter if requested
   if (bustCache) {
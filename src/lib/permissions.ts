@@ -0,0 +1,105 @@
+// Role-based permission policy for NAMNGAM admin
+// Pure data and checks so it can be shared by API routes and admin UI.
+
+export type Role = 'SUPER_ADMIN' | 'ADMIN' | 'EDITOR';
+
+export type PermissionResource =
+  | 'article'
+  | 'product'
+  | 'category'
+  | 'faq'
+  | 'about'
+  | 'media'
+  | 'settings'
+  | 'user'
+  | 'activity'
+  | 'inquiry'
+  | 'quickLink'
+  | 'homeSection'
+  | 'translation'
+  | 'tag'
+  | 'analytics';
+
+export type PermissionAction = 'read' | 'create' | 'update' | 'delete' | 'publish';
+
+const CONTENT: PermissionAction[] = ['read', 'create', 'update', 'delete', 'publish'];
+const MANAGE: PermissionAction[] = ['read', 'create', 'update', 'delete'];
+
+// Role → resource → allowed actions
+export const PERMISSION_POLICY: Record<Role, Partial<Record<PermissionResource, PermissionAction[]>>> = {
+  SUPER_ADMIN: {
+    article: CONTENT,
+    product: CONTENT,
+    category: MANAGE,
+    faq: MANAGE,
+    about: ['read', 'update'],
+    media: MANAGE,
+    settings: ['read', 'update'],
+    user: MANAGE,
+    activity: ['read'],
+    inquiry: ['read', 'update', 'delete'],
+    quickLink: MANAGE,
+    homeSection: MANAGE,
+    translation: ['read', 'create'],
+    tag: MANAGE,
+    analytics: ['read'],
+  },
+  ADMIN: {
+    article: CONTENT,
+    product: CONTENT,
+    category: MANAGE,
+    faq: MANAGE,
+    about: ['read', 'update'],
+    media: MANAGE,
+    settings: ['read', 'update'],
+    user: MANAGE,
+    activity: ['read'],
+    inquiry: ['read', 'update', 'delete'],
+    quickLink: MANAGE,
+    homeSection: MANAGE,
+    translation: ['read', 'create'],
+    tag: MANAGE,
+    analytics: ['read'],
+  },
+  EDITOR: {
+    article: ['read', 'create', 'update', 'delete'],
+    product: ['read', 'create', 'update', 'delete'],
+    category: ['read'],
+    faq: ['read'],
+    media: ['read', 'create'],
+    translation: ['read', 'create'],
+    tag: ['read', 'create'],
+    analytics: ['read'],
+  },
+};
+
+// Resources a role may only modify when it owns the record and it is still a draft
+export const OWN_DRAFTS_ONLY: Partial<Record<Role, PermissionResource[]>> = {
+  EDITOR: ['article', 'product'],
+};
+
+const ROLE_RANK: Record<Role, number> = {
+  SUPER_ADMIN: 3,
+  ADMIN: 2,
+  EDITOR: 1,
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && value in ROLE_RANK;
+}
+
+export function can(role: string | undefined | null, resource: PermissionResource, action: PermissionAction): boolean {
+  if (!isRole(role)) return false;
+  return PERMISSION_POLICY[role][resource]?.includes(action) ?? false;
+}
+
+export function isLimitedToOwnDrafts(role: string | undefined | null, resource: PermissionResource): boolean {
+  if (!isRole(role)) return true;
+  return OWN_DRAFTS_ONLY[role]?.includes(resource) ?? false;
+}
+
+// A user may manage (create, edit, delete, assign) accounts up to their own role
+export function canManageRole(actorRole: string | undefined | null, targetRole: string | undefined | null): boolean {
+  if (!isRole(actorRole) || !isRole(targetRole)) return false;
+  return ROLE_RANK[targetRole] <= ROLE_RANK[actorRole];
+}
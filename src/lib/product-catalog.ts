@@ -0,0 +1,332 @@
+// Product listing filters, sorting, facets and cursor pagination
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { ValidationError } from './error-handler';
+import { Locale } from '@/i18n';
+import { getMissingTranslationIds, parseTranslationLocale } from './translation-coverage';
+import { getCurrencyConfig } from './exchange-rates';
+import { BASE_CURRENCY, convertPrice, isCurrency } from './currency';
+
+export type ProductSort = 'order' | 'newest' | 'price_asc' | 'price_desc';
+
+export const PRODUCT_SORTS: ProductSort[] = ['order', 'newest', 'price_asc', 'price_desc'];
+
+export interface ProductFilters {
+  published: boolean;
+  categoryId?: string;
+  categorySlugs: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  // Currency minPrice and maxPrice are given in; products in any currency match
+  currency: string;
+  featured: boolean;
+  // Admin only: products with an empty field in this locale
+  missing?: Locale;
+  sort: ProductSort;
+  cursor?: string;
+  page?: number;
+  limit: number;
+}
+
+function parsePrice(value: string | null, name: string): number | undefined {
+  if (!value) return undefined;
+
+  const price = parseFloat(value);
+  if (isNaN(price) || price < 0) {
+    throw new ValidationError(`Invalid ${name}: ${value}`);
+  }
+  return price;
+}
+
+// Accepts both the URL query of the public pages and the API
+export function parseProductFilters(searchParams: URLSearchParams): ProductFilters {
+  const sort = (searchParams.get('sort') || 'order') as ProductSort;
+  if (!PRODUCT_SORTS.includes(sort)) {
+    throw new ValidationError(`Invalid sort: ${sort}`);
+  }
+
+  const minPrice = parsePrice(searchParams.get('minPrice'), 'minPrice');
+  const maxPrice = parsePrice(searchParams.get('maxPrice'), 'maxPrice');
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    throw new ValidationError('minPrice cannot be greater than maxPrice');
+  }
+
+  const currency = searchParams.get('currency')?.toUpperCase() || BASE_CURRENCY;
+  if (!isCurrency(currency)) {
+    throw new ValidationError(`Invalid currency: ${currency}`);
+  }
+
+  const page = searchParams.get('page');
+
+  return {
+    published: searchParams.get('published') !== 'false', // default true
+    categoryId: searchParams.get('categoryId') || undefined,
+    categorySlugs: (searchParams.get('category') || '')
+      .split(',')
+      .map((slug) => slug.trim())
+      .filter(Boolean),
+    minPrice,
+    maxPrice,
+    currency,
+    featured: searchParams.get('featured') === 'true',
+    missing: parseTranslationLocale(searchParams.get('missing')),
+    sort,
+    cursor: searchParams.get('cursor') || undefined,
+    page: page ? Math.max(1, parseInt(page) || 1) : undefined,
+    limit: Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '20') || 20)),
+  };
+}
+
+// Inverse of parseProductFilters, without the pagination position
+export function filtersToSearchParams(filters: ProductFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (!filters.published) params.set('published', 'false');
+  if (filters.categoryId) params.set('categoryId', filters.categoryId);
+  if (filters.categorySlugs.length > 0) params.set('category', filters.categorySlugs.join(','));
+  if (filters.minPrice !== undefined) params.set('minPrice', String(filters.minPrice));
+  if (filters.maxPrice !== undefined) params.set('maxPrice', String(filters.maxPrice));
+  if (filters.currency !== BASE_CURRENCY) params.set('currency', filters.currency);
+  if (filters.featured) params.set('featured', 'true');
+  if (filters.missing) params.set('missing', filters.missing);
+  if (filters.sort !== 'order') params.set('sort', filters.sort);
+  params.set('limit', String(filters.limit));
+
+  return params;
+}
+
+// Recomputes priceMin/priceMax from the product price, its available variants
+// (see getPriceRange) and the exchange rates; all products when no id is given.
+// Products in a currency without a rate get no range and drop out of price filters.
+export async function refreshProductPriceRange(productId?: string, db: Prisma.TransactionClient = prisma) {
+  await db.$executeRaw`
+    UPDATE "Product" AS p
+    SET "priceMin" = r."min" * r."rate", "priceMax" = r."max" * r."rate"
+    FROM (
+      SELECT p2."id",
+        CASE WHEN p2."currency" = ${BASE_CURRENCY} THEN 1 ELSE MAX(er."rate") END AS "rate",
+        MIN(x."price") AS "min",
+        MAX(x."price") AS "max"
+      FROM "Product" p2
+      LEFT JOIN "ExchangeRate" er ON er."currency" = p2."currency"
+      LEFT JOIN LATERAL (
+        SELECT COALESCE(v."price", p2."price") AS "price"
+        FROM "ProductVariant" v
+        WHERE v."productId" = p2."id" AND v."isAvailable"
+        UNION ALL
+        SELECT p2."price"
+        WHERE NOT EXISTS (
+          SELECT 1 FROM "ProductVariant" v WHERE v."productId" = p2."id" AND v."isAvailable"
+        )
+      ) x ON x."price" > 0
+      ${productId ? Prisma.sql`WHERE p2."id" = ${productId}` : Prisma.empty}
+      GROUP BY p2."id", p2."currency"
+    ) AS r
+    WHERE p."id" = r."id"
+  `;
+}
+
+interface ResolvedFilters {
+  // The missing-translation filter has to inspect rows, so it is resolved to ids up front
+  base: Prisma.ProductWhereInput;
+  // Price bounds converted to the base currency
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+async function resolveFilters(filters: ProductFilters): Promise<ResolvedFilters> {
+  const resolved: ResolvedFilters = {
+    base: filters.missing ? { id: { in: await getMissingTranslationIds('product', filters.missing) } } : {},
+  };
+
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    const { rates } = await getCurrencyConfig();
+    const toBase = (price?: number) => {
+      if (price === undefined) return undefined;
+      const converted = convertPrice(price, filters.currency, BASE_CURRENCY, rates);
+      if (converted === null) {
+        throw new ValidationError(`No exchange rate for ${filters.currency}`);
+      }
+      return converted;
+    };
+
+    resolved.minPrice = toBase(filters.minPrice);
+    resolved.maxPrice = toBase(filters.maxPrice);
+  }
+
+  return resolved;
+}
+
+// Build the where clause; facets leave out the filter they count
+function buildWhere(
+  filters: ProductFilters,
+  resolved: ResolvedFilters,
+  omit: { category?: boolean; price?: boolean } = {}
+): Prisma.ProductWhereInput {
+  const where: Prisma.ProductWhereInput = { ...resolved.base };
+
+  if (filters.published) {
+    where.isPublished = true;
+  }
+
+  if (filters.featured) {
+    where.isFeatured = true;
+  }
+
+  if (!omit.category) {
+    if (filters.categoryId) {
+      where.categoryId = filters.categoryId;
+    }
+    if (filters.categorySlugs.length > 0) {
+      where.category = { slug: { in: filters.categorySlugs } };
+    }
+  }
+
+  // Matches products whose price range overlaps the requested one
+  if (!omit.price && resolved.minPrice !== undefined) {
+    where.priceMax = { gte: resolved.minPrice };
+  }
+  if (!omit.price && resolved.maxPrice !== undefined) {
+    where.priceMin = { lte: resolved.maxPrice };
+  }
+
+  return where;
+}
+
+// Every sort ends on id so cursor pagination is stable
+function buildOrderBy(sort: ProductSort): Prisma.ProductOrderByWithRelationInput[] {
+  switch (sort) {
+    case 'newest':
+      return [{ createdAt: 'desc' }, { id: 'asc' }];
+    case 'price_asc':
+      return [{ priceMin: { sort: 'asc', nulls: 'last' } }, { id: 'asc' }];
+    case 'price_desc':
+      return [{ priceMax: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }];
+    default:
+      return [{ order: 'asc' }, { createdAt: 'desc' }, { id: 'asc' }];
+  }
+}
+
+export async function getProductFacets(filters: ProductFilters) {
+  const resolved = await resolveFilters(filters);
+  const [categoryGroups, priceRange] = await Promise.all([
+    prisma.product.groupBy({
+      by: ['categoryId'],
+      where: buildWhere(filters, resolved, { category: true }),
+      _count: { _all: true },
+    }),
+    prisma.product.aggregate({
+      where: buildWhere(filters, resolved, { price: true }),
+      _min: { priceMin: true },
+      _max: { priceMax: true },
+    }),
+  ]);
+
+  const categories = await prisma.category.findMany({
+    where: {
+      id: { in: categoryGroups.map((group) => group.categoryId) },
+      ...(filters.published && { isActive: true }),
+    },
+    select: {
+      id: true,
+      slug: true,
+      name_lo: true,
+      name_th: true,
+      name_zh: true,
+      name_en: true,
+      order: true,
+    },
+    orderBy: { order: 'asc' },
+  });
+
+  const counts = new Map(categoryGroups.map((group) => [group.categoryId, group._count._all]));
+
+  return {
+    categories: categories.map((category) => ({
+      ...category,
+      count: counts.get(category.id) || 0,
+    })),
+    // In the base currency
+    price: {
+      min: priceRange._min.priceMin !== null ? Number(priceRange._min.priceMin) : null,
+      max: priceRange._max.priceMax !== null ? Number(priceRange._max.priceMax) : null,
+    },
+  };
+}
+
+export async function queryProducts(filters: ProductFilters, include: Prisma.ProductInclude) {
+  const where = buildWhere(filters, await resolveFilters(filters));
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await prisma.product.findMany({
+    where,
+    include,
+    orderBy: buildOrderBy(filters.sort),
+    take: filters.limit + 1,
+    ...(filters.cursor
+      ? { cursor: { id: filters.cursor }, skip: 1 }
+      : filters.page
+      ? { skip: (filters.page - 1) * filters.limit }
+      : {}),
+  });
+
+  const hasNext = rows.length > filters.limit;
+  const products = hasNext ? rows.slice(0, filters.limit) : rows;
+  const total = await prisma.product.count({ where });
+
+  return {
+    products,
+    total,
+    hasNext,
+    nextCursor: hasNext ? products[products.length - 1].id : null,
+  };
+}
+
+export type ProductFacets = Awaited<ReturnType<typeof getProductFacets>>;
+
+// Page searchParams to URLSearchParams, keeping the first of repeated keys
+export function toURLSearchParams(searchParams: Record<string, string | string[] | undefined>) {
+  const params = new URLSearchParams();
+  Object.entries(searchParams).forEach(([key, value]) => {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first) params.set(key, first);
+  });
+  return params;
+}
+
+// Server-rendered storefront listing; invalid URL params fall back to defaults
+export async function getPublicCatalog(searchParams: URLSearchParams, limit = 24) {
+  const params = new URLSearchParams(searchParams);
+  params.set('published', 'true');
+  params.set('limit', String(limit));
+  params.delete('cursor');
+  params.delete('page');
+  params.delete('missing');
+
+  let filters: ProductFilters;
+  try {
+    filters = parseProductFilters(params);
+  } catch (error) {
+    if (!(error instanceof ValidationError)) throw error;
+    filters = parseProductFilters(new URLSearchParams({ limit: String(limit) }));
+  }
+
+  const [{ products, total, nextCursor }, facets] = await Promise.all([
+    queryProducts(filters, {
+      category: true,
+      variants: { select: { price: true, isAvailable: true } },
+    }),
+    getProductFacets(filters),
+  ]);
+
+  return {
+    filters,
+    // Decimal prices cannot cross into client components
+    products: JSON.parse(JSON.stringify(products)),
+    total,
+    nextCursor,
+    facets,
+    query: filtersToSearchParams(filters).toString(),
+  };
+}
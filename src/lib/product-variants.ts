@@ -0,0 +1,194 @@
+// Product options (Size, Volume, ...) and their variant matrix
+
+import { Prisma } from '@prisma/client';
+import { ValidationError } from './error-handler';
+
+const LANGS = ['lo', 'th', 'zh', 'en'] as const;
+
+export interface ProductOptionInput {
+  name_lo: string;
+  name_th?: string;
+  name_zh?: string;
+  name_en?: string;
+  values: Array<{
+    value_lo: string;
+    value_th?: string;
+    value_zh?: string;
+    value_en?: string;
+  }>;
+}
+
+export interface ProductVariantInput {
+  // Index of the chosen value for each option, in option order
+  values: number[];
+  sku?: string | null;
+  price?: string | number | null;
+  image?: string | null;
+  isAvailable?: boolean;
+}
+
+// Options and variants as returned to the admin and storefront
+export const productVariantInclude = {
+  options: {
+    orderBy: { order: 'asc' },
+    include: {
+      values: { orderBy: { order: 'asc' } },
+    },
+  },
+  variants: {
+    orderBy: { order: 'asc' },
+    include: {
+      optionValues: { select: { id: true, optionId: true } },
+    },
+  },
+} satisfies Prisma.ProductInclude;
+
+function localizedText(input: Record<string, any>, field: string) {
+  return Object.fromEntries(
+    LANGS.map((lang) => {
+      const value = typeof input[`${field}_${lang}`] === 'string' ? input[`${field}_${lang}`].trim() : '';
+      return [`${field}_${lang}`, value || (lang === 'lo' ? '' : null)];
+    })
+  ) as Record<string, string | null>;
+}
+
+function parsePrice(value: ProductVariantInput['price']): number | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  const price = typeof value === 'number' ? value : parseFloat(value);
+  if (isNaN(price) || price < 0) {
+    throw new ValidationError(`Invalid variant price: ${value}`);
+  }
+  return price;
+}
+
+export function validateVariantInput(options: unknown, variants: unknown) {
+  if (!Array.isArray(options) || !Array.isArray(variants)) {
+    throw new ValidationError('options and variants must be arrays');
+  }
+
+  const parsedOptions = (options as ProductOptionInput[]).map((option, index) => {
+    const names = localizedText(option, 'name');
+    if (!names.name_lo) {
+      throw new ValidationError(`Option ${index + 1} needs a Lao name`);
+    }
+    if (!Array.isArray(option.values) || option.values.length === 0) {
+      throw new ValidationError(`Option "${names.name_lo}" needs at least one value`);
+    }
+
+    const values = option.values.map((value) => {
+      const labels = localizedText(value, 'value');
+      if (!labels.value_lo) {
+        throw new ValidationError(`Every value of "${names.name_lo}" needs a Lao label`);
+      }
+      return labels;
+    });
+
+    return { ...names, values };
+  });
+
+  const seenCombinations = new Set<string>();
+  const seenSkus = new Set<string>();
+
+  const parsedVariants = (variants as ProductVariantInput[]).map((variant) => {
+    const values = Array.isArray(variant.values) ? variant.values : [];
+    const valid =
+      values.length === parsedOptions.length &&
+      values.every(
+        (valueIndex, optionIndex) =>
+          Number.isInteger(valueIndex) &&
+          valueIndex >= 0 &&
+          valueIndex < parsedOptions[optionIndex].values.length
+      );
+    if (!valid) {
+      throw new ValidationError('Every variant must pick one value of each option');
+    }
+
+    const combination = values.join(':');
+    if (seenCombinations.has(combination)) {
+      throw new ValidationError('Duplicate variant combination');
+    }
+    seenCombinations.add(combination);
+
+    const sku = variant.sku?.trim() || null;
+    if (sku) {
+      if (seenSkus.has(sku)) {
+        throw new ValidationError(`Duplicate variant SKU: ${sku}`);
+      }
+      seenSkus.add(sku);
+    }
+
+    return {
+      values,
+      sku,
+      price: parsePrice(variant.price),
+      image: variant.image || null,
+      isAvailable: variant.isAvailable ?? true,
+    };
+  });
+
+  if (parsedOptions.length > 0 && parsedVariants.length === 0) {
+    throw new ValidationError('Products with options need at least one variant');
+  }
+
+  return { options: parsedOptions, variants: parsedVariants };
+}
+
+export type VariantInput = ReturnType<typeof validateVariantInput>;
+
+// Replace the whole option/variant set of a product. Takes the transaction the
+// product itself is written in, so a rejected variant set leaves nothing behind.
+export async function replaceProductVariants(tx: Prisma.TransactionClient, productId: string, input: VariantInput) {
+  const skus = input.variants.map((variant) => variant.sku).filter((sku): sku is string => !!sku);
+  if (skus.length > 0) {
+    const conflict = await tx.productVariant.findFirst({
+      where: { sku: { in: skus }, productId: { not: productId } },
+      select: { sku: true },
+    });
+    if (conflict) {
+      throw new ValidationError(`SKU already used by another product: ${conflict.sku}`);
+    }
+  }
+
+  await tx.productVariant.deleteMany({ where: { productId } });
+  await tx.productOption.deleteMany({ where: { productId } });
+
+  // Value ids per option, in input order, for connecting variants
+  const valueIds: string[][] = [];
+  for (const [index, option] of input.options.entries()) {
+    const { values, ...names } = option;
+    const created = await tx.productOption.create({
+      data: {
+        ...(names as { name_lo: string }),
+        productId,
+        order: index,
+        values: {
+          create: values.map((value, order) => ({
+            ...(value as { value_lo: string }),
+            order,
+          })),
+        },
+      },
+      include: { values: { orderBy: { order: 'asc' } } },
+    });
+    valueIds.push(created.values.map((value) => value.id));
+  }
+
+  for (const [index, variant] of input.variants.entries()) {
+    await tx.productVariant.create({
+      data: {
+        productId,
+        sku: variant.sku,
+        price: variant.price,
+        image: variant.image,
+        isAvailable: variant.isAvailable,
+        order: index,
+        optionValues: {
+          connect: variant.values.map((valueIndex, optionIndex) => ({
+            id: valueIds[optionIndex][valueIndex],
+          })),
+        },
+      },
+    });
+  }
+}
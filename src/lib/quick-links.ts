@@ -0,0 +1,162 @@
+// Floating quick contact links managed from the admin panel
+
+import { LinkType, Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { cache } from './cache';
+import { ValidationError } from './error-handler';
+import { OrderedList } from './ordered-list';
+
+const CACHE_KEY = 'public_quick_links';
+
+export const LINK_TYPES: LinkType[] = ['WHATSAPP', 'FACEBOOK', 'LINE', 'PHONE', 'EMAIL', 'TELEGRAM', 'WECHAT', 'CUSTOM'];
+
+// Schemes allowed for quick link targets; app schemes cover LINE/WeChat/Telegram deep links
+const ALLOWED_PROTOCOLS = ['http:', 'https:', 'tel:', 'mailto:', 'sms:', 'line:', 'weixin:', 'tg:'];
+
+// Types whose target must use a specific scheme
+const REQUIRED_PROTOCOLS: Partial<Record<LinkType, string>> = {
+  PHONE: 'tel:',
+  EMAIL: 'mailto:',
+};
+
+export function isLinkType(value: unknown): value is LinkType {
+  return typeof value === 'string' && LINK_TYPES.includes(value as LinkType);
+}
+
+function optionalText(value: unknown, max: number) {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().substring(0, max);
+  return text || null;
+}
+
+function validateUrl(type: LinkType, url: string) {
+  // Site-relative paths such as /contact are fine for custom links
+  if (url.startsWith('/') && !url.startsWith('//')) {
+    if (type !== 'CUSTOM') {
+      throw new ValidationError(`A ${type} link needs a full URL`, 'url');
+    }
+    return;
+  }
+
+  let protocol: string;
+  try {
+    protocol = new URL(url).protocol;
+  } catch {
+    throw new ValidationError('Invalid URL', 'url');
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(protocol)) {
+    throw new ValidationError(`Unsupported link scheme: ${protocol}`, 'url');
+  }
+
+  const required = REQUIRED_PROTOCOLS[type];
+  if (required && protocol !== required) {
+    throw new ValidationError(`A ${type} link must start with ${required}`, 'url');
+  }
+}
+
+export function parseQuickLinkInput(body: any) {
+  if (!isLinkType(body?.type)) {
+    throw new ValidationError(`Invalid link type: ${body?.type}`, 'type');
+  }
+
+  const label_lo = optionalText(body.label_lo, 100);
+  if (!label_lo) {
+    throw new ValidationError('Lao label is required', 'label_lo');
+  }
+
+  const url = optionalText(body.url, 500);
+  if (!url) {
+    throw new ValidationError('URL is required', 'url');
+  }
+  validateUrl(body.type, url);
+
+  const color = optionalText(body.color, 20);
+  if (color && !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(color)) {
+    throw new ValidationError('Color must be a hex value like #25D366', 'color');
+  }
+
+  return {
+    type: body.type as LinkType,
+    label_lo,
+    label_th: optionalText(body.label_th, 100),
+    label_zh: optionalText(body.label_zh, 100),
+    label_en: optionalText(body.label_en, 100),
+    url,
+    icon: optionalText(body.icon, 500),
+    color,
+    isActive: body.isActive !== false,
+  } satisfies Prisma.QuickLinkCreateInput;
+}
+
+const publicQuickLinkSelect = {
+  id: true,
+  type: true,
+  label_lo: true,
+  label_th: true,
+  label_zh: true,
+  label_en: true,
+  url: true,
+  icon: true,
+  color: true,
+  isActive: true,
+} satisfies Prisma.QuickLinkSelect;
+
+export type PublicQuickLink = Omit<Prisma.QuickLinkGetPayload<{ select: typeof publicQuickLinkSelect }>, 'isActive'>;
+
+// Links shown until an admin saves the first quick link, built from the contact
+// fields in site settings the way the widget did before links were managed
+async function settingsQuickLinks(): Promise<PublicQuickLink[]> {
+  const settings = await prisma.siteSettings.findUnique({
+    where: { id: 'site_settings' },
+    select: { whatsapp: true, facebookPage: true, lineId: true, phone: true, email: true },
+  });
+  if (!settings) return [];
+
+  const link = (type: LinkType, label: string, url: string): PublicQuickLink => ({
+    id: `settings-${type.toLowerCase()}`,
+    type,
+    label_lo: label,
+    label_th: null,
+    label_zh: null,
+    label_en: null,
+    url,
+    icon: null,
+    color: null,
+  });
+
+  return [
+    ...(settings.whatsapp ? [link('WHATSAPP', 'WhatsApp', `https://wa.me/${settings.whatsapp.replace(/[^\d]/g, '')}`)] : []),
+    ...(settings.facebookPage ? [link('FACEBOOK', 'Facebook', settings.facebookPage)] : []),
+    ...(settings.lineId ? [link('LINE', 'LINE', `https://line.me/ti/p/~${settings.lineId}`)] : []),
+    ...(settings.phone ? [link('PHONE', 'Phone', `tel:${settings.phone}`)] : []),
+    ...(settings.email ? [link('EMAIL', 'Email', `mailto:${settings.email}`)] : []),
+  ];
+}
+
+export async function getActiveQuickLinks(): Promise<PublicQuickLink[]> {
+  const cached = await cache.get<PublicQuickLink[]>(CACHE_KEY);
+  if (cached) return cached;
+
+  const links = await prisma.quickLink.findMany({
+    orderBy: { order: 'asc' },
+    select: publicQuickLinkSelect,
+  });
+
+  const result = links.length === 0
+    ? await settingsQuickLinks()
+    : links.filter((link) => link.isActive).map(({ isActive, ...link }) => link);
+
+  await cache.set(CACHE_KEY, result, 300); // 5 minutes cache
+  return result;
+}
+
+export async function invalidateQuickLinks() {
+  await cache.delete(CACHE_KEY);
+}
+
+export const quickLinkList: OrderedList = {
+  model: 'quickLink',
+  label: 'quick link',
+  invalidate: invalidateQuickLinks,
+};
@@ -0,0 +1,24 @@
+// Request rate limiting on the shared store, so every instance counts against the same window
+
+import { getStore, RateLimitResult } from './store';
+import { createMemoryStore } from './store-memory';
+import { SECURITY_CONFIG } from './security';
+import { logError } from './error-handler';
+
+// Used while the shared store is unreachable: limits become per instance, but still apply
+const fallback = createMemoryStore();
+
+export async function rateLimit(
+  identifier: string,
+  maxRequests: number = SECURITY_CONFIG.RATE_LIMIT_MAX_REQUESTS,
+  windowMs: number = SECURITY_CONFIG.RATE_LIMIT_WINDOW
+): Promise<RateLimitResult> {
+  const key = `ratelimit:${identifier}`;
+
+  try {
+    return await getStore().rateLimit(key, maxRequests, windowMs);
+  } catch (error) {
+    logError(error, 'Rate limit');
+    return fallback.rateLimit(key, maxRequests, windowMs);
+  }
+}
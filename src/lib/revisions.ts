@@ -0,0 +1,128 @@
+// Content revisions for articles and products in NAMNGAM
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { NotFoundError } from './error-handler';
+import { PermissionResource } from './permissions';
+
+export type RevisionResource = 'Article' | 'Product';
+
+export const REVISION_RESOURCES: RevisionResource[] = ['Article', 'Product'];
+
+const LANGS = ['lo', 'th', 'zh', 'en'];
+
+const MAX_VERSION_ATTEMPTS = 3;
+
+function localized(...fields: string[]) {
+  return fields.flatMap((field) => LANGS.map((lang) => `${field}_${lang}`));
+}
+
+// Fields captured in each snapshot and written back on restore
+export const REVISION_FIELDS: Record<RevisionResource, string[]> = {
+  Article: [
+    ...localized('title', 'excerpt', 'content', 'metaTitle', 'metaDesc'),
+    'featuredImage',
+    'machineTranslated',
+  ],
+  Product: [
+    ...localized('name', 'description', 'metaTitle', 'metaDesc'),
+    'price',
+    'currency',
+    'sku',
+    'featuredImage',
+    'machineTranslated',
+  ],
+};
+
+export const REVISION_PERMISSION_RESOURCE: Record<RevisionResource, PermissionResource> = {
+  Article: 'article',
+  Product: 'product',
+};
+
+export function isRevisionResource(value: unknown): value is RevisionResource {
+  return typeof value === 'string' && REVISION_RESOURCES.includes(value as RevisionResource);
+}
+
+// Copy the versioned fields present on a record into plain JSON (Decimal → string)
+export function pickRevisionData(resourceType: RevisionResource, record: any): Record<string, any> {
+  const data: Record<string, any> = {};
+  for (const field of REVISION_FIELDS[resourceType]) {
+    if (record[field] !== undefined) {
+      data[field] = JSON.parse(JSON.stringify(record[field]));
+    }
+  }
+  return data;
+}
+
+interface CreateRevisionOptions {
+  resourceType: RevisionResource;
+  resourceId: string;
+  record: any;
+  authorId?: string | null;
+  restoredFromId?: string | null;
+}
+
+export async function createRevision(
+  { resourceType, resourceId, record, authorId, restoredFromId }: CreateRevisionOptions,
+  client: any = prisma
+) {
+  // Two saves of the same record can read the same latest version; the unique
+  // (resourceType, resourceId, version) index rejects the second, which retries
+  for (let attempt = 1; ; attempt++) {
+    const latest = await client.revision.findFirst({
+      where: { resourceType, resourceId },
+      orderBy: { version: 'desc' },
+      select: { version: true },
+    });
+
+    try {
+      return await client.revision.create({
+        data: {
+          resourceType,
+          resourceId,
+          version: (latest?.version ?? 0) + 1,
+          data: pickRevisionData(resourceType, record),
+          authorId: authorId || null,
+          restoredFromId: restoredFromId || null,
+        },
+      });
+    } catch (error) {
+      const isVersionClash = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!isVersionClash || attempt >= MAX_VERSION_ATTEMPTS) throw error;
+    }
+  }
+}
+
+// Records created before revisions existed get their current state saved
+// as version 1 before the first overwrite, so it can still be restored.
+export async function ensureBaselineRevision(resourceType: RevisionResource, record: any) {
+  const count = await prisma.revision.count({
+    where: { resourceType, resourceId: record.id },
+  });
+
+  if (count === 0) {
+    await createRevision({
+      resourceType,
+      resourceId: record.id,
+      record,
+      authorId: record.createdById,
+    });
+  }
+}
+
+export async function findRevisionTarget(resourceType: RevisionResource, resourceId: string) {
+  const record = resourceType === 'Article'
+    ? await prisma.article.findUnique({ where: { id: resourceId } })
+    : await prisma.product.findUnique({ where: { id: resourceId } });
+
+  if (!record) {
+    throw new NotFoundError(`${resourceType} not found`);
+  }
+  return record;
+}
+
+export async function deleteRevisions(resourceType: RevisionResource, resourceId: string) {
+  await prisma.revision.deleteMany({
+    where: { resourceType, resourceId },
+  });
+}
@@ -0,0 +1,273 @@
+// Multilingual site search for NAMNGAM
+//
+// Each published article, product and active FAQ is stored once per locale in
+// SearchDocument. Lao, Thai and Chinese are written without spaces between
+// words, so text is split with Intl.Segmenter before it reaches Postgres and
+// the 'simple' text search configuration only has to split on whitespace.
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { locales, Locale } from '@/i18n';
+import { logError } from './error-handler';
+import { cache } from './cache';
+import { toPlainText } from './text-diff';
+
+export type SearchResource = 'Article' | 'Product' | 'FAQ';
+
+export const SEARCH_TYPES: Record<string, SearchResource> = {
+  article: 'Article',
+  product: 'Product',
+  faq: 'FAQ',
+};
+
+const MAX_BODY_LENGTH = 20000;
+const SNIPPET_LENGTH = 160;
+
+// Lowercased word tokens; falls back to per-character tokens for CJK when
+// the runtime has no Intl.Segmenter
+export function segmentWords(text: string, locale: string): string[] {
+  const Segmenter = (Intl as any).Segmenter;
+
+  if (Segmenter) {
+    const segmenter = new Segmenter(locale, { granularity: 'word' });
+    return Array.from(segmenter.segment(text) as Iterable<{ segment: string; isWordLike?: boolean }>)
+      .filter((part) => part.isWordLike)
+      .map((part) => part.segment.toLowerCase());
+  }
+
+  return text
+    .toLowerCase()
+    .replace(/([\u3400-\u9fff])/g, ' $1 ')
+    .split(/[^\p{L}\p{N}\p{M}]+/u)
+    .filter(Boolean);
+}
+
+// Characters with meaning in to_tsquery syntax
+function sanitizeToken(token: string): string {
+  return token.replace(/[&|!():*'"\\<>]/g, '');
+}
+
+interface SearchDocumentInput {
+  locale: Locale;
+  path: string;
+  title: string;
+  body: string;
+  image?: string | null;
+}
+
+async function writeDocuments(resourceType: SearchResource, resourceId: string, docs: SearchDocumentInput[]) {
+  for (const doc of docs) {
+    const body = doc.body.substring(0, MAX_BODY_LENGTH);
+    const titleTokens = segmentWords(doc.title, doc.locale).join(' ');
+    const bodyTokens = segmentWords(body, doc.locale).join(' ');
+
+    const saved = await prisma.searchDocument.upsert({
+      where: {
+        resourceType_resourceId_locale: { resourceType, resourceId, locale: doc.locale },
+      },
+      create: {
+        resourceType,
+        resourceId,
+        locale: doc.locale,
+        path: doc.path,
+        title: doc.title,
+        body,
+        image: doc.image || null,
+        searchText: `${titleTokens} ${bodyTokens}`,
+      },
+      update: {
+        path: doc.path,
+        title: doc.title,
+        body,
+        image: doc.image || null,
+        searchText: `${titleTokens} ${bodyTokens}`,
+      },
+    });
+
+    // Titles rank above body matches
+    await prisma.$executeRaw`
+      UPDATE "SearchDocument"
+      SET "searchVector" = setweight(to_tsvector('simple', ${titleTokens}), 'A')
+        || setweight(to_tsvector('simple', ${bodyTokens}), 'B')
+      WHERE "id" = ${saved.id}
+    `;
+  }
+}
+
+async function removeDocuments(resourceType: SearchResource, resourceId: string) {
+  await prisma.searchDocument.deleteMany({
+    where: { resourceType, resourceId },
+  });
+}
+
+function localizedDocs(
+  record: Record<string, any>,
+  path: string,
+  titleField: string,
+  bodyFields: string[],
+  image?: string | null
+): SearchDocumentInput[] {
+  return locales.map((locale) => ({
+    locale,
+    path,
+    title: record[`${titleField}_${locale}`] || record[`${titleField}_lo`] || '',
+    body: bodyFields
+      .map((field) => toPlainText(record[`${field}_${locale}`] ?? record[`${field}_lo`]))
+      .filter(Boolean)
+      .join('\n'),
+    image,
+  }));
+}
+
+// Index the row when it is publicly visible, otherwise drop it
+async function indexRecord(resourceType: SearchResource, resourceId: string) {
+  if (resourceType === 'Article') {
+    const article = await prisma.article.findUnique({ where: { id: resourceId } });
+    if (!article || article.status !== 'PUBLISHED') {
+      return removeDocuments(resourceType, resourceId);
+    }
+    return writeDocuments(
+      resourceType,
+      resourceId,
+      localizedDocs(article, `/articles/${article.slug}`, 'title', ['excerpt', 'content'], article.featuredImage)
+    );
+  }
+
+  if (resourceType === 'Product') {
+    const product = await prisma.product.findUnique({ where: { id: resourceId } });
+    if (!product || !product.isPublished) {
+      return removeDocuments(resourceType, resourceId);
+    }
+    return writeDocuments(
+      resourceType,
+      resourceId,
+      localizedDocs(product, `/products/${product.slug}`, 'name', ['description'], product.featuredImage)
+    );
+  }
+
+  const faq = await prisma.fAQ.findUnique({ where: { id: resourceId } });
+  if (!faq || !faq.isActive) {
+    return removeDocuments(resourceType, resourceId);
+  }
+  return writeDocuments(resourceType, resourceId, localizedDocs(faq, '/faq', 'question', ['answer']));
+}
+
+// Bring the index in line with the current database row. Cached search results
+// are dropped so edits show up at once. Never throws so saves are not blocked.
+export async function syncSearchDocument(resourceType: SearchResource, resourceId: string) {
+  try {
+    await indexRecord(resourceType, resourceId);
+    await cache.invalidateTag('search');
+  } catch (error) {
+    logError(error, `Search index - ${resourceType} ${resourceId}`);
+  }
+}
+
+// Re-index everything; used after enabling search on an existing database
+export async function rebuildSearchIndex() {
+  const [articles, products, faqs] = await Promise.all([
+    prisma.article.findMany({ select: { id: true } }),
+    prisma.product.findMany({ select: { id: true } }),
+    prisma.fAQ.findMany({ select: { id: true } }),
+  ]);
+
+  await prisma.searchDocument.deleteMany({});
+
+  for (const [resourceType, rows] of [['Article', articles], ['Product', products], ['FAQ', faqs]] as const) {
+    for (const { id } of rows) {
+      try {
+        await indexRecord(resourceType, id);
+      } catch (error) {
+        logError(error, `Search index - ${resourceType} ${id}`);
+      }
+    }
+  }
+  await cache.invalidateTag('search');
+
+  return {
+    articles: articles.length,
+    products: products.length,
+    faqs: faqs.length,
+  };
+}
+
+// Short excerpt around the first matching term
+function buildSnippet(body: string, terms: string[]): string {
+  const lower = body.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - Math.floor(SNIPPET_LENGTH / 3));
+  const snippet = body.substring(start, start + SNIPPET_LENGTH).replace(/\s+/g, ' ').trim();
+
+  return `${start > 0 ? '…' : ''}${snippet}${start + SNIPPET_LENGTH < body.length ? '…' : ''}`;
+}
+
+interface SearchOptions {
+  query: string;
+  locale: Locale;
+  type?: SearchResource;
+  page: number;
+  limit: number;
+}
+
+interface SearchRow {
+  resourceType: SearchResource;
+  resourceId: string;
+  path: string;
+  title: string;
+  body: string;
+  image: string | null;
+  rank: number;
+}
+
+export async function searchDocuments({ query, locale, type, page, limit }: SearchOptions) {
+  const terms = segmentWords(query, locale).map(sanitizeToken).filter(Boolean);
+
+  if (terms.length === 0) {
+    return { results: [], total: 0, terms };
+  }
+
+  // Prefix match every term so partially typed words still hit
+  const tsQuery = terms.map((term) => `${term}:*`).join(' & ');
+  // Substring fallback for text the segmenter split differently than the query
+  const pattern = `%${query.trim().replace(/[\\%_]/g, '\\$&')}%`;
+
+  const where = Prisma.sql`
+    "locale" = ${locale}
+    ${type ? Prisma.sql`AND "resourceType" = ${type}` : Prisma.empty}
+    AND (
+      "searchVector" @@ to_tsquery('simple', ${tsQuery})
+      OR "title" ILIKE ${pattern}
+      OR "body" ILIKE ${pattern}
+    )
+  `;
+
+  const [rows, countRows] = await Promise.all([
+    prisma.$queryRaw<SearchRow[]>`
+      SELECT "resourceType", "resourceId", "path", "title", "body", "image",
+        COALESCE(ts_rank("searchVector", to_tsquery('simple', ${tsQuery})), 0)
+          + CASE WHEN "title" ILIKE ${pattern} THEN 0.5 ELSE 0 END AS "rank"
+      FROM "SearchDocument"
+      WHERE ${where}
+      ORDER BY "rank" DESC, "updatedAt" DESC
+      LIMIT ${limit} OFFSET ${(page - 1) * limit}
+    `,
+    prisma.$queryRaw<Array<{ count: bigint }>>`
+      SELECT COUNT(*) AS "count" FROM "SearchDocument" WHERE ${where}
+    `,
+  ]);
+
+  return {
+    results: rows.map((row) => ({
+      type: row.resourceType,
+      id: row.resourceId,
+      path: `/${locale}${row.path}`,
+      title: row.title,
+      snippet: buildSnippet(row.body, [query.trim().toLowerCase(), ...terms]),
+      image: row.image,
+      score: Number(row.rank),
+    })),
+    total: Number(countRows[0]?.count ?? 0),
+    terms,
+  };
+}
@@ -1,8 +1,5 @@
 // Security configuration and utilities for NAMNGAM
 
-// Rate limiting storage (in production, use Redis)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
-
 // Security configuration
 export const SECURITY_CONFIG = {
   // Rate limiting
@@ -35,38 +32,6 @@ export const SECURITY_CONFIG = {
   CSRF_TOKEN_EXPIRY: 60 * 60 * 24, // 24 hours
 };
 
-// Rate limiting middleware
-export function rateLimit(identifier: string, maxRequests: number = SECURITY_CONFIG.RATE_LIMIT_MAX_REQUESTS) {
-  const now = Date.now();
-  const windowStart = now - SECURITY_CONFIG.RATE_LIMIT_WINDOW;
-  
-  // Clean up old entries
-  rateLimitStore.forEach((value, key) => {
-    if (value.resetTime < now) {
-      rateLimitStore.delete(key);
-    }
-  });
-  
-  // Check current rate limit
-  const current = rateLimitStore.get(identifier);
-  
-  if (!current) {
-    rateLimitStore.set(identifier, { count: 1, resetTime: now + SECURITY_CONFIG.RATE_LIMIT_WINDOW });
-    return { success: true, remaining: maxRequests - 1 };
-  }
-  
-  if (current.count >= maxRequests) {
-    return { 
-      success: false, 
-      error: 'Rate limit exceeded',
-      resetTime: current.resetTime
-    };
-  }
-  
-  current.count++;
-  return { success: true, remaining: maxRequests - current.count };
-}
-
 // Get client IP for rate limiting
 export function getClientIP(request: any): string {
   // Handle different request object structures
@@ -94,6 +59,26 @@ export function getClientIP(request: any): string {
   return request.ip || request.connection?.remoteAddress || 'unknown';
 }
 
+// Client IP for access decisions, which must not trust client-supplied headers.
+// Uses the platform's request.ip when set (e.g. Vercel). Behind your own reverse
+// proxies, set TRUSTED_PROXY_HOPS to how many of them append to X-Forwarded-For
+// (1 for a single nginx with `proxy_add_x_forwarded_for`); the entry that many
+// places from the right is the one the outermost trusted proxy saw. Without
+// either, the IP is unknown and matches no allowlist.
+export function getTrustedClientIP(request: { ip?: string; headers: Headers }): string | null {
+  if (request.ip) return request.ip;
+
+  // @ts-ignore
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || '') || 0;
+  if (hops < 1) return null;
+
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return forwarded.length >= hops ? forwarded[forwarded.length - hops] : null;
+}
+
 // Validate file upload security
 export function validateFileUpload(file: File, maxSize: number = SECURITY_CONFIG.MAX_FILE_SIZE): { valid: boolean; error?: string } {
   // Check file size
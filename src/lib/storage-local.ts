@@ -0,0 +1,78 @@
+// Local filesystem storage, rooted at public/uploads by default
+
+import { readFile, writeFile, mkdir, unlink, readdir, stat } from 'fs/promises';
+import path from 'path';
+import { StorageAdapter, StorageListItem, assertValidKey, contentTypeFor, mediaUrl } from './storage';
+
+export function createLocalStorage(
+  root: string = process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'public', 'uploads')
+): StorageAdapter {
+  const rootDir = path.resolve(root);
+
+  const resolve = (key: string) => {
+    assertValidKey(key);
+    return path.join(rootDir, ...key.split('/'));
+  };
+
+  async function walk(dir: string, prefix: string, items: StorageListItem[]) {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const key = prefix ? `${prefix}/${entry.name}` : entry.name;
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await walk(fullPath, key, items);
+      } else if (entry.isFile()) {
+        const stats = await stat(fullPath);
+        items.push({ key, size: stats.size, lastModified: stats.mtime });
+      }
+    }
+  }
+
+  return {
+    backend: 'local',
+
+    async put(key, body) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+    },
+
+    async get(key) {
+      try {
+        const body = await readFile(resolve(key));
+        return { body, size: body.length, contentType: contentTypeFor(key) };
+      } catch (error: any) {
+        if (error.code === 'ENOENT' || error.code === 'EISDIR') return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      try {
+        await unlink(resolve(key));
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    },
+
+    async list(prefix = '') {
+      const items: StorageListItem[] = [];
+      const base = prefix.replace(/\/+$/, '');
+      if (base) assertValidKey(base);
+      await walk(base ? resolve(base) : rootDir, base, items);
+      return items;
+    },
+
+    async signedUrl(key) {
+      assertValidKey(key);
+      return mediaUrl(key);
+    },
+  };
+}
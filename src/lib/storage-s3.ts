@@ -0,0 +1,127 @@
+// S3-compatible object storage (AWS S3, MinIO, R2...) on the AWS SDK
+
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+  paginateListObjectsV2,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { StorageAdapter, StorageListItem, assertValidKey, contentTypeFor } from './storage';
+
+export interface S3StorageConfig {
+  // Unset for AWS itself
+  endpoint?: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Path-style URLs (endpoint/bucket/key) are what MinIO expects
+  forcePathStyle: boolean;
+  prefix: string;
+}
+
+function readConfigFromEnv(): S3StorageConfig {
+  const bucket = process.env.S3_BUCKET;
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
+  const customEndpoint = process.env.S3_ENDPOINT;
+
+  return {
+    endpoint: customEndpoint ? customEndpoint.replace(/\/+$/, '') : undefined,
+    region: process.env.S3_REGION || 'us-east-1',
+    bucket,
+    accessKeyId,
+    secretAccessKey,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE === 'true'
+      : Boolean(customEndpoint),
+    prefix: (process.env.S3_PREFIX || '').replace(/^\/+|\/+$/g, ''),
+  };
+}
+
+function isNotFound(error: unknown) {
+  return error instanceof S3ServiceException && (error.name === 'NoSuchKey' || error.$metadata.httpStatusCode === 404);
+}
+
+export function createS3Storage(config: S3StorageConfig = readConfigFromEnv()): StorageAdapter {
+  const client = new S3Client({
+    endpoint: config.endpoint,
+    region: config.region,
+    forcePathStyle: config.forcePathStyle,
+    credentials: {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    },
+    // Only send checksums S3 requires; not every S3-compatible service supports the newer ones
+    requestChecksumCalculation: 'WHEN_REQUIRED',
+    responseChecksumValidation: 'WHEN_REQUIRED',
+  });
+
+  const objectKey = (key: string) => {
+    assertValidKey(key);
+    return config.prefix ? `${config.prefix}/${key}` : key;
+  };
+
+  return {
+    backend: 's3',
+
+    async put(key, body, contentType) {
+      await client.send(
+        new PutObjectCommand({ Bucket: config.bucket, Key: objectKey(key), Body: body, ContentType: contentType })
+      );
+    },
+
+    async get(key) {
+      try {
+        const response = await client.send(new GetObjectCommand({ Bucket: config.bucket, Key: objectKey(key) }));
+        const body = Buffer.from(await response.Body!.transformToByteArray());
+        return {
+          body,
+          size: body.length,
+          contentType: response.ContentType || contentTypeFor(key),
+        };
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      // Deleting a missing object is not an error in S3
+      await client.send(new DeleteObjectCommand({ Bucket: config.bucket, Key: objectKey(key) }));
+    },
+
+    async list(prefix = '') {
+      const folder = prefix.replace(/^\/+|\/+$/g, '');
+      const fullPrefix = [config.prefix, folder].filter(Boolean).map((part) => `${part}/`).join('');
+      const items: StorageListItem[] = [];
+
+      for await (const page of paginateListObjectsV2({ client }, { Bucket: config.bucket, Prefix: fullPrefix })) {
+        for (const object of page.Contents || []) {
+          const key = object.Key || '';
+          items.push({
+            key: config.prefix ? key.slice(config.prefix.length + 1) : key,
+            size: object.Size || 0,
+            lastModified: object.LastModified || null,
+          });
+        }
+      }
+
+      return items;
+    },
+
+    async signedUrl(key, expiresInSeconds = 3600) {
+      return getSignedUrl(client, new GetObjectCommand({ Bucket: config.bucket, Key: objectKey(key) }), {
+        // SigV4 presigned URLs are valid for at most 7 days
+        expiresIn: Math.min(Math.max(Math.floor(expiresInSeconds), 1), 604800),
+      });
+    },
+  };
+}
@@ -0,0 +1,90 @@
+// Storage backends for uploaded media. Objects are addressed by key
+// ("<folder>/<filename>") and always served from /uploads/<key>, so media URLs
+// stay the same whichever backend holds the bytes.
+
+import path from 'path';
+import { createLocalStorage } from './storage-local';
+import { createS3Storage } from './storage-s3';
+
+export type StorageBackend = 'local' | 's3';
+
+export const STORAGE_BACKENDS: StorageBackend[] = ['local', 's3'];
+
+export interface StoredObject {
+  body: Buffer;
+  size: number;
+  contentType: string;
+}
+
+export interface StorageListItem {
+  key: string;
+  size: number;
+  lastModified: Date | null;
+}
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // Resolves to null when the object does not exist
+  get(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+  // Prefix is a folder path such as "products"
+  list(prefix?: string): Promise<StorageListItem[]>;
+  // Time-limited direct URL; the local backend returns its public path
+  signedUrl(key: string, expiresInSeconds?: number): Promise<string>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.avif': 'image/avif',
+};
+
+export function contentTypeFor(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+}
+
+// Rejects keys that could escape the upload root or bucket prefix
+export function assertValidKey(key: string) {
+  const segments = key.split('/');
+  if (!key || key.startsWith('/') || segments.some((segment) => !segment || segment === '.' || segment === '..')) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+export function isStorageBackend(value: unknown): value is StorageBackend {
+  return typeof value === 'string' && STORAGE_BACKENDS.includes(value as StorageBackend);
+}
+
+// Media rows predating the storage column hold an absolute disk path, so derive the key from the URL
+export function mediaKey(media: { url: string }): string {
+  return media.url.replace(/^\/uploads\//, '');
+}
+
+export function mediaUrl(key: string): string {
+  return `/uploads/${key}`;
+}
+
+const adapters = new Map<StorageBackend, StorageAdapter>();
+
+export function getStorageFor(backend: StorageBackend): StorageAdapter {
+  let adapter = adapters.get(backend);
+  if (!adapter) {
+    adapter = backend === 's3' ? createS3Storage() : createLocalStorage();
+    adapters.set(backend, adapter);
+  }
+  return adapter;
+}
+
+// Backend new uploads go to, chosen with STORAGE_DRIVER
+export function getStorage(): StorageAdapter {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+  if (!isStorageBackend(driver)) {
+    throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+  return getStorageFor(driver);
+}
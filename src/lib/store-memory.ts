@@ -0,0 +1,127 @@
+// In-process store. Has no Node-only imports so the Edge middleware can use it too.
+
+import type { RateLimitResult, Store } from './store';
+
+interface Entry {
+  value: unknown;
+  expiresAt: number;
+  tags: string[];
+}
+
+interface Hits {
+  times: number[];
+  expiresAt: number;
+}
+
+// Expired entries are dropped when read and by a sweep on write, so no timer keeps the process alive
+const SWEEP_INTERVAL = 60 * 1000;
+
+export function createMemoryStore(): Store {
+  const entries = new Map<string, Entry>();
+  const tagIndex = new Map<string, Set<string>>();
+  const hits = new Map<string, Hits>();
+  const listeners = new Map<string, Set<(message: string) => void>>();
+  let lastSweep = Date.now();
+
+  function remove(key: string) {
+    const entry = entries.get(key);
+    if (!entry) return;
+
+    entries.delete(key);
+    for (const tag of entry.tags) {
+      const keys = tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) tagIndex.delete(tag);
+    }
+  }
+
+  function sweep(now: number) {
+    if (now - lastSweep < SWEEP_INTERVAL) return;
+    lastSweep = now;
+
+    entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) remove(key);
+    });
+    hits.forEach((value, key) => {
+      if (value.expiresAt <= now) hits.delete(key);
+    });
+  }
+
+  return {
+    driver: 'memory',
+
+    async get<T>(key: string): Promise<T | null> {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      if (entry.expiresAt <= Date.now()) {
+        remove(key);
+        return null;
+      }
+      return entry.value as T;
+    },
+
+    async set(key, value, ttlSeconds, tags = []) {
+      const now = Date.now();
+      sweep(now);
+
+      remove(key);
+      entries.set(key, { value, expiresAt: now + ttlSeconds * 1000, tags });
+      for (const tag of tags) {
+        const keys = tagIndex.get(tag) || new Set<string>();
+        keys.add(key);
+        tagIndex.set(tag, keys);
+      }
+    },
+
+    async delete(...keys) {
+      keys.forEach(remove);
+    },
+
+    async invalidateTag(tag) {
+      tagIndex.get(tag)?.forEach(remove);
+    },
+
+    async claim(key, ttlSeconds) {
+      const now = Date.now();
+      sweep(now);
+
+      const entry = entries.get(key);
+      if (entry && entry.expiresAt > now) return false;
+
+      remove(key);
+      entries.set(key, { value: true, expiresAt: now + ttlSeconds * 1000, tags: [] });
+      return true;
+    },
+
+    async rateLimit(key, limit, windowMs): Promise<RateLimitResult> {
+      const now = Date.now();
+      sweep(now);
+
+      const times = (hits.get(key)?.times || []).filter((time) => time > now - windowMs);
+      const success = times.length < limit;
+      if (success) times.push(now);
+      hits.set(key, { times, expiresAt: times[times.length - 1] + windowMs });
+
+      return {
+        success,
+        remaining: Math.max(0, limit - times.length),
+        resetTime: times[0] + windowMs,
+      };
+    },
+
+    async publish(channel, message) {
+      listeners.get(channel)?.forEach((listener) => listener(message));
+    },
+
+    subscribe(channel, listener) {
+      const channelListeners = listeners.get(channel) || new Set();
+      channelListeners.add(listener);
+      listeners.set(channel, channelListeners);
+
+      return () => {
+        channelListeners.delete(listener);
+      };
+    },
+  };
+}
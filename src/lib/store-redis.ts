@@ -0,0 +1,154 @@
+// Redis store on ioredis. Multi-step operations run as Lua scripts so they are
+// atomic across instances.
+
+import Redis from 'ioredis';
+import { randomUUID } from 'crypto';
+import { logError } from './error-handler';
+import type { RateLimitResult, Store } from './store';
+
+export interface RedisStoreConfig {
+  // redis://[:password@]host:port[/db], or rediss:// for TLS
+  url: string;
+  // Prepended to every key and channel so several sites can share one Redis
+  prefix: string;
+}
+
+const CONNECT_TIMEOUT = 5000;
+const COMMAND_TIMEOUT = 5000;
+
+// Stores the value and adds its key to each tag set. A tag set lives as long as its longest-lived key.
+const SET_SCRIPT = `
+redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+for i = 2, #KEYS do
+  redis.call('SADD', KEYS[i], KEYS[1])
+  if redis.call('PTTL', KEYS[i]) < tonumber(ARGV[2]) then
+    redis.call('PEXPIRE', KEYS[i], ARGV[2])
+  end
+end
+return 1
+`;
+
+const INVALIDATE_TAG_SCRIPT = `
+local keys = redis.call('SMEMBERS', KEYS[1])
+for i = 1, #keys, 500 do
+  redis.call('DEL', unpack(keys, i, math.min(i + 499, #keys)))
+end
+redis.call('DEL', KEYS[1])
+return #keys
+`;
+
+// Sliding-window log: one sorted-set member per counted request, scored by
+// Redis server time so instances with drifting clocks agree
+const RATE_LIMIT_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local window = tonumber(ARGV[1])
+local limit = tonumber(ARGV[2])
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, now .. ':' .. ARGV[3])
+  redis.call('PEXPIRE', KEYS[1], window)
+  count = count + 1
+  allowed = 1
+end
+
+local reset = now + window
+local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+if oldest[2] then
+  reset = tonumber(oldest[2]) + window
+end
+return { allowed, limit - count, reset }
+`;
+
+export function createRedisStore(config: RedisStoreConfig): Store {
+  const key = (name: string) => `${config.prefix}${name}`;
+  const tagKey = (tag: string) => key(`tag:${tag}`);
+
+  // Fail fast while Redis is unreachable instead of holding requests in the offline queue
+  const client = new Redis(config.url, {
+    connectTimeout: CONNECT_TIMEOUT,
+    commandTimeout: COMMAND_TIMEOUT,
+    maxRetriesPerRequest: 1,
+  });
+  // A subscribed connection cannot run other commands, so pub/sub gets its own.
+  // Its SUBSCRIBEs wait for a connection, and ioredis repeats them after reconnecting.
+  const subscriber = client.duplicate({ maxRetriesPerRequest: null });
+  client.on('error', (error) => logError(error, 'Redis store'));
+  subscriber.on('error', (error) => logError(error, 'Redis store - subscriber'));
+
+  const listeners = new Map<string, Set<(message: string) => void>>();
+  subscriber.on('message', (channel: string, message: string) => {
+    listeners.get(channel.slice(config.prefix.length))?.forEach((listener) => listener(message));
+  });
+
+  return {
+    driver: 'redis',
+
+    async get<T>(name: string): Promise<T | null> {
+      const value = await client.get(key(name));
+      return value !== null ? (JSON.parse(value) as T) : null;
+    },
+
+    async set(name, value, ttlSeconds, tags = []) {
+      const keys = [key(name), ...tags.map(tagKey)];
+      await client.eval(
+        SET_SCRIPT,
+        keys.length,
+        ...keys,
+        JSON.stringify(value),
+        Math.max(1, Math.round(ttlSeconds * 1000))
+      );
+    },
+
+    async delete(...names) {
+      if (names.length === 0) return;
+      await client.del(...names.map(key));
+    },
+
+    async invalidateTag(tag) {
+      await client.eval(INVALIDATE_TAG_SCRIPT, 1, tagKey(tag));
+    },
+
+    async claim(name, ttlSeconds) {
+      const result = await client.set(key(name), '1', 'PX', Math.max(1, Math.round(ttlSeconds * 1000)), 'NX');
+      return result === 'OK';
+    },
+
+    async rateLimit(name, limit, windowMs): Promise<RateLimitResult> {
+      const [allowed, remaining, resetTime] = (await client.eval(
+        RATE_LIMIT_SCRIPT,
+        1,
+        key(name),
+        windowMs,
+        limit,
+        randomUUID()
+      )) as number[];
+
+      return { success: allowed === 1, remaining: Math.max(0, remaining), resetTime };
+    },
+
+    async publish(channel, message) {
+      await client.publish(key(channel), message);
+    },
+
+    subscribe(channel, listener) {
+      let channelListeners = listeners.get(channel);
+      if (!channelListeners) {
+        channelListeners = new Set();
+        listeners.set(channel, channelListeners);
+        subscriber.subscribe(key(channel)).catch((error) => {
+          logError(error, 'Redis store - subscribe');
+        });
+      }
+      channelListeners.add(listener);
+
+      const current = channelListeners;
+      return () => {
+        current.delete(listener);
+      };
+    },
+  };
+}
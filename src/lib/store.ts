@@ -0,0 +1,59 @@
+// Key-value store behind the application cache and rate limits. The memory
+// store only sees its own process; with STORE_DRIVER=redis every instance
+// behind the load balancer shares one Redis.
+
+import { createMemoryStore } from './store-memory';
+import { createRedisStore } from './store-redis';
+
+export type StoreDriver = 'memory' | 'redis';
+
+export const STORE_DRIVERS: StoreDriver[] = ['memory', 'redis'];
+
+export interface RateLimitResult {
+  success: boolean;
+  remaining: number;
+  // Epoch milliseconds at which the oldest counted request leaves the window
+  resetTime: number;
+}
+
+export interface Store {
+  readonly driver: StoreDriver;
+  // Resolves to null for missing and expired keys
+  get<T = unknown>(key: string): Promise<T | null>;
+  // Values must be JSON-serializable; tags group keys for invalidateTag
+  set(key: string, value: unknown, ttlSeconds: number, tags?: string[]): Promise<void>;
+  delete(...keys: string[]): Promise<void>;
+  // Deletes every key set with the tag
+  invalidateTag(tag: string): Promise<void>;
+  // Sets the key only if it is absent; resolves to false when it was already taken
+  claim(key: string, ttlSeconds: number): Promise<boolean>;
+  // Sliding window: allowed while fewer than `limit` requests were counted in the last `windowMs`
+  rateLimit(key: string, limit: number, windowMs: number): Promise<RateLimitResult>;
+  publish(channel: string, message: string): Promise<void>;
+  // Returns a function that removes the listener
+  subscribe(channel: string, listener: (message: string) => void): () => void;
+}
+
+export function isStoreDriver(value: unknown): value is StoreDriver {
+  return typeof value === 'string' && STORE_DRIVERS.includes(value as StoreDriver);
+}
+
+let store: Store | null = null;
+
+// Store chosen with STORE_DRIVER, shared by the whole process
+export function getStore(): Store {
+  if (!store) {
+    const driver = process.env.STORE_DRIVER || 'memory';
+    if (!isStoreDriver(driver)) {
+      throw new Error(`Unknown STORE_DRIVER: ${driver}`);
+    }
+
+    store = driver === 'redis'
+      ? createRedisStore({
+          url: process.env.REDIS_URL || 'redis://localhost:6379',
+          prefix: process.env.REDIS_PREFIX ?? 'namngam:',
+        })
+      : createMemoryStore();
+  }
+  return store;
+}
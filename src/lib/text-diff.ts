@@ -0,0 +1,95 @@
+// Word-level text diff used by the revision viewer
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+// LCS is O(n·m); beyond this many tokens per side just show a replacement
+const MAX_DIFF_TOKENS = 2000;
+
+// Flatten rich text (HTML string or TipTap JSON) into readable plain text
+export function toPlainText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  if (typeof value === 'string') {
+    return value
+      .replace(/<\/(p|h[1-6]|li|blockquote)>/gi, '\n')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toPlainText).join('\n');
+  }
+
+  if (typeof value === 'object') {
+    const node = value as { text?: string; content?: unknown[] };
+    if (typeof node.text === 'string') return node.text;
+    if (Array.isArray(node.content)) return node.content.map(toPlainText).join(' ');
+  }
+
+  return String(value);
+}
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], value: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    parts.push({ type, value });
+  }
+}
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  if (before === after) {
+    return before ? [{ type: 'equal', value: before }] : [];
+  }
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    return [
+      ...(before ? [{ type: 'removed' as const, value: before }] : []),
+      ...(after ? [{ type: 'added' as const, value: after }] : []),
+    ];
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++]);
+    } else {
+      pushPart(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++]);
+  while (j < b.length) pushPart(parts, 'added', b[j++]);
+
+  return parts;
+}
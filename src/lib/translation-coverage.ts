@@ -0,0 +1,288 @@
+// Translation coverage across the localized content models
+//
+// getLocalizedField quietly falls back to Lao when a translation is empty, so
+// this is where untranslated fields are made visible: per-locale completeness
+// for the admin report, "missing <locale>" filters for the admin lists, and the
+// set of locales a public page can honestly advertise in hreflang.
+
+import { prisma } from './prisma';
+import { locales, Locale } from '@/i18n';
+import { ValidationError } from './error-handler';
+import { toPlainText } from './text-diff';
+
+export type TranslationModel =
+  | 'product'
+  | 'article'
+  | 'category'
+  | 'faq'
+  | 'faqCategory'
+  | 'tag'
+  | 'aboutPage'
+  | 'aboutValue'
+  | 'siteSettings';
+
+type LocalizedRecord = Record<string, unknown> & { id: string };
+
+interface TranslationModelConfig {
+  label: string;
+  // Base names of the `_lo/_th/_zh/_en` columns
+  fields: string[];
+  // Field used to name a record in the report
+  titleField: string;
+  href: (id: string) => string;
+  load: (select: Record<string, true>) => Promise<unknown[]>;
+}
+
+export const TRANSLATION_MODELS: Record<TranslationModel, TranslationModelConfig> = {
+  product: {
+    label: 'Products',
+    fields: ['name', 'description', 'metaTitle', 'metaDesc'],
+    titleField: 'name',
+    href: (id) => `/admin/products/${id}/edit`,
+    load: (select) => prisma.product.findMany({ select, orderBy: { order: 'asc' } }),
+  },
+  article: {
+    label: 'Articles',
+    fields: ['title', 'excerpt', 'content', 'imageAlt', 'metaTitle', 'metaDesc'],
+    titleField: 'title',
+    href: (id) => `/admin/articles/${id}/edit`,
+    load: (select) => prisma.article.findMany({ select, orderBy: { createdAt: 'desc' } }),
+  },
+  category: {
+    label: 'Categories',
+    fields: ['name', 'description'],
+    titleField: 'name',
+    href: (id) => `/admin/categories/${id}/edit`,
+    load: (select) => prisma.category.findMany({ select, orderBy: { order: 'asc' } }),
+  },
+  faq: {
+    label: 'FAQs',
+    fields: ['question', 'answer'],
+    titleField: 'question',
+    href: () => '/admin/faqs',
+    load: (select) => prisma.fAQ.findMany({ select, orderBy: { order: 'asc' } }),
+  },
+  faqCategory: {
+    label: 'FAQ Categories',
+    fields: ['name', 'description'],
+    titleField: 'name',
+    href: () => '/admin/faqs',
+    load: (select) => prisma.fAQCategory.findMany({ select, orderBy: { order: 'asc' } }),
+  },
+  tag: {
+    label: 'Tags',
+    fields: ['name'],
+    titleField: 'name',
+    href: () => '/admin/tags',
+    load: (select) => prisma.tag.findMany({ select, orderBy: { createdAt: 'asc' } }),
+  },
+  aboutPage: {
+    label: 'About Page',
+    fields: ['title', 'storyTitle', 'storyParagraph1', 'storyParagraph2'],
+    titleField: 'title',
+    href: () => '/admin/about',
+    load: (select) => prisma.aboutPage.findMany({ select }),
+  },
+  aboutValue: {
+    label: 'About Page Values',
+    fields: ['title', 'description'],
+    titleField: 'title',
+    href: () => '/admin/about',
+    load: (select) => prisma.aboutValue.findMany({ select, orderBy: { order: 'asc' } }),
+  },
+  siteSettings: {
+    label: 'Site Settings',
+    fields: [
+      'siteName',
+      'heroWelcome',
+      'heroTitle',
+      'heroSubtitle',
+      'heroBadgeText',
+      'address',
+      'whatsappMessage',
+      'defaultMetaDesc',
+      'maintenanceMessage',
+    ],
+    titleField: 'siteName',
+    href: () => '/admin/settings',
+    load: (select) => prisma.siteSettings.findMany({ select }),
+  },
+};
+
+export function parseTranslationLocale(value: string | null): Locale | undefined {
+  if (!value) return undefined;
+
+  if (!locales.includes(value as Locale)) {
+    throw new ValidationError(`Invalid locale: ${value}`, 'missing');
+  }
+  return value as Locale;
+}
+
+// Plain strings, HTML and TipTap documents all count as empty when they hold no
+// text; a TipTap image is content even without any
+export function hasTranslation(value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'string') return toPlainText(value).length > 0;
+  if (Array.isArray(value)) return value.some(hasTranslation);
+
+  if (typeof value === 'object') {
+    const node = value as { text?: unknown; content?: unknown; attrs?: { src?: unknown } };
+    if (typeof node.text === 'string') return node.text.trim().length > 0;
+    if (node.content !== undefined) return hasTranslation(node.content);
+    return typeof node.attrs?.src === 'string' && node.attrs.src.length > 0;
+  }
+
+  return true;
+}
+
+// Locales missing each field. A field nobody has written in any language is
+// optional and left out rather than reported as missing everywhere.
+export function getMissingFields(record: Record<string, unknown>, fields: string[]): Record<Locale, string[]> {
+  const missing = Object.fromEntries(locales.map((locale) => [locale, [] as string[]])) as Record<Locale, string[]>;
+
+  for (const field of fields) {
+    const filled = locales.filter((locale) => hasTranslation(record[`${field}_${locale}`]));
+    if (filled.length === 0) continue;
+
+    for (const locale of locales) {
+      if (!filled.includes(locale)) missing[locale].push(field);
+    }
+  }
+
+  return missing;
+}
+
+// Locales that render their own text for all the given fields instead of the Lao fallback
+export function getTranslatedLocales(record: Record<string, unknown>, fields: string[]): Locale[] {
+  const missing = getMissingFields(record, fields);
+  return locales.filter((locale) => missing[locale].length === 0);
+}
+
+function buildSelect(fields: string[]): Record<string, true> {
+  const select: Record<string, true> = { id: true };
+  for (const field of fields) {
+    for (const locale of locales) {
+      select[`${field}_${locale}`] = true;
+    }
+  }
+  return select;
+}
+
+async function loadRecords(config: TranslationModelConfig): Promise<LocalizedRecord[]> {
+  return (await config.load(buildSelect(config.fields))) as LocalizedRecord[];
+}
+
+// Ids of the records with at least one empty field in the locale. Rich text
+// emptiness cannot be expressed in a where clause, so rows are checked here.
+export async function getMissingTranslationIds(model: TranslationModel, locale: Locale): Promise<string[]> {
+  const config = TRANSLATION_MODELS[model];
+  const records = await loadRecords(config);
+
+  return records
+    .filter((record) => getMissingFields(record, config.fields)[locale].length > 0)
+    .map((record) => record.id);
+}
+
+export interface LocaleCoverage {
+  filled: number;
+  expected: number;
+  percent: number;
+}
+
+export interface TranslationGap {
+  id: string;
+  title: string;
+  href: string;
+  missing: Record<Locale, string[]>;
+}
+
+export interface ModelTranslationCoverage {
+  model: TranslationModel;
+  label: string;
+  fields: string[];
+  records: number;
+  coverage: Record<Locale, LocaleCoverage>;
+  // Only records with something missing
+  gaps: TranslationGap[];
+}
+
+export interface TranslationCoverageReport {
+  generatedAt: string;
+  coverage: Record<Locale, LocaleCoverage>;
+  models: ModelTranslationCoverage[];
+}
+
+function toCoverage(filled: number, expected: number): LocaleCoverage {
+  return {
+    filled,
+    expected,
+    percent: expected === 0 ? 100 : Math.floor((filled / expected) * 1000) / 10,
+  };
+}
+
+function emptyTally(): Record<Locale, { filled: number; expected: number }> {
+  return Object.fromEntries(locales.map((locale) => [locale, { filled: 0, expected: 0 }])) as Record<
+    Locale,
+    { filled: number; expected: number }
+  >;
+}
+
+async function getModelCoverage(model: TranslationModel): Promise<ModelTranslationCoverage> {
+  const config = TRANSLATION_MODELS[model];
+  const records = await loadRecords(config);
+  const tally = emptyTally();
+  const gaps: TranslationGap[] = [];
+
+  for (const record of records) {
+    const missing = getMissingFields(record, config.fields);
+    const expected = config.fields.filter((field) =>
+      locales.some((locale) => hasTranslation(record[`${field}_${locale}`]))
+    ).length;
+
+    for (const locale of locales) {
+      tally[locale].expected += expected;
+      tally[locale].filled += expected - missing[locale].length;
+    }
+
+    if (locales.some((locale) => missing[locale].length > 0)) {
+      gaps.push({
+        id: record.id,
+        title:
+          toPlainText(record[`${config.titleField}_lo`]) ||
+          locales.map((locale) => toPlainText(record[`${config.titleField}_${locale}`])).find(Boolean) ||
+          record.id,
+        href: config.href(record.id),
+        missing,
+      });
+    }
+  }
+
+  return {
+    model,
+    label: config.label,
+    fields: config.fields,
+    records: records.length,
+    coverage: Object.fromEntries(
+      locales.map((locale) => [locale, toCoverage(tally[locale].filled, tally[locale].expected)])
+    ) as Record<Locale, LocaleCoverage>,
+    gaps,
+  };
+}
+
+export async function getTranslationCoverage(): Promise<TranslationCoverageReport> {
+  const models = await Promise.all(
+    (Object.keys(TRANSLATION_MODELS) as TranslationModel[]).map(getModelCoverage)
+  );
+
+  return {
+    generatedAt: new Date().toISOString(),
+    coverage: Object.fromEntries(
+      locales.map((locale) => {
+        const filled = models.reduce((sum, model) => sum + model.coverage[locale].filled, 0);
+        const expected = models.reduce((sum, model) => sum + model.coverage[locale].expected, 0);
+        return [locale, toCoverage(filled, expected)];
+      })
+    ) as Record<Locale, LocaleCoverage>,
+    models,
+  };
+}
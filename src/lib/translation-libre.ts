@@ -0,0 +1,67 @@
+// LibreTranslate-compatible HTTP provider; works with the public service or a
+// self-hosted container (docker run -p 5000:5000 libretranslate/libretranslate)
+
+import { Locale } from '@/i18n';
+import { AppError } from './error-handler';
+import { TranslationProvider } from './machine-translation';
+
+export interface LibreTranslateConfig {
+  url: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+function readConfigFromEnv(): LibreTranslateConfig {
+  return {
+    url: (process.env.LIBRETRANSLATE_URL || 'http://localhost:5000').replace(/\/+$/, ''),
+    apiKey: process.env.LIBRETRANSLATE_API_KEY || undefined,
+    timeoutMs: parseInt(process.env.LIBRETRANSLATE_TIMEOUT_MS || '30000') || 30000,
+  };
+}
+
+export function createLibreTranslateProvider(config: LibreTranslateConfig = readConfigFromEnv()): TranslationProvider {
+  return {
+    name: 'libretranslate',
+
+    async translate(texts: string[], source: Locale, target: Locale) {
+      if (texts.length === 0) return [];
+
+      let res: Response;
+      try {
+        res = await fetch(`${config.url}/translate`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            q: texts,
+            source,
+            target,
+            format: 'text',
+            ...(config.apiKey && { api_key: config.apiKey }),
+          }),
+          signal: AbortSignal.timeout(config.timeoutMs),
+        });
+      } catch (error) {
+        console.error('LibreTranslate request failed:', error);
+        throw new AppError('Translation service is unreachable', 502, true, 'TRANSLATION_FAILED');
+      }
+
+      const data = await res.json().catch(() => null);
+      if (!res.ok || !data) {
+        throw new AppError(
+          `Translation failed: ${data?.error || res.statusText}`,
+          502,
+          true,
+          'TRANSLATION_FAILED'
+        );
+      }
+
+      // A single q comes back as a string, a list as a list
+      const translated: unknown = data.translatedText;
+      const results = Array.isArray(translated) ? translated : [translated];
+      if (results.length !== texts.length || results.some((text) => typeof text !== 'string')) {
+        throw new AppError('Translation service returned an unexpected response', 502, true, 'TRANSLATION_FAILED');
+      }
+      return results as string[];
+    },
+  };
+}
@@ -0,0 +1,15 @@
+// Offline provider for development and tests: tags each string with the target
+// language instead of translating it, so the flow can be checked end to end
+
+import { Locale } from '@/i18n';
+import { TranslationProvider } from './machine-translation';
+
+export function createMockTranslationProvider(): TranslationProvider {
+  return {
+    name: 'mock',
+
+    async translate(texts: string[], _source: Locale, target: Locale) {
+      return texts.map((text) => `[${target}] ${text}`);
+    },
+  };
+}
@@ -1,7 +1,9 @@
-import { writeFile, mkdir } from 'fs/promises';
-import { existsSync } from 'fs';
 import path from 'path';
 import sharp from 'sharp';
+import { StorageBackend, getStorage, mediaUrl } from '@/lib/storage';
+import { ImageDerivative } from '@/lib/performance';
+import { generateDerivatives, supportsDerivatives } from '@/lib/image-derivatives';
+import { perceptualHash, sha256Hex } from '@/lib/image-hash';
 
 export interface UploadedFile {
   filename: string;
@@ -9,9 +11,14 @@ export interface UploadedFile {
   mimeType: string;
   size: number;
   url: string;
+  // Storage key, e.g. "products/1700000000000-abc.jpg"
   path: string;
+  storage: StorageBackend;
   width?: number;
   height?: number;
+  derivatives?: ImageDerivative[];
+  sha256: string;
+  phash: string | null;
 }
 
 export async function uploadImage(
@@ -28,13 +35,7 @@ export async function uploadImage(
     const ext = path.extname(file.name).toLowerCase();
     const filename = `${timestamp}-${randomStr}${ext}`;
 
-    // Create upload directory if it doesn't exist
-    const uploadDir = path.join(process.cwd(), 'public', 'uploads', folder);
-    if (!existsSync(uploadDir)) {
-      await mkdir(uploadDir, { recursive: true });
-    }
-
-    const filepath = path.join(uploadDir, filename);
+    const key = `${folder}/${filename}`;
 
     // Optimize image with Sharp
     let processedBuffer: Buffer = buffer;
@@ -75,10 +76,21 @@ export async function uploadImage(
       metadata = await sharp(processedBuffer).metadata();
     }
 
-    // Write file to disk
-    await writeFile(filepath, processedBuffer);
+    // Hand the file to the configured storage backend
+    const storage = getStorage();
+    await storage.put(key, processedBuffer, file.type);
+
+    const url = mediaUrl(key);
 
-    const url = `/uploads/${folder}/${filename}`;
+    // Responsive copies are best-effort; the backfill job picks up any that fail here
+    let derivatives: ImageDerivative[] | undefined;
+    if (supportsDerivatives(file.type)) {
+      try {
+        derivatives = await generateDerivatives(processedBuffer, key, storage);
+      } catch (error) {
+        console.error('Derivative generation error:', error);
+      }
+    }
 
     return {
       filename,
@@ -86,9 +98,14 @@ export async function uploadImage(
       mimeType: file.type,
       size: processedBuffer.length,
       url,
-      path: filepath,
+      path: key,
+      storage: storage.backend,
       width: metadata?.width,
       height: metadata?.height,
+      derivatives,
+      // Fingerprint the original so re-uploading the same file is recognized
+      sha256: sha256Hex(buffer),
+      phash: file.type.startsWith('image/') ? await perceptualHash(buffer) : null,
     };
   } catch (error) {
     console.error('Upload error:', error);
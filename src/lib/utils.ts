@@ -17,7 +17,32 @@ export function slugify(text: string): string {
     .replace(/-+$/, '');
 }
 
-export function formatPrice(price: number, currency: string = 'LAK'): string {
+export interface PriceRange {
+  min: number;
+  max: number;
+}
+
+type PricedVariant = { price: unknown; isAvailable: boolean };
+
+// Lowest and highest price over available variants; variants without
+// their own price fall back to the product price
+export function getPriceRange(
+  basePrice: unknown,
+  variants: PricedVariant[] = []
+): PriceRange | null {
+  const base = basePrice !== null && basePrice !== undefined ? Number(basePrice) : null;
+  const available = variants.filter((variant) => variant.isAvailable);
+
+  const prices = (available.length > 0 ? available.map((variant) => variant.price ?? base) : [base])
+    .filter((price): price is number | string => price !== null && price !== undefined)
+    .map(Number)
+    .filter((price) => !isNaN(price) && price > 0);
+
+  if (prices.length === 0) return null;
+  return { min: Math.min(...prices), max: Math.max(...prices) };
+}
+
+export function formatPrice(price: number | PriceRange, currency: string = 'LAK'): string {
   const currencySymbols: Record<string, string> = {
     LAK: '₭',
     THB: '฿',
@@ -26,6 +51,12 @@ export function formatPrice(price: number, currency: string = 'LAK'): string {
   };
 
   const symbol = currencySymbols[currency] || currency;
+
+  if (typeof price !== 'number') {
+    if (price.min === price.max) return formatPrice(price.min, currency);
+    return `${formatPrice(price.min, currency)} – ${formatPrice(price.max, currency)}`;
+  }
+
   return `${symbol}${price.toLocaleString()}`;
 }
 
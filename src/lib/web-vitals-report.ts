@@ -0,0 +1,278 @@
+// Server side of Core Web Vitals: validating the batches sent by
+// `web-vitals.ts`, storing them and the p75 report of the admin performance page
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { AppError, ValidationError } from './error-handler';
+import { getRating } from './web-vitals';
+import { locales, Locale } from '@/i18n';
+
+export const CORE_METRICS = ['LCP', 'INP', 'CLS', 'FCP', 'TTFB'] as const;
+export type CoreMetric = (typeof CORE_METRICS)[number];
+
+export const DEVICE_CLASSES = ['mobile', 'tablet', 'desktop'] as const;
+export type DeviceClass = (typeof DEVICE_CLASSES)[number];
+
+export const REPORT_RANGES = [1, 7, 30];
+
+export const MAX_PAYLOAD_BYTES = 32 * 1024;
+const MAX_METRICS_PER_BATCH = 50;
+// CLS is unitless; everything else is milliseconds
+const MAX_VALUE: Record<CoreMetric, number> = { CLS: 100, LCP: 600000, INP: 600000, FCP: 600000, TTFB: 600000 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 90;
+// p75 must get this much worse than the previous period to count as a regression
+const REGRESSION_THRESHOLD = 0.1;
+const MIN_SAMPLES = 5;
+
+// Dynamic segments are collapsed so every product counts as one route
+const ROUTE_PATTERNS: Array<[RegExp, string]> = [
+  [/^\/products\/category\/[^/]+$/, '/products/category/[slug]'],
+  [/^\/products\/[^/]+$/, '/products/[slug]'],
+  [/^\/articles\/[^/]+$/, '/articles/[slug]'],
+  [/^\/tags\/[^/]+$/, '/tags/[slug]'],
+  [/^\/(about|articles|contact|faq|products|search|tags)?$/, ''],
+];
+
+export interface WebVitalInput {
+  name: CoreMetric;
+  value: number;
+  rating: string;
+  route: string;
+  device: DeviceClass;
+  navigationType: string | null;
+}
+
+export function deviceClassOf(userAgent: string | null): DeviceClass {
+  if (!userAgent) return 'desktop';
+  if (/iPad|Tablet|Android(?!.*Mobile)/i.test(userAgent)) return 'tablet';
+  if (/Mobi|iPhone|Android/i.test(userAgent)) return 'mobile';
+  return 'desktop';
+}
+
+// Page URL → route pattern without the locale prefix; null for pages not reported on
+export function routeOf(url: string): string | null {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return null;
+  }
+
+  const segments = pathname.split('/').filter(Boolean);
+  if (locales.includes(segments[0] as Locale)) segments.shift();
+  const path = `/${segments.join('/')}`;
+
+  for (const [pattern, route] of ROUTE_PATTERNS) {
+    if (pattern.test(path)) return route || path;
+  }
+  return null;
+}
+
+// Body: { metrics: [{ name, value, url, navigationType }] }. Malformed batches
+// are rejected whole; metrics other than the core five are skipped.
+export function parseWebVitals(body: any, userAgent: string | null): WebVitalInput[] {
+  const metrics = body?.metrics;
+  if (!Array.isArray(metrics) || metrics.length === 0) {
+    throw new ValidationError('metrics must be a non-empty list', 'metrics');
+  }
+  if (metrics.length > MAX_METRICS_PER_BATCH) {
+    throw new AppError(`At most ${MAX_METRICS_PER_BATCH} metrics per batch`, 413, true, 'PAYLOAD_TOO_LARGE');
+  }
+
+  const device = deviceClassOf(userAgent);
+  const parsed: WebVitalInput[] = [];
+
+  for (const metric of metrics) {
+    if (!metric || typeof metric.name !== 'string' || typeof metric.url !== 'string') {
+      throw new ValidationError('Each metric needs a name and url', 'metrics');
+    }
+    if (!CORE_METRICS.includes(metric.name as CoreMetric)) continue;
+
+    const name = metric.name as CoreMetric;
+    const value = metric.value;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > MAX_VALUE[name]) {
+      throw new ValidationError(`Invalid value for ${name}`, 'metrics');
+    }
+
+    const route = routeOf(metric.url);
+    if (!route) continue;
+
+    parsed.push({
+      name,
+      value,
+      rating: getRating(name, value),
+      route,
+      device,
+      navigationType: typeof metric.navigationType === 'string' ? metric.navigationType.substring(0, 20) : null,
+    });
+  }
+
+  return parsed;
+}
+
+function retentionDays(): number {
+  const days = parseInt(process.env.WEB_VITALS_RETENTION_DAYS || '');
+  return days > 0 ? days : DEFAULT_RETENTION_DAYS;
+}
+
+let lastPrunedAt = 0;
+
+// Deletes samples past the retention period, at most once a day per process
+async function pruneWebVitals() {
+  const now = Date.now();
+  if (now - lastPrunedAt < DAY_MS) return;
+  lastPrunedAt = now;
+
+  await prisma.webVital.deleteMany({
+    where: { createdAt: { lt: new Date(now - retentionDays() * DAY_MS) } },
+  });
+}
+
+export async function recordWebVitals(metrics: WebVitalInput[]): Promise<number> {
+  await pruneWebVitals();
+  if (metrics.length === 0) return 0;
+
+  const { count } = await prisma.webVital.createMany({ data: metrics });
+  return count;
+}
+
+export interface WebVitalFilters {
+  days: number;
+  device?: DeviceClass;
+  route?: string;
+}
+
+export interface WebVitalSummary {
+  p75: number;
+  samples: number;
+  rating: string;
+}
+
+export interface WebVitalRow extends WebVitalSummary {
+  name: CoreMetric;
+  route: string;
+  device: DeviceClass;
+  previousP75: number | null;
+  // Relative change of p75 against the previous period of the same length
+  change: number | null;
+  regressed: boolean;
+}
+
+export interface WebVitalDay {
+  date: string;
+  metrics: Partial<Record<CoreMetric, WebVitalSummary>>;
+}
+
+export interface WebVitalReport {
+  days: number;
+  retentionDays: number;
+  routes: string[];
+  summary: Partial<Record<CoreMetric, WebVitalSummary>>;
+  rows: WebVitalRow[];
+  daily: WebVitalDay[];
+}
+
+export function parseWebVitalFilters(searchParams: URLSearchParams): WebVitalFilters {
+  const days = parseInt(searchParams.get('days') || '7');
+  if (!REPORT_RANGES.includes(days)) {
+    throw new ValidationError(`days must be one of ${REPORT_RANGES.join(', ')}`, 'days');
+  }
+
+  const device = searchParams.get('device') || undefined;
+  if (device && !DEVICE_CLASSES.includes(device as DeviceClass)) {
+    throw new ValidationError('Invalid device class', 'device');
+  }
+
+  return { days, device: device as DeviceClass | undefined, route: searchParams.get('route') || undefined };
+}
+
+export async function getWebVitalReport({ days, device, route }: WebVitalFilters): Promise<WebVitalReport> {
+  const since = new Date(Date.now() - days * DAY_MS);
+  const previousSince = new Date(since.getTime() - days * DAY_MS);
+  const filters = Prisma.sql`
+    ${device ? Prisma.sql`AND "device" = ${device}` : Prisma.empty}
+    ${route ? Prisma.sql`AND "route" = ${route}` : Prisma.empty}
+  `;
+
+  const [rowResults, summaryResults, dailyResults, routeResults] = await Promise.all([
+    prisma.$queryRaw<Array<{
+      name: CoreMetric;
+      route: string;
+      device: DeviceClass;
+      p75: number | null;
+      samples: bigint;
+      previousP75: number | null;
+      previousSamples: bigint;
+    }>>`
+      SELECT "name", "route", "device",
+        percentile_cont(0.75) WITHIN GROUP (ORDER BY "value") FILTER (WHERE "createdAt" >= ${since}) AS "p75",
+        COUNT(*) FILTER (WHERE "createdAt" >= ${since}) AS "samples",
+        percentile_cont(0.75) WITHIN GROUP (ORDER BY "value") FILTER (WHERE "createdAt" < ${since}) AS "previousP75",
+        COUNT(*) FILTER (WHERE "createdAt" < ${since}) AS "previousSamples"
+      FROM "WebVital"
+      WHERE "createdAt" >= ${previousSince} ${filters}
+      GROUP BY "name", "route", "device"
+    `,
+    prisma.$queryRaw<Array<{ name: CoreMetric; p75: number; samples: bigint }>>`
+      SELECT "name", percentile_cont(0.75) WITHIN GROUP (ORDER BY "value") AS "p75", COUNT(*) AS "samples"
+      FROM "WebVital"
+      WHERE "createdAt" >= ${since} ${filters}
+      GROUP BY "name"
+    `,
+    prisma.$queryRaw<Array<{ day: Date; name: CoreMetric; p75: number; samples: bigint }>>`
+      SELECT date_trunc('day', "createdAt") AS "day", "name",
+        percentile_cont(0.75) WITHIN GROUP (ORDER BY "value") AS "p75", COUNT(*) AS "samples"
+      FROM "WebVital"
+      WHERE "createdAt" >= ${since} ${filters}
+      GROUP BY 1, 2
+      ORDER BY 1
+    `,
+    prisma.webVital.findMany({ distinct: ['route'], select: { route: true }, orderBy: { route: 'asc' } }),
+  ]);
+
+  const summarize = (name: CoreMetric, p75: number, samples: bigint): WebVitalSummary => ({
+    p75,
+    samples: Number(samples),
+    rating: getRating(name, p75),
+  });
+
+  const rows = rowResults
+    .filter((row) => row.p75 !== null)
+    .map((row) => {
+      const comparable = Number(row.samples) >= MIN_SAMPLES && Number(row.previousSamples) >= MIN_SAMPLES;
+      const previousP75 = comparable ? row.previousP75 : null;
+      const change = previousP75 ? row.p75! / previousP75 - 1 : null;
+
+      return {
+        ...summarize(row.name, row.p75!, row.samples),
+        name: row.name,
+        route: row.route,
+        device: row.device,
+        previousP75,
+        change,
+        regressed: change !== null && change >= REGRESSION_THRESHOLD,
+      };
+    })
+    .sort((a, b) => a.route.localeCompare(b.route) || a.device.localeCompare(b.device));
+
+  const daily = new Map<string, WebVitalDay>();
+  for (const result of dailyResults) {
+    const date = result.day.toISOString().substring(0, 10);
+    const day = daily.get(date) || { date, metrics: {} };
+    day.metrics[result.name] = summarize(result.name, result.p75, result.samples);
+    daily.set(date, day);
+  }
+
+  return {
+    days,
+    retentionDays: retentionDays(),
+    routes: routeResults.map((result) => result.route),
+    summary: Object.fromEntries(
+      summaryResults.map((result) => [result.name, summarize(result.name, result.p75, result.samples)])
+    ),
+    rows,
+    daily: Array.from(daily.values()),
+  };
+}
@@ -4,9 +4,17 @@ import createMiddleware from 'next-intl/middleware';
 import { NextRequest, NextResponse } from 'next/server';
 // @ts-ignore
 import { getToken } from 'next-auth/jwt';
-import { locales, defaultLocale } from './i18n';
-import { rateLimit, getClientIP, SECURITY_CONFIG, validateEnvironmentVariables } from './lib/security';
+import { locales, defaultLocale, Locale } from './i18n';
+import { getClientIP, getTrustedClientIP, SECURITY_CONFIG, validateEnvironmentVariables } from './lib/security';
 import { logError } from './lib/error-handler';
+import { createMemoryStore } from './lib/store-memory';
+import {
+  MaintenanceState,
+  isMaintenanceActive,
+  isAllowedIP,
+  getRetryAfterSeconds,
+  renderMaintenancePage,
+} from './lib/maintenance';
 
 // Validate environment variables on startup
 const envValidation = validateEnvironmentVariables();
@@ -25,8 +33,93 @@ const intlMiddleware = createMiddleware({
   localePrefix: 'as-needed',
 });
 
-// Rate limiting for API routes
-const apiRateLimit = new Map<string, { count: number; resetTime: number }>();
+// Calls the app's own API routes for work the Edge runtime cannot do. The origin
+// is fixed by env, never taken from request.url, whose host the client controls.
+function internalFetch(path: string, init: { method?: string; headers?: Record<string, string>; body?: string } = {}) {
+  // @ts-ignore
+  const origin = process.env.INTERNAL_API_URL || `http://127.0.0.1:${process.env.PORT || 3000}`;
+  // @ts-ignore
+  const key: string | undefined = process.env.INTERNAL_API_KEY;
+
+  return fetch(new URL(path, origin), {
+    ...init,
+    headers: { ...init.headers, ...(key && { 'x-internal-key': key }) },
+    cache: 'no-store',
+  });
+}
+
+// Read-only endpoints every page (and the currency switcher) calls; all other API routes are rate limited
+const RATE_LIMIT_EXEMPT_PATHS = ['/api/public/settings', '/api/public/currency'];
+
+// The middleware's own lookups through internalFetch pass through here again and
+// must not count against (or recurse into) the limit. Only an exemption rides on
+// this check, so a plain comparison is enough.
+function carriesInternalKey(request: NextRequest): boolean {
+  // @ts-ignore
+  const key: string | undefined = process.env.INTERNAL_API_KEY;
+  return !!key && request.headers.get('x-internal-key') === key;
+}
+
+// Rate limiting for API routes. With STORE_DRIVER=redis the count is shared by
+// all instances, so it goes through an internal API route (Redis needs Node sockets).
+const apiRateLimit = createMemoryStore();
+
+async function isRateLimited(key: string): Promise<boolean> {
+  // The shared count needs INTERNAL_API_KEY: the route rejects calls without it
+  // @ts-ignore
+  if (process.env.STORE_DRIVER === 'redis' && process.env.INTERNAL_API_KEY) {
+    try {
+      const res = await internalFetch('/api/public/rate-limit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ key, limit: SECURITY_CONFIG.RATE_LIMIT_MAX_REQUESTS }),
+      });
+      const result = await res.json();
+      if (result.success) return !result.data.success;
+      throw new Error(result.error || `Rate limit lookup failed with ${res.status}`);
+    } catch (error) {
+      // Fall back to this instance's own count rather than dropping the limit
+      logError(error, 'Middleware - rate limit lookup');
+    }
+  }
+
+  const result = await apiRateLimit.rateLimit(key, SECURITY_CONFIG.RATE_LIMIT_MAX_REQUESTS, SECURITY_CONFIG.RATE_LIMIT_WINDOW);
+  return !result.success;
+}
+
+// Maintenance settings are read over HTTP because Prisma cannot run in middleware
+const MAINTENANCE_CACHE_TTL = 30 * 1000;
+let maintenanceCache: { state: MaintenanceState | null; expiresAt: number } | null = null;
+
+async function loadMaintenanceState(): Promise<MaintenanceState | null> {
+  const now = Date.now();
+  if (maintenanceCache && maintenanceCache.expiresAt > now) {
+    return maintenanceCache.state;
+  }
+
+  let state: MaintenanceState | null = null;
+  try {
+    const res = await internalFetch('/api/public/maintenance');
+    const result = await res.json();
+    state = result.success ? result.data : null;
+  } catch (error) {
+    // Keep the site up if the lookup fails
+    logError(error, 'Middleware - maintenance lookup');
+  }
+
+  maintenanceCache = { state, expiresAt: now + MAINTENANCE_CACHE_TTL };
+  return state;
+}
+
+function resolveLocale(request: NextRequest): Locale {
+  const segment = request.nextUrl.pathname.split('/')[1];
+  if (locales.includes(segment as Locale)) return segment as Locale;
+
+  const cookieLocale = request.cookies.get('NEXT_LOCALE')?.value;
+  if (locales.includes(cookieLocale as Locale)) return cookieLocale as Locale;
+
+  return defaultLocale;
+}
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -47,35 +140,20 @@ export async function middleware(request: NextRequest) {
     pathname.startsWith('/_next') ||
     pathname.startsWith('/uploads')
   ) {
-    // Rate limiting for API routes (except public settings)
-    if (pathname.startsWith('/api') && !pathname.startsWith('/api/public/settings')) {
-      const rateLimitKey = `api:${clientIP}`;
-      const now = Date.now();
-      const windowStart = now - SECURITY_CONFIG.RATE_LIMIT_WINDOW;
-      
-      // Clean up old entries
-      for (const [key, value] of apiRateLimit.entries()) {
-        if (value.resetTime < now) {
-          apiRateLimit.delete(key);
-        }
-      }
-      
-      // Check current rate limit
-      const current = apiRateLimit.get(rateLimitKey);
-      
-      if (!current) {
-        apiRateLimit.set(rateLimitKey, { count: 1, resetTime: now + SECURITY_CONFIG.RATE_LIMIT_WINDOW });
-      } else {
-        if (current.count >= SECURITY_CONFIG.RATE_LIMIT_MAX_REQUESTS) {
-          return new NextResponse(
-            JSON.stringify({ success: false, error: 'Rate limit exceeded' }),
-            {
-              status: 429,
-              headers: { 'Content-Type': 'application/json' }
-            }
-          );
-        }
-        current.count++;
+    // Rate limiting for API routes
+    if (
+      pathname.startsWith('/api') &&
+      !RATE_LIMIT_EXEMPT_PATHS.includes(pathname) &&
+      !carriesInternalKey(request)
+    ) {
+      if (await isRateLimited(`api:${clientIP}`)) {
+        return new NextResponse(
+          JSON.stringify({ success: false, error: 'Rate limit exceeded' }),
+          {
+            status: 429,
+            headers: { 'Content-Type': 'application/json' }
+          }
+        );
       }
     }
 
@@ -105,6 +183,29 @@ export async function middleware(request: NextRequest) {
     return response;
   }
 
+  // Maintenance mode: signed-in staff and allowlisted IPs still see the site.
+  // The allowlist only matches an IP from a trusted source, never X-Forwarded-For as sent.
+  const maintenance = await loadMaintenanceState();
+  const trustedIP = getTrustedClientIP(request);
+  if (maintenance && isMaintenanceActive(maintenance) && !(trustedIP && isAllowedIP(maintenance, trustedIP))) {
+    const token = await getToken({
+      req: request,
+      // @ts-ignore
+      secret: process.env.NEXTAUTH_SECRET,
+    });
+
+    if (!token) {
+      return new NextResponse(renderMaintenancePage(maintenance, resolveLocale(request)), {
+        status: 503,
+        headers: {
+          'Content-Type': 'text/html; charset=utf-8',
+          'Retry-After': String(getRetryAfterSeconds(maintenance)),
+          'Cache-Control': 'no-store',
+        },
+      });
+    }
+  }
+
   // Handle public routes with i18n
   const intlResponse = intlMiddleware(request);
   